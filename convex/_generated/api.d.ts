@@ -8,16 +8,32 @@
  * @module
  */
 
+import type * as chapterThemes from "../chapterThemes.js";
 import type * as cleanup from "../cleanup.js";
+import type * as conversations from "../conversations.js";
+import type * as creditBundles from "../creditBundles.js";
 import type * as crons from "../crons.js";
 import type * as feedback from "../feedback.js";
+import type * as giftCodes from "../giftCodes.js";
 import type * as http from "../http.js";
+import type * as imageBatches from "../imageBatches.js";
+import type * as imageJobs from "../imageJobs.js";
+import type * as imageVotes from "../imageVotes.js";
 import type * as invoices from "../invoices.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lightningSettlement from "../lightningSettlement.js";
 import type * as modelStats from "../modelStats.js";
+import type * as moderation from "../moderation.js";
 import type * as nostr from "../nostr.js";
+import type * as paymentProviders from "../paymentProviders.js";
+import type * as promptVersions from "../promptVersions.js";
 import type * as rateLimit from "../rateLimit.js";
 import type * as sessions from "../sessions.js";
+import type * as verseIds from "../verseIds.js";
 import type * as verseImages from "../verseImages.js";
+import type * as visualRegistry from "../visualRegistry.js";
+import type * as walletConnect from "../walletConnect.js";
+import type * as walletConnectActions from "../walletConnectActions.js";
 
 import type {
   ApiFromModules,
@@ -26,16 +42,32 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  chapterThemes: typeof chapterThemes;
   cleanup: typeof cleanup;
+  conversations: typeof conversations;
+  creditBundles: typeof creditBundles;
   crons: typeof crons;
   feedback: typeof feedback;
+  giftCodes: typeof giftCodes;
   http: typeof http;
+  imageBatches: typeof imageBatches;
+  imageJobs: typeof imageJobs;
+  imageVotes: typeof imageVotes;
   invoices: typeof invoices;
+  "lib/auth": typeof lib_auth;
+  lightningSettlement: typeof lightningSettlement;
   modelStats: typeof modelStats;
+  moderation: typeof moderation;
   nostr: typeof nostr;
+  paymentProviders: typeof paymentProviders;
+  promptVersions: typeof promptVersions;
   rateLimit: typeof rateLimit;
   sessions: typeof sessions;
+  verseIds: typeof verseIds;
   verseImages: typeof verseImages;
+  visualRegistry: typeof visualRegistry;
+  walletConnect: typeof walletConnect;
+  walletConnectActions: typeof walletConnectActions;
 }>;
 
 /**
@@ -0,0 +1,201 @@
+import { action, internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { requireAdminSession, validateServerSecret } from "./lib/auth";
+
+/**
+ * Per-chapter visual themes shared by every image in a chapter.
+ * One row per book/chapter; edited by admins, optionally from an LLM draft.
+ */
+
+const themeSourceValidator = v.union(v.literal("admin"), v.literal("drafted"));
+
+const MAX_THEME_FIELD_LENGTH = 500;
+
+/**
+ * The theme for a chapter, or null if none is set.
+ * Themes are public: they end up in image prompts and saved image metadata.
+ */
+export const getChapterTheme = query({
+  args: {
+    book: v.string(),
+    chapter: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const theme = await ctx.db
+      .query("chapterThemes")
+      .withIndex("by_book_chapter", (q) =>
+        q.eq("book", args.book.toLowerCase()).eq("chapter", args.chapter)
+      )
+      .first();
+    if (!theme) return null;
+
+    return {
+      setting: theme.setting,
+      palette: theme.palette,
+      elements: theme.elements,
+      style: theme.style,
+    };
+  },
+});
+
+/**
+ * Themes of a book, in chapter order, with edit details. Admin sessions only.
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const listChapterThemes = query({
+  args: {
+    sid: v.string(),
+    book: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    await requireAdminSession(ctx, args.sid);
+
+    const themes = await ctx.db
+      .query("chapterThemes")
+      .withIndex("by_book_chapter", (q) => q.eq("book", args.book.toLowerCase()))
+      .collect();
+
+    return themes.map((theme) => ({
+      book: theme.book,
+      chapter: theme.chapter,
+      setting: theme.setting,
+      palette: theme.palette,
+      elements: theme.elements,
+      style: theme.style,
+      source: theme.source,
+      draftModel: theme.draftModel,
+      updatedAt: theme.updatedAt,
+    }));
+  },
+});
+
+/**
+ * Internal mutation to create or replace a chapter's theme. Admin sessions only.
+ */
+export const saveChapterThemeInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    book: v.string(),
+    chapter: v.number(),
+    setting: v.string(),
+    palette: v.string(),
+    elements: v.string(),
+    style: v.string(),
+    source: themeSourceValidator,
+    draftModel: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdminSession(ctx, args.sid);
+
+    const fields = {
+      setting: args.setting.slice(0, MAX_THEME_FIELD_LENGTH),
+      palette: args.palette.slice(0, MAX_THEME_FIELD_LENGTH),
+      elements: args.elements.slice(0, MAX_THEME_FIELD_LENGTH),
+      style: args.style.slice(0, MAX_THEME_FIELD_LENGTH),
+      source: args.source,
+      draftModel: args.source === "drafted" ? args.draftModel : undefined,
+      updatedBySid: args.sid,
+      updatedAt: Date.now(),
+    };
+
+    const book = args.book.toLowerCase();
+    const existing = await ctx.db
+      .query("chapterThemes")
+      .withIndex("by_book_chapter", (q) => q.eq("book", book).eq("chapter", args.chapter))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return { created: false };
+    }
+
+    await ctx.db.insert("chapterThemes", {
+      book,
+      chapter: args.chapter,
+      ...fields,
+      createdAt: fields.updatedAt,
+    });
+    return { created: true };
+  },
+});
+
+/**
+ * Internal mutation to remove a chapter's theme. Admin sessions only.
+ */
+export const deleteChapterThemeInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    book: v.string(),
+    chapter: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await requireAdminSession(ctx, args.sid);
+
+    const existing = await ctx.db
+      .query("chapterThemes")
+      .withIndex("by_book_chapter", (q) =>
+        q.eq("book", args.book.toLowerCase()).eq("chapter", args.chapter)
+      )
+      .first();
+    if (!existing) return { deleted: false };
+
+    await ctx.db.delete(existing._id);
+    return { deleted: true };
+  },
+});
+
+/**
+ * Save a chapter's theme.
+ * Requires server secret for authorization.
+ */
+export const saveChapterTheme = action({
+  args: {
+    sid: v.string(),
+    book: v.string(),
+    chapter: v.number(),
+    setting: v.string(),
+    palette: v.string(),
+    elements: v.string(),
+    style: v.string(),
+    source: themeSourceValidator,
+    draftModel: v.optional(v.string()),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ created: boolean }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.chapterThemes.saveChapterThemeInternal, {
+      sid: args.sid,
+      book: args.book,
+      chapter: args.chapter,
+      setting: args.setting,
+      palette: args.palette,
+      elements: args.elements,
+      style: args.style,
+      source: args.source,
+      draftModel: args.draftModel,
+    });
+  },
+});
+
+/**
+ * Remove a chapter's theme.
+ * Requires server secret for authorization.
+ */
+export const deleteChapterTheme = action({
+  args: {
+    sid: v.string(),
+    book: v.string(),
+    chapter: v.number(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ deleted: boolean }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.chapterThemes.deleteChapterThemeInternal, {
+      sid: args.sid,
+      book: args.book,
+      chapter: args.chapter,
+    });
+  },
+});
@@ -1,7 +1,7 @@
 import { internalMutation } from "./_generated/server";
 
 /**
- * Delete sessions past their expiresAt timestamp.
+ * Delete sessions past their expiresAt timestamp, with their connected wallets.
  * Called by cron job to clean up abandoned sessions.
  */
 export const cleanupExpiredSessions = internalMutation({
@@ -18,6 +18,12 @@ export const cleanupExpiredSessions = internalMutation({
 
     for (const session of expired) {
       await ctx.db.delete(session._id);
+      // Don't keep a wallet's (encrypted) secret past its session
+      const wallet = await ctx.db
+        .query("walletConnections")
+        .withIndex("by_sid", (q) => q.eq("sid", session.sid))
+        .first();
+      if (wallet) await ctx.db.delete(wallet._id);
     }
 
     return { deleted: expired.length };
@@ -0,0 +1,283 @@
+import { action, internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { validateServerSecret } from "./lib/auth";
+
+const chatMessageMetadataValidator = v.object({
+  model: v.optional(v.string()),
+  promptTokens: v.optional(v.number()),
+  completionTokens: v.optional(v.number()),
+  totalTokens: v.optional(v.number()),
+  finishReason: v.optional(v.string()),
+  latencyMs: v.optional(v.number()),
+  creditsCharged: v.optional(v.number()),
+  actualCredits: v.optional(v.number()),
+});
+
+const chatMessageValidator = v.object({
+  messageId: v.string(),
+  role: v.union(v.literal("user"), v.literal("assistant")),
+  text: v.string(),
+  metadata: v.optional(chatMessageMetadataValidator),
+});
+
+const MAX_TITLE_LENGTH = 60;
+// Long enough for any assistant answer; keeps documents well under Convex limits
+const MAX_MESSAGE_TEXT_LENGTH = 32_000;
+const MAX_CONVERSATIONS_LISTED = 50;
+
+/**
+ * Title for a new conversation, taken from its first user message.
+ * Collapses whitespace and cuts at a word boundary with an ellipsis.
+ */
+export function deriveConversationTitle(text: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (!normalized) return "New conversation";
+  if (normalized.length <= MAX_TITLE_LENGTH) return normalized;
+
+  const cut = normalized.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  const base = lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${base.trimEnd()}…`;
+}
+
+/**
+ * A session's conversations at a verse location, most recently active first.
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const listConversations = query({
+  args: {
+    sid: v.string(),
+    verseId: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_sid_verse", (q) =>
+        q.eq("sid", args.sid).eq("verseId", args.verseId)
+      )
+      .order("desc")
+      .take(MAX_CONVERSATIONS_LISTED);
+
+    return conversations.map((conversation) => ({
+      id: conversation._id,
+      title: conversation.title,
+      messageCount: conversation.messageCount,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    }));
+  },
+});
+
+/**
+ * A conversation with its messages in order, or null if it doesn't exist or
+ * belongs to another session.
+ */
+export const getConversation = query({
+  args: {
+    sid: v.string(),
+    conversationId: v.id("conversations"),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.sid !== args.sid) return null;
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .collect();
+
+    return {
+      id: conversation._id,
+      verseId: conversation.verseId,
+      title: conversation.title,
+      messages: messages.map((message) => ({
+        id: message.messageId,
+        role: message.role,
+        text: message.text,
+        metadata: message.metadata,
+        createdAt: message.createdAt,
+      })),
+    };
+  },
+});
+
+/**
+ * Internal mutation to append a message to a conversation, creating the
+ * conversation (titled from the message) when conversationId is omitted.
+ * Re-sending a messageId updates the stored message instead of duplicating it.
+ */
+export const appendMessageInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    conversationId: v.optional(v.id("conversations")),
+    verseId: v.string(),
+    message: chatMessageValidator,
+  },
+  handler: async (ctx, args): Promise<Id<"conversations">> => {
+    const now = Date.now();
+    const text = args.message.text.slice(0, MAX_MESSAGE_TEXT_LENGTH);
+
+    let conversationId = args.conversationId;
+    if (conversationId) {
+      const conversation = await ctx.db.get(conversationId);
+      if (!conversation || conversation.sid !== args.sid) {
+        throw new Error("Conversation not found");
+      }
+    } else {
+      conversationId = await ctx.db.insert("conversations", {
+        sid: args.sid,
+        verseId: args.verseId,
+        title: deriveConversationTitle(text),
+        messageCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const existing = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation_message", (q) =>
+        q.eq("conversationId", conversationId).eq("messageId", args.message.messageId)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { text, metadata: args.message.metadata });
+      await ctx.db.patch(conversationId, { updatedAt: now });
+    } else {
+      await ctx.db.insert("messages", {
+        conversationId,
+        messageId: args.message.messageId,
+        role: args.message.role,
+        text,
+        metadata: args.message.metadata,
+        createdAt: now,
+      });
+      const conversation = await ctx.db.get(conversationId);
+      await ctx.db.patch(conversationId, {
+        messageCount: (conversation?.messageCount ?? 0) + 1,
+        updatedAt: now,
+      });
+    }
+
+    return conversationId;
+  },
+});
+
+/**
+ * Public action to append a chat message.
+ * Validates server secret before calling internal mutation.
+ */
+export const appendMessage = action({
+  args: {
+    sid: v.string(),
+    conversationId: v.optional(v.id("conversations")),
+    verseId: v.string(),
+    message: chatMessageValidator,
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"conversations">> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.conversations.appendMessageInternal, {
+      sid: args.sid,
+      conversationId: args.conversationId,
+      verseId: args.verseId,
+      message: args.message,
+    });
+  },
+});
+
+/**
+ * Internal mutation to rename a session's conversation.
+ */
+export const renameConversationInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    conversationId: v.id("conversations"),
+    title: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.sid !== args.sid) {
+      throw new Error("Conversation not found");
+    }
+    const title = args.title.replace(/\s+/g, " ").trim().slice(0, MAX_TITLE_LENGTH * 2);
+    if (!title) {
+      throw new Error("Title is required");
+    }
+    await ctx.db.patch(args.conversationId, { title });
+    return { success: true, title };
+  },
+});
+
+/**
+ * Public action to rename a conversation.
+ * Validates server secret before calling internal mutation.
+ */
+export const renameConversation = action({
+  args: {
+    sid: v.string(),
+    conversationId: v.id("conversations"),
+    title: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; title: string }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.conversations.renameConversationInternal, {
+      sid: args.sid,
+      conversationId: args.conversationId,
+      title: args.title,
+    });
+  },
+});
+
+/**
+ * Internal mutation to delete a session's conversation and its messages.
+ */
+export const deleteConversationInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.sid !== args.sid) {
+      throw new Error("Conversation not found");
+    }
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .collect();
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+    await ctx.db.delete(args.conversationId);
+    return { success: true };
+  },
+});
+
+/**
+ * Public action to delete a conversation.
+ * Validates server secret before calling internal mutation.
+ */
+export const deleteConversation = action({
+  args: {
+    sid: v.string(),
+    conversationId: v.id("conversations"),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.conversations.deleteConversationInternal, {
+      sid: args.sid,
+      conversationId: args.conversationId,
+    });
+  },
+});
@@ -0,0 +1,79 @@
+/**
+ * Credit bundle catalog shared by the invoice route, the buy credits modal
+ * and Convex (which grants the credits when an invoice is paid). Prices and
+ * credits are defined once here so the modal can't quote a bundle that
+ * `createInvoice` would price differently.
+ */
+
+export interface CreditBundle {
+  id: string;
+  label: string;
+  amountUsd: number;
+  // Credits at the base rate, before any volume bonus
+  baseCredits: number;
+  bonusCredits: number;
+}
+
+export interface CreditPurchase {
+  bundleId: string;
+  amountUsd: number;
+  credits: number;
+}
+
+export const CREDITS_PER_USD = 100;
+
+export const CREDIT_BUNDLES: CreditBundle[] = [
+  { id: "starter", label: "Starter", amountUsd: 3, baseCredits: 300, bonusCredits: 0 },
+  { id: "reader", label: "Reader", amountUsd: 10, baseCredits: 1000, bonusCredits: 100 },
+  { id: "scholar", label: "Scholar", amountUsd: 25, baseCredits: 2500, bonusCredits: 400 },
+];
+
+export const DEFAULT_BUNDLE_ID = "starter";
+
+// Custom top-ups: whole dollars at the base rate, no bonus
+export const CUSTOM_BUNDLE_ID = "custom";
+export const MIN_CUSTOM_USD = 1;
+export const MAX_CUSTOM_USD = 100;
+
+// Credits granted for invoices created before bundles were recorded
+export const LEGACY_BUNDLE_CREDITS = 300;
+
+/**
+ * Sats to invoice for a USD price at a BTC/USD rate, rounded to the nearest sat.
+ * Convex recomputes it to check the amount the invoice route sends.
+ */
+export function usdToSats(usd: number, btcPriceUsd: number): number {
+  // 1 BTC = 100,000,000 sats
+  return Math.round((usd / btcPriceUsd) * 100_000_000);
+}
+
+export function bundleCredits(bundle: CreditBundle): number {
+  return bundle.baseCredits + bundle.bonusCredits;
+}
+
+/**
+ * Price and credits for a purchase of a catalog bundle, or of a custom
+ * amount when bundleId is CUSTOM_BUNDLE_ID. Returns null for an unknown
+ * bundle or a custom amount that isn't a whole number of dollars within
+ * MIN_CUSTOM_USD..MAX_CUSTOM_USD.
+ */
+export function resolveCreditPurchase(
+  bundleId: string,
+  customUsd?: number
+): CreditPurchase | null {
+  if (bundleId === CUSTOM_BUNDLE_ID) {
+    if (
+      customUsd === undefined ||
+      !Number.isInteger(customUsd) ||
+      customUsd < MIN_CUSTOM_USD ||
+      customUsd > MAX_CUSTOM_USD
+    ) {
+      return null;
+    }
+    return { bundleId, amountUsd: customUsd, credits: customUsd * CREDITS_PER_USD };
+  }
+
+  const bundle = CREDIT_BUNDLES.find((candidate) => candidate.id === bundleId);
+  if (!bundle) return null;
+  return { bundleId, amountUsd: bundle.amountUsd, credits: bundleCredits(bundle) };
+}
@@ -24,4 +24,25 @@ crons.daily(
   internal.cleanup.cleanupAdminLoginAttempts
 );
 
+// Fail image jobs whose worker stopped reporting progress
+crons.interval(
+  "fail stale image jobs",
+  { minutes: 10 },
+  internal.imageJobs.failStaleImageJobs
+);
+
+// Settle chapter batches that stopped making progress
+crons.interval(
+  "settle stale image batches",
+  { minutes: 10 },
+  internal.imageBatches.settleStaleImageBatches
+);
+
+// Confirm paid Lightning invoices without waiting for the buyer's browser
+crons.interval(
+  "settle pending invoices",
+  { seconds: 15 },
+  internal.lightningSettlement.sweepPendingInvoices
+);
+
 export default crons;
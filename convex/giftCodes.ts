@@ -0,0 +1,280 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { requireAdminSession, validateServerSecret } from "./lib/auth";
+
+/**
+ * Gift codes: admin-issued codes redeemable for credits, with a redemption
+ * cap, an expiry and a per-session limit. Each redemption is
+ * recorded in `giftCodeRedemptions` and in the credit ledger under
+ * `gift_code`.
+ */
+
+export const GIFT_CODE_LEDGER_REASON = "gift_code";
+export const MAX_GIFT_CODE_CREDITS = 10_000;
+export const MAX_GIFT_CODE_REDEMPTIONS = 10_000;
+export const MAX_GIFT_CODES_PER_BATCH = 100;
+// New codes can be redeemed once per session unless the admin sets a limit
+export const DEFAULT_GIFT_CODE_PER_SESSION_LIMIT = 1;
+
+const GIFT_CODE_LENGTH = 12;
+// No 0/O or 1/I/L, so codes survive being read aloud or retyped
+const GIFT_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const GIFT_CODE_PATTERN = new RegExp(`^[${GIFT_CODE_ALPHABET}]{${GIFT_CODE_LENGTH}}$`);
+
+export interface GiftCodeOptions {
+  credits: number;
+  maxRedemptions: number;
+  perSessionLimit?: number;
+  expiresAt: number;
+}
+
+/**
+ * Canonical form of a code as typed: uppercase, without spaces or dashes.
+ */
+export function normalizeGiftCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+/**
+ * Whether a normalized code could have been generated here. Anything else
+ * is rejected without a lookup.
+ */
+export function isWellFormedGiftCode(code: string): boolean {
+  return GIFT_CODE_PATTERN.test(code);
+}
+
+/**
+ * Display form of a normalized code, in dash-separated groups of four.
+ */
+export function formatGiftCode(code: string): string {
+  return code.match(/.{1,4}/g)?.join("-") ?? code;
+}
+
+/**
+ * A random normalized code. Bytes that would bias the alphabet are redrawn.
+ */
+export function generateGiftCode(
+  getRandomValues: (bytes: Uint8Array) => Uint8Array = (bytes) => crypto.getRandomValues(bytes)
+): string {
+  const unbiasedLimit = 256 - (256 % GIFT_CODE_ALPHABET.length);
+  let code = "";
+  while (code.length < GIFT_CODE_LENGTH) {
+    for (const byte of getRandomValues(new Uint8Array(GIFT_CODE_LENGTH))) {
+      if (byte < unbiasedLimit && code.length < GIFT_CODE_LENGTH) {
+        code += GIFT_CODE_ALPHABET[byte % GIFT_CODE_ALPHABET.length];
+      }
+    }
+  }
+  return code;
+}
+
+/**
+ * Why the options for new codes are invalid, or null when they're fine.
+ */
+export function validateGiftCodeOptions(options: GiftCodeOptions, now: number): string | null {
+  const { credits, maxRedemptions, perSessionLimit, expiresAt } = options;
+  if (!Number.isInteger(credits) || credits < 1 || credits > MAX_GIFT_CODE_CREDITS) {
+    return `Credits must be a whole number from 1 to ${MAX_GIFT_CODE_CREDITS}`;
+  }
+  if (
+    !Number.isInteger(maxRedemptions) ||
+    maxRedemptions < 1 ||
+    maxRedemptions > MAX_GIFT_CODE_REDEMPTIONS
+  ) {
+    return `Max redemptions must be a whole number from 1 to ${MAX_GIFT_CODE_REDEMPTIONS}`;
+  }
+  if (
+    perSessionLimit !== undefined &&
+    (!Number.isInteger(perSessionLimit) || perSessionLimit < 1 || perSessionLimit > maxRedemptions)
+  ) {
+    return "Per-session limit must be a whole number from 1 to the max redemptions";
+  }
+  if (!Number.isFinite(expiresAt) || expiresAt <= now) {
+    return "Expiry must be in the future";
+  }
+  return null;
+}
+
+/**
+ * Why this session can't redeem the code now, or null when it can.
+ */
+export function getGiftCodeRedemptionError(
+  giftCode: Pick<Doc<"giftCodes">, "expiresAt" | "maxRedemptions" | "redemptionCount" | "perSessionLimit">,
+  sessionRedemptions: number,
+  now: number
+): string | null {
+  if (now >= giftCode.expiresAt) return "This gift code has expired";
+  if (giftCode.redemptionCount >= giftCode.maxRedemptions) {
+    return "This gift code has been fully redeemed";
+  }
+  if (giftCode.perSessionLimit !== undefined && sessionRedemptions >= giftCode.perSessionLimit) {
+    return "This gift code has already been redeemed in this session";
+  }
+  return null;
+}
+
+/**
+ * Generate a batch of codes that share credits, limits and expiry. The
+ * per-session limit defaults to one redemption. Admin sessions only.
+ * Returns the codes in display form.
+ */
+export const createGiftCodes = mutation({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    credits: v.number(),
+    maxRedemptions: v.number(),
+    perSessionLimit: v.optional(v.number()),
+    expiresAt: v.number(),
+    count: v.number(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    await requireAdminSession(ctx, args.sid);
+
+    const now = Date.now();
+    const options = {
+      credits: args.credits,
+      maxRedemptions: args.maxRedemptions,
+      perSessionLimit: args.perSessionLimit ?? DEFAULT_GIFT_CODE_PER_SESSION_LIMIT,
+      expiresAt: args.expiresAt,
+    };
+    const optionsError = validateGiftCodeOptions(options, now);
+    if (optionsError) throw new Error(optionsError);
+    if (!Number.isInteger(args.count) || args.count < 1 || args.count > MAX_GIFT_CODES_PER_BATCH) {
+      throw new Error(`Count must be a whole number from 1 to ${MAX_GIFT_CODES_PER_BATCH}`);
+    }
+
+    const codes: string[] = [];
+    while (codes.length < args.count) {
+      const code = generateGiftCode();
+      const existing = await ctx.db
+        .query("giftCodes")
+        .withIndex("by_code", (q) => q.eq("code", code))
+        .first();
+      if (existing || codes.includes(code)) continue;
+
+      await ctx.db.insert("giftCodes", {
+        code,
+        ...options,
+        redemptionCount: 0,
+        note: args.note,
+        createdBySid: args.sid,
+        createdAt: now,
+      });
+      codes.push(code);
+    }
+
+    return { codes: codes.map(formatGiftCode) };
+  },
+});
+
+/**
+ * Most recently created codes with their redemption counts. Admin sessions only.
+ */
+export const listGiftCodes = query({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    await requireAdminSession(ctx, args.sid);
+
+    const giftCodes = await ctx.db
+      .query("giftCodes")
+      .order("desc")
+      .take(Math.min(args.limit ?? 100, 200));
+
+    return giftCodes.map((giftCode) => ({
+      code: formatGiftCode(giftCode.code),
+      credits: giftCode.credits,
+      maxRedemptions: giftCode.maxRedemptions,
+      redemptionCount: giftCode.redemptionCount,
+      perSessionLimit: giftCode.perSessionLimit,
+      expiresAt: giftCode.expiresAt,
+      note: giftCode.note,
+      createdAt: giftCode.createdAt,
+    }));
+  },
+});
+
+/**
+ * Redeem a code for the session: adds its credits, records the redemption
+ * and writes a `gift_code` ledger entry. Upgrades the tier to "paid" like a
+ * purchase (admin stays admin).
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const redeemGiftCode = mutation({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+
+    const code = normalizeGiftCode(args.code);
+    const giftCode = isWellFormedGiftCode(code)
+      ? await ctx.db
+          .query("giftCodes")
+          .withIndex("by_code", (q) => q.eq("code", code))
+          .first()
+      : null;
+    if (!giftCode) {
+      throw new Error("Gift code not found");
+    }
+
+    const session = await ctx.db
+      .query("sessions")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+    if (!session) {
+      throw new Error("Session not found");
+    }
+
+    const sessionRedemptions = await ctx.db
+      .query("giftCodeRedemptions")
+      .withIndex("by_code_sid", (q) => q.eq("code", code).eq("sid", args.sid))
+      .collect();
+
+    const now = Date.now();
+    const redemptionError = getGiftCodeRedemptionError(giftCode, sessionRedemptions.length, now);
+    if (redemptionError) {
+      throw new Error(redemptionError);
+    }
+
+    await ctx.db.patch(giftCode._id, {
+      redemptionCount: giftCode.redemptionCount + 1,
+    });
+    await ctx.db.insert("giftCodeRedemptions", {
+      code,
+      sid: args.sid,
+      credits: giftCode.credits,
+      createdAt: now,
+    });
+
+    const newBalance = session.credits + giftCode.credits;
+    await ctx.db.patch(session._id, {
+      credits: newBalance,
+      tier: session.tier === "admin" ? "admin" : "paid",
+    });
+
+    await ctx.db.insert("creditLedger", {
+      sid: args.sid,
+      delta: giftCode.credits,
+      reason: GIFT_CODE_LEDGER_REASON,
+      giftCode: code,
+      createdAt: now,
+    });
+
+    return {
+      success: true,
+      newBalance,
+      creditsAdded: giftCode.credits,
+    };
+  },
+});
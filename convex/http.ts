@@ -1,5 +1,6 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
 
 const http = httpRouter();
@@ -28,6 +29,14 @@ http.route({
       return new Response("Invalid or missing storageId", { status: 400 });
     }
 
+    // Taken-down images stop being served, even from previously shared URLs
+    const isHidden = await ctx.runQuery(internal.moderation.isStorageHidden, {
+      storageId: storageId as Id<"_storage">,
+    });
+    if (isHidden) {
+      return new Response("Image not found", { status: 404 });
+    }
+
     const blob = await ctx.storage.get(storageId as Id<"_storage">);
     if (!blob) {
       return new Response("Image not found", { status: 404 });
@@ -37,7 +46,8 @@ http.route({
     return new Response(blob, {
       headers: {
         "Content-Type": blob.type || "image/png",
-        "Cache-Control": "public, max-age=31536000, immutable",
+        // Not immutable: a takedown must be able to withdraw the image
+        "Cache-Control": "public, max-age=3600",
       },
     });
   }),
@@ -0,0 +1,447 @@
+import { action, internalMutation, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { isImageJobInFlight } from "./imageJobs";
+import { validateServerSecret } from "./lib/auth";
+
+/**
+ * "Illustrate this chapter" batches. Credits for every missing verse are
+ * reserved once under the batch's generationId; verses are then generated one
+ * at a time as image jobs, and the batch is settled once no verse is left:
+ * the reservation is converted for what the finished verses actually cost and
+ * the rest (failed verses, unused estimate) is refunded.
+ */
+
+export type BatchVerseStatus = "pending" | "generating" | "done" | "failed";
+
+export interface BatchVerse {
+  verse: number;
+  status: BatchVerseStatus;
+  imageId?: Id<"verseImages">;
+  generationId?: string;
+}
+
+const batchSettingsValidator = v.object({
+  model: v.string(),
+  style: v.optional(v.string()),
+  aspectRatio: v.optional(v.string()),
+  resolution: v.optional(v.string()),
+  translationId: v.optional(v.string()),
+  theme: v.optional(
+    v.object({
+      setting: v.string(),
+      palette: v.string(),
+      elements: v.string(),
+      style: v.string(),
+    })
+  ),
+});
+
+// Batches that stop making progress for this long are settled as abandoned
+export const STALE_IMAGE_BATCH_MS = 15 * 60 * 1000;
+const STALE_BATCH_LIMIT = 20;
+
+/**
+ * Verses of a chapter that have no visible image yet, in order.
+ */
+export function findMissingVerses(
+  verseCount: number,
+  versesWithImages: Iterable<number>
+): number[] {
+  const illustrated = new Set(versesWithImages);
+  const missing: number[] = [];
+  for (let verse = 1; verse <= verseCount; verse++) {
+    if (!illustrated.has(verse)) missing.push(verse);
+  }
+  return missing;
+}
+
+/**
+ * Next verse to generate, or null while one is in flight or none are left.
+ * Verses run strictly in order so prev/next continuity follows the chapter.
+ */
+export function nextPendingVerse(verses: BatchVerse[]): number | null {
+  if (verses.some((v) => v.status === "generating")) return null;
+  return verses.find((v) => v.status === "pending")?.verse ?? null;
+}
+
+export function summarizeBatchVerses(verses: BatchVerse[]) {
+  const counts = { pending: 0, generating: 0, done: 0, failed: 0 };
+  for (const verse of verses) counts[verse.status]++;
+  return { ...counts, total: verses.length };
+}
+
+/**
+ * Credits to keep from a batch reservation: what finished verses cost, never
+ * more than was reserved.
+ */
+export function batchChargeAmount(reservedCredits: number, chargedCredits: number): number {
+  return Math.max(0, Math.min(reservedCredits, chargedCredits));
+}
+
+/**
+ * Mark a batch settled and convert or release its reservation.
+ * Admin batches reserve nothing and have nothing to settle.
+ */
+async function settleBatch(ctx: MutationCtx, batch: Doc<"imageBatches">) {
+  await ctx.db.patch(batch._id, { status: "settled", updatedAt: Date.now() });
+  if (batch.reservedCredits <= 0) return;
+
+  const chargeAmount = batchChargeAmount(batch.reservedCredits, batch.chargedCredits);
+  if (chargeAmount === 0) {
+    // Nothing was generated; return the whole reservation
+    await ctx.scheduler.runAfter(0, internal.sessions.releaseReservationInternal, {
+      sid: batch.sid,
+      generationId: batch.generationId,
+    });
+    return;
+  }
+
+  // Unused credits come back as "usage_refund"
+  await ctx.scheduler.runAfter(0, internal.sessions.deductCreditsInternal, {
+    sid: batch.sid,
+    amount: batch.reservedCredits,
+    modelId: batch.settings.model,
+    generationId: batch.generationId,
+    costUsd: batch.reservedCostUsd,
+    actualAmount: chargeAmount,
+    actualCostUsd: Math.min(batch.chargedCostUsd, batch.reservedCostUsd),
+  });
+}
+
+/**
+ * Progress of a batch for the client subscription.
+ * The owning session and costs are never exposed.
+ */
+export const getImageBatch = query({
+  args: {
+    batchId: v.id("imageBatches"),
+  },
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.batchId);
+    if (!batch) return null;
+
+    return {
+      id: batch._id,
+      book: batch.book,
+      chapter: batch.chapter,
+      status: batch.status,
+      verses: batch.verses.map((verse) => ({ verse: verse.verse, status: verse.status })),
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    };
+  },
+});
+
+/**
+ * A session's batch with its generation settings, or null if it doesn't
+ * exist or belongs to another session. Used by the server to run the next verse.
+ */
+export const getImageBatchForSession = query({
+  args: {
+    sid: v.string(),
+    batchId: v.id("imageBatches"),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    const batch = await ctx.db.get(args.batchId);
+    if (!batch || batch.sid !== args.sid) return null;
+
+    return {
+      id: batch._id,
+      book: batch.book,
+      chapter: batch.chapter,
+      status: batch.status,
+      settings: batch.settings,
+      nextVerse: batch.status === "running" ? nextPendingVerse(batch.verses) : null,
+    };
+  },
+});
+
+/**
+ * Internal mutation to create a batch after its credits were reserved.
+ */
+export const createImageBatchInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    book: v.string(),
+    chapter: v.number(),
+    verses: v.array(v.number()),
+    generationId: v.string(),
+    reservedCredits: v.number(),
+    reservedCostUsd: v.number(),
+    settings: batchSettingsValidator,
+  },
+  handler: async (ctx, args): Promise<Id<"imageBatches">> => {
+    const now = Date.now();
+    return ctx.db.insert("imageBatches", {
+      sid: args.sid,
+      book: args.book,
+      chapter: args.chapter,
+      verses: args.verses.map((verse) => ({ verse, status: "pending" as const })),
+      generationId: args.generationId,
+      reservedCredits: args.reservedCredits,
+      reservedCostUsd: args.reservedCostUsd,
+      chargedCredits: 0,
+      chargedCostUsd: 0,
+      settings: args.settings,
+      status: "running",
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Internal mutation to claim a pending verse for generation by the image job
+ * with `generationId`. Fails if the verse isn't next, so double-submitted
+ * requests can't run it twice.
+ */
+export const claimBatchVerseInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    batchId: v.id("imageBatches"),
+    verse: v.number(),
+    generationId: v.string(),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    const batch = await ctx.db.get(args.batchId);
+    if (!batch || batch.sid !== args.sid || batch.status !== "running") return false;
+    if (nextPendingVerse(batch.verses) !== args.verse) return false;
+
+    await ctx.db.patch(batch._id, {
+      verses: batch.verses.map((v) =>
+        v.verse === args.verse
+          ? { ...v, status: "generating" as const, generationId: args.generationId }
+          : v
+      ),
+      updatedAt: Date.now(),
+    });
+    return true;
+  },
+});
+
+/**
+ * Internal mutation to record a verse's outcome and what it cost.
+ * Settles the batch once every verse has finished.
+ */
+export const completeBatchVerseInternal = internalMutation({
+  args: {
+    batchId: v.id("imageBatches"),
+    verse: v.number(),
+    status: v.union(v.literal("done"), v.literal("failed")),
+    imageId: v.optional(v.id("verseImages")),
+    credits: v.optional(v.number()),
+    costUsd: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.batchId);
+    if (!batch || batch.status !== "running") return { settled: false };
+
+    const entry = batch.verses.find((v) => v.verse === args.verse);
+    if (!entry || entry.status !== "generating") return { settled: false };
+
+    const succeeded = args.status === "done";
+    const verses = batch.verses.map((v) =>
+      v.verse === args.verse
+        ? { ...v, status: args.status, ...(args.imageId && { imageId: args.imageId }) }
+        : v
+    );
+    const updated = {
+      ...batch,
+      verses,
+      chargedCredits: batch.chargedCredits + (succeeded ? args.credits ?? 0 : 0),
+      chargedCostUsd: batch.chargedCostUsd + (succeeded ? args.costUsd ?? 0 : 0),
+    };
+    await ctx.db.patch(batch._id, {
+      verses: updated.verses,
+      chargedCredits: updated.chargedCredits,
+      chargedCostUsd: updated.chargedCostUsd,
+      updatedAt: Date.now(),
+    });
+
+    const { pending, generating } = summarizeBatchVerses(verses);
+    if (pending === 0 && generating === 0) {
+      await settleBatch(ctx, updated);
+      return { settled: true };
+    }
+    return { settled: false };
+  },
+});
+
+/**
+ * Internal mutation to stop a batch: remaining pending verses are dropped and,
+ * unless a verse is still generating, the batch is settled right away.
+ */
+export const cancelImageBatchInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    batchId: v.id("imageBatches"),
+  },
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.batchId);
+    if (!batch || batch.sid !== args.sid) {
+      throw new Error("Batch not found");
+    }
+    if (batch.status !== "running") return { settled: true };
+
+    const verses = batch.verses.map((v) =>
+      v.status === "pending" ? { ...v, status: "failed" as const } : v
+    );
+    await ctx.db.patch(batch._id, { verses, updatedAt: Date.now() });
+
+    if (summarizeBatchVerses(verses).generating === 0) {
+      await settleBatch(ctx, { ...batch, verses });
+      return { settled: true };
+    }
+    // The in-flight verse settles the batch when it finishes
+    return { settled: false };
+  },
+});
+
+/**
+ * Create a batch.
+ * Requires server secret for authorization.
+ */
+export const createImageBatch = action({
+  args: {
+    sid: v.string(),
+    book: v.string(),
+    chapter: v.number(),
+    verses: v.array(v.number()),
+    generationId: v.string(),
+    reservedCredits: v.number(),
+    reservedCostUsd: v.number(),
+    settings: batchSettingsValidator,
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"imageBatches">> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.imageBatches.createImageBatchInternal, {
+      sid: args.sid,
+      book: args.book,
+      chapter: args.chapter,
+      verses: args.verses,
+      generationId: args.generationId,
+      reservedCredits: args.reservedCredits,
+      reservedCostUsd: args.reservedCostUsd,
+      settings: args.settings,
+    });
+  },
+});
+
+/**
+ * Claim the next verse of a batch.
+ * Requires server secret for authorization.
+ */
+export const claimBatchVerse = action({
+  args: {
+    sid: v.string(),
+    batchId: v.id("imageBatches"),
+    verse: v.number(),
+    generationId: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.imageBatches.claimBatchVerseInternal, {
+      sid: args.sid,
+      batchId: args.batchId,
+      verse: args.verse,
+      generationId: args.generationId,
+    });
+  },
+});
+
+/**
+ * Record a verse's outcome.
+ * Requires server secret for authorization.
+ */
+export const completeBatchVerse = action({
+  args: {
+    batchId: v.id("imageBatches"),
+    verse: v.number(),
+    status: v.union(v.literal("done"), v.literal("failed")),
+    imageId: v.optional(v.id("verseImages")),
+    credits: v.optional(v.number()),
+    costUsd: v.optional(v.number()),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ settled: boolean }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.imageBatches.completeBatchVerseInternal, {
+      batchId: args.batchId,
+      verse: args.verse,
+      status: args.status,
+      imageId: args.imageId,
+      credits: args.credits,
+      costUsd: args.costUsd,
+    });
+  },
+});
+
+/**
+ * Stop a batch.
+ * Requires server secret for authorization.
+ */
+export const cancelImageBatch = action({
+  args: {
+    sid: v.string(),
+    batchId: v.id("imageBatches"),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ settled: boolean }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.imageBatches.cancelImageBatchInternal, {
+      sid: args.sid,
+      batchId: args.batchId,
+    });
+  },
+});
+
+/**
+ * Settle batches that stopped making progress (tab closed, worker killed).
+ * Unfinished verses count as failed, so their credits are refunded. A batch
+ * whose generating verse still has a live image job is left for that job to
+ * complete (or for `failStaleImageJobs` to time it out).
+ * Called by cron job.
+ */
+export const settleStaleImageBatches = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const cutoff = now - STALE_IMAGE_BATCH_MS;
+    const stale = await ctx.db
+      .query("imageBatches")
+      .withIndex("by_status", (q) => q.eq("status", "running").lt("updatedAt", cutoff))
+      .take(STALE_BATCH_LIMIT);
+
+    let settled = 0;
+    for (const batch of stale) {
+      let inFlight = false;
+      for (const verse of batch.verses) {
+        const generationId = verse.generationId;
+        if (verse.status !== "generating" || !generationId) continue;
+        const job = await ctx.db
+          .query("imageJobs")
+          .withIndex("by_generationId", (q) => q.eq("generationId", generationId))
+          .first();
+        if (job && isImageJobInFlight(job, now)) inFlight = true;
+      }
+      if (inFlight) continue;
+
+      const verses = batch.verses.map((v) =>
+        v.status === "pending" || v.status === "generating"
+          ? { ...v, status: "failed" as const }
+          : v
+      );
+      await ctx.db.patch(batch._id, { verses });
+      await settleBatch(ctx, { ...batch, verses });
+      settled++;
+    }
+
+    return { settled };
+  },
+});
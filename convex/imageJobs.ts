@@ -0,0 +1,241 @@
+import { action, internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { validateServerSecret } from "./lib/auth";
+
+/**
+ * Lifecycle of an async image generation job, in order. A job only moves
+ * forward through these states; "done" and "failed" are terminal.
+ */
+export const IMAGE_JOB_STATUSES = [
+  "queued",
+  "planning",
+  "rendering",
+  "saving",
+  "done",
+  "failed",
+] as const;
+
+export type ImageJobStatus = (typeof IMAGE_JOB_STATUSES)[number];
+
+export const imageJobStatusValidator = v.union(
+  v.literal("queued"),
+  v.literal("planning"),
+  v.literal("rendering"),
+  v.literal("saving"),
+  v.literal("done"),
+  v.literal("failed")
+);
+
+// Jobs that stop reporting progress for this long are treated as lost
+export const STALE_IMAGE_JOB_MS = 15 * 60 * 1000;
+const STALE_JOB_BATCH_SIZE = 50;
+const MAX_JOB_ERROR_LENGTH = 200;
+
+export function isTerminalImageJobStatus(status: ImageJobStatus): boolean {
+  return status === "done" || status === "failed";
+}
+
+/**
+ * Whether a job is still running: not finished and not yet timed out by
+ * `failStaleImageJobs`.
+ */
+export function isImageJobInFlight(
+  job: { status: ImageJobStatus; updatedAt: number },
+  now: number
+): boolean {
+  return !isTerminalImageJobStatus(job.status) && now - job.updatedAt < STALE_IMAGE_JOB_MS;
+}
+
+/**
+ * Whether a job may move from one state to another. Jobs only move forward,
+ * can fail from any non-terminal state, and never leave a terminal state.
+ */
+export function canAdvanceImageJob(from: ImageJobStatus, to: ImageJobStatus): boolean {
+  if (isTerminalImageJobStatus(from)) return false;
+  if (to === "failed") return true;
+  return IMAGE_JOB_STATUSES.indexOf(to) > IMAGE_JOB_STATUSES.indexOf(from);
+}
+
+/**
+ * Progress of an image job for the client subscription.
+ * Only returns what the UI needs; the owning session is never exposed.
+ */
+export const getImageJob = query({
+  args: {
+    jobId: v.id("imageJobs"),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return null;
+
+    return {
+      id: job._id,
+      verseId: job.verseId,
+      status: job.status,
+      imageId: job.imageId,
+      error: job.error,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+  },
+});
+
+/**
+ * Internal mutation to create a queued job for a reserved generation.
+ * Idempotent per generationId.
+ */
+export const createImageJobInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    verseId: v.string(),
+    generationId: v.string(),
+    modelId: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"imageJobs">> => {
+    const existing = await ctx.db
+      .query("imageJobs")
+      .withIndex("by_generationId", (q) => q.eq("generationId", args.generationId))
+      .first();
+    if (existing) return existing._id;
+
+    const now = Date.now();
+    return ctx.db.insert("imageJobs", {
+      sid: args.sid,
+      verseId: args.verseId,
+      generationId: args.generationId,
+      modelId: args.modelId,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Internal mutation to record job progress. Out-of-order or repeated updates
+ * are ignored so a late stage report can't reopen a finished job.
+ */
+export const updateImageJobInternal = internalMutation({
+  args: {
+    jobId: v.id("imageJobs"),
+    status: imageJobStatusValidator,
+    imageId: v.optional(v.id("verseImages")),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      throw new Error("Image job not found");
+    }
+    if (!canAdvanceImageJob(job.status, args.status)) {
+      return { updated: false, status: job.status };
+    }
+
+    await ctx.db.patch(args.jobId, {
+      status: args.status,
+      ...(args.imageId && { imageId: args.imageId }),
+      ...(args.error && { error: args.error.slice(0, MAX_JOB_ERROR_LENGTH) }),
+      updatedAt: Date.now(),
+    });
+    return { updated: true, status: args.status };
+  },
+});
+
+/**
+ * Create an image job.
+ * Requires server secret for authorization.
+ */
+export const createImageJob = action({
+  args: {
+    sid: v.string(),
+    verseId: v.string(),
+    generationId: v.string(),
+    modelId: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"imageJobs">> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.imageJobs.createImageJobInternal, {
+      sid: args.sid,
+      verseId: args.verseId,
+      generationId: args.generationId,
+      modelId: args.modelId,
+    });
+  },
+});
+
+/**
+ * Report progress on an image job.
+ * Requires server secret for authorization.
+ */
+export const updateImageJob = action({
+  args: {
+    jobId: v.id("imageJobs"),
+    status: imageJobStatusValidator,
+    imageId: v.optional(v.id("verseImages")),
+    error: v.optional(v.string()),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ updated: boolean; status: ImageJobStatus }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.imageJobs.updateImageJobInternal, {
+      jobId: args.jobId,
+      status: args.status,
+      imageId: args.imageId,
+      error: args.error,
+    });
+  },
+});
+
+/**
+ * Fail jobs whose worker stopped reporting (e.g. the server function was
+ * killed) and release their reservation if it was never charged.
+ * Called by cron job.
+ */
+export const failStaleImageJobs = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - STALE_IMAGE_JOB_MS;
+    let failed = 0;
+
+    for (const status of IMAGE_JOB_STATUSES) {
+      if (isTerminalImageJobStatus(status)) continue;
+
+      const stale = await ctx.db
+        .query("imageJobs")
+        .withIndex("by_status", (q) => q.eq("status", status).lt("updatedAt", cutoff))
+        .take(STALE_JOB_BATCH_SIZE);
+
+      for (const job of stale) {
+        await ctx.db.patch(job._id, {
+          status: "failed",
+          error: "Generation timed out",
+          updatedAt: Date.now(),
+        });
+        failed++;
+
+        // A generation or refund entry means the reservation was already
+        // converted or released
+        const ledgerEntries = await ctx.db
+          .query("creditLedger")
+          .withIndex("by_generationId", (q) =>
+            q.eq("generationId", job.generationId).eq("sid", job.sid)
+          )
+          .collect();
+        const wasSettled = ledgerEntries.some(
+          (e) => e.reason === "generation" || e.reason === "refund"
+        );
+        if (!wasSettled) {
+          await ctx.scheduler.runAfter(0, internal.sessions.releaseReservationInternal, {
+            sid: job.sid,
+            generationId: job.generationId,
+          });
+        }
+      }
+    }
+
+    return { failed };
+  },
+});
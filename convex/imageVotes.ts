@@ -0,0 +1,180 @@
+import { action, internalMutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { isImageVisible } from "./moderation";
+import { validateServerSecret } from "./lib/auth";
+
+export type VoteValue = 1 | -1;
+
+export interface ImageVoteTally {
+  imageId: string;
+  score: number;
+  upvotes: number;
+  downvotes: number;
+}
+
+/**
+ * Tally votes per image and rank images by score (highest first).
+ * Ties go to the newer image. Images without votes are included with score 0.
+ */
+export function rankImagesByVotes(
+  images: Array<{ id: string; createdAt: number }>,
+  votes: Array<{ imageId: string; value: number }>
+): ImageVoteTally[] {
+  const tallies = new Map<string, ImageVoteTally>(
+    images.map((image) => [
+      image.id,
+      { imageId: image.id, score: 0, upvotes: 0, downvotes: 0 },
+    ])
+  );
+
+  for (const vote of votes) {
+    const tally = tallies.get(vote.imageId);
+    if (!tally) continue; // Vote for an image no longer in the list
+    tally.score += vote.value;
+    if (vote.value > 0) tally.upvotes += 1;
+    else tally.downvotes += 1;
+  }
+
+  const createdAt = new Map(images.map((image) => [image.id, image.createdAt]));
+  return Array.from(tallies.values()).sort(
+    (a, b) =>
+      b.score - a.score ||
+      (createdAt.get(b.imageId) ?? 0) - (createdAt.get(a.imageId) ?? 0)
+  );
+}
+
+/**
+ * Tally every visible image's votes for a verse, ranked by score.
+ */
+export async function getVerseImageRanking(
+  ctx: QueryCtx,
+  verseId: string
+): Promise<ImageVoteTally[]> {
+  const [images, votes] = await Promise.all([
+    ctx.db
+      .query("verseImages")
+      .withIndex("by_verse", (q) => q.eq("verseId", verseId))
+      .collect(),
+    ctx.db
+      .query("imageVotes")
+      .withIndex("by_verse", (q) => q.eq("verseId", verseId))
+      .collect(),
+  ]);
+
+  return rankImagesByVotes(
+    images
+      .filter(isImageVisible)
+      .map((image) => ({ id: image._id, createdAt: image.createdAt })),
+    votes
+  );
+}
+
+/**
+ * Rank a verse's images by vote score (highest first, newer wins ties).
+ */
+export const getImageRanking = query({
+  args: {
+    verseId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return getVerseImageRanking(ctx, args.verseId);
+  },
+});
+
+/**
+ * Internal mutation to cast, change or clear (value 0) a session's vote on an image.
+ * A session has at most one vote per image; voting again replaces it.
+ */
+export const castVoteInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    imageId: v.id("verseImages"),
+    value: v.number(),
+  },
+  handler: async (ctx, args) => {
+    if (args.value !== 1 && args.value !== -1 && args.value !== 0) {
+      throw new Error(`Invalid vote value: ${args.value}`);
+    }
+
+    const image = await ctx.db.get(args.imageId);
+    if (!image || !isImageVisible(image)) {
+      throw new Error("Image not found");
+    }
+
+    const existing = await ctx.db
+      .query("imageVotes")
+      .withIndex("by_sid_image", (q) =>
+        q.eq("sid", args.sid).eq("imageId", args.imageId)
+      )
+      .first();
+
+    const now = Date.now();
+    if (args.value === 0) {
+      if (existing) await ctx.db.delete(existing._id);
+    } else if (existing) {
+      await ctx.db.patch(existing._id, { value: args.value, updatedAt: now });
+    } else {
+      await ctx.db.insert("imageVotes", {
+        sid: args.sid,
+        imageId: args.imageId,
+        verseId: image.verseId,
+        value: args.value,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const ranking = await getVerseImageRanking(ctx, image.verseId);
+    const tally = ranking.find((entry) => entry.imageId === args.imageId);
+    return { value: args.value, score: tally?.score ?? 0 };
+  },
+});
+
+/**
+ * Public action to cast a vote.
+ * Validates server secret before calling internal mutation.
+ */
+export const castVote = action({
+  args: {
+    sid: v.string(),
+    imageId: v.id("verseImages"),
+    value: v.number(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ value: number; score: number }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.imageVotes.castVoteInternal, {
+      sid: args.sid,
+      imageId: args.imageId,
+      value: args.value,
+    });
+  },
+});
+
+/**
+ * A session's own votes for a verse's images, keyed by image ID.
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const getSessionVotes = query({
+  args: {
+    sid: v.string(),
+    verseId: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<Record<string, VoteValue>> => {
+    validateServerSecret(args.serverSecret);
+    const votes = await ctx.db
+      .query("imageVotes")
+      .withIndex("by_sid_verse", (q) =>
+        q.eq("sid", args.sid).eq("verseId", args.verseId)
+      )
+      .collect();
+
+    const result: Record<string, VoteValue> = {};
+    for (const vote of votes) {
+      result[vote.imageId] = vote.value as VoteValue;
+    }
+    return result;
+  },
+});
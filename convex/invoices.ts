@@ -1,34 +1,67 @@
-import { action, internalMutation, mutation, query } from "./_generated/server";
+import { action, internalMutation, internalQuery, mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { resolveCreditPurchase, usdToSats, LEGACY_BUNDLE_CREDITS } from "./creditBundles";
+import { INVOICE_EXPIRY_SECONDS } from "./paymentProviders";
+import { validateServerSecret } from "./lib/auth";
 
-/**
- * Validates the server secret for secure Convex action calls.
- */
-const validateServerSecret = (serverSecret: string) => {
-  const expectedSecret = process.env.CONVEX_SERVER_SECRET;
-  if (!expectedSecret || serverSecret !== expectedSecret) {
-    throw new Error("Unauthorized: Invalid server secret");
-  }
-};
+const PENDING_SWEEP_BATCH_SIZE = 100;
 
-// Fixed bundle price
-const BUNDLE_USD = 3;
-const BUNDLE_CREDITS = 300;
+export interface ConfirmPaymentResult {
+  success: boolean;
+  alreadyPaid?: boolean;
+  newBalance?: number;
+  creditsAdded?: number;
+  // Why nothing was credited, and the status the invoice was moved to
+  error?: string;
+  status?: string;
+}
 
 /**
  * Create a new invoice for credit purchase.
- * Accepts pre-computed values from the API route (which calls LND).
+ * Accepts pre-computed values from the API route (which calls the payment provider).
+ * Price and credits come from the bundle catalog, not the caller; the sats
+ * must match that price at the route's BTC rate, and each payment hash can
+ * back only one invoice.
  */
 export const createInvoice = mutation({
   args: {
     invoiceId: v.string(),
     sid: v.string(),
+    serverSecret: v.string(),
+    bundleId: v.string(),
+    // Whole dollars, for the custom bundle
+    customUsd: v.optional(v.number()),
     amountSats: v.number(),
+    // BTC/USD rate the route priced the invoice at
+    btcPriceUsd: v.number(),
     bolt11: v.string(),
     paymentHash: v.string(),
   },
   handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+
+    const purchase = resolveCreditPurchase(args.bundleId, args.customUsd);
+    if (!purchase) {
+      throw new Error("Unknown credit bundle");
+    }
+
+    if (
+      !Number.isFinite(args.btcPriceUsd) ||
+      args.btcPriceUsd <= 0 ||
+      args.amountSats !== usdToSats(purchase.amountUsd, args.btcPriceUsd)
+    ) {
+      throw new Error("Invoice amount does not match the bundle price");
+    }
+
+    const existingInvoice = await ctx.db
+      .query("invoices")
+      .withIndex("by_paymentHash", (q) => q.eq("paymentHash", args.paymentHash))
+      .first();
+    if (existingInvoice) {
+      throw new Error("Payment hash is already in use");
+    }
+
     // Verify session exists
     const session = await ctx.db
       .query("sessions")
@@ -40,17 +73,19 @@ export const createInvoice = mutation({
     }
 
     const now = Date.now();
-    const expiresAt = now + 15 * 60 * 1000; // 15 minutes
+    const expiresAt = now + INVOICE_EXPIRY_SECONDS * 1000;
     const invoiceId = args.invoiceId;
 
-    // Create invoice record with real LND data
+    // Create invoice record with the provider's invoice data
     await ctx.db.insert("invoices", {
       invoiceId,
       sid: args.sid,
-      amountUsd: BUNDLE_USD,
+      amountUsd: purchase.amountUsd,
       amountSats: args.amountSats,
       bolt11: args.bolt11,
       paymentHash: args.paymentHash,
+      bundleId: purchase.bundleId,
+      credits: purchase.credits,
       status: "pending",
       createdAt: now,
       expiresAt,
@@ -59,10 +94,11 @@ export const createInvoice = mutation({
     return {
       invoiceId,
       bolt11: args.bolt11,
-      amountUsd: BUNDLE_USD,
+      amountUsd: purchase.amountUsd,
       amountSats: args.amountSats,
       expiresAt,
-      credits: BUNDLE_CREDITS,
+      bundleId: purchase.bundleId,
+      credits: purchase.credits,
     };
   },
 });
@@ -92,12 +128,64 @@ export const getInvoice = query({
       amountSats: invoice.amountSats,
       bolt11: invoice.bolt11,
       paymentHash: invoice.paymentHash,
+      bundleId: invoice.bundleId,
+      credits: invoice.credits ?? LEGACY_BUNDLE_CREDITS,
       expiresAt: invoice.expiresAt,
       paidAt: invoice.paidAt,
     };
   },
 });
 
+/**
+ * Status of an invoice for the buy credits modal's subscription.
+ * Leaves out the session id; invoice ids are unguessable UUIDs.
+ */
+export const getInvoiceStatus = query({
+  args: {
+    invoiceId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const invoice = await ctx.db
+      .query("invoices")
+      .withIndex("by_invoiceId", (q) => q.eq("invoiceId", args.invoiceId))
+      .first();
+
+    if (!invoice) {
+      return null;
+    }
+
+    return {
+      status: invoice.status,
+      credits: invoice.credits ?? LEGACY_BUNDLE_CREDITS,
+      expiresAt: invoice.expiresAt,
+      paidAt: invoice.paidAt,
+    };
+  },
+});
+
+/**
+ * Pending invoices for the settlement sweep, soonest expiry first
+ * (`by_status` is `[status, expiresAt]`). The sweep closes the ones it finds
+ * past expiry, so a backlog beyond one batch drains over later sweeps
+ * instead of hiding newer invoices for good.
+ */
+export const listPendingInvoicesInternal = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const invoices = await ctx.db
+      .query("invoices")
+      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .order("asc")
+      .take(PENDING_SWEEP_BATCH_SIZE);
+
+    return invoices.map((invoice) => ({
+      invoiceId: invoice.invoiceId,
+      paymentHash: invoice.paymentHash,
+      expiresAt: invoice.expiresAt,
+    }));
+  },
+});
+
 /**
  * Get all invoices for a session.
  */
@@ -116,6 +204,8 @@ export const getSessionInvoices = query({
       invoiceId: inv.invoiceId,
       status: inv.status,
       amountUsd: inv.amountUsd,
+      bundleId: inv.bundleId,
+      credits: inv.credits ?? LEGACY_BUNDLE_CREDITS,
       createdAt: inv.createdAt,
       paidAt: inv.paidAt,
     }));
@@ -123,15 +213,21 @@ export const getSessionInvoices = query({
 });
 
 /**
- * Internal mutation to confirm payment and grant credits.
+ * Internal mutation to confirm payment and grant the credits of the bundle
+ * recorded on the invoice.
  * Only callable from Convex actions after server secret validation.
+ * An invoice that can no longer be credited (expired, or its payment already
+ * credited another invoice) is closed and reported with `success: false`
+ * rather than thrown, so the status change is kept.
  */
 export const confirmPaymentInternal = internalMutation({
   args: {
     invoiceId: v.string(),
     paymentHash: v.optional(v.string()),
+    // When the provider settled the invoice; a payment made before expiry counts even if confirmed after
+    settledAt: v.optional(v.number()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<ConfirmPaymentResult> => {
     const invoice = await ctx.db
       .query("invoices")
       .withIndex("by_invoiceId", (q) => q.eq("invoiceId", args.invoiceId))
@@ -149,12 +245,25 @@ export const confirmPaymentInternal = internalMutation({
       throw new Error(`Invoice is ${invoice.status}`);
     }
 
+    // One payment credits one invoice, even if another row carries its hash
+    const paymentHash = args.paymentHash ?? invoice.paymentHash;
+    if (paymentHash) {
+      const invoicesWithHash = await ctx.db
+        .query("invoices")
+        .withIndex("by_paymentHash", (q) => q.eq("paymentHash", paymentHash))
+        .collect();
+      if (invoicesWithHash.some((other) => other._id !== invoice._id && other.status === "paid")) {
+        await ctx.db.patch(invoice._id, { status: "failed" });
+        return { success: false, error: "Payment already credited to another invoice", status: "failed" };
+      }
+    }
+
     const now = Date.now();
 
     // Check expiration
-    if (now > invoice.expiresAt) {
+    if ((args.settledAt ?? now) > invoice.expiresAt) {
       await ctx.db.patch(invoice._id, { status: "expired" });
-      throw new Error("Invoice has expired");
+      return { success: false, error: "Invoice has expired", status: "expired" };
     }
 
     // Mark invoice as paid
@@ -174,8 +283,9 @@ export const confirmPaymentInternal = internalMutation({
       throw new Error("Session not found");
     }
 
-    // Add credits to session
-    const newCredits = session.credits + BUNDLE_CREDITS;
+    // Add the bundle's credits to session
+    const creditsAdded = invoice.credits ?? LEGACY_BUNDLE_CREDITS;
+    const newCredits = session.credits + creditsAdded;
     const nextTier = session.tier === "admin" ? "admin" : "paid";
     await ctx.db.patch(session._id, {
       credits: newCredits,
@@ -185,15 +295,16 @@ export const confirmPaymentInternal = internalMutation({
     // Record in credit ledger
     await ctx.db.insert("creditLedger", {
       sid: invoice.sid,
-      delta: BUNDLE_CREDITS,
+      delta: creditsAdded,
       reason: "purchase",
+      bundleId: invoice.bundleId,
       createdAt: now,
     });
 
     return {
       success: true,
       newBalance: newCredits,
-      creditsAdded: BUNDLE_CREDITS,
+      creditsAdded,
     };
   },
 });
@@ -206,25 +317,22 @@ export const confirmPayment = action({
   args: {
     invoiceId: v.string(),
     paymentHash: v.optional(v.string()),
+    settledAt: v.optional(v.number()),
     serverSecret: v.string(),
   },
-  handler: async (ctx, args): Promise<{
-    success: boolean;
-    alreadyPaid?: boolean;
-    newBalance?: number;
-    creditsAdded?: number;
-  }> => {
+  handler: async (ctx, args): Promise<ConfirmPaymentResult> => {
     validateServerSecret(args.serverSecret);
     return ctx.runMutation(internal.invoices.confirmPaymentInternal, {
       invoiceId: args.invoiceId,
       paymentHash: args.paymentHash,
+      settledAt: args.settledAt,
     });
   },
 });
 
 /**
  * Mark an invoice as expired or canceled.
- * Called when LND reports the invoice is canceled or has expired.
+ * Called when the payment provider reports the invoice is canceled or has expired.
  */
 export const expireInvoice = mutation({
   args: {
@@ -0,0 +1,38 @@
+import { QueryCtx } from "../_generated/server";
+
+/**
+ * Authorization checks shared by the Convex modules. Public functions that
+ * act for a session take the server secret, so only our API routes can call
+ * them; admin-only ones additionally check the session's tier.
+ */
+
+/**
+ * Validates the server secret for secure Convex action calls.
+ * This ensures only our API routes can call sensitive mutations.
+ */
+export const validateServerSecret = (serverSecret: string) => {
+  const expectedSecret = process.env.CONVEX_SERVER_SECRET;
+  if (!expectedSecret || serverSecret !== expectedSecret) {
+    throw new Error("Unauthorized: Invalid server secret");
+  }
+};
+
+/**
+ * Whether a session may use admin-only functions such as pinning images.
+ */
+export function isAdminSession(session: { tier: string } | null): boolean {
+  return session?.tier === "admin";
+}
+
+/**
+ * Throws unless the session belongs to an admin.
+ */
+export async function requireAdminSession(ctx: QueryCtx, sid: string) {
+  const session = await ctx.db
+    .query("sessions")
+    .withIndex("by_sid", (q) => q.eq("sid", sid))
+    .first();
+  if (!isAdminSession(session)) {
+    throw new Error("Unauthorized: Admin session required");
+  }
+}
@@ -0,0 +1,128 @@
+import { internalAction } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { getPaymentProvider, SettlementEvent, SETTLEMENT_GRACE_MS } from "./paymentProviders";
+
+/**
+ * Background settlement of Lightning invoices. A cron sweeps pending
+ * invoices, polls the payment provider (`paymentProviders.ts`) for their
+ * state and grants the credits of settled ones, so a payment is credited
+ * even if the buyer closed the modal right after paying.
+ *
+ * Sweeping instead of holding a provider's invoice stream open: neither
+ * Convex nor the Next.js host keeps a process running between requests.
+ *
+ * Needs the provider settings (e.g. LND_HOST and LND_INVOICE_MACAROON) in
+ * the Convex dashboard too, since Convex can't read .env.local.
+ */
+
+export interface PendingInvoice {
+  invoiceId: string;
+  paymentHash?: string;
+  expiresAt: number;
+}
+
+export type SettlementDecision =
+  | { invoiceId: string; action: "confirm"; paymentHash: string; settledAt?: number }
+  | { invoiceId: string; action: "expire" };
+
+/**
+ * Payment hashes worth asking the provider about: pending invoices that
+ * have one and are not past expiry plus the grace period.
+ */
+export function settlementCandidates(invoices: PendingInvoice[], now: number): string[] {
+  return invoices.flatMap((invoice) =>
+    invoice.paymentHash && now <= invoice.expiresAt + SETTLEMENT_GRACE_MS
+      ? [invoice.paymentHash]
+      : []
+  );
+}
+
+/**
+ * Decide what to do with each pending invoice given the provider's
+ * settlement events: confirm the settled ones and expire canceled ones or
+ * ones past expiry that never got paid. Invoices without an event (their
+ * lookup failed) are left for the next sweep. A payment confirms at most one
+ * invoice: later invoices carrying the same hash are expired.
+ */
+export function planInvoiceSettlements(
+  invoices: PendingInvoice[],
+  events: SettlementEvent[],
+  now: number
+): SettlementDecision[] {
+  const eventsByHash = new Map(events.map((event) => [event.paymentHash.toLowerCase(), event]));
+  const decisions: SettlementDecision[] = [];
+  const confirmedHashes = new Set<string>();
+
+  for (const invoice of invoices) {
+    const expired = now > invoice.expiresAt;
+    if (!invoice.paymentHash || now > invoice.expiresAt + SETTLEMENT_GRACE_MS) {
+      if (expired) decisions.push({ invoiceId: invoice.invoiceId, action: "expire" });
+      continue;
+    }
+
+    const event = eventsByHash.get(invoice.paymentHash.toLowerCase());
+    if (!event) continue;
+
+    if (event.state === "settled") {
+      const hash = invoice.paymentHash.toLowerCase();
+      if (confirmedHashes.has(hash)) {
+        decisions.push({ invoiceId: invoice.invoiceId, action: "expire" });
+        continue;
+      }
+      confirmedHashes.add(hash);
+      decisions.push({
+        invoiceId: invoice.invoiceId,
+        action: "confirm",
+        paymentHash: invoice.paymentHash,
+        settledAt: event.settledAt,
+      });
+    } else if (event.state === "canceled" || expired) {
+      decisions.push({ invoiceId: invoice.invoiceId, action: "expire" });
+    }
+  }
+
+  return decisions;
+}
+
+/**
+ * Confirm settled invoices and expire dead ones. Runs on a cron; a no-op
+ * when no payment provider is configured in the Convex environment.
+ */
+export const sweepPendingInvoices = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const provider = getPaymentProvider();
+    if (!provider) return { confirmed: 0, expired: 0 };
+
+    const pending = await ctx.runQuery(internal.invoices.listPendingInvoicesInternal, {});
+    const now = Date.now();
+    const events = await provider.pollSettlements(settlementCandidates(pending, now));
+    const decisions = planInvoiceSettlements(pending, events, now);
+
+    let confirmed = 0;
+    let expired = 0;
+    for (const decision of decisions) {
+      try {
+        if (decision.action === "confirm") {
+          const result = await ctx.runMutation(internal.invoices.confirmPaymentInternal, {
+            invoiceId: decision.invoiceId,
+            paymentHash: decision.paymentHash,
+            settledAt: decision.settledAt,
+          });
+          if (result.success) {
+            confirmed++;
+          } else {
+            console.warn(`[Settlement] Invoice ${decision.invoiceId} not credited: ${result.error}`);
+          }
+        } else {
+          await ctx.runMutation(api.invoices.expireInvoice, { invoiceId: decision.invoiceId });
+          expired++;
+        }
+      } catch (error) {
+        console.error(`[Settlement] Failed to ${decision.action} invoice ${decision.invoiceId}:`, error);
+      }
+    }
+
+    return { confirmed, expired };
+  },
+});
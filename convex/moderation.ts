@@ -0,0 +1,219 @@
+import { action, internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { requireAdminSession, validateServerSecret } from "./lib/auth";
+
+export type ModerationStatus = "pending" | "approved" | "hidden";
+export type ModerationDecision = "approve" | "hide";
+
+/**
+ * Whether an image may be shown publicly.
+ * Pending images stay visible while they await review; images saved before
+ * moderation existed have no status and count as approved.
+ */
+export function isImageVisible(image: { moderationStatus?: string }): boolean {
+  return image.moderationStatus !== "hidden";
+}
+
+/**
+ * Whether an image may be posted to Nostr. Posts can't be edited, so pending
+ * images wait for approval; images saved before moderation count as approved.
+ */
+export function canPublishImage(image: { moderationStatus?: string }): boolean {
+  return image.moderationStatus !== "pending" && isImageVisible(image);
+}
+
+/**
+ * Status an image ends up in after an admin decision.
+ */
+export function getModerationStatusForDecision(decision: ModerationDecision): ModerationStatus {
+  return decision === "approve" ? "approved" : "hidden";
+}
+
+/**
+ * Pending images awaiting review, oldest first. Admin sessions only.
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const getModerationQueue = query({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    await requireAdminSession(ctx, args.sid);
+
+    const images = await ctx.db
+      .query("verseImages")
+      .withIndex("by_moderation", (q) => q.eq("moderationStatus", "pending"))
+      .order("asc")
+      .take(Math.min(args.limit ?? 50, 100));
+
+    return Promise.all(
+      images.map(async (image) => {
+        let imageUrl = image.imageUrl;
+        if (image.storageId) {
+          const url = await ctx.storage.getUrl(image.storageId);
+          if (url) imageUrl = url;
+        }
+        return {
+          id: image._id,
+          verseId: image.verseId,
+          reference: image.reference,
+          imageUrl,
+          model: image.model,
+          createdAt: image.createdAt,
+          nostrEventId: image.nostrEventId,
+          nostrScheduled: !!image.nostrScheduledId && !image.nostrEventId,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Internal mutation to approve or take down an image. Admin sessions only.
+ *
+ * Takedown hides the image from every public query and the /image HTTP
+ * endpoint, clears a pin on it, cancels its pending Nostr post, and sends a
+ * NIP-09 deletion for the post if it already went out. Approval posts an
+ * image that was held for review; an image whose post was already sent (and
+ * deleted by a takedown) is made visible again but not re-posted.
+ */
+export const moderateImageInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    imageId: v.id("verseImages"),
+    decision: v.union(v.literal("approve"), v.literal("hide")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdminSession(ctx, args.sid);
+
+    const image = await ctx.db.get(args.imageId);
+    if (!image) {
+      throw new Error("Image not found");
+    }
+
+    const moderationStatus = getModerationStatusForDecision(args.decision);
+    await ctx.db.patch(args.imageId, {
+      moderationStatus,
+      moderatedAt: Date.now(),
+      moderatedBySid: args.sid,
+    });
+
+    if (moderationStatus === "hidden") {
+      const pin = await ctx.db
+        .query("verseImagePins")
+        .withIndex("by_verse", (q) => q.eq("verseId", image.verseId))
+        .first();
+      if (pin && pin.imageId === args.imageId) {
+        await ctx.db.delete(pin._id);
+      }
+
+      if (image.nostrScheduledId) {
+        const scheduled = await ctx.db.system.get(image.nostrScheduledId);
+        if (scheduled?.state.kind === "pending") {
+          await ctx.scheduler.cancel(image.nostrScheduledId);
+        }
+      }
+
+      if (image.nostrEventId && !image.nostrDeletedAt) {
+        await ctx.scheduler.runAfter(0, internal.nostr.deleteFromNostr, {
+          imageId: args.imageId,
+          eventId: image.nostrEventId,
+        });
+      }
+    } else if (!image.nostrEventId && image.storageId && image.reference && image.verseText) {
+      // publishToNostr skipped the image while it was pending; post it now
+      // unless its scheduled post hasn't run yet
+      const scheduled = image.nostrScheduledId
+        ? await ctx.db.system.get(image.nostrScheduledId)
+        : null;
+      if (scheduled?.state.kind !== "pending") {
+        const scheduledId = await ctx.scheduler.runAfter(0, internal.nostr.publishToNostr, {
+          imageId: image._id,
+          verseId: image.verseId,
+          reference: image.reference,
+          verseText: image.verseText,
+          storageId: image.storageId,
+          imageMimeType: image.imageMimeType,
+          imageWidth: image.imageWidth,
+          imageHeight: image.imageHeight,
+        });
+        await ctx.db.patch(image._id, { nostrScheduledId: scheduledId });
+      }
+    }
+
+    return { success: true, moderationStatus };
+  },
+});
+
+/**
+ * Public action to approve or take down an image.
+ * Validates server secret before calling internal mutation.
+ */
+export const moderateImage = action({
+  args: {
+    sid: v.string(),
+    imageId: v.id("verseImages"),
+    decision: v.union(v.literal("approve"), v.literal("hide")),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; moderationStatus: ModerationStatus }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.moderation.moderateImageInternal, {
+      sid: args.sid,
+      imageId: args.imageId,
+      decision: args.decision,
+    });
+  },
+});
+
+/**
+ * Internal lookup used by the /image HTTP endpoint so taken-down images stop
+ * being served from their permanent URL.
+ */
+export const isStorageHidden = internalQuery({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const image = await ctx.db
+      .query("verseImages")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .first();
+    return image ? !isImageVisible(image) : false;
+  },
+});
+
+/**
+ * Internal mutation to record the Nostr post scheduled for an image, so a
+ * takedown can cancel it before it runs.
+ */
+export const recordNostrSchedule = internalMutation({
+  args: {
+    imageId: v.id("verseImages"),
+    scheduledId: v.id("_scheduled_functions"),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.imageId, { nostrScheduledId: args.scheduledId });
+  },
+});
+
+/**
+ * Internal mutation to record a sent NIP-09 deletion event.
+ */
+export const recordNostrDeletion = internalMutation({
+  args: {
+    imageId: v.id("verseImages"),
+    deletionEventId: v.string(),
+    deletedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.imageId, {
+      nostrDeletionEventId: args.deletionEventId,
+      nostrDeletedAt: args.deletedAt,
+    });
+  },
+});
@@ -3,6 +3,8 @@
 import { internalAction } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { verseIdToPath } from "./verseIds";
+import { canPublishImage } from "./moderation";
 
 const NOSTR_RELAYS = [
   "wss://relay.nostr.band",
@@ -11,22 +13,6 @@ const NOSTR_RELAYS = [
   "wss://relay.primal.net"
 ];
 
-/**
- * Convert verseId to URL path
- * "genesis-1-1" -> "/genesis/1/1"
- * "1-john-3-16" -> "/1-john/3/16"
- */
-function verseIdToPath(verseId: string): string {
-  const parts = verseId.split("-");
-  if (parts.length < 3) {
-    throw new Error(`Invalid verseId format: ${verseId}`);
-  }
-  const verse = parts.pop()!;
-  const chapter = parts.pop()!;
-  const book = parts.join("-");
-  return `/${book}/${chapter}/${verse}`;
-}
-
 /**
  * Format content for Nostr post
  * Adds extension hint to image URL for legacy client compatibility
@@ -92,6 +78,22 @@ export const publishToNostr = internalAction({
       return;
     }
 
+    // Taken-down images are never posted (takedown also cancels this job; this
+    // covers a race). Pending ones are held: approval schedules the post again.
+    if (!canPublishImage(image)) {
+      console.log(`[Nostr] Image ${args.imageId} is ${image.moderationStatus}, skipping`);
+      return;
+    }
+
+    // Only the canonical image is posted once an admin has pinned one for the verse
+    const pinnedImageId = await ctx.runQuery(internal.verseImages.getPinnedImageIdInternal, {
+      verseId: args.verseId,
+    });
+    if (pinnedImageId && pinnedImageId !== args.imageId) {
+      console.log(`[Nostr] Image ${args.imageId} is not the pinned image for ${args.verseId}, skipping`);
+      return;
+    }
+
     // Build permanent public URL via HTTP action (see convex/http.ts)
     // CONVEX_CLOUD_URL is auto-provided in Convex Cloud; may be missing in local dev.
     const convexUrl = process.env.CONVEX_CLOUD_URL;
@@ -175,3 +177,70 @@ export const publishToNostr = internalAction({
     }
   },
 });
+
+/**
+ * Internal action to retract a published post with a NIP-09 deletion event.
+ * Scheduled when an admin takes down an image that was already posted.
+ */
+export const deleteFromNostr = internalAction({
+  args: {
+    imageId: v.id("verseImages"),
+    eventId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const privateKey = process.env.NOSTR_PRIVATE_KEY;
+    if (!privateKey) {
+      console.log("[Nostr] NOSTR_PRIVATE_KEY not configured, skipping deletion");
+      return;
+    }
+
+    const image = await ctx.runQuery(internal.verseImages.getImageById, { imageId: args.imageId });
+    if (image?.nostrDeletedAt) {
+      console.log(`[Nostr] Event ${args.eventId} already deleted, skipping`);
+      return;
+    }
+
+    const { Nostr, createEvent, signEvent, getPublicKey, getEventHash, decodePrivateKey } = await import("snstr");
+
+    // Send the deletion to the relays the post went to
+    const client = new Nostr(image?.nostrRelays?.length ? image.nostrRelays : NOSTR_RELAYS);
+
+    try {
+      const hexKey = privateKey.startsWith("nsec1")
+        ? decodePrivateKey(privateKey as `nsec1${string}`)
+        : privateKey;
+
+      await client.connectToRelays();
+
+      const pubkey = getPublicKey(hexKey);
+
+      // NIP-09: kind 5 with an "e" tag per deleted event and "k" for its kind
+      const unsignedEvent = createEvent({
+        kind: 5,
+        content: "Image removed by moderators",
+        tags: [["e", args.eventId], ["k", "1"]],
+      }, pubkey);
+
+      const deletionEventId = await getEventHash(unsignedEvent);
+      const sig = await signEvent(deletionEventId, hexKey);
+
+      await client.publishEvent({
+        ...unsignedEvent,
+        id: deletionEventId,
+        sig,
+      });
+
+      await ctx.runMutation(internal.moderation.recordNostrDeletion, {
+        imageId: args.imageId,
+        deletionEventId,
+        deletedAt: Date.now(),
+      });
+
+      console.log(`[Nostr] Sent deletion ${deletionEventId} for event ${args.eventId}`);
+    } catch (error) {
+      console.error("[Nostr] Deletion failed:", error);
+    } finally {
+      client.disconnectFromRelays();
+    }
+  },
+});
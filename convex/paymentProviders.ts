@@ -0,0 +1,311 @@
+/**
+ * Lightning payment providers behind one interface, shared by the invoice
+ * routes and the Convex settlement sweep. Providers talk to the node with
+ * fetch, atob and crypto only, which both the Next.js and the default Convex
+ * runtime provide, so the sweep doesn't need a "use node" action.
+ *
+ * PAYMENT_PROVIDER picks the backend:
+ * - "lnd" (default): LND REST, configured by LND_HOST / LND_INVOICE_MACAROON
+ *   (LND_REST_URL overrides https://LND_HOST, e.g. for a local fake LND).
+ * - "lnbits": an LNbits-style REST wallet, configured by LNBITS_URL and
+ *   LNBITS_INVOICE_KEY.
+ * - "fake": in-memory invoices that settle FAKE_PAYMENT_SETTLE_MS after
+ *   creation (default 5s). For tests and local development; refused when
+ *   NODE_ENV is production.
+ */
+
+export type PaymentProviderName = "lnd" | "lnbits" | "fake";
+
+export type ProviderInvoiceState = "open" | "settled" | "canceled";
+
+export interface ProviderInvoice {
+  // Hex payment hash, as stored on the Convex invoice
+  paymentHash: string;
+  bolt11: string;
+}
+
+export interface ProviderInvoiceStatus {
+  state: ProviderInvoiceState;
+  // When the invoice settled (ms), if the provider reports it
+  settledAt?: number;
+}
+
+export interface SettlementEvent extends ProviderInvoiceStatus {
+  paymentHash: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createInvoice(amountSats: number, memo: string): Promise<ProviderInvoice>;
+  lookupInvoice(paymentHash: string): Promise<ProviderInvoiceStatus>;
+  /**
+   * Latest state of each invoice the provider could reach. Invoices whose
+   * lookup fails are left out so callers retry them later.
+   */
+  pollSettlements(paymentHashes: string[]): Promise<SettlementEvent[]>;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+// Invoices are payable for 15 minutes
+export const INVOICE_EXPIRY_SECONDS = 15 * 60;
+// Payments in flight at expiry can still settle; keep checking this long after
+export const SETTLEMENT_GRACE_MS = 10 * 60 * 1000;
+const PROVIDER_TIMEOUT_MS = 10_000;
+const DEFAULT_FAKE_SETTLE_MS = 5000;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * The configured payment provider, or null when its settings are missing.
+ */
+export function getPaymentProvider(env: Env = process.env): PaymentProvider | null {
+  const name = env.PAYMENT_PROVIDER || "lnd";
+
+  if (name === "lnd") {
+    const macaroon = env.LND_INVOICE_MACAROON;
+    const baseUrl = env.LND_REST_URL || (env.LND_HOST ? `https://${env.LND_HOST}` : undefined);
+    if (!macaroon || !baseUrl) return null;
+    return createLndProvider({ baseUrl: trimTrailingSlashes(baseUrl), macaroon });
+  }
+
+  if (name === "lnbits") {
+    const apiKey = env.LNBITS_INVOICE_KEY;
+    if (!env.LNBITS_URL || !apiKey) return null;
+    return createLnbitsProvider({ baseUrl: trimTrailingSlashes(env.LNBITS_URL), apiKey });
+  }
+
+  if (name === "fake" && env.NODE_ENV !== "production") {
+    const settleAfterMs = Number.parseInt(env.FAKE_PAYMENT_SETTLE_MS ?? "", 10);
+    return createFakePaymentProvider({
+      settleAfterMs: Number.isNaN(settleAfterMs) ? DEFAULT_FAKE_SETTLE_MS : settleAfterMs,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * LND REST (e.g. a Voltage node) with an invoice-only macaroon.
+ */
+export function createLndProvider(config: { baseUrl: string; macaroon: string }): PaymentProvider {
+  const headers = { "Grpc-Metadata-macaroon": config.macaroon };
+
+  const lookupInvoice = async (paymentHash: string): Promise<ProviderInvoiceStatus> => {
+    const hashHex = paymentHash.toLowerCase();
+    // Prefer the documented path using r_hash_str (hex)
+    let response = await fetchWithTimeout(`${config.baseUrl}/v1/invoice/${hashHex}`, { headers });
+    // Some gateways only accept the hash as base64 bytes in a query param
+    if (response.status === 404) {
+      const hashBase64 = encodeURIComponent(hexToBase64(hashHex));
+      response = await fetchWithTimeout(`${config.baseUrl}/v1/invoice?r_hash=${hashBase64}`, { headers });
+    }
+    const data = await readJson<{ state?: string; settle_date?: string }>(response, "LND invoice lookup");
+
+    const settleDate = Number.parseInt(data.settle_date ?? "0", 10);
+    switch (data.state) {
+      case "SETTLED":
+        return { state: "settled", ...(settleDate > 0 ? { settledAt: settleDate * 1000 } : {}) };
+      case "CANCELED":
+        return { state: "canceled" };
+      // ACCEPTED is a held payment that hasn't settled yet
+      case "OPEN":
+      case "ACCEPTED":
+        return { state: "open" };
+      default:
+        throw new PaymentProviderError(`LND invoice lookup returned unknown state: ${data.state}`);
+    }
+  };
+
+  return {
+    name: "lnd",
+    async createInvoice(amountSats, memo) {
+      const response = await fetchWithTimeout(`${config.baseUrl}/v1/invoices`, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          value: amountSats.toString(),
+          memo,
+          expiry: INVOICE_EXPIRY_SECONDS.toString(),
+        }),
+      });
+      const data = await readJson<{ r_hash: string; payment_request: string }>(
+        response,
+        "LND invoice creation"
+      );
+      // LND returns r_hash as base64; Convex stores hex
+      return { paymentHash: base64ToHex(data.r_hash), bolt11: data.payment_request };
+    },
+    lookupInvoice,
+    pollSettlements: (paymentHashes) => pollByLookup(lookupInvoice, paymentHashes),
+  };
+}
+
+/**
+ * LNbits reports payment times as unix seconds (older releases) or ISO
+ * strings (1.x). Milliseconds, or undefined when missing or unparseable.
+ */
+function parseLnbitsTime(time: number | string | undefined): number | undefined {
+  if (time === undefined || time === "") return undefined;
+  const seconds = Number(time);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(String(time));
+  return Number.isFinite(ms) && ms > 0 ? ms : undefined;
+}
+
+/**
+ * LNbits-style REST wallet (POST /api/v1/payments, GET /api/v1/payments/{hash})
+ * using the wallet's invoice/read key.
+ */
+export function createLnbitsProvider(config: { baseUrl: string; apiKey: string }): PaymentProvider {
+  const headers = { "X-Api-Key": config.apiKey };
+
+  const lookupInvoice = async (paymentHash: string): Promise<ProviderInvoiceStatus> => {
+    const response = await fetchWithTimeout(
+      `${config.baseUrl}/api/v1/payments/${paymentHash.toLowerCase()}`,
+      { headers }
+    );
+    const data = await readJson<{
+      paid?: boolean;
+      status?: string;
+      details?: { status?: string; time?: number | string; paid_at?: number | string };
+    }>(response, "LNbits payment lookup");
+    if (data.paid) {
+      const settledAt = parseLnbitsTime(data.details?.paid_at ?? data.details?.time);
+      return { state: "settled", ...(settledAt !== undefined ? { settledAt } : {}) };
+    }
+    const status = data.details?.status ?? data.status;
+    if (status === "failed" || status === "expired") return { state: "canceled" };
+    return { state: "open" };
+  };
+
+  return {
+    name: "lnbits",
+    async createInvoice(amountSats, memo) {
+      const response = await fetchWithTimeout(`${config.baseUrl}/api/v1/payments`, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ out: false, amount: amountSats, memo, expiry: INVOICE_EXPIRY_SECONDS }),
+      });
+      const data = await readJson<{ payment_hash: string; payment_request?: string; bolt11?: string }>(
+        response,
+        "LNbits invoice creation"
+      );
+      const bolt11 = data.payment_request ?? data.bolt11;
+      if (!bolt11) {
+        throw new PaymentProviderError("LNbits invoice creation returned no payment request");
+      }
+      return { paymentHash: data.payment_hash.toLowerCase(), bolt11 };
+    },
+    lookupInvoice,
+    pollSettlements: (paymentHashes) => pollByLookup(lookupInvoice, paymentHashes),
+  };
+}
+
+export interface FakePaymentProvider extends PaymentProvider {
+  settle(paymentHash: string, settledAt?: number): void;
+  cancel(paymentHash: string): void;
+}
+
+/**
+ * In-memory provider. The creation time is encoded in the payment hash, so a
+ * fake in another process (Next.js vs Convex) agrees on when an invoice
+ * auto-settles. Without settleAfterMs, invoices only change state through
+ * settle() and cancel().
+ */
+export function createFakePaymentProvider(
+  options: { settleAfterMs?: number; now?: () => number } = {}
+): FakePaymentProvider {
+  const now = options.now ?? Date.now;
+  const overrides = new Map<string, ProviderInvoiceStatus>();
+
+  const lookupInvoice = async (paymentHash: string): Promise<ProviderInvoiceStatus> => {
+    const hashHex = paymentHash.toLowerCase();
+    const override = overrides.get(hashHex);
+    if (override) return override;
+
+    if (!/^[0-9a-f]{64}$/.test(hashHex)) {
+      throw new PaymentProviderError("Unknown fake invoice", 404);
+    }
+    const createdAt = Number.parseInt(hashHex.slice(0, 16), 16);
+    if (options.settleAfterMs !== undefined && now() >= createdAt + options.settleAfterMs) {
+      return { state: "settled", settledAt: createdAt + options.settleAfterMs };
+    }
+    return { state: "open" };
+  };
+
+  return {
+    name: "fake",
+    async createInvoice(amountSats) {
+      const random = crypto.getRandomValues(new Uint8Array(24));
+      const paymentHash = now().toString(16).padStart(16, "0") + bytesToHex(random);
+      // Looks like a regtest invoice but isn't payable
+      return { paymentHash, bolt11: `lnbcrt${amountSats * 10}n1fake${paymentHash}` };
+    },
+    lookupInvoice,
+    pollSettlements: (paymentHashes) => pollByLookup(lookupInvoice, paymentHashes),
+    settle(paymentHash, settledAt = now()) {
+      overrides.set(paymentHash.toLowerCase(), { state: "settled", settledAt });
+    },
+    cancel(paymentHash) {
+      overrides.set(paymentHash.toLowerCase(), { state: "canceled" });
+    },
+  };
+}
+
+async function pollByLookup(
+  lookup: (paymentHash: string) => Promise<ProviderInvoiceStatus>,
+  paymentHashes: string[]
+): Promise<SettlementEvent[]> {
+  const events: SettlementEvent[] = [];
+  for (const paymentHash of paymentHashes) {
+    try {
+      events.push({ paymentHash, ...(await lookup(paymentHash)) });
+    } catch (error) {
+      console.warn(`[Payments] Lookup failed for payment hash ${paymentHash}:`, error);
+    }
+  }
+  return events;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function readJson<T>(response: Response, operation: string): Promise<T> {
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "Unknown error");
+    throw new PaymentProviderError(`${operation} failed (${response.status}): ${errorText}`, response.status);
+  }
+  return (await response.json()) as T;
+}
+
+function trimTrailingSlashes(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function base64ToHex(base64: string): string {
+  return bytesToHex(Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)));
+}
+
+export function hexToBase64(hex: string): string {
+  const bytes = hex.match(/.{2}/g) ?? [];
+  return btoa(String.fromCharCode(...bytes.map((byte) => Number.parseInt(byte, 16))));
+}
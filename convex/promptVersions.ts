@@ -0,0 +1,162 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireAdminSession, validateServerSecret } from "./lib/auth";
+
+/**
+ * Report comparing image prompt versions (verseImages.promptVersion) by how
+ * often their images get regenerated, how they're voted on and how much
+ * feedback they draw.
+ */
+
+// A newer image of the same verse within this window counts as a regenerate
+export const REGENERATE_WINDOW_MS = 60 * 60 * 1000;
+
+// Images saved before prompt versions were recorded
+export const UNVERSIONED = "unversioned";
+
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 90;
+const MAX_REPORT_IMAGES = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PromptVersionStats {
+  version: string;
+  images: number;
+  regenerated: number;
+  regenerateRate: number;
+  upvotes: number;
+  downvotes: number;
+  feedback: number;
+}
+
+interface ReportImage {
+  id: string;
+  verseId: string;
+  promptVersion?: string;
+  createdAt: number;
+}
+
+/**
+ * Per-version stats, newest version first. An image counts as regenerated
+ * when the next image of its verse was made within windowMs.
+ */
+export function summarizePromptVersions(
+  images: ReportImage[],
+  votes: Array<{ imageId: string; value: number }>,
+  feedbackImageIds: string[],
+  windowMs: number = REGENERATE_WINDOW_MS
+): PromptVersionStats[] {
+  const stats = new Map<string, PromptVersionStats>();
+  const versionByImage = new Map<string, PromptVersionStats>();
+  for (const image of images) {
+    const version = image.promptVersion || UNVERSIONED;
+    let entry = stats.get(version);
+    if (!entry) {
+      entry = {
+        version,
+        images: 0,
+        regenerated: 0,
+        regenerateRate: 0,
+        upvotes: 0,
+        downvotes: 0,
+        feedback: 0,
+      };
+      stats.set(version, entry);
+    }
+    entry.images += 1;
+    versionByImage.set(image.id, entry);
+  }
+
+  const byVerse = new Map<string, ReportImage[]>();
+  for (const image of images) {
+    const verseImages = byVerse.get(image.verseId) ?? [];
+    verseImages.push(image);
+    byVerse.set(image.verseId, verseImages);
+  }
+  for (const verseImages of byVerse.values()) {
+    verseImages.sort((a, b) => a.createdAt - b.createdAt);
+    for (let i = 0; i < verseImages.length - 1; i++) {
+      if (verseImages[i + 1].createdAt - verseImages[i].createdAt <= windowMs) {
+        versionByImage.get(verseImages[i].id)!.regenerated += 1;
+      }
+    }
+  }
+
+  for (const vote of votes) {
+    const entry = versionByImage.get(vote.imageId);
+    if (!entry) continue;
+    if (vote.value > 0) entry.upvotes += 1;
+    else if (vote.value < 0) entry.downvotes += 1;
+  }
+
+  for (const imageId of feedbackImageIds) {
+    const entry = versionByImage.get(imageId);
+    if (entry) entry.feedback += 1;
+  }
+
+  return Array.from(stats.values())
+    .map((entry) => ({ ...entry, regenerateRate: entry.regenerated / entry.images }))
+    .sort((a, b) => {
+      if (a.version === UNVERSIONED) return 1;
+      if (b.version === UNVERSIONED) return -1;
+      return b.version.localeCompare(a.version);
+    });
+}
+
+/**
+ * Prompt version comparison over images made in the last `days` days
+ * (default 30, at most 90; capped at the 2000 newest images). Admin sessions only.
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const getPromptVersionReport = query({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    await requireAdminSession(ctx, args.sid);
+
+    const days = Math.min(Math.max(args.days ?? DEFAULT_REPORT_DAYS, 1), MAX_REPORT_DAYS);
+    const since = Date.now() - days * DAY_MS;
+
+    const images = await ctx.db
+      .query("verseImages")
+      .withIndex("by_createdAt", (q) => q.gte("createdAt", since))
+      .order("desc")
+      .take(MAX_REPORT_IMAGES);
+
+    const verseIds = Array.from(new Set(images.map((image) => image.verseId)));
+    const [verseVotes, feedback] = await Promise.all([
+      Promise.all(
+        verseIds.map((verseId) =>
+          ctx.db
+            .query("imageVotes")
+            .withIndex("by_verse", (q) => q.eq("verseId", verseId))
+            .collect()
+        )
+      ),
+      ctx.db
+        .query("feedback")
+        .withIndex("by_createdAt", (q) => q.gte("createdAt", since))
+        .collect(),
+    ]);
+
+    return {
+      days,
+      since,
+      truncated: images.length === MAX_REPORT_IMAGES,
+      versions: summarizePromptVersions(
+        images.map((image) => ({
+          id: image._id,
+          verseId: image.verseId,
+          promptVersion: image.promptVersion,
+          createdAt: image.createdAt,
+        })),
+        verseVotes.flat(),
+        feedback.flatMap((entry) => (entry.imageContext?.imageId ? [entry.imageContext.imageId] : []))
+      ),
+    };
+  },
+});
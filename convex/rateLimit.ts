@@ -13,6 +13,10 @@ export const RATE_LIMITS = {
   session: { windowMs: 60_000, maxRequests: 10 }, // 10 session creates per minute
   invoice: { windowMs: 60_000, maxRequests: 10 }, // 10 invoice creates per minute
   feedback: { windowMs: 60_000, maxRequests: 5 }, // 5 feedback submissions per minute
+  vote: { windowMs: 60_000, maxRequests: 30 }, // 30 image votes per minute
+  "vote-ip": { windowMs: 3_600_000, maxRequests: 200 }, // 200 image votes per hour per IP, across sessions
+  redeem: { windowMs: 900_000, maxRequests: 10 }, // 10 gift code attempts per 15 minutes
+  search: { windowMs: 60_000, maxRequests: 30 }, // 30 scripture searches per minute
 } as const;
 
 export type RateLimitEndpoint = keyof typeof RATE_LIMITS;
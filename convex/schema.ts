@@ -17,6 +17,14 @@ const scenePlanValidator = v.object({
   composition: v.optional(v.string()),
 });
 
+// Registry entry as injected into an image prompt (snapshot for auditing)
+const registryPromptEntryValidator = v.object({
+  id: v.string(),
+  kind: v.union(v.literal("character"), v.literal("location")),
+  name: v.string(),
+  description: v.string(),
+});
+
 const promptInputsValidator = v.object({
   reference: v.optional(v.string()),
   aspectRatio: v.optional(v.string()),
@@ -25,6 +33,20 @@ const promptInputsValidator = v.object({
   generationNumber: v.optional(v.number()),
   prevVerse: v.optional(verseContextValidator),
   nextVerse: v.optional(verseContextValidator),
+  registryEntries: v.optional(v.array(registryPromptEntryValidator)),
+  // User instruction for a refinement of parentImageId
+  refineInstruction: v.optional(v.string()),
+});
+
+const chatMessageMetadataValidator = v.object({
+  model: v.optional(v.string()),
+  promptTokens: v.optional(v.number()),
+  completionTokens: v.optional(v.number()),
+  totalTokens: v.optional(v.number()),
+  finishReason: v.optional(v.string()),
+  latencyMs: v.optional(v.number()),
+  creditsCharged: v.optional(v.number()),
+  actualCredits: v.optional(v.number()),
 });
 
 export default defineSchema({
@@ -49,6 +71,8 @@ export default defineSchema({
       })
     ),
     generationNumber: v.optional(v.number()),
+    // Image this one was refined from (image-to-image), if any
+    parentImageId: v.optional(v.id("verseImages")),
     promptVersion: v.optional(v.string()),
     promptInputs: v.optional(promptInputsValidator),
     translationId: v.optional(v.string()),
@@ -75,10 +99,47 @@ export default defineSchema({
     nostrEventId: v.optional(v.string()),
     nostrPublishedAt: v.optional(v.number()),
     nostrRelays: v.optional(v.array(v.string())),
+    // Pending Nostr post, cancelled if the image is taken down first
+    nostrScheduledId: v.optional(v.id("_scheduled_functions")),
+    // NIP-09 deletion sent after a takedown of a published image
+    nostrDeletionEventId: v.optional(v.string()),
+    nostrDeletedAt: v.optional(v.number()),
+    // Moderation: "pending" | "approved" | "hidden" (missing = approved, pre-moderation images)
+    moderationStatus: v.optional(v.string()),
+    moderatedAt: v.optional(v.number()),
+    moderatedBySid: v.optional(v.string()),
   })
     // Index for querying all images for a verse sorted by creation time
     .index("by_verse", ["verseId", "createdAt"])
-    .index("by_generationId", ["generationId"]),
+    .index("by_generationId", ["generationId"])
+    // Moderation queue (pending images, oldest first)
+    .index("by_moderation", ["moderationStatus", "createdAt"])
+    // Lookup from the /image/{storageId} HTTP endpoint
+    .index("by_storage", ["storageId"])
+    // Prompt version report (recent images)
+    .index("by_createdAt", ["createdAt"]),
+
+  // Admin-pinned canonical image per verse (at most one row per verseId)
+  verseImagePins: defineTable({
+    verseId: v.string(),
+    imageId: v.id("verseImages"),
+    pinnedBySid: v.string(),
+    pinnedAt: v.number(),
+  })
+    .index("by_verse", ["verseId"]),
+
+  // Community votes on verse images (one row per session per image)
+  imageVotes: defineTable({
+    sid: v.string(),
+    imageId: v.id("verseImages"),
+    verseId: v.string(), // Denormalized for per-verse ranking
+    value: v.number(), // 1 (up) | -1 (down)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_sid_image", ["sid", "imageId"])
+    .index("by_sid_verse", ["sid", "verseId"])
+    .index("by_verse", ["verseId"]),
 
   // Anonymous sessions with credit balances
   sessions: defineTable({
@@ -111,19 +172,68 @@ export default defineSchema({
     paidAt: v.optional(v.number()),
     expiresAt: v.number(),
     paymentHash: v.optional(v.string()),
+    // Bundle bought and credits granted on payment (missing on pre-catalog invoices)
+    bundleId: v.optional(v.string()),
+    credits: v.optional(v.number()),
   })
     .index("by_sid", ["sid"])
     .index("by_invoiceId", ["invoiceId"])
-    .index("by_paymentHash", ["paymentHash"]),
+    .index("by_paymentHash", ["paymentHash"])
+    // Settlement sweep (pending invoices, soonest expiry first)
+    .index("by_status", ["status", "expiresAt"]),
+
+  // Nostr Wallet Connect (NIP-47) wallets that pay a session's top-ups
+  walletConnections: defineTable({
+    sid: v.string(),
+    walletPubkey: v.string(),
+    relays: v.array(v.string()),
+    // Connection secret, AES-256-GCM encrypted with NWC_ENCRYPTION_KEY (never stored in plaintext)
+    encryptedSecret: v.string(),
+    // Largest single top-up the wallet may pay without asking
+    budgetUsd: v.number(),
+    // Auto-refill: buy this bundle when credits drop below the threshold
+    autoRefillThreshold: v.optional(v.number()),
+    autoRefillBundleId: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    lastPaidAt: v.optional(v.number()),
+    lastRefillAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+  }).index("by_sid", ["sid"]),
+
+  // Admin-issued codes redeemable for credits (gift cards, promotions)
+  giftCodes: defineTable({
+    code: v.string(), // Normalized: uppercase, no separators
+    credits: v.number(),
+    maxRedemptions: v.number(),
+    redemptionCount: v.number(),
+    perSessionLimit: v.optional(v.number()), // Unset: no per-session limit
+    expiresAt: v.number(),
+    note: v.optional(v.string()), // Admin label, e.g. campaign name
+    createdBySid: v.string(),
+    createdAt: v.number(),
+  }).index("by_code", ["code"]),
+
+  // One row per redemption, for per-session limits and auditing
+  giftCodeRedemptions: defineTable({
+    code: v.string(),
+    sid: v.string(),
+    credits: v.number(),
+    createdAt: v.number(),
+  }).index("by_code_sid", ["code", "sid"]),
 
   // Credit transaction ledger for auditing
   creditLedger: defineTable({
     sid: v.string(),
     delta: v.number(), // positive (purchase/refund) or negative (generation)
-    reason: v.string(), // "purchase" | "generation" | "refund"
+    reason: v.string(), // "purchase" | "gift_code" | "reservation" | "generation" | "refund" | "usage_refund"
     modelId: v.optional(v.string()),
     costUsd: v.optional(v.number()),
     generationId: v.optional(v.string()),
+    // Credit bundle bought, for purchases
+    bundleId: v.optional(v.string()),
+    // Gift code redeemed, for gift_code entries
+    giftCode: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_sid", ["sid", "createdAt"])
@@ -183,6 +293,141 @@ export default defineSchema({
     createdAt: v.number(),
   }).index("by_createdAt", ["createdAt"]),
 
+  // Async image generation jobs; the client subscribes to a job for progress
+  imageJobs: defineTable({
+    sid: v.string(),
+    verseId: v.string(),
+    // Credit reservation and saveImage idempotency key
+    generationId: v.string(),
+    modelId: v.string(),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("planning"),
+      v.literal("rendering"),
+      v.literal("saving"),
+      v.literal("done"),
+      v.literal("failed")
+    ),
+    imageId: v.optional(v.id("verseImages")), // Saved image once done
+    error: v.optional(v.string()), // User-facing failure reason
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_generationId", ["generationId"])
+    .index("by_status", ["status", "updatedAt"]),
+
+  // "Illustrate this chapter" batches: one credit reservation for all missing
+  // verses, generated in order as image jobs and settled when none are left
+  imageBatches: defineTable({
+    sid: v.string(),
+    book: v.string(), // Book slug
+    chapter: v.number(),
+    verses: v.array(
+      v.object({
+        verse: v.number(),
+        status: v.union(
+          v.literal("pending"),
+          v.literal("generating"),
+          v.literal("done"),
+          v.literal("failed")
+        ),
+        imageId: v.optional(v.id("verseImages")),
+        // Image job generating the verse, set when it is claimed
+        generationId: v.optional(v.string()),
+      })
+    ),
+    // Reservation ledger key for the whole batch
+    generationId: v.string(),
+    reservedCredits: v.number(), // 0 for admin batches
+    reservedCostUsd: v.number(),
+    // Actual cost of finished verses, charged at settlement (capped at reservation)
+    chargedCredits: v.number(),
+    chargedCostUsd: v.number(),
+    // Shared by every verse in the batch
+    settings: v.object({
+      model: v.string(),
+      style: v.optional(v.string()),
+      aspectRatio: v.optional(v.string()),
+      resolution: v.optional(v.string()),
+      translationId: v.optional(v.string()),
+      theme: v.optional(
+        v.object({
+          setting: v.string(),
+          palette: v.string(),
+          elements: v.string(),
+          style: v.string(),
+        })
+      ),
+    }),
+    status: v.union(v.literal("running"), v.literal("settled")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status", ["status", "updatedAt"]),
+
+  // Visual theme shared by every image of a chapter, edited by admins
+  chapterThemes: defineTable({
+    book: v.string(), // Book slug
+    chapter: v.number(),
+    setting: v.string(),
+    palette: v.string(),
+    elements: v.string(),
+    style: v.string(),
+    // "drafted" themes started from an LLM draft of the chapter text
+    source: v.union(v.literal("admin"), v.literal("drafted")),
+    draftModel: v.optional(v.string()),
+    updatedBySid: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_book_chapter", ["book", "chapter"]),
+
+  // Recurring characters and places with canonical visual descriptions
+  visualRegistry: defineTable({
+    kind: v.union(v.literal("character"), v.literal("location")),
+    name: v.string(),
+    nameKey: v.string(), // Lowercased name, unique
+    aliases: v.array(v.string()),
+    description: v.string(),
+    // Books/chapters where the entry applies; chapters omitted = whole book
+    scopes: v.array(
+      v.object({
+        book: v.string(),
+        chapterStart: v.optional(v.number()),
+        chapterEnd: v.optional(v.number()),
+      })
+    ),
+    updatedBySid: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_name_key", ["nameKey"]),
+
+  // Chat conversations, one per thread a session starts at a verse location
+  conversations: defineTable({
+    sid: v.string(),
+    // Location the conversation belongs to (verseId, or "general" without page context)
+    verseId: v.string(),
+    title: v.string(),
+    messageCount: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_sid_verse", ["sid", "verseId", "updatedAt"]),
+
+  // Chat messages; assistant turns carry token and latency metadata
+  messages: defineTable({
+    conversationId: v.id("conversations"),
+    // UI message ID from the client/stream (idempotency key within a conversation)
+    messageId: v.string(),
+    role: v.string(), // "user" | "assistant"
+    text: v.string(),
+    metadata: v.optional(chatMessageMetadataValidator),
+    createdAt: v.number(),
+  })
+    .index("by_conversation", ["conversationId", "createdAt"])
+    .index("by_conversation_message", ["conversationId", "messageId"]),
+
   // SECURITY: Admin usage audit log for tracking admin API usage
   // Admin bypasses credit checks, so we log separately for visibility
   adminAuditLog: defineTable({
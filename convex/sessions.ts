@@ -1,6 +1,7 @@
 import { action, internalMutation, mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { validateServerSecret } from "./lib/auth";
 
 // Default daily spending limit per session (in USD)
 // This prevents API cost abuse by capping how much a single session can spend per day
@@ -9,17 +10,6 @@ export const DEFAULT_DAILY_SPEND_LIMIT_USD = 5.0;
 // Session TTL: 90 days from last activity
 export const SESSION_TTL_MS = 90 * 24 * 60 * 60 * 1000;
 
-/**
- * Validates the server secret for secure Convex action calls.
- * This ensures only our API routes can call sensitive mutations.
- */
-const validateServerSecret = (serverSecret: string) => {
-  const expectedSecret = process.env.CONVEX_SERVER_SECRET;
-  if (!expectedSecret || serverSecret !== expectedSecret) {
-    throw new Error("Unauthorized: Invalid server secret");
-  }
-};
-
 function resolveTier(currentTier: string): "paid" | "admin" {
   if (currentTier === "admin") return "admin";
   return "paid"; // All non-admin users are "paid" tier
@@ -396,7 +386,12 @@ export const releaseReservationInternal = internalMutation({
       (e) => e.reason === "reservation"
     );
 
-    if (reservationEntries.length === 0) {
+    // A charge or an earlier release already settled the reservation (idempotency)
+    const alreadySettled = ledgerEntries.some(
+      (e) => e.reason === "generation" || e.reason === "refund"
+    );
+
+    if (reservationEntries.length === 0 || alreadySettled) {
       return {
         success: true,
         newBalance: session.credits,
@@ -541,15 +536,25 @@ export const deductCreditsInternal = internalMutation({
             createdAt: Date.now(),
           });
 
-          // Cancel the reservation
+          // Cancel the converted part of the reservation
           await ctx.db.insert("creditLedger", {
             sid: args.sid,
-            delta: reservedAmount,
+            delta: chargeAmount,
             reason: "refund",
             generationId: args.generationId,
             createdAt: Date.now(),
           });
 
+          // Return the unused part under its own reason so usage-based
+          // refunds are distinguishable from failed-generation refunds
+          await ctx.db.insert("creditLedger", {
+            sid: args.sid,
+            delta: difference,
+            reason: "usage_refund",
+            generationId: args.generationId,
+            createdAt: Date.now(),
+          });
+
           // Credit back the excess to user's balance
           const newCredits = session.credits + difference;
 
@@ -730,6 +735,70 @@ export const deductCreditsInternal = internalMutation({
   },
 });
 
+/**
+ * Internal mutation to refund a generation whose result was lost after it was
+ * charged (e.g. the image could not be saved).
+ * Refunds whatever the generationId still nets to across reservation,
+ * generation and refund entries, so repeat calls and generations that were
+ * already released refund nothing.
+ */
+export const refundCreditsInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    generationId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db
+      .query("sessions")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+
+    if (!session) {
+      return { success: false, error: "Session not found" };
+    }
+
+    const ledgerEntries = await ctx.db
+      .query("creditLedger")
+      .withIndex("by_generationId", (q) =>
+        q.eq("generationId", args.generationId).eq("sid", args.sid)
+      )
+      .collect();
+
+    const netDelta = ledgerEntries.reduce((sum, entry) => sum + entry.delta, 0);
+    if (netDelta >= 0) {
+      return { success: true, newBalance: session.credits, alreadyRefunded: true };
+    }
+
+    const refundAmount = Math.abs(netDelta);
+
+    // Reverse the daily spend of the charge, or of the reservation if it was never converted
+    const generationEntries = ledgerEntries.filter((e) => e.reason === "generation");
+    const spendEntries =
+      generationEntries.length > 0
+        ? generationEntries
+        : ledgerEntries.filter((e) => e.reason === "reservation");
+    const refundCostUsd = spendEntries.reduce((sum, e) => sum + (e.costUsd ?? 0), 0);
+
+    const newCredits = session.credits + refundAmount;
+    const currentDailySpend = session.dailySpendUsd ?? 0;
+
+    await ctx.db.patch(session._id, {
+      credits: newCredits,
+      dailySpendUsd: Math.max(0, currentDailySpend - refundCostUsd),
+    });
+
+    await ctx.db.insert("creditLedger", {
+      sid: args.sid,
+      delta: refundAmount,
+      reason: "refund",
+      generationId: args.generationId,
+      createdAt: Date.now(),
+    });
+
+    return { success: true, newBalance: newCredits, refunded: refundAmount };
+  },
+});
+
 /**
  * Public action to add credits to a session.
  * Validates server secret before calling internal mutation.
@@ -858,6 +927,31 @@ export const deductCredits = action({
   },
 });
 
+/**
+ * Public action to refund a charged generation whose result was lost.
+ * Validates server secret before calling internal mutation.
+ */
+export const refundCredits = action({
+  args: {
+    sid: v.string(),
+    generationId: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{
+    success: boolean;
+    newBalance?: number;
+    error?: string;
+    refunded?: number;
+    alreadyRefunded?: boolean;
+  }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.sessions.refundCreditsInternal, {
+      sid: args.sid,
+      generationId: args.generationId,
+    });
+  },
+});
+
 /**
  * Get credit ledger history for a session.
  */
@@ -0,0 +1,52 @@
+/**
+ * verseId helpers shared by the client (image lookups) and Convex (Nostr links).
+ * The hero image, scripture details and moderation queue import it in the
+ * browser, so it only uses plain functions and the static Bible structure.
+ *
+ * verseId format: the display reference lowercased with spaces, colons and
+ * dashes collapsed to single hyphens.
+ *   "Genesis 1:1"   -> "genesis-1-1"
+ *   "1 John 3:16"   -> "1-john-3-16"
+ *   "John 3:16-21"  -> "john-3-16-21"  (passage)
+ *   "Psalms 23"     -> "psalms-23"     (whole chapter)
+ */
+
+import { BOOK_BY_SLUG } from "../src/data/bible-structure";
+
+/**
+ * Create a verseId from a display reference.
+ */
+export function createVerseId(reference: string): string {
+  return reference
+    .trim()
+    .toLowerCase()
+    .replace(/[\s:\u2013\u2014-]+/g, "-");
+}
+
+/**
+ * Convert a verseId back to the passage page that shows its image.
+ * Inverse of createVerseId for references built from book names. Whole-chapter
+ * ids link to the full verse range, since /book/chapter is the chapter reader.
+ */
+export function verseIdToPath(verseId: string): string {
+  const parts = verseId.split("-");
+  // Book slugs always end in a word ("john", "1-john"), so everything after
+  // the last non-numeric part is chapter/verse numbers
+  let lastWordIndex = -1;
+  parts.forEach((part, index) => {
+    if (!/^\d+$/.test(part)) lastWordIndex = index;
+  });
+  const book = parts.slice(0, lastWordIndex + 1).join("-");
+  const numbers = parts.slice(lastWordIndex + 1);
+  if (!book || numbers.length < 1 || numbers.length > 3) {
+    throw new Error(`Invalid verseId format: ${verseId}`);
+  }
+  const [chapter, startVerse, endVerse] = numbers;
+  if (!startVerse) {
+    const versesInChapter = BOOK_BY_SLUG[book]?.chapters[Number(chapter) - 1];
+    return versesInChapter ? `/${book}/${chapter}/1-${versesInChapter}` : `/${book}/${chapter}`;
+  }
+  return endVerse
+    ? `/${book}/${chapter}/${startVerse}-${endVerse}`
+    : `/${book}/${chapter}/${startVerse}`;
+}
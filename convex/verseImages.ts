@@ -1,7 +1,10 @@
-import { action, internalMutation, internalQuery, query } from "./_generated/server";
+import { action, internalMutation, internalQuery, query, QueryCtx } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { getVerseImageRanking } from "./imageVotes";
+import { isImageVisible } from "./moderation";
+import { requireAdminSession, validateServerSecret } from "./lib/auth";
 
 const chapterThemeValidator = v.object({
   setting: v.string(),
@@ -26,6 +29,14 @@ const scenePlanValidator = v.object({
   composition: v.optional(v.string()),
 });
 
+// Registry entry as injected into an image prompt (snapshot for auditing)
+const registryPromptEntryValidator = v.object({
+  id: v.string(),
+  kind: v.union(v.literal("character"), v.literal("location")),
+  name: v.string(),
+  description: v.string(),
+});
+
 const promptInputsValidator = v.object({
   reference: v.optional(v.string()),
   aspectRatio: v.optional(v.string()),
@@ -34,24 +45,90 @@ const promptInputsValidator = v.object({
   generationNumber: v.optional(v.number()),
   prevVerse: v.optional(verseContextValidator),
   nextVerse: v.optional(verseContextValidator),
+  registryEntries: v.optional(v.array(registryPromptEntryValidator)),
+  // User instruction for a refinement of parentImageId
+  refineInstruction: v.optional(v.string()),
 });
 
+// Images generated before style selection existed all used the classical profile
+const LEGACY_STYLE_PROFILE_ID = "classical";
+
+/**
+ * Style profile an image was generated with.
+ */
+function getImageStyleProfileId(image: { promptInputs?: { styleProfileId?: string } }): string {
+  return image.promptInputs?.styleProfileId ?? LEGACY_STYLE_PROFILE_ID;
+}
+
+/**
+ * Get the admin-pinned image ID for a verse, if any.
+ */
+async function getPinnedImageId(
+  ctx: QueryCtx,
+  verseId: string
+): Promise<Id<"verseImages"> | null> {
+  const pin = await ctx.db
+    .query("verseImagePins")
+    .withIndex("by_verse", (q) => q.eq("verseId", verseId))
+    .first();
+  return pin?.imageId ?? null;
+}
+
+/**
+ * Choose a verse's canonical image: the pinned image while it is visible,
+ * otherwise the newest visible image. newestFirst is ordered by creation time.
+ */
+export function chooseCanonicalImage<T extends { moderationStatus?: string }>(
+  pinnedImage: T | null,
+  newestFirst: T[]
+): T | null {
+  if (pinnedImage && isImageVisible(pinnedImage)) return pinnedImage;
+  return newestFirst.find(isImageVisible) ?? null;
+}
+
 /**
- * Get the most recent image for a verse.
+ * Whether an image may be pinned for a verse: it must belong to the verse
+ * and not be taken down.
+ */
+export function canPinImage(
+  image: { verseId: string; moderationStatus?: string } | null,
+  verseId: string
+): boolean {
+  return !!image && image.verseId === verseId && isImageVisible(image);
+}
+
+/**
+ * Get the canonical image for a verse: the pinned image when an admin has
+ * pinned one, otherwise the most recent. Taken-down images are skipped.
+ * With styleProfileId, only images generated in that style are considered.
  * Returns the image URL (either direct URL or from storage).
  */
 export const getLatestImage = query({
   args: {
     verseId: v.string(),
+    styleProfileId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const image = await ctx.db
+    const matchesStyle = (image: { promptInputs?: { styleProfileId?: string } }) =>
+      !args.styleProfileId || getImageStyleProfileId(image) === args.styleProfileId;
+
+    const pinnedImageId = await getPinnedImageId(ctx, args.verseId);
+    const pinnedImage = pinnedImageId ? await ctx.db.get(pinnedImageId) : null;
+    const latestQuery = ctx.db
       .query("verseImages")
       .withIndex("by_verse", (q) => q.eq("verseId", args.verseId))
       .order("desc")
-      .first();
+      .filter((q) => q.neq(q.field("moderationStatus"), "hidden"));
+    const newestFirst = args.styleProfileId
+      ? (await latestQuery.collect()).filter(matchesStyle)
+      : await latestQuery.take(1);
+    const image = chooseCanonicalImage(
+      pinnedImage && matchesStyle(pinnedImage) ? pinnedImage : null,
+      newestFirst
+    );
 
     if (!image) return null;
+    const isPinned = image._id === pinnedImageId;
 
     // If we have a storage ID, get the URL from storage
     if (image.storageId) {
@@ -66,6 +143,7 @@ export const getLatestImage = query({
           verseText: image.verseText,
           chapterTheme: image.chapterTheme,
           generationNumber: image.generationNumber,
+          parentImageId: image.parentImageId,
           promptVersion: image.promptVersion,
           promptInputs: image.promptInputs,
           translationId: image.translationId,
@@ -81,6 +159,7 @@ export const getLatestImage = query({
           imageWidth: image.imageWidth,
           imageHeight: image.imageHeight,
           createdAt: image.createdAt,
+          isPinned,
         };
       }
     }
@@ -96,6 +175,7 @@ export const getLatestImage = query({
         verseText: image.verseText,
         chapterTheme: image.chapterTheme,
         generationNumber: image.generationNumber,
+        parentImageId: image.parentImageId,
         promptVersion: image.promptVersion,
         promptInputs: image.promptInputs,
         translationId: image.translationId,
@@ -111,6 +191,7 @@ export const getLatestImage = query({
         imageWidth: image.imageWidth,
         imageHeight: image.imageHeight,
         createdAt: image.createdAt,
+        isPinned,
       };
     }
 
@@ -120,12 +201,16 @@ export const getLatestImage = query({
 
 /**
  * Get image status for all verses in a chapter.
- * Returns an array of verse numbers with their image status.
+ * Returns an array of verse numbers with their image status, including
+ * whether an admin has pinned a canonical image.
+ * With includeThumbnails, each entry also carries the canonical image's URL
+ * (used by chapter reading mode; the verse strip and book menu skip it).
  */
 export const getChapterImageStatus = query({
   args: {
     book: v.string(),
     chapter: v.number(),
+    includeThumbnails: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     // Query all verse images that match the book/chapter prefix
@@ -140,25 +225,61 @@ export const getChapterImageStatus = query({
       )
       .collect();
 
-    // Count images per verse for this chapter
+    const pins = await ctx.db
+      .query("verseImagePins")
+      .withIndex("by_verse", (q) =>
+        q.gte("verseId", prefix).lt("verseId", `${prefix}~`)
+      )
+      .collect();
+    const pinnedImageIds = new Set(pins.map((pin) => pin.imageId));
+
+    // Count images per verse for this chapter, tracking the canonical one
     const imageCounts = new Map<number, number>();
+    const canonicalImages = new Map<number, (typeof images)[number]>();
+    const pinnedVerses = new Set<number>();
 
     for (const image of images) {
+      if (!isImageVisible(image)) continue;
       // Extract verse number from verseId (e.g., "genesis-1-15" -> 15)
+      // Passage images ("john-3-16-21") don't belong to a single verse
       const verseStr = image.verseId.slice(prefix.length);
+      if (!/^\d+$/.test(verseStr)) continue;
       const verseNum = parseInt(verseStr, 10);
       if (!isNaN(verseNum)) {
         imageCounts.set(verseNum, (imageCounts.get(verseNum) ?? 0) + 1);
+        const canonical = canonicalImages.get(verseNum);
+        const isPinned = pinnedImageIds.has(image._id);
+        if (isPinned) pinnedVerses.add(verseNum);
+        if (
+          !canonical ||
+          isPinned ||
+          (!pinnedImageIds.has(canonical._id) && image.createdAt > canonical.createdAt)
+        ) {
+          canonicalImages.set(verseNum, image);
+        }
       }
     }
 
     // Return sorted list of verses with their image counts
-    return Array.from(imageCounts.entries())
+    const status = Array.from(imageCounts.entries())
       .sort((a, b) => a[0] - b[0])
       .map(([verse, imageCount]) => ({
         verse,
         imageCount,
+        pinned: pinnedVerses.has(verse),
       }));
+
+    if (!args.includeThumbnails) return status;
+
+    return Promise.all(
+      status.map(async (entry) => {
+        const image = canonicalImages.get(entry.verse)!;
+        const thumbnailUrl = image.storageId
+          ? (await ctx.storage.getUrl(image.storageId)) ?? image.imageUrl ?? null
+          : image.imageUrl ?? null;
+        return { ...entry, thumbnailUrl };
+      })
+    );
   },
 });
 
@@ -201,6 +322,7 @@ export const getBooksWithImages = query({
           .withIndex("by_verse", (q) =>
             q.gte("verseId", prefix).lt("verseId", `${prefix}~`)
           )
+          .filter((q) => q.neq(q.field("moderationStatus"), "hidden"))
           .first();
         return exists ? slug : null;
       })
@@ -233,6 +355,7 @@ export const getChaptersWithImages = query({
     const chaptersWithImages = new Set<number>();
 
     for (const image of images) {
+      if (!isImageVisible(image)) continue;
       // Extract chapter from verseId: "genesis-1-15" -> 1
       // The suffix after prefix is "chapter-verse"
       const suffix = image.verseId.slice(prefix.length);
@@ -247,11 +370,15 @@ export const getChaptersWithImages = query({
 });
 
 /**
- * Get all images for a verse (for future history feature).
+ * Get all images for a verse, newest first, for the history gallery.
+ * The admin-pinned image (if any) is flagged with isPinned, and each image
+ * carries its community vote score. Taken-down images are left out, and
+ * styleProfileId limits the history to images generated in that style.
  */
 export const getImageHistory = query({
   args: {
     verseId: v.string(),
+    styleProfileId: v.optional(v.string()),
     limit: v.optional(v.number()),
     // Cache-busting token: changing this value forces Convex to re-run the query
     refreshToken: v.optional(v.number()),
@@ -260,11 +387,19 @@ export const getImageHistory = query({
     const query = ctx.db
       .query("verseImages")
       .withIndex("by_verse", (q) => q.eq("verseId", args.verseId))
-      .order("desc");
-
-    const images = args.limit
-      ? await query.take(args.limit)
-      : await query.collect();
+      .order("desc")
+      .filter((q) => q.neq(q.field("moderationStatus"), "hidden"));
+
+    const images = args.styleProfileId
+      ? (await query.collect())
+          .filter((image) => getImageStyleProfileId(image) === args.styleProfileId)
+          .slice(0, args.limit)
+      : args.limit
+        ? await query.take(args.limit)
+        : await query.collect();
+    const pinnedImageId = await getPinnedImageId(ctx, args.verseId);
+    const ranking = await getVerseImageRanking(ctx, args.verseId);
+    const scores = new Map(ranking.map((entry) => [entry.imageId, entry.score]));
 
     // Resolve storage URLs
     const results = await Promise.all(
@@ -283,6 +418,7 @@ export const getImageHistory = query({
           verseText: image.verseText,
           chapterTheme: image.chapterTheme,
           generationNumber: image.generationNumber,
+          parentImageId: image.parentImageId,
           promptVersion: image.promptVersion,
           promptInputs: image.promptInputs,
           translationId: image.translationId,
@@ -298,6 +434,8 @@ export const getImageHistory = query({
           imageWidth: image.imageWidth,
           imageHeight: image.imageHeight,
           createdAt: image.createdAt,
+          isPinned: image._id === pinnedImageId,
+          voteScore: scores.get(image._id) ?? 0,
         };
       })
     );
@@ -306,6 +444,132 @@ export const getImageHistory = query({
   },
 });
 
+/**
+ * The parts of an image needed to refine it: where it belongs, how it was
+ * generated and a URL the image model can fetch. Null for missing or
+ * taken-down images, which can't be refined.
+ */
+export const getImageForRefinement = query({
+  args: {
+    imageId: v.id("verseImages"),
+  },
+  handler: async (ctx, args) => {
+    const image = await ctx.db.get(args.imageId);
+    if (!image || !isImageVisible(image)) return null;
+
+    const imageUrl = image.storageId
+      ? (await ctx.storage.getUrl(image.storageId)) ?? image.imageUrl
+      : image.imageUrl;
+    if (!imageUrl) return null;
+
+    return {
+      id: image._id,
+      verseId: image.verseId,
+      imageUrl,
+      reference: image.reference,
+      verseText: image.verseText,
+      translationId: image.translationId,
+      aspectRatio: image.aspectRatio,
+      styleProfileId: getImageStyleProfileId(image),
+    };
+  },
+});
+
+/**
+ * Internal lookup of a verse's pinned image ID.
+ * Used by Nostr publishing so only the canonical image is posted.
+ */
+export const getPinnedImageIdInternal = internalQuery({
+  args: {
+    verseId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return getPinnedImageId(ctx, args.verseId);
+  },
+});
+
+/**
+ * Internal mutation to pin (or, with imageId omitted, unpin) a verse's
+ * canonical image. Only admin sessions may pin.
+ *
+ * Pinning an image that hasn't been posted to Nostr yet schedules its
+ * publication; publishToNostr skips images that lost the pin by then.
+ */
+export const setPinnedImageInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    verseId: v.string(),
+    imageId: v.optional(v.id("verseImages")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdminSession(ctx, args.sid);
+
+    const existing = await ctx.db
+      .query("verseImagePins")
+      .withIndex("by_verse", (q) => q.eq("verseId", args.verseId))
+      .first();
+
+    if (!args.imageId) {
+      if (existing) await ctx.db.delete(existing._id);
+      return { success: true, imageId: null };
+    }
+
+    const image = await ctx.db.get(args.imageId);
+    if (!image || !canPinImage(image, args.verseId)) {
+      throw new Error("Image not found for this verse");
+    }
+
+    const pin = {
+      verseId: args.verseId,
+      imageId: args.imageId,
+      pinnedBySid: args.sid,
+      pinnedAt: Date.now(),
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, pin);
+    } else {
+      await ctx.db.insert("verseImagePins", pin);
+    }
+
+    if (!image.nostrEventId && image.storageId && image.reference && image.verseText) {
+      const scheduledId = await ctx.scheduler.runAfter(0, internal.nostr.publishToNostr, {
+        imageId: image._id,
+        verseId: image.verseId,
+        reference: image.reference,
+        verseText: image.verseText,
+        storageId: image.storageId,
+        imageMimeType: image.imageMimeType,
+        imageWidth: image.imageWidth,
+        imageHeight: image.imageHeight,
+      });
+      await ctx.db.patch(image._id, { nostrScheduledId: scheduledId });
+    }
+
+    return { success: true, imageId: args.imageId };
+  },
+});
+
+/**
+ * Public action to pin or unpin a verse's canonical image.
+ * Validates server secret before calling internal mutation.
+ */
+export const setPinnedImage = action({
+  args: {
+    sid: v.string(),
+    verseId: v.string(),
+    imageId: v.optional(v.id("verseImages")),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; imageId: Id<"verseImages"> | null }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.verseImages.setPinnedImageInternal, {
+      sid: args.sid,
+      verseId: args.verseId,
+      imageId: args.imageId,
+    });
+  },
+});
+
 /**
  * Internal lookup to enforce generationId idempotency.
  */
@@ -336,6 +600,7 @@ export const saveImageWithStorage = internalMutation({
     verseText: v.optional(v.string()),
     chapterTheme: v.optional(chapterThemeValidator),
     generationNumber: v.optional(v.number()),
+    parentImageId: v.optional(v.id("verseImages")),
     promptVersion: v.optional(v.string()),
     promptInputs: v.optional(promptInputsValidator),
     translationId: v.optional(v.string()),
@@ -362,6 +627,7 @@ export const saveImageWithStorage = internalMutation({
       verseText: args.verseText,
       chapterTheme: args.chapterTheme,
       generationNumber: args.generationNumber,
+      parentImageId: args.parentImageId,
       promptVersion: args.promptVersion,
       promptInputs: args.promptInputs,
       translationId: args.translationId,
@@ -377,6 +643,7 @@ export const saveImageWithStorage = internalMutation({
       imageWidth: args.imageWidth,
       imageHeight: args.imageHeight,
       generationId: args.generationId,
+      moderationStatus: "pending",
       createdAt: Date.now(),
     });
     return id;
@@ -428,6 +695,7 @@ export const saveImageWithUrl = internalMutation({
     verseText: v.optional(v.string()),
     chapterTheme: v.optional(chapterThemeValidator),
     generationNumber: v.optional(v.number()),
+    parentImageId: v.optional(v.id("verseImages")),
     promptVersion: v.optional(v.string()),
     promptInputs: v.optional(promptInputsValidator),
     translationId: v.optional(v.string()),
@@ -454,6 +722,7 @@ export const saveImageWithUrl = internalMutation({
       verseText: args.verseText,
       chapterTheme: args.chapterTheme,
       generationNumber: args.generationNumber,
+      parentImageId: args.parentImageId,
       promptVersion: args.promptVersion,
       promptInputs: args.promptInputs,
       translationId: args.translationId,
@@ -469,6 +738,7 @@ export const saveImageWithUrl = internalMutation({
       imageWidth: args.imageWidth,
       imageHeight: args.imageHeight,
       generationId: args.generationId,
+      moderationStatus: "pending",
       createdAt: Date.now(),
     });
     return id;
@@ -722,6 +992,7 @@ export const saveImage = action({
     verseText: v.optional(v.string()),
     chapterTheme: v.optional(chapterThemeValidator),
     generationNumber: v.optional(v.number()),
+    parentImageId: v.optional(v.id("verseImages")),
     promptVersion: v.optional(v.string()),
     promptInputs: v.optional(promptInputsValidator),
     translationId: v.optional(v.string()),
@@ -743,6 +1014,7 @@ export const saveImage = action({
       verseText,
       chapterTheme,
       generationNumber,
+      parentImageId,
       promptVersion,
       promptInputs,
       translationId,
@@ -761,6 +1033,7 @@ export const saveImage = action({
       verseText,
       chapterTheme,
       generationNumber,
+      parentImageId,
       promptVersion,
       promptInputs,
       translationId,
@@ -820,9 +1093,10 @@ export const saveImage = action({
         generationId,
       });
 
-      // Fire-and-forget Nostr publication (5-min delay to disperse posts)
+      // Fire-and-forget Nostr publication (5-min delay to disperse posts).
+      // The job ID is kept so a takedown can cancel the post.
       if (reference && verseText) {
-        await ctx.scheduler.runAfter(5 * 60 * 1000, internal.nostr.publishToNostr, {
+        const scheduledId = await ctx.scheduler.runAfter(5 * 60 * 1000, internal.nostr.publishToNostr, {
           imageId: id,
           verseId,
           reference,
@@ -832,6 +1106,7 @@ export const saveImage = action({
           imageWidth: imageMetadata.imageWidth,
           imageHeight: imageMetadata.imageHeight,
         });
+        await ctx.runMutation(internal.moderation.recordNostrSchedule, { imageId: id, scheduledId });
       }
 
       return { success: true, type: "storage", id };
@@ -876,9 +1151,10 @@ export const saveImage = action({
         generationId,
       });
 
-      // Fire-and-forget Nostr publication (5-min delay to disperse posts)
+      // Fire-and-forget Nostr publication (5-min delay to disperse posts).
+      // The job ID is kept so a takedown can cancel the post.
       if (reference && verseText) {
-        await ctx.scheduler.runAfter(5 * 60 * 1000, internal.nostr.publishToNostr, {
+        const scheduledId = await ctx.scheduler.runAfter(5 * 60 * 1000, internal.nostr.publishToNostr, {
           imageId: id,
           verseId,
           reference,
@@ -888,6 +1164,7 @@ export const saveImage = action({
           imageWidth: imageMetadata.imageWidth,
           imageHeight: imageMetadata.imageHeight,
         });
+        await ctx.runMutation(internal.moderation.recordNostrSchedule, { imageId: id, scheduledId });
       }
 
       return { success: true, type: "storage", id };
@@ -0,0 +1,234 @@
+import { action, internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { requireAdminSession, validateServerSecret } from "./lib/auth";
+
+/**
+ * Registry of recurring characters and places for image prompts.
+ * Each entry has a canonical visual description and the books/chapters
+ * where it applies; edited by admins.
+ */
+
+const kindValidator = v.union(v.literal("character"), v.literal("location"));
+
+const scopeValidator = v.object({
+  book: v.string(),
+  chapterStart: v.optional(v.number()),
+  chapterEnd: v.optional(v.number()),
+});
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 600;
+const MAX_ALIASES = 10;
+const MAX_SCOPES = 20;
+
+export interface RegistryScope {
+  book: string;
+  chapterStart?: number;
+  chapterEnd?: number;
+}
+
+/**
+ * Whether an entry with these scopes applies to a chapter.
+ * A scope without chapters covers the whole book; no scopes means everywhere.
+ */
+export function registryEntryApplies(
+  scopes: RegistryScope[],
+  book: string,
+  chapter: number
+): boolean {
+  if (scopes.length === 0) return true;
+  return scopes.some((scope) => {
+    if (scope.book !== book) return false;
+    if (scope.chapterStart === undefined) return true;
+    const end = scope.chapterEnd ?? scope.chapterStart;
+    return chapter >= scope.chapterStart && chapter <= end;
+  });
+}
+
+/**
+ * Entries that apply to a chapter. Public: descriptions end up in image
+ * prompts and saved image metadata.
+ */
+export const getRegistryEntriesForChapter = query({
+  args: {
+    book: v.string(),
+    chapter: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const book = args.book.toLowerCase();
+    // The registry is small (tens of entries), so a full scan is fine
+    const entries = await ctx.db.query("visualRegistry").collect();
+
+    return entries
+      .filter((entry) => registryEntryApplies(entry.scopes, book, args.chapter))
+      .map((entry) => ({
+        id: entry._id as string,
+        kind: entry.kind,
+        name: entry.name,
+        aliases: entry.aliases,
+        description: entry.description,
+      }));
+  },
+});
+
+/**
+ * Every entry, by name, with scopes and edit details. Admin sessions only.
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const listRegistryEntries = query({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    await requireAdminSession(ctx, args.sid);
+
+    const entries = await ctx.db
+      .query("visualRegistry")
+      .withIndex("by_name_key")
+      .collect();
+
+    return entries.map((entry) => ({
+      id: entry._id as string,
+      kind: entry.kind,
+      name: entry.name,
+      aliases: entry.aliases,
+      description: entry.description,
+      scopes: entry.scopes,
+      updatedAt: entry.updatedAt,
+    }));
+  },
+});
+
+/**
+ * Internal mutation to create an entry, or replace one when entryId is given.
+ * Names are unique, case-insensitively. Admin sessions only.
+ */
+export const saveRegistryEntryInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    entryId: v.optional(v.id("visualRegistry")),
+    kind: kindValidator,
+    name: v.string(),
+    aliases: v.array(v.string()),
+    description: v.string(),
+    scopes: v.array(scopeValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireAdminSession(ctx, args.sid);
+
+    const name = args.name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!name) {
+      throw new Error("Name is required");
+    }
+    const nameKey = name.toLowerCase();
+
+    const sameName = await ctx.db
+      .query("visualRegistry")
+      .withIndex("by_name_key", (q) => q.eq("nameKey", nameKey))
+      .first();
+    if (sameName && sameName._id !== args.entryId) {
+      throw new Error("Registry name already in use");
+    }
+
+    const fields = {
+      kind: args.kind,
+      name,
+      nameKey,
+      aliases: args.aliases
+        .map((alias) => alias.trim().slice(0, MAX_NAME_LENGTH))
+        .filter(Boolean)
+        .slice(0, MAX_ALIASES),
+      description: args.description.trim().slice(0, MAX_DESCRIPTION_LENGTH),
+      scopes: args.scopes
+        .map((scope) => ({ ...scope, book: scope.book.toLowerCase() }))
+        .slice(0, MAX_SCOPES),
+      updatedBySid: args.sid,
+      updatedAt: Date.now(),
+    };
+
+    if (args.entryId) {
+      const existing = await ctx.db.get(args.entryId);
+      if (!existing) {
+        throw new Error("Registry entry not found");
+      }
+      await ctx.db.patch(args.entryId, fields);
+      return { id: args.entryId as string, created: false };
+    }
+
+    const id = await ctx.db.insert("visualRegistry", {
+      ...fields,
+      createdAt: fields.updatedAt,
+    });
+    return { id: id as string, created: true };
+  },
+});
+
+/**
+ * Internal mutation to remove an entry. Admin sessions only.
+ */
+export const deleteRegistryEntryInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    entryId: v.id("visualRegistry"),
+  },
+  handler: async (ctx, args) => {
+    await requireAdminSession(ctx, args.sid);
+
+    const existing = await ctx.db.get(args.entryId);
+    if (!existing) return { deleted: false };
+
+    await ctx.db.delete(args.entryId);
+    return { deleted: true };
+  },
+});
+
+/**
+ * Create or replace a registry entry.
+ * Requires server secret for authorization.
+ */
+export const saveRegistryEntry = action({
+  args: {
+    sid: v.string(),
+    entryId: v.optional(v.id("visualRegistry")),
+    kind: kindValidator,
+    name: v.string(),
+    aliases: v.array(v.string()),
+    description: v.string(),
+    scopes: v.array(scopeValidator),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ id: string; created: boolean }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.visualRegistry.saveRegistryEntryInternal, {
+      sid: args.sid,
+      entryId: args.entryId,
+      kind: args.kind,
+      name: args.name,
+      aliases: args.aliases,
+      description: args.description,
+      scopes: args.scopes,
+    });
+  },
+});
+
+/**
+ * Remove a registry entry.
+ * Requires server secret for authorization.
+ */
+export const deleteRegistryEntry = action({
+  args: {
+    sid: v.string(),
+    entryId: v.id("visualRegistry"),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ deleted: boolean }> => {
+    validateServerSecret(args.serverSecret);
+    return ctx.runMutation(internal.visualRegistry.deleteRegistryEntryInternal, {
+      sid: args.sid,
+      entryId: args.entryId,
+    });
+  },
+});
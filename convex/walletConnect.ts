@@ -0,0 +1,255 @@
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { resolveCreditPurchase, MAX_CUSTOM_USD, MIN_CUSTOM_USD } from "./creditBundles";
+import { validateServerSecret } from "./lib/auth";
+
+/**
+ * Nostr Wallet Connect (NIP-47) settings per session. Connecting, paying and
+ * secret encryption happen in `walletConnectActions.ts` (Node runtime for
+ * snstr); this module holds the settings, the budget rules and the
+ * auto-refill claim.
+ */
+
+export const MIN_WALLET_BUDGET_USD = MIN_CUSTOM_USD;
+export const MAX_WALLET_BUDGET_USD = MAX_CUSTOM_USD;
+// At most one automatic top-up per session in this window
+export const AUTO_REFILL_COOLDOWN_MS = 10 * 60 * 1000;
+
+export interface WalletSettings {
+  budgetUsd: number;
+  autoRefillThreshold?: number;
+  autoRefillBundleId?: string;
+}
+
+/**
+ * Why the settings are invalid, or null when they're fine. The auto-refill
+ * bundle must be a catalog bundle that fits in the per-top-up budget.
+ */
+export function validateWalletSettings(settings: WalletSettings): string | null {
+  const { budgetUsd, autoRefillThreshold, autoRefillBundleId } = settings;
+  if (
+    !Number.isInteger(budgetUsd) ||
+    budgetUsd < MIN_WALLET_BUDGET_USD ||
+    budgetUsd > MAX_WALLET_BUDGET_USD
+  ) {
+    return `Budget must be whole dollars from $${MIN_WALLET_BUDGET_USD} to $${MAX_WALLET_BUDGET_USD}`;
+  }
+
+  if (autoRefillThreshold === undefined && autoRefillBundleId === undefined) return null;
+  if (autoRefillThreshold === undefined || autoRefillBundleId === undefined) {
+    return "Auto-refill needs both a threshold and a bundle";
+  }
+  if (!Number.isInteger(autoRefillThreshold) || autoRefillThreshold < 1) {
+    return "Auto-refill threshold must be a whole number of credits";
+  }
+  const purchase = resolveCreditPurchase(autoRefillBundleId);
+  if (!purchase) return "Unknown auto-refill bundle";
+  if (purchase.amountUsd > budgetUsd) return "Auto-refill bundle costs more than the budget";
+  return null;
+}
+
+/**
+ * Whether a top-up of this price may be paid from the wallet without asking.
+ */
+export function isWithinWalletBudget(amountUsd: number, budgetUsd: number): boolean {
+  return amountUsd <= budgetUsd;
+}
+
+/**
+ * Whether the session's credits call for an automatic top-up now.
+ */
+export function shouldAutoRefill(
+  connection: Pick<Doc<"walletConnections">, "autoRefillThreshold" | "autoRefillBundleId" | "lastRefillAt">,
+  credits: number,
+  now: number
+): boolean {
+  if (connection.autoRefillThreshold === undefined || !connection.autoRefillBundleId) return false;
+  if (credits >= connection.autoRefillThreshold) return false;
+  return !connection.lastRefillAt || now - connection.lastRefillAt >= AUTO_REFILL_COOLDOWN_MS;
+}
+
+const settingsArgs = {
+  budgetUsd: v.number(),
+  autoRefillThreshold: v.optional(v.number()),
+  autoRefillBundleId: v.optional(v.string()),
+};
+
+export type WalletSummary = ReturnType<typeof toWalletSummary>;
+
+function toWalletSummary(connection: Doc<"walletConnections">) {
+  return {
+    walletPubkey: connection.walletPubkey,
+    relays: connection.relays,
+    budgetUsd: connection.budgetUsd,
+    autoRefillThreshold: connection.autoRefillThreshold,
+    autoRefillBundleId: connection.autoRefillBundleId,
+    lastPaidAt: connection.lastPaidAt,
+    lastError: connection.lastError,
+  };
+}
+
+/**
+ * The session's connected wallet, without its secret.
+ * Requires the server secret because sid is never exposed to the client.
+ */
+export const getWalletConnection = query({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    const connection = await ctx.db
+      .query("walletConnections")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+    return connection ? toWalletSummary(connection) : null;
+  },
+});
+
+/**
+ * Change the budget and auto-refill of the session's connected wallet.
+ */
+export const updateWalletSettings = mutation({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    ...settingsArgs,
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    const { sid } = args;
+    const settings = {
+      budgetUsd: args.budgetUsd,
+      autoRefillThreshold: args.autoRefillThreshold,
+      autoRefillBundleId: args.autoRefillBundleId,
+    };
+    const settingsError = validateWalletSettings(settings);
+    if (settingsError) throw new Error(settingsError);
+
+    const connection = await ctx.db
+      .query("walletConnections")
+      .withIndex("by_sid", (q) => q.eq("sid", sid))
+      .first();
+    if (!connection) throw new Error("No wallet connected");
+
+    await ctx.db.patch(connection._id, { ...settings, updatedAt: Date.now() });
+    return toWalletSummary({ ...connection, ...settings });
+  },
+});
+
+/**
+ * Forget the session's wallet, including its encrypted secret.
+ */
+export const disconnectWallet = mutation({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    const connection = await ctx.db
+      .query("walletConnections")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+    if (connection) await ctx.db.delete(connection._id);
+    return { success: true };
+  },
+});
+
+/**
+ * Reserve an automatic top-up when the session's credits are below its
+ * threshold. Returns the bundle to buy, or null. Starts the cooldown, so
+ * several tabs noticing the same low balance buy only once.
+ */
+export const claimAutoRefill = mutation({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    validateServerSecret(args.serverSecret);
+    const connection = await ctx.db
+      .query("walletConnections")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+    const session = await ctx.db
+      .query("sessions")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+    if (!connection || !session || session.tier === "admin") return null;
+
+    const now = Date.now();
+    if (!shouldAutoRefill(connection, session.credits, now)) return null;
+
+    await ctx.db.patch(connection._id, { lastRefillAt: now });
+    return { bundleId: connection.autoRefillBundleId! };
+  },
+});
+
+/**
+ * Store a newly connected wallet, replacing any earlier one.
+ * The secret arrives already encrypted.
+ */
+export const saveWalletConnectionInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    walletPubkey: v.string(),
+    relays: v.array(v.string()),
+    encryptedSecret: v.string(),
+    ...settingsArgs,
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("walletConnections")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+    if (existing) await ctx.db.delete(existing._id);
+
+    const connectionId = await ctx.db.insert("walletConnections", {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const connection = await ctx.db.get(connectionId);
+    return toWalletSummary(connection!);
+  },
+});
+
+/**
+ * The session's wallet including its encrypted secret, for paying.
+ */
+export const getWalletCredentialsInternal = internalQuery({
+  args: {
+    sid: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("walletConnections")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+  },
+});
+
+/**
+ * Record the outcome of a wallet payment so the settings can show it.
+ */
+export const recordWalletPaymentInternal = internalMutation({
+  args: {
+    sid: v.string(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const connection = await ctx.db
+      .query("walletConnections")
+      .withIndex("by_sid", (q) => q.eq("sid", args.sid))
+      .first();
+    if (!connection) return;
+    await ctx.db.patch(
+      connection._id,
+      args.error ? { lastError: args.error } : { lastPaidAt: Date.now(), lastError: undefined }
+    );
+  },
+});
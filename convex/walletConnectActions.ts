@@ -0,0 +1,234 @@
+"use node";
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { action } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { v } from "convex/values";
+import { isWithinWalletBudget, validateWalletSettings, WalletSummary } from "./walletConnect";
+import { validateServerSecret } from "./lib/auth";
+
+/**
+ * Nostr Wallet Connect (NIP-47) actions: connect a wallet and pay a
+ * session's invoices with `pay_invoice`. The connection secret is encrypted
+ * with AES-256-GCM under NWC_ENCRYPTION_KEY (64 hex chars, Convex dashboard
+ * only) before it is stored, bound to the session id so a stored secret
+ * can't be replayed for another session.
+ */
+
+const ENCRYPTION_VERSION = "v1";
+const MAX_WALLET_RELAYS = 5;
+
+interface WalletPaymentResult {
+  success: boolean;
+  alreadyPaid?: boolean;
+  newBalance?: number;
+  creditsAdded?: number;
+  error?: string;
+}
+
+export function getWalletEncryptionKey(
+  env: Record<string, string | undefined> = process.env
+): Buffer {
+  const keyHex = env.NWC_ENCRYPTION_KEY;
+  if (!keyHex || !/^[0-9a-f]{64}$/i.test(keyHex)) {
+    throw new Error("Wallet Connect is not configured");
+  }
+  return Buffer.from(keyHex, "hex");
+}
+
+export function encryptWalletSecret(secret: string, sid: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(sid, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [
+    ENCRYPTION_VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+export function decryptWalletSecret(payload: string, sid: string, key: Buffer): string {
+  const [version, iv, authTag, ciphertext] = payload.split(":");
+  if (version !== ENCRYPTION_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error("Unsupported wallet secret format");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"));
+  decipher.setAAD(Buffer.from(sid, "utf8"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * A payment preimage proves payment when it hashes to the invoice's payment hash.
+ */
+export function preimageMatchesPaymentHash(preimage: string, paymentHash: string): boolean {
+  if (!/^[0-9a-f]{64}$/i.test(preimage)) return false;
+  const digest = createHash("sha256").update(Buffer.from(preimage, "hex")).digest("hex");
+  return digest === paymentHash.toLowerCase();
+}
+
+/**
+ * Connect a wallet from its `nostr+walletconnect://` URI. Checks that the
+ * wallet answers on its relays and may pay invoices, then stores it with
+ * the secret encrypted. Replaces any wallet the session had.
+ */
+export const connectWallet = action({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    connectionUri: v.string(),
+    budgetUsd: v.number(),
+    autoRefillThreshold: v.optional(v.number()),
+    autoRefillBundleId: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<WalletSummary> => {
+    validateServerSecret(args.serverSecret);
+    const settings = {
+      budgetUsd: args.budgetUsd,
+      autoRefillThreshold: args.autoRefillThreshold,
+      autoRefillBundleId: args.autoRefillBundleId,
+    };
+    const settingsError = validateWalletSettings(settings);
+    if (settingsError) throw new Error(settingsError);
+    const key = getWalletEncryptionKey();
+
+    // Dynamic import of snstr (required for "use node" action)
+    const { parseNWCURL, NostrWalletConnectClient } = await import("snstr");
+
+    let connection: ReturnType<typeof parseNWCURL>;
+    try {
+      connection = parseNWCURL(args.connectionUri.trim());
+    } catch {
+      throw new Error("Invalid wallet connection URI");
+    }
+    if (
+      connection.relays.length === 0 ||
+      connection.relays.length > MAX_WALLET_RELAYS ||
+      !connection.relays.every((relay) => relay.startsWith("wss://"))
+    ) {
+      throw new Error(`Wallet connection needs 1-${MAX_WALLET_RELAYS} wss:// relays`);
+    }
+
+    const client = new NostrWalletConnectClient(connection);
+    let canPayInvoices: boolean;
+    try {
+      await client.init();
+      canPayInvoices = client.supportsMethod("pay_invoice");
+    } catch (error) {
+      console.warn("[WalletConnect] Could not reach wallet:", error);
+      throw new Error("Could not reach the wallet on its relays");
+    } finally {
+      await client.disconnect().catch(() => {});
+    }
+    if (!canPayInvoices) {
+      throw new Error("This wallet connection isn't allowed to pay invoices");
+    }
+
+    return await ctx.runMutation(internal.walletConnect.saveWalletConnectionInternal, {
+      sid: args.sid,
+      walletPubkey: connection.pubkey,
+      relays: connection.relays,
+      encryptedSecret: encryptWalletSecret(connection.secret, args.sid, key),
+      ...settings,
+    });
+  },
+});
+
+/**
+ * Pay one of the session's pending invoices from its connected wallet,
+ * within the wallet's per-top-up budget. The returned preimage proves
+ * payment, so credits are granted right away instead of on the next
+ * settlement sweep.
+ */
+export const payInvoiceWithWallet = action({
+  args: {
+    sid: v.string(),
+    serverSecret: v.string(),
+    invoiceId: v.string(),
+  },
+  handler: async (ctx, args): Promise<WalletPaymentResult> => {
+    validateServerSecret(args.serverSecret);
+
+    const invoice = await ctx.runQuery(api.invoices.getInvoice, { invoiceId: args.invoiceId });
+    if (!invoice || invoice.sid !== args.sid) {
+      throw new Error("Invoice not found");
+    }
+    if (invoice.status === "paid") {
+      return { success: true, alreadyPaid: true };
+    }
+    if (invoice.status !== "pending" || Date.now() > invoice.expiresAt) {
+      throw new Error("Invoice has expired");
+    }
+    if (!invoice.paymentHash) {
+      throw new Error("Invoice is missing payment hash");
+    }
+
+    const wallet = await ctx.runQuery(internal.walletConnect.getWalletCredentialsInternal, {
+      sid: args.sid,
+    });
+    if (!wallet) {
+      throw new Error("No wallet connected");
+    }
+    if (!isWithinWalletBudget(invoice.amountUsd, wallet.budgetUsd)) {
+      throw new Error(`Top-up of $${invoice.amountUsd} is over your $${wallet.budgetUsd} wallet budget`);
+    }
+
+    const encryptionKey = getWalletEncryptionKey();
+    let secret: string;
+    try {
+      secret = decryptWalletSecret(wallet.encryptedSecret, args.sid, encryptionKey);
+    } catch (error) {
+      // A rotated NWC_ENCRYPTION_KEY or a corrupted row; only a new connection fixes it
+      console.error("[WalletConnect] Failed to decrypt wallet secret:", error);
+      const message = "Your wallet connection can't be used anymore. Disconnect and reconnect your wallet.";
+      await ctx.runMutation(internal.walletConnect.recordWalletPaymentInternal, {
+        sid: args.sid,
+        error: message,
+      });
+      throw new Error(message);
+    }
+    const { NostrWalletConnectClient } = await import("snstr");
+    const client = new NostrWalletConnectClient({
+      pubkey: wallet.walletPubkey,
+      secret,
+      relays: wallet.relays,
+    });
+
+    let preimage: string;
+    try {
+      await client.init();
+      // The wallet should drop the request once the invoice can no longer be paid
+      const payment = await client.payInvoice(invoice.bolt11, undefined, undefined, {
+        expiration: Math.floor(invoice.expiresAt / 1000),
+      });
+      if (!payment?.preimage) throw new Error("Wallet returned no preimage");
+      preimage = payment.preimage;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await ctx.runMutation(internal.walletConnect.recordWalletPaymentInternal, {
+        sid: args.sid,
+        error: message,
+      });
+      throw new Error(`Wallet payment failed: ${message}`);
+    } finally {
+      await client.disconnect().catch(() => {});
+    }
+
+    if (!preimageMatchesPaymentHash(preimage, invoice.paymentHash)) {
+      // Paid or not, the settlement sweep will find out from the payment provider
+      console.warn(`[WalletConnect] Preimage for invoice ${args.invoiceId} doesn't match its payment hash`);
+      return { success: false };
+    }
+
+    await ctx.runMutation(internal.walletConnect.recordWalletPaymentInternal, { sid: args.sid });
+    return await ctx.runMutation(internal.invoices.confirmPaymentInternal, {
+      invoiceId: args.invoiceId,
+      paymentHash: invoice.paymentHash,
+    });
+  },
+});
@@ -0,0 +1,88 @@
+import { redirect } from "next/navigation";
+import { Header } from "@/components/header";
+import { BookMenu } from "@/components/book-menu";
+import { LayoutWrapper } from "@/components/layout-wrapper";
+import { ChatContextSetter } from "@/components/chat-context-setter";
+import { ChapterReader } from "@/components/chapter-reader";
+import { Footer } from "@/components/footer";
+import { getChapter } from "@/lib/bible-api";
+import { getTranslationFromCookies } from "@/lib/get-translation";
+import {
+  parsePassageUrl,
+  getChapterNavigationUrls,
+  getPassageVerseRange,
+} from "@/lib/navigation";
+
+interface ChapterPageProps {
+  params: Promise<{
+    book: string;
+    chapter: string;
+  }>;
+}
+
+/**
+ * Chapter reading mode: the whole chapter as flowing text.
+ * Verse ranges (including whole-chapter ranges like /psalms/23/1-6) use the
+ * passage page under /[book]/[chapter]/[verse].
+ */
+export default async function ChapterPage({ params }: ChapterPageProps) {
+  const { book, chapter } = await params;
+
+  const passage = parsePassageUrl(book, chapter);
+  if (!passage) {
+    redirect("/genesis/1/1");
+  }
+
+  const { book: bookData, chapter: chapterNumber } = passage;
+
+  // Get user's translation preference from cookie
+  const translation = await getTranslationFromCookies();
+
+  const chapterData = await getChapter(bookData.slug, chapterNumber, translation);
+  const verses = (chapterData?.verses ?? []).map((v) => ({ number: v.verse, text: v.text }));
+  if (verses.length === 0) {
+    redirect("/genesis/1/1");
+  }
+
+  const { prevUrl, nextUrl } = getChapterNavigationUrls(bookData, chapterNumber);
+  const reference = `${bookData.name} ${chapterNumber}`;
+
+  // Build chat context for sidebar (the whole chapter)
+  const chatContext = {
+    book: bookData.name,
+    chapter: chapterNumber,
+    verseRange: getPassageVerseRange(passage),
+    heroCaption: reference,
+    verses,
+  };
+
+  return (
+    <LayoutWrapper>
+      {/* Set chat context for sidebar */}
+      <ChatContextSetter context={chatContext} />
+
+      {/* Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="flex-1 flex flex-col">
+        <div className="flex-1 py-8">
+          <ChapterReader
+            book={bookData.slug}
+            bookName={bookData.name}
+            chapter={chapterNumber}
+            verses={verses}
+            prevUrl={prevUrl}
+            nextUrl={nextUrl}
+          />
+        </div>
+      </main>
+
+      {/* Footer */}
+      <Footer />
+
+      {/* Book Menu */}
+      <BookMenu />
+    </LayoutWrapper>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/header";
+import { LayoutWrapper } from "@/components/layout-wrapper";
+import { GiftCodeManager } from "@/components/gift-code-manager";
+import { Footer } from "@/components/footer";
+
+export const metadata: Metadata = {
+  title: "Gift Codes",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Admin page for generating gift codes and tracking their redemptions.
+ * Access is enforced by /api/gift-codes; the page itself only hides the UI.
+ */
+export default function GiftCodesPage() {
+  return (
+    <LayoutWrapper>
+      <Header />
+
+      <main className="flex-1 flex flex-col">
+        <div className="flex-1 py-8">
+          <GiftCodeManager />
+        </div>
+      </main>
+
+      <Footer />
+    </LayoutWrapper>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/header";
+import { LayoutWrapper } from "@/components/layout-wrapper";
+import { ModerationQueue } from "@/components/moderation-queue";
+import { Footer } from "@/components/footer";
+
+export const metadata: Metadata = {
+  title: "Moderation",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Admin review page for newly generated images.
+ * Access is enforced by /api/moderation; the page itself only hides the UI.
+ */
+export default function ModerationPage() {
+  return (
+    <LayoutWrapper>
+      <Header />
+
+      <main className="flex-1 flex flex-col">
+        <div className="flex-1 py-8">
+          <ModerationQueue />
+        </div>
+      </main>
+
+      <Footer />
+    </LayoutWrapper>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/header";
+import { LayoutWrapper } from "@/components/layout-wrapper";
+import { PromptVersionReport } from "@/components/prompt-version-report";
+import { Footer } from "@/components/footer";
+
+export const metadata: Metadata = {
+  title: "Prompt Versions",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Admin report comparing image prompt versions.
+ * Access is enforced by /api/prompt-report; the page itself only hides the UI.
+ */
+export default function PromptVersionsPage() {
+  return (
+    <LayoutWrapper>
+      <Header />
+
+      <main className="flex-1 flex flex-col">
+        <div className="flex-1 py-8">
+          <PromptVersionReport />
+        </div>
+      </main>
+
+      <Footer />
+    </LayoutWrapper>
+  );
+}
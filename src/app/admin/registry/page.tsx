@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/header";
+import { LayoutWrapper } from "@/components/layout-wrapper";
+import { VisualRegistryEditor } from "@/components/visual-registry-editor";
+import { Footer } from "@/components/footer";
+
+export const metadata: Metadata = {
+  title: "Visual Registry",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Admin editor for recurring characters and places in image prompts.
+ * Access is enforced by /api/visual-registry; the page itself only hides the UI.
+ */
+export default function VisualRegistryPage() {
+  return (
+    <LayoutWrapper>
+      <Header />
+
+      <main className="flex-1 flex flex-col">
+        <div className="flex-1 py-8">
+          <VisualRegistryEditor />
+        </div>
+      </main>
+
+      <Footer />
+    </LayoutWrapper>
+  );
+}
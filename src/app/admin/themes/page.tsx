@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/header";
+import { LayoutWrapper } from "@/components/layout-wrapper";
+import { ChapterThemeEditor } from "@/components/chapter-theme-editor";
+import { Footer } from "@/components/footer";
+
+export const metadata: Metadata = {
+  title: "Chapter Themes",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Admin editor for per-chapter image themes.
+ * Access is enforced by /api/chapter-themes; the page itself only hides the UI.
+ */
+export default function ChapterThemesPage() {
+  return (
+    <LayoutWrapper>
+      <Header />
+
+      <main className="flex-1 flex flex-col">
+        <div className="flex-1 py-8">
+          <ChapterThemeEditor />
+        </div>
+      </main>
+
+      <Footer />
+    </LayoutWrapper>
+  );
+}
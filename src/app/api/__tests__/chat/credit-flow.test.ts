@@ -29,6 +29,8 @@ const originalEnv = { ...process.env };
 
 // Configurable mock values
 const mockCreditsCost = { value: 2 };
+// Credits for the usage reported on finish; null bills the estimate
+const mockActualCredits: { value: number | null } = { value: null };
 const mockRequestBody: { value: unknown } = { value: null };
 const mockStreamTextImpl = vi.fn();
 
@@ -114,10 +116,18 @@ vi.mock("@/lib/convex-client", () => ({
         );
 
         if (existingReservation) {
-          // deductCredits (reservation already exists)
+          // deductCredits (reservation already exists): convert the reservation
+          // and refund the unused part as usage_refund, like deductCreditsInternal
           mockState.callHistory.push({ action: "deductCredits", args });
           if (!session) return { success: false, error: "Session not found" };
-          mockState.ledger.push({ sid, delta: -(args.amount as number), reason: "generation" });
+          const reserved = Math.abs(existingReservation.delta);
+          const charged = (args.actualAmount as number | undefined) ?? (args.amount as number);
+          mockState.ledger.push({ sid, delta: -charged, reason: "generation" });
+          mockState.ledger.push({ sid, delta: charged, reason: "refund" });
+          if (reserved > charged) {
+            mockState.ledger.push({ sid, delta: reserved - charged, reason: "usage_refund" });
+            session.credits += reserved - charged;
+          }
           return { success: true, newBalance: session.credits };
         } else {
           // reserveCredits (no existing reservation)
@@ -163,6 +173,8 @@ vi.mock("@/lib/convex-client", () => ({
 // Mock streamText - delegates to mockStreamTextImpl which can be reconfigured
 vi.mock("ai", () => ({
   streamText: (...args: unknown[]) => mockStreamTextImpl(...args),
+  stepCountIs: vi.fn((count: number) => ({ stepCount: count })),
+  tool: vi.fn((definition: unknown) => definition),
 }));
 
 vi.mock("@openrouter/ai-sdk-provider", () => ({
@@ -176,8 +188,10 @@ vi.mock("@/lib/chat-models", () => ({
   DEFAULT_CHAT_MODEL: "test/cheap-model",
   getChatModelPricing: vi.fn(async () => ({ prompt: "0.001", completion: "0.002" })),
   computeChatCreditsCost: vi.fn(() => mockCreditsCost.value),
-  computeActualChatCreditsCost: vi.fn(() => mockCreditsCost.value),
+  computeActualChatCreditsCost: vi.fn(() => mockActualCredits.value ?? mockCreditsCost.value),
   CREDIT_USD: 0.01,
+  DEFAULT_ESTIMATED_TOKENS: 2000,
+  estimateChatToolPromptTokens: vi.fn(() => 9000),
 }));
 
 // Import route AFTER all mocks are set up
@@ -209,6 +223,45 @@ function createMockStreamResponse(chunks: string[] = ["Hello", " world!"]) {
   };
 }
 
+// Mock stream that reports token usage through messageMetadata before closing,
+// the way streamText's finish part drives settlement in the route
+function createMockStreamResponseWithUsage(inputTokens: number, outputTokens: number) {
+  const encoder = new TextEncoder();
+
+  return {
+    toUIMessageStreamResponse: vi.fn(
+      (options: { messageMetadata?: (arg: { part: unknown }) => unknown }) => {
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encoder.encode("Hello"));
+            options.messageMetadata?.({
+              part: {
+                type: "finish",
+                finishReason: "stop",
+                totalUsage: { inputTokens, outputTokens },
+              },
+            });
+            controller.close();
+          },
+        });
+        return new Response(stream, {
+          status: 200,
+          headers: { "Content-Type": "text/event-stream" },
+        });
+      }
+    ),
+  };
+}
+
+async function readToEnd(response: Response) {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+  while (true) {
+    const { done } = await reader.read();
+    if (done) break;
+  }
+}
+
 // Helper functions
 function resetMockState(sessions: Session[] = []) {
   mockState.sessions.clear();
@@ -227,6 +280,7 @@ describe("Chat API Credit Flow", () => {
     vi.clearAllMocks();
     resetMockState([{ ...fixtures.sessions.paidWithCredits, sid: "test-session" }]);
     mockCreditsCost.value = 2;
+    mockActualCredits.value = null;
     mockRequestBody.value = { messages: fixtures.messages.valid };
     mockStreamTextImpl.mockReturnValue(createMockStreamResponse());
   });
@@ -285,6 +339,65 @@ describe("Chat API Credit Flow", () => {
     });
   });
 
+  describe("Usage Settlement", () => {
+    it("usage-below-reservation: charges actual usage and refunds the rest", async () => {
+      mockCreditsCost.value = 10;
+      mockActualCredits.value = 4;
+      mockStreamTextImpl.mockReturnValue(createMockStreamResponseWithUsage(1200, 300));
+
+      const request = new Request("http://localhost:3000/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+      await readToEnd(response);
+
+      const deduct = mockState.callHistory.find((c) => c.action === "deductCredits");
+      expect(deduct?.args.amount).toBe(10);
+      expect(deduct?.args.actualAmount).toBe(4);
+
+      const reasons = (reason: string) =>
+        mockState.ledger.filter((e) => e.reason === reason).map((e) => e.delta);
+      expect(reasons("reservation")).toEqual([-10]);
+      expect(reasons("generation")).toEqual([-4]);
+      expect(reasons("usage_refund")).toEqual([6]);
+
+      // 100 credits - 4 actually used
+      expect(mockState.sessions.get("test-session")?.credits).toBe(96);
+      expect(mockState.ledger.reduce((sum, e) => sum + e.delta, 0)).toBe(-4);
+    });
+
+    it("usage-above-reservation: caps the charge at the reservation and warns", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockCreditsCost.value = 10;
+      mockActualCredits.value = 25;
+      mockStreamTextImpl.mockReturnValue(createMockStreamResponseWithUsage(30000, 2000));
+
+      const request = new Request("http://localhost:3000/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+      await readToEnd(response);
+
+      const deduct = mockState.callHistory.find((c) => c.action === "deductCredits");
+      expect(deduct?.args.actualAmount).toBe(10);
+
+      expect(mockState.ledger.filter((e) => e.reason === "generation").map((e) => e.delta)).toEqual([-10]);
+      expect(mockState.ledger.some((e) => e.reason === "usage_refund")).toBe(false);
+      expect(mockState.sessions.get("test-session")?.credits).toBe(90);
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("Usage exceeded reservation: reserved=10 actual=25 absorbed=15")
+      );
+      warn.mockRestore();
+    });
+  });
+
   describe("Error Paths", () => {
     it("insufficient-credits: returns 402 before reservation", async () => {
       resetMockState([{ ...fixtures.sessions.insufficientCredits, sid: "test-session" }]);
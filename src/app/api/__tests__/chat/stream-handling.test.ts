@@ -143,6 +143,8 @@ vi.mock("@/lib/convex-client", () => ({
 const mockStreamTextImpl = vi.fn();
 vi.mock("ai", () => ({
   streamText: (...args: unknown[]) => mockStreamTextImpl(...args),
+  stepCountIs: vi.fn((count: number) => ({ stepCount: count })),
+  tool: vi.fn((definition: unknown) => definition),
 }));
 
 vi.mock("@openrouter/ai-sdk-provider", () => ({
@@ -157,6 +159,8 @@ vi.mock("@/lib/chat-models", () => ({
   computeChatCreditsCost: vi.fn(() => 2),
   computeActualChatCreditsCost: vi.fn(() => 2),
   CREDIT_USD: 0.01,
+  DEFAULT_ESTIMATED_TOKENS: 2000,
+  estimateChatToolPromptTokens: vi.fn(() => 9000),
 }));
 
 // Controllable stream for testing cancellation and errors
@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getFunctionName, type FunctionReference } from "convex/server";
 import { fixtures, type Session } from "../shared/test-fixtures";
 
 // Create mock state
@@ -14,6 +15,10 @@ const mockState = {
   adminAuditLog: [] as Array<{ sid: string; endpoint: string }>,
 };
 
+// Image job work handed to after(); tests run it explicitly
+const pendingAfter: Array<() => Promise<void>> = [];
+const mockSaveImageError: { value: Error | null } = { value: null };
+
 // Store original fetch
 const originalFetch = global.fetch;
 
@@ -39,6 +44,13 @@ vi.mock("@/lib/validate-env", () => ({
   validateProxyConfig: vi.fn(),
 }));
 
+vi.mock("next/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/server")>()),
+  after: vi.fn((callback: () => Promise<void>) => {
+    pendingAfter.push(callback);
+  }),
+}));
+
 vi.mock("@/lib/origin", () => ({
   validateOrigin: vi.fn(() => true),
   invalidOriginResponse: vi.fn(() => new Response("Invalid origin", { status: 403 })),
@@ -67,10 +79,38 @@ vi.mock("@/lib/convex-client", () => ({
       // Rate limit always passes
       return { allowed: true, retryAfter: 0 };
     }),
-    action: vi.fn(async (_apiPath: unknown, args: Record<string, unknown>) => {
+    action: vi.fn(async (apiPath: unknown, args: Record<string, unknown>) => {
       const sid = args.sid as string;
       const session = mockState.sessions.get(sid);
 
+      // Image job actions share arg shapes with the credit actions, so match them by name
+      const name = getFunctionName(apiPath as FunctionReference<"action">);
+      if (name === "imageJobs:createImageJob") {
+        mockState.callHistory.push({ action: "createImageJob", args });
+        return "job-1";
+      }
+      if (name === "imageJobs:updateImageJob") {
+        mockState.callHistory.push({ action: "updateImageJob", args });
+        return;
+      }
+      if (name === "verseImages:saveImage") {
+        mockState.callHistory.push({ action: "saveImage", args });
+        if (mockSaveImageError.value) throw mockSaveImageError.value;
+        return { id: "image-1" };
+      }
+      if (name === "sessions:refundCredits") {
+        // Refund whatever the generation still nets to, like refundCreditsInternal
+        mockState.callHistory.push({ action: "refundCredits", args });
+        if (!session) return { success: false, error: "Session not found" };
+        const net = mockState.ledger
+          .filter((e) => e.sid === sid && e.generationId === args.generationId)
+          .reduce((sum, e) => sum + e.delta, 0);
+        if (net >= 0) return { success: true, newBalance: session.credits, alreadyRefunded: true };
+        session.credits += -net;
+        mockState.ledger.push({ sid, delta: -net, reason: "refund", generationId: args.generationId as string });
+        return { success: true, newBalance: session.credits, refunded: -net };
+      }
+
       // Dispatch based on args structure
       if ("endpoint" in args && "estimatedCredits" in args) {
         // logAdminUsage
@@ -98,7 +138,20 @@ vi.mock("@/lib/convex-client", () => ({
         mockState.callHistory.push({ action: "deductCredits", args });
         if (!session) return { success: false, error: "Session not found" };
         const actualAmount = (args.actualAmount as number) ?? (args.amount as number);
-        mockState.ledger.push({ sid, delta: -actualAmount, reason: "generation", generationId: args.generationId as string });
+        const generationId = args.generationId as string;
+        mockState.ledger.push({ sid, delta: -actualAmount, reason: "generation", generationId });
+        const reservation = mockState.ledger.find(
+          (e) => e.sid === sid && e.generationId === generationId && e.reason === "reservation"
+        );
+        if (reservation) {
+          // Cancel the reservation; the unused part comes back as usage_refund
+          const reserved = Math.abs(reservation.delta);
+          mockState.ledger.push({ sid, delta: Math.min(actualAmount, reserved), reason: "refund", generationId });
+          if (reserved > actualAmount) {
+            mockState.ledger.push({ sid, delta: reserved - actualAmount, reason: "usage_refund", generationId });
+          }
+          session.credits += reserved - actualAmount;
+        }
         return { success: true, newBalance: session.credits };
       }
 
@@ -234,6 +287,8 @@ function resetMockState(sessions: Session[] = []) {
   mockState.callHistory.length = 0;
   mockState.ledger.length = 0;
   mockState.adminAuditLog.length = 0;
+  pendingAfter.length = 0;
+  mockSaveImageError.value = null;
 }
 
 function getCallCount(action: string) {
@@ -458,6 +513,56 @@ describe("Image Generation API Credit Flow", () => {
     });
   });
 
+  describe("Image Jobs", () => {
+    async function startImageJob() {
+      const { POST } = await import("../../generate-image/route");
+      const request = new Request("http://localhost:3000/api/generate-image", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          verseId: "genesis-1-1",
+          reference: "Genesis 1:1",
+          text: "In the beginning God created the heaven and the earth.",
+        }),
+      });
+      const response = await POST(request);
+      expect(response.status).toBe(202);
+
+      // Run the job body that after() would run once the response is sent
+      for (const job of pendingAfter.splice(0)) {
+        await job();
+      }
+    }
+
+    it("save-succeeds: charges the generation and does not refund", async () => {
+      await startImageJob();
+
+      expect(getCallCount("saveImage")).toBe(1);
+      expect(getCallCount("deductCredits")).toBe(1);
+      expect(getCallCount("refundCredits")).toBe(0);
+      expect(mockState.sessions.get("test-session")!.credits).toBeLessThan(1000);
+    });
+
+    it("save-fails-after-charge: refunds the charged generation", async () => {
+      mockSaveImageError.value = new Error("Convex unavailable");
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await startImageJob();
+
+      // Charged first, then refunded when the save threw
+      expect(getCallCount("deductCredits")).toBe(1);
+      expect(getCallCount("refundCredits")).toBe(1);
+      expect(mockState.sessions.get("test-session")!.credits).toBe(1000);
+      expect(mockState.ledger.reduce((sum, e) => sum + e.delta, 0)).toBe(0);
+
+      const statuses = mockState.callHistory
+        .filter((c) => c.action === "updateImageJob")
+        .map((c) => (c.args as { status: string }).status);
+      expect(statuses.at(-1)).toBe("failed");
+      consoleError.mockRestore();
+    });
+  });
+
   describe("Admin Bypass", () => {
     it("admin user logs audit but no credit operations", async () => {
       resetMockState([{ ...fixtures.sessions.admin, sid: "test-session" }]);
@@ -206,10 +206,10 @@ export function createMockConvexClient(initialSessions: Session[] = []) {
               createdAt: Date.now(),
             });
 
-            // Refund reservation
+            // Refund reservation (unused credits are returned separately below)
             state.ledger.push({
               sid,
-              delta: reservedCredits,
+              delta: difference > 0 ? actualAmount : reservedCredits,
               reason: "refund",
               generationId,
               createdAt: Date.now(),
@@ -217,6 +217,13 @@ export function createMockConvexClient(initialSessions: Session[] = []) {
 
             if (difference > 0) {
               // Refund excess
+              state.ledger.push({
+                sid,
+                delta: difference,
+                reason: "usage_refund",
+                generationId,
+                createdAt: Date.now(),
+              });
               session.credits += difference;
               return {
                 success: true,
@@ -312,6 +319,32 @@ export function createMockConvexClient(initialSessions: Session[] = []) {
           return { success: true, newBalance: session.credits };
         }
 
+        // Handle refundCredits: refund whatever the generation still nets to
+        if (apiPath._path === "sessions:refundCredits") {
+          if (!session) {
+            return { success: false, error: "Session not found" };
+          }
+
+          const generationId = args.generationId as string;
+          const net = state.ledger
+            .filter((e) => e.sid === sid && e.generationId === generationId)
+            .reduce((sum, e) => sum + e.delta, 0);
+          if (net >= 0) {
+            return { success: true, newBalance: session.credits, alreadyReleased: true };
+          }
+
+          session.credits += -net;
+          state.ledger.push({
+            sid,
+            delta: -net,
+            reason: "refund",
+            generationId,
+            createdAt: Date.now(),
+          });
+
+          return { success: true, newBalance: session.credits };
+        }
+
         // Handle addCredits (for scene planner refund)
         if (apiPath._path === "sessions:addCredits") {
           if (!session) {
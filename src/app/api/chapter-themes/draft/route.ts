@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { adminRequiredResponse, validateWriteRequest } from "@/lib/admin-route";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import {
+  draftChapterTheme,
+  getThemeDraftModel,
+  THEME_DRAFT_ESTIMATED_TOKENS,
+} from "@/lib/chapter-themes";
+import { computeChatCreditsCost, getChatModelPricing } from "@/lib/chat-models";
+import { CREDIT_USD } from "@/lib/image-models";
+import { getChapter } from "@/lib/bible-api";
+import { DEFAULT_TRANSLATION, isTranslation } from "@/lib/translations";
+import { BOOK_BY_SLUG } from "@/data/bible-structure";
+import { api } from "../../../../../convex/_generated/api";
+
+const draftSchema = z.object({
+  book: z.string().min(1).max(50),
+  chapter: z.number().int().min(1),
+  translationId: z.string().max(20).optional(),
+});
+
+const MAX_DRAFT_BODY_SIZE = 1024;
+
+/**
+ * POST /api/chapter-themes/draft
+ * Draft a theme from the chapter text with an LLM. Nothing is saved; the
+ * admin reviews the draft and saves it with PUT /api/chapter-themes.
+ * Admin sessions only.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+  const sid = validation.sid;
+
+  const openRouterApiKey = process.env.OPENROUTER_API_KEY;
+  const convex = getConvexClient();
+  if (!openRouterApiKey || !convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const session = await convex.query(api.sessions.getSession, { sid });
+  if (session?.tier !== "admin") {
+    return adminRequiredResponse();
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_DRAFT_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = draftSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Validation failed", message: parseResult.error.issues[0]?.message },
+      { status: 400 }
+    );
+  }
+  const { chapter, translationId } = parseResult.data;
+  const bookData = BOOK_BY_SLUG[parseResult.data.book.toLowerCase()];
+  if (!bookData || chapter > bookData.chapters.length) {
+    return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+  }
+
+  const chapterData = await getChapter(
+    bookData.slug,
+    chapter,
+    isTranslation(translationId) ? translationId : DEFAULT_TRANSLATION
+  );
+  if (!chapterData || chapterData.verses.length === 0) {
+    return NextResponse.json(
+      { error: "Failed to load chapter text" },
+      { status: 502 }
+    );
+  }
+
+  // SECURITY: Log admin usage for audit trail; drafts are never charged
+  const model = getThemeDraftModel();
+  try {
+    const pricing = await getChatModelPricing(model, openRouterApiKey);
+    const estimatedCredits =
+      computeChatCreditsCost(pricing ?? undefined, THEME_DRAFT_ESTIMATED_TOKENS) ?? 0;
+    await convex.action(api.sessions.logAdminUsage, {
+      sid,
+      endpoint: "chapter-theme-draft",
+      modelId: model,
+      estimatedCredits,
+      estimatedCostUsd: estimatedCredits * CREDIT_USD,
+      serverSecret: getConvexServerSecret(),
+    });
+  } catch (err) {
+    console.error("[Chapter Themes] Failed to log admin usage:", err);
+  }
+
+  const draft = await draftChapterTheme(
+    openRouterApiKey,
+    `${bookData.name} ${chapter}`,
+    chapterData.verses.map((v) => ({ verse: v.verse, text: v.text }))
+  );
+  if (!draft) {
+    return NextResponse.json(
+      { error: "Failed to draft theme" },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json({ theme: draft.theme, model: draft.model });
+}
@@ -0,0 +1,205 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { adminRequiredResponse, validateWriteRequest } from "@/lib/admin-route";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { normalizeChapterTheme, MAX_THEME_FIELD_LENGTH } from "@/lib/chapter-themes";
+import { BOOK_BY_SLUG } from "@/data/bible-structure";
+import { api } from "../../../../convex/_generated/api";
+
+const themeField = z.string().min(1).max(MAX_THEME_FIELD_LENGTH);
+
+const saveThemeSchema = z.object({
+  book: z.string().min(1).max(50),
+  chapter: z.number().int().min(1),
+  setting: themeField,
+  palette: themeField,
+  elements: themeField,
+  style: themeField,
+  // Set when the fields started from /api/chapter-themes/draft
+  draftModel: z.string().max(200).optional(),
+});
+
+const MAX_THEME_BODY_SIZE = 4 * 1024;
+
+function isValidChapter(book: string, chapter: number): boolean {
+  const bookData = BOOK_BY_SLUG[book.toLowerCase()];
+  return Boolean(bookData && chapter >= 1 && chapter <= bookData.chapters.length);
+}
+
+/**
+ * GET /api/chapter-themes?book=genesis
+ * Every stored theme of a book. Admin sessions only.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  const book = new URL(request.url).searchParams.get("book")?.toLowerCase() ?? "";
+  if (!BOOK_BY_SLUG[book]) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  try {
+    const themes = await convex.query(api.chapterThemes.listChapterThemes, {
+      sid: sessionValidation.sid,
+      book,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ themes });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Chapter theme list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load chapter themes" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/chapter-themes
+ * Create or replace a chapter's theme. Admin sessions only.
+ */
+export async function PUT(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_THEME_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = saveThemeSchema.safeParse(rawBody);
+  const theme = parseResult.success ? normalizeChapterTheme(parseResult.data) : null;
+  if (!parseResult.success || !theme) {
+    return NextResponse.json(
+      {
+        error: "Validation failed",
+        message: parseResult.success
+          ? "Every theme field is required"
+          : parseResult.error.issues[0]?.message,
+      },
+      { status: 400 }
+    );
+  }
+  const { book, chapter, draftModel } = parseResult.data;
+  if (!isValidChapter(book, chapter)) {
+    return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+  }
+
+  try {
+    const result = await convex.action(api.chapterThemes.saveChapterTheme, {
+      sid: validation.sid,
+      book,
+      chapter,
+      ...theme,
+      source: draftModel ? "drafted" : "admin",
+      draftModel,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Chapter theme save error:", error);
+    return NextResponse.json(
+      { error: "Failed to save chapter theme" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/chapter-themes?book=genesis&chapter=1
+ * Remove a chapter's theme. Admin sessions only.
+ */
+export async function DELETE(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const book = searchParams.get("book")?.toLowerCase() ?? "";
+  const chapter = Number.parseInt(searchParams.get("chapter") ?? "", 10);
+  if (!isValidChapter(book, chapter)) {
+    return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+  }
+
+  try {
+    const result = await convex.action(api.chapterThemes.deleteChapterTheme, {
+      sid: validation.sid,
+      book,
+      chapter,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Chapter theme delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete chapter theme" },
+      { status: 500 }
+    );
+  }
+}
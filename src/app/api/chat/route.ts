@@ -1,5 +1,5 @@
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-import { streamText } from "ai";
+import { streamText, stepCountIs } from "ai";
 import { z } from "zod";
 import {
   DEFAULT_CHAT_MODEL,
@@ -7,7 +7,10 @@ import {
   computeChatCreditsCost,
   computeActualChatCreditsCost,
   CREDIT_USD,
+  DEFAULT_ESTIMATED_TOKENS,
+  estimateChatToolPromptTokens,
 } from "@/lib/chat-models";
+import { chatTools, MAX_CHAT_TOOL_CALLS } from "@/lib/chat-tools";
 import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
 import { validateSessionWithIp, getClientIp, hashIp } from "@/lib/session";
 import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
@@ -17,7 +20,9 @@ import {
   InvalidJsonError,
   DEFAULT_MAX_BODY_SIZE,
 } from "@/lib/request-body";
+import { conversationVerseId } from "@/lib/reference-parser";
 import { api } from "../../../../convex/_generated/api";
+import type { Id } from "../../../../convex/_generated/dataModel";
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
@@ -49,7 +54,7 @@ const pageContextSchema = z.object({
         text: z.string().max(1200).optional(),
       })
     )
-    .max(20) // Limit array length to prevent abuse
+    .max(200) // Longest chapter (Psalm 119) is 176 verses; prompt text is capped in formatVerses
     .optional(),
   prevVerse: verseContextSchema.optional(),
   nextVerse: verseContextSchema.optional(),
@@ -73,7 +78,7 @@ const formatVerses = (verses?: PageContext["verses"]) => {
 
   if (!compact) return null;
 
-  const maxLength = 1200;
+  const maxLength = 6000;
   return compact.length > maxLength ? `${compact.slice(0, maxLength).trim()}...` : compact;
 };
 
@@ -82,7 +87,7 @@ const formatVerses = (verses?: PageContext["verses"]) => {
  * This gives the AI full awareness of where we are in Scripture.
  */
 const buildSystemPrompt = (context?: PageContext | string): string => {
-  const basePrompt = `You are Visibible, a reverent guide helping users connect deeply with Scripture.`;
+  const basePrompt = `You are Visibible, a reverent guide helping users connect deeply with Scripture. When you quote or compare passages beyond the one in view, look them up with your scripture tools rather than quoting from memory.`;
 
   if (!context) {
     return `${basePrompt}\n\nHelp users understand and connect with God's Word. Be spiritually encouraging and keep responses grounded in Scripture.`;
@@ -129,7 +134,8 @@ const buildSystemPrompt = (context?: PageContext | string): string => {
   }
 
   // Add guidance
-  prompt += `\n\nHelp users understand this verse in its biblical context. Share its meaning within the chapter and book, its theological significance, and how it connects to the broader story of Scripture. Be spiritually encouraging and help users connect personally with God's Word. Keep responses grounded but offer deeper insight when helpful.`;
+  const isPassage = (context.verses?.length ?? 0) > 1;
+  prompt += `\n\nHelp users understand this ${isPassage ? "passage" : "verse"} in its biblical context. Share its meaning within the chapter and book, its theological significance, and how it connects to the broader story of Scripture. Be spiritually encouraging and help users connect personally with God's Word. Keep responses grounded but offer deeper insight when helpful.`;
 
   return prompt;
 };
@@ -171,8 +177,22 @@ const requestBodySchema = z.object({
     .union([z.string().min(1).max(2000), pageContextSchema])
     .optional(),
   model: z.string().optional(),
+  // Persisted conversation to append to; omitted to start a new one
+  conversationId: z.string().max(100).optional(),
 });
 
+/**
+ * Plain text of a UI message, joined from its text parts.
+ */
+const getMessageText = (parts: Array<{ type: string; text?: string }>): string =>
+  parts
+    .filter(
+      (p): p is { type: string; text: string } =>
+        p.type === "text" && typeof p.text === "string"
+    )
+    .map((p) => p.text)
+    .join("");
+
 /**
  * POST handler for chat API endpoint.
  * Uses OpenRouter exclusively for all chat models.
@@ -299,7 +319,12 @@ export async function POST(req: Request) {
     );
   }
 
-  const { messages, context, model: requestedModel } = validationResult.data;
+  const {
+    messages,
+    context,
+    model: requestedModel,
+    conversationId: requestedConversationId,
+  } = validationResult.data;
 
   // Use requested model or fall back to default
   const modelId = requestedModel || DEFAULT_CHAT_MODEL;
@@ -322,8 +347,13 @@ export async function POST(req: Request) {
     );
   }
 
-  // Calculate credit cost based on model pricing (estimated ~2000 tokens)
-  const estimatedCredits = computeChatCreditsCost(modelPricing);
+  // Calculate credit cost based on model pricing (estimated ~2000 tokens),
+  // plus the prompt re-sent with tool results on each tool step
+  const estimatedCredits = computeChatCreditsCost(
+    modelPricing,
+    DEFAULT_ESTIMATED_TOKENS,
+    estimateChatToolPromptTokens(MAX_CHAT_TOOL_CALLS)
+  );
   if (estimatedCredits === null) {
     return Response.json(
       {
@@ -376,6 +406,10 @@ export async function POST(req: Request) {
     }
   };
 
+  // Credits to charge on settlement. Starts at the reservation and drops to the
+  // real token cost once streamText reports usage; never exceeds the reservation.
+  let chargedCredits = creditAmount;
+
   let creditSettlement: Promise<void> | null = null;
   const settleCredits = (mode: "deduct" | "release", reason: string) => {
     if (!generationId || !creditReserved) {
@@ -395,6 +429,9 @@ export async function POST(req: Request) {
           modelId,
           generationId,
           costUsd: estimatedCostUsd,
+          // Any unused part of the reservation is refunded as "usage_refund"
+          actualAmount: chargedCredits,
+          actualCostUsd: chargedCredits * CREDIT_USD,
           serverSecret,
         });
 
@@ -497,13 +534,7 @@ export async function POST(req: Request) {
     // Convert UIMessages to simple model messages for OpenRouter
     // The AI SDK v6 parts format isn't always properly converted by convertToModelMessages
     const modelMessagesWithMetadata = messages.map((msg, index) => {
-      const text = msg.parts
-        .filter(
-          (p): p is { type: string; text: string } =>
-            p.type === "text" && typeof p.text === "string"
-        )
-        .map((p) => p.text)
-        .join("");
+      const text = getMessageText(msg.parts);
 
       return {
         role: msg.role as "user" | "assistant" | "system",
@@ -555,49 +586,130 @@ export async function POST(req: Request) {
       content,
     }));
 
+    // Persist the new user turn before streaming. History is best-effort:
+    // a storage failure never blocks the chat itself.
+    const verseId = typeof context === "object" ? conversationVerseId(context) : "general";
+    const lastMessage = messages[messages.length - 1];
+    let conversationId: string | null = null;
+    if (lastMessage.role === "user") {
+      try {
+        conversationId = await convex.action(api.conversations.appendMessage, {
+          sid: sessionId,
+          conversationId: requestedConversationId as Id<"conversations"> | undefined,
+          verseId,
+          message: {
+            messageId: lastMessage.id,
+            role: "user",
+            text: getMessageText(lastMessage.parts),
+          },
+          serverSecret,
+        });
+      } catch (err) {
+        console.error("[Chat API] Failed to persist user message:", err);
+      }
+    }
+
     const result = streamText({
       model: openRouter.chat(modelId),
       system,
       messages: modelMessages,
+      tools: chatTools,
+      // Tool round trips plus the final answer
+      stopWhen: stepCountIs(MAX_CHAT_TOOL_CALLS + 1),
     });
 
+    let finishMetadata:
+      | {
+          model: string;
+          promptTokens: number;
+          completionTokens: number;
+          totalTokens: number;
+          finishReason: string;
+          latencyMs: number;
+          creditsCharged: number;
+          actualCredits: number;
+        }
+      | undefined;
+
     // Get the base streaming response with metadata injection
     const baseResponse = result.toUIMessageStreamResponse({
+      // Stable id so the persisted assistant turn matches the client's copy
+      generateMessageId: () => crypto.randomUUID(),
       messageMetadata: ({ part }) => {
+        // Tell the client which conversation this exchange was filed under
+        if (part.type === "start") {
+          return conversationId ? { conversationId } : undefined;
+        }
         // Inject metadata on finish to capture usage stats
         if (part.type === "finish") {
           const endTime = Date.now();
           const inputTokens = part.totalUsage?.inputTokens ?? 0;
           const outputTokens = part.totalUsage?.outputTokens ?? 0;
+          const usageReported =
+            part.totalUsage?.inputTokens !== undefined ||
+            part.totalUsage?.outputTokens !== undefined;
+
+          // Calculate actual cost from real usage (includes tool steps)
+          const actualCredits = usageReported
+            ? computeActualChatCreditsCost(modelPricing, inputTokens, outputTokens)
+            : null;
+
+          // Bill real usage, capped at the reservation. Without usage the
+          // reservation is charged as before.
+          if (actualCredits !== null) {
+            chargedCredits = Math.min(actualCredits, creditAmount);
+          }
 
-          // Calculate actual cost for logging/comparison
-          const actualCredits = computeActualChatCreditsCost(
-            modelPricing,
-            inputTokens,
-            outputTokens
-          );
-
-          // Log cost comparison for monitoring
-          if (actualCredits !== null && creditAmount !== actualCredits) {
+          // Usage beyond the reservation is absorbed, not billed. Warn so
+          // estimates that run short show up in the logs.
+          if (actualCredits !== null && actualCredits > creditAmount) {
+            console.warn(
+              `[Chat API] Usage exceeded reservation: reserved=${creditAmount} actual=${actualCredits} absorbed=${actualCredits - creditAmount} promptTokens=${inputTokens} completionTokens=${outputTokens} model=${modelId}`
+            );
+          } else if (actualCredits !== null && creditAmount !== actualCredits) {
+            // Log cost comparison for monitoring
             const diff = creditAmount - actualCredits;
             console.log(
               `[Chat API] Cost variance: estimated=${creditAmount} actual=${actualCredits} diff=${diff > 0 ? "+" : ""}${diff} model=${modelId}`
             );
           }
 
-          return {
+          finishMetadata = {
             model: modelId,
             promptTokens: inputTokens,
             completionTokens: outputTokens,
             totalTokens: inputTokens + outputTokens,
             finishReason: part.finishReason,
             latencyMs: endTime - startTime,
-            creditsCharged: creditAmount,
+            // Admins are never charged
+            creditsCharged: session.tier === "admin" ? 0 : chargedCredits,
             actualCredits: actualCredits ?? creditAmount,
           };
+          return finishMetadata;
         }
         return undefined;
       },
+      onFinish: async ({ responseMessage, isAborted }) => {
+        if (!conversationId || isAborted) return;
+        const text = getMessageText(responseMessage.parts);
+        if (!text.trim()) return;
+        try {
+          await convex.action(api.conversations.appendMessage, {
+            sid: sessionId,
+            conversationId: conversationId as Id<"conversations">,
+            verseId,
+            message: {
+              messageId: responseMessage.id,
+              role: "assistant",
+              text,
+              metadata: finishMetadata,
+            },
+            serverSecret,
+          });
+        } catch (err) {
+          console.error("[Chat API] Failed to persist assistant message:", err);
+        }
+      },
     });
 
     // If no credits reserved (admin user), return response as-is
@@ -0,0 +1,214 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { validateCsrfToken, CSRF_COOKIE_NAME } from "@/lib/csrf";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { api } from "../../../../../convex/_generated/api";
+import { Id } from "../../../../../convex/_generated/dataModel";
+
+const renameSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(120),
+});
+
+const MAX_RENAME_BODY_SIZE = 1024;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { error: "Conversation not found" },
+    { status: 404 }
+  );
+}
+
+/**
+ * Shared origin, CSRF and session checks for the state-changing handlers.
+ * Returns the session id, or the response to send instead.
+ */
+async function authorizeChange(request: Request): Promise<string | NextResponse> {
+  // SECURITY: Validate request origin
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  // SECURITY: Validate CSRF token
+  const cookieStore = await cookies();
+  const csrfCookie = cookieStore.get(CSRF_COOKIE_NAME)?.value;
+  if (!validateCsrfToken(request, csrfCookie)) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "CSRF validation failed" },
+      { status: 403 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+  return sessionValidation.sid;
+}
+
+/**
+ * GET /api/conversations/[id]
+ * A saved conversation with its messages, for resuming it in the chat.
+ */
+export async function GET(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const conversation = await convex.query(api.conversations.getConversation, {
+      sid: sessionValidation.sid,
+      conversationId: id as Id<"conversations">,
+      serverSecret: getConvexServerSecret(),
+    });
+    if (!conversation) {
+      return notFoundResponse();
+    }
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error("Conversation load error:", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/conversations/[id]
+ * Rename a conversation. Body: { title }
+ */
+export async function PATCH(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const authorization = await authorizeChange(request);
+  if (authorization instanceof NextResponse) {
+    return authorization;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_RENAME_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = renameSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Validation failed", message: parseResult.error.issues[0]?.message },
+      { status: 400 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const result = await convex.action(api.conversations.renameConversation, {
+      sid: authorization,
+      conversationId: id as Id<"conversations">,
+      title: parseResult.data.title,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Conversation not found")) {
+      return notFoundResponse();
+    }
+    console.error("Conversation rename error:", error);
+    return NextResponse.json(
+      { error: "Failed to rename conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id]
+ * Delete a conversation and all of its messages.
+ */
+export async function DELETE(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const authorization = await authorizeChange(request);
+  if (authorization instanceof NextResponse) {
+    return authorization;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const result = await convex.action(api.conversations.deleteConversation, {
+      sid: authorization,
+      conversationId: id as Id<"conversations">,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Conversation not found")) {
+      return notFoundResponse();
+    }
+    console.error("Conversation delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete conversation" },
+      { status: 500 }
+    );
+  }
+}
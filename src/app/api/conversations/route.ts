@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { api } from "../../../../convex/_generated/api";
+
+/**
+ * GET /api/conversations?verseId=john-3-16
+ * The session's saved chat conversations for a verse, most recent first.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const verseId = new URL(request.url).searchParams.get("verseId");
+  if (!verseId || verseId.length > 100) {
+    return NextResponse.json(
+      { error: "verseId is required" },
+      { status: 400 }
+    );
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const conversations = await convex.query(api.conversations.listConversations, {
+      sid: sessionValidation.sid,
+      verseId,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error("Conversation list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load conversations" },
+      { status: 500 }
+    );
+  }
+}
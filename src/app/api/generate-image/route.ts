@@ -1,10 +1,6 @@
-import { NextResponse } from "next/server";
+import { NextResponse, after } from "next/server";
+import { z } from "zod";
 import {
-  DEFAULT_IMAGE_MODEL,
-  fetchImageModels,
-  computeCreditsCost,
-  computeAdjustedCreditsCost,
-  computeConservativeEstimate,
   computeCreditsFromActualUsage,
   getProviderName,
   CREDIT_USD,
@@ -18,29 +14,55 @@ import {
   ImageAspectRatio,
   ImageResolution,
 } from "@/lib/image-models";
+import { quoteImageGeneration } from "@/lib/image-pricing";
+import { ChapterTheme, chapterForReference } from "@/lib/chapter-themes";
 import {
-  DEFAULT_CHAT_MODEL,
-  SCENE_PLANNER_ESTIMATED_TOKENS,
-  computeChatCreditsCost,
-  getChatModelPricing,
-  isModelFree,
-} from "@/lib/chat-models";
+  matchRegistryEntries,
+  toRegistryPromptEntry,
+  RegistryPromptEntry,
+} from "@/lib/visual-registry";
+import {
+  sanitizeRefineInstruction,
+  MAX_REFINE_INSTRUCTION_LENGTH,
+} from "@/lib/image-refine";
+import {
+  assignPromptTemplate,
+  getPromptExperiment,
+  ScenePlan,
+} from "@/lib/prompt-templates";
 import { validateSessionWithIp, getClientIp, hashIp } from "@/lib/session";
 import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
 import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { parseReference, formatReferenceRange } from "@/lib/reference-parser";
+import { getChapter } from "@/lib/bible-api";
+import { BOOK_BY_SLUG } from "@/data/bible-structure";
+import { DEFAULT_TRANSLATION, isTranslation } from "@/lib/translations";
+import {
+  STYLE_PROFILES,
+  DEFAULT_STYLE_PROFILE,
+  isValidStyleProfile,
+} from "@/lib/style-profiles";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
 import { api } from "../../../../convex/_generated/api";
+import type { Id } from "../../../../convex/_generated/dataModel";
+import { createVerseId } from "../../../../convex/verseIds";
 
 // Disable Next.js server-side caching - let browser cache handle it
 export const dynamic = "force-dynamic";
 
+// Async jobs keep running after the response; give them room for the
+// scene planner plus slow image models
+export const maxDuration = 300;
+
 const isImageGenerationEnabled =
   process.env.ENABLE_IMAGE_GENERATION === "true";
 
 // Fallback text if no verse provided
 const DEFAULT_TEXT = "In the beginning God created the heaven and the earth.";
-const PROMPT_VERSION = "2026-01-07";
-const DEFAULT_STYLE_PROFILE = "classical";
-const DEFAULT_SCENE_PLANNER_MODEL = DEFAULT_CHAT_MODEL;
 const SCENE_PLAN_MAX_FIELD_LENGTH = 180;
 // Scene planner timeout in milliseconds (default 10 seconds, configurable via env var)
 const SCENE_PLANNER_TIMEOUT_MS = Number.parseInt(
@@ -48,16 +70,6 @@ const SCENE_PLANNER_TIMEOUT_MS = Number.parseInt(
   10
 );
 
-type ScenePlan = {
-  primarySubject: string;
-  action: string;
-  setting: string;
-  secondaryElements?: string;
-  mood?: string;
-  timeOfDay?: string;
-  composition?: string;
-};
-
 function normalizeSceneField(value: unknown): string | undefined {
   if (typeof value !== "string") return undefined;
   const cleaned = value
@@ -98,22 +110,6 @@ function extractJsonObject(text: string): string | null {
   return text.slice(start, end + 1);
 }
 
-function formatScenePlan(scenePlan: ScenePlan): string {
-  const lines = [
-    "SCENE PLAN (supporting; do not override priority rules):",
-    `Primary subject: ${scenePlan.primarySubject}`,
-    `Action: ${scenePlan.action}`,
-    `Setting: ${scenePlan.setting}`,
-  ];
-  if (scenePlan.secondaryElements) {
-    lines.push(`Secondary elements: ${scenePlan.secondaryElements}`);
-  }
-  if (scenePlan.mood) lines.push(`Mood: ${scenePlan.mood}`);
-  if (scenePlan.timeOfDay) lines.push(`Time of day: ${scenePlan.timeOfDay}`);
-  if (scenePlan.composition) lines.push(`Composition: ${scenePlan.composition}`);
-  return `\n\n${lines.join("\n")}`;
-}
-
 // Security: Validate and sanitize Bible reference format
 function sanitizeReference(ref: string): string {
   // Only allow alphanumeric, spaces, colons, hyphens, and basic punctuation
@@ -134,7 +130,295 @@ function sanitizeVerseText(text: string): string {
     .slice(0, 1200); // Limit to reasonable verse length
 }
 
+// Where an async job saves its image and reports progress
+type ImageJobTarget = {
+  verseId: string;
+  translationId?: string;
+  // Set when the verse belongs to a chapter batch that already holds its credits
+  batch?: { batchId: Id<"imageBatches">; verse: number };
+  // Set when refining an existing image: it is sent to the model with the instruction
+  refine?: { parentImageId: Id<"verseImages">; imageUrl: string; instruction: string };
+};
+
+const verseContextSchema = z.object({
+  number: z.number(),
+  text: z.string().max(1200),
+  reference: z.string().max(100).optional(),
+});
+
+// POST body mirrors the GET query params, plus where to save the image
+const imageJobRequestSchema = z.object({
+  verseId: z.string().min(1).max(100),
+  translationId: z.string().max(20).optional(),
+  reference: z.string().min(1).max(100),
+  text: z.string().max(1200).optional(),
+  theme: z
+    .object({
+      setting: z.string().max(500),
+      palette: z.string().max(500),
+      elements: z.string().max(500),
+      style: z.string().max(500),
+    })
+    .optional(),
+  prevVerse: verseContextSchema.optional(),
+  nextVerse: verseContextSchema.optional(),
+  model: z.string().max(200).optional(),
+  generation: z.number().int().min(1).optional(),
+  style: z.string().max(50).optional(),
+  aspectRatio: z.string().max(10).optional(),
+  resolution: z.string().max(10).optional(),
+});
+
+// POST body for the next verse of a chapter batch; everything else comes from the batch
+const batchVerseRequestSchema = z.object({
+  batchId: z.string().min(1).max(100),
+});
+
+// POST body to refine an existing image; verse, style and aspect ratio come from the image
+const refineRequestSchema = z.object({
+  refineImageId: z.string().min(1).max(100),
+  instruction: z.string().min(1).max(MAX_REFINE_INSTRUCTION_LENGTH),
+  model: z.string().max(200).optional(),
+  generation: z.number().int().min(1).optional(),
+  resolution: z.string().max(10).optional(),
+});
+
+const MAX_IMAGE_JOB_BODY_SIZE = 16 * 1024;
+
+/**
+ * GET /api/generate-image
+ * Generate an image within the request and return it with its metadata.
+ */
 export async function GET(request: Request) {
+  return startGeneration(request, new URL(request.url).searchParams);
+}
+
+/**
+ * POST /api/generate-image
+ * Reserve credits, queue an image job and return its ID right away.
+ * The client watches the job in Convex; the finished image is saved by the server.
+ */
+export async function POST(request: Request) {
+  // SECURITY: Validate request origin
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse();
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBodyWithLimit(request, MAX_IMAGE_JOB_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        {
+          error: "Payload too large",
+          message: `Request body exceeds maximum size of ${error.maxSize} bytes.`,
+          maxSize: error.maxSize,
+        },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Failed to read request body" }, { status: 400 });
+  }
+
+  const batchRequest = batchVerseRequestSchema.safeParse(body);
+  if (batchRequest.success) {
+    return startBatchVerse(request, batchRequest.data.batchId as Id<"imageBatches">);
+  }
+
+  const refineRequest = refineRequestSchema.safeParse(body);
+  if (refineRequest.success) {
+    const { refineImageId, ...refineParams } = refineRequest.data;
+    return startRefinement(request, refineImageId as Id<"verseImages">, refineParams);
+  }
+
+  const validationResult = imageJobRequestSchema.safeParse(body);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: validationResult.error.issues },
+      { status: 400 }
+    );
+  }
+
+  // Feed the generation through the same parameter parsing as GET
+  const { verseId, translationId, ...generationParams } = validationResult.data;
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(generationParams)) {
+    if (value === undefined) continue;
+    searchParams.set(key, typeof value === "string" ? value : JSON.stringify(value));
+  }
+
+  return startGeneration(request, searchParams, { verseId, translationId });
+}
+
+/**
+ * Run the next pending verse of a chapter batch as an image job.
+ * Settings and the shared chapter theme come from the batch; the prev/next
+ * verses come from the chapter text for continuity.
+ */
+async function startBatchVerse(
+  request: Request,
+  batchId: Id<"imageBatches">
+): Promise<Response> {
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let serverSecret: string;
+  try {
+    serverSecret = getConvexServerSecret();
+  } catch {
+    console.error("[Image API] CONVEX_SERVER_SECRET not configured");
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required for image generation" },
+      { status: 401 }
+    );
+  }
+
+  const batch = await convex
+    .query(api.imageBatches.getImageBatchForSession, {
+      sid: sessionValidation.sid,
+      batchId,
+      serverSecret,
+    })
+    .catch(() => null);
+  if (!batch) {
+    return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+  }
+  if (batch.nextVerse === null) {
+    return NextResponse.json(
+      { error: "No verse ready", message: "The batch is finished or a verse is still generating." },
+      { status: 409 }
+    );
+  }
+
+  const { settings } = batch;
+  const translation = isTranslation(settings.translationId)
+    ? settings.translationId
+    : DEFAULT_TRANSLATION;
+  const chapterData = await getChapter(batch.book, batch.chapter, translation);
+  const verseData = chapterData?.verses.find((v) => v.verse === batch.nextVerse);
+  if (!chapterData || !verseData) {
+    return NextResponse.json(
+      { error: "Failed to load verse text" },
+      { status: 502 }
+    );
+  }
+
+  // Canonical book name, so the verseId matches the verse's page
+  const bookName = BOOK_BY_SLUG[batch.book]?.name ?? chapterData.bookName;
+  const toContext = (verse: number) => {
+    const data = chapterData.verses.find((v) => v.verse === verse);
+    return data
+      ? { number: verse, text: data.text, reference: `${bookName} ${batch.chapter}:${verse}` }
+      : undefined;
+  };
+  const reference = `${bookName} ${batch.chapter}:${batch.nextVerse}`;
+  const generationParams = {
+    reference,
+    text: verseData.text,
+    theme: settings.theme,
+    prevVerse: toContext(batch.nextVerse - 1),
+    nextVerse: toContext(batch.nextVerse + 1),
+    model: settings.model,
+    style: settings.style,
+    aspectRatio: settings.aspectRatio,
+    resolution: settings.resolution,
+  };
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(generationParams)) {
+    if (value === undefined) continue;
+    searchParams.set(key, typeof value === "string" ? value : JSON.stringify(value));
+  }
+
+  return startGeneration(request, searchParams, {
+    verseId: createVerseId(reference),
+    translationId: settings.translationId,
+    batch: { batchId, verse: batch.nextVerse },
+  });
+}
+
+/**
+ * Refine an existing image as an image job. The parent image is sent to the
+ * model with the user's instruction; the result is saved as a new image of
+ * the same verse, linked to its parent. Pricing and reservation are the same
+ * as a regular generation.
+ */
+async function startRefinement(
+  request: Request,
+  parentImageId: Id<"verseImages">,
+  params: { instruction: string; model?: string; generation?: number; resolution?: string }
+): Promise<Response> {
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const instruction = sanitizeRefineInstruction(params.instruction);
+  if (!instruction) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "Describe the change you want." },
+      { status: 400 }
+    );
+  }
+
+  const parent = await convex
+    .query(api.verseImages.getImageForRefinement, { imageId: parentImageId })
+    .catch(() => null);
+  if (!parent) {
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+
+  const generationParams = {
+    reference: parent.reference,
+    text: parent.verseText,
+    model: params.model,
+    generation: params.generation,
+    style: parent.styleProfileId,
+    aspectRatio: parent.aspectRatio,
+    resolution: params.resolution,
+  };
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(generationParams)) {
+    if (value === undefined) continue;
+    searchParams.set(key, String(value));
+  }
+
+  return startGeneration(request, searchParams, {
+    verseId: parent.verseId,
+    translationId: parent.translationId,
+    refine: { parentImageId: parent.id, imageUrl: parent.imageUrl, instruction },
+  });
+}
+
+/**
+ * Validate, price and reserve credits for one generation, then run it.
+ * Without a job target the image is returned in the response. With one, the
+ * response carries the job ID and generation continues after it is sent.
+ */
+async function startGeneration(
+  request: Request,
+  searchParams: URLSearchParams,
+  jobTarget?: ImageJobTarget
+): Promise<Response> {
   // SECURITY: Validate request origin
   if (!validateOrigin(request)) {
     return invalidOriginResponse();
@@ -228,7 +512,6 @@ export async function GET(request: Request) {
 
   // Get verse text, theme, model, and context from query params
   // SECURITY: All user-provided text is sanitized to prevent prompt injection
-  const { searchParams } = new URL(request.url);
   const verseText = sanitizeVerseText(searchParams.get("text") || DEFAULT_TEXT);
   const themeParam = searchParams.get("theme");
   const prevVerseParam = searchParams.get("prevVerse")
@@ -237,9 +520,12 @@ export async function GET(request: Request) {
   const nextVerseParam = searchParams.get("nextVerse")
     ? sanitizeVerseText(searchParams.get("nextVerse")!)
     : null;
-  const reference = sanitizeReference(
-    searchParams.get("reference") || "Scripture"
-  );
+  // Canonicalize parseable references ("Jn 3:16" -> "John 3:16"); sanitize the rest
+  const rawReference = searchParams.get("reference") || "Scripture";
+  const parsedReference = parseReference(rawReference);
+  const reference = parsedReference?.length === 1
+    ? formatReferenceRange(parsedReference[0])
+    : sanitizeReference(rawReference);
   const requestedModelId = searchParams.get("model");
   const generationParam = searchParams.get("generation");
   const requestedStyleId = searchParams.get("style");
@@ -256,40 +542,6 @@ export async function GET(request: Request) {
     ? requestedResolution
     : DEFAULT_RESOLUTION;
 
-  let modelId = DEFAULT_IMAGE_MODEL;
-  let modelPricing: string | undefined;
-  type StyleProfile = {
-    id: string;
-    label: string;
-    rendering: string;
-    palette?: string;
-    lighting?: string;
-    materials?: string;
-    composition?: string;
-    negative: string;
-  };
-  type ChapterTheme = {
-    setting: string;
-    palette: string;
-    elements: string;
-    style: string;
-  };
-
-  const STYLE_PROFILES: Record<string, StyleProfile> = {
-    classical: {
-      id: "classical",
-      label: "Classical Painterly",
-      rendering:
-        "Stylized, painterly, biblical-era, mysterious, expansive; epic scale and reverent tone.",
-      palette: "Mature, grounded color; rich but restrained contrast.",
-      lighting: "Luminous, dramatic lighting.",
-      materials: "Gritty, raw texture; avoid polished digital smoothness.",
-      composition: "Cinematic, immersive viewpoint; heroic but grounded.",
-      negative:
-        "Avoid photorealism or a photographic look. Avoid childish/cartoonish styling. Never render as a painting on a wall, gallery piece, or framed artwork—fill the entire canvas edge-to-edge.",
-    },
-  };
-
   const parseChapterTheme = (value: string | null): ChapterTheme | null => {
     if (!value) return null;
     try {
@@ -322,9 +574,21 @@ export async function GET(request: Request) {
     return Number.isNaN(parsed) ? null : parsed;
   };
 
-  const chapterTheme = parseChapterTheme(themeParam);
+  const referenceChapter = chapterForReference(reference);
+  let chapterTheme = parseChapterTheme(themeParam);
+  if (!chapterTheme && !jobTarget?.refine) {
+    // No theme from the client: use the chapter's stored theme, if any
+    if (referenceChapter) {
+      chapterTheme = await convex
+        .query(api.chapterThemes.getChapterTheme, referenceChapter)
+        .catch((error) => {
+          console.warn("[Image API] Chapter theme lookup failed:", error);
+          return null;
+        });
+    }
+  }
   const generationNumber = parseGenerationNumber(generationParam);
-  const requestedStyleProfile = requestedStyleId
+  const requestedStyleProfile = requestedStyleId && isValidStyleProfile(requestedStyleId)
     ? STYLE_PROFILES[requestedStyleId]
     : undefined;
   const styleProfile = requestedStyleProfile || STYLE_PROFILES[DEFAULT_STYLE_PROFILE];
@@ -340,86 +604,35 @@ export async function GET(request: Request) {
   }
 
   // SECURITY: Validate model exists and has pricing to prevent cost abuse
-  const result = await fetchImageModels(openRouterApiKey);
-
-  if (requestedModelId && requestedModelId !== DEFAULT_IMAGE_MODEL) {
-    const foundModel = result.models.find(
-      (model) => model.id === requestedModelId
-    );
-    if (!foundModel) {
-      return NextResponse.json(
-        {
-          error: "Model not available",
-          message: `The model "${requestedModelId}" is not available. Please select a different model.`,
-        },
-        { status: 400 }
-      );
-    }
-    modelId = requestedModelId;
-    modelPricing = foundModel.pricing?.imageOutput;
-  } else {
-    // Use default model, but still validate it exists and has pricing
-    const foundModel = result.models.find((model) => model.id === modelId);
-    modelPricing = foundModel?.pricing?.imageOutput;
-  }
-
-  // SECURITY: Reject models without valid pricing (prevents cost abuse)
-  const baseImageCreditsCost = computeCreditsCost(modelPricing);
-  if (baseImageCreditsCost === null) {
+  const quoteResult = await quoteImageGeneration(openRouterApiKey, {
+    requestedModelId,
+    resolution,
+    refine: Boolean(jobTarget?.refine),
+  });
+  if (!quoteResult.ok) {
     return NextResponse.json(
-      {
-        error: "Model pricing unavailable",
-        message: `The model "${modelId}" cannot be priced. Please select a different model.`,
-      },
+      { error: quoteResult.error, message: quoteResult.message },
       { status: 400 }
     );
   }
+  const {
+    modelId,
+    enableScenePlanner,
+    scenePlannerModel,
+    imageCreditsCost,
+    reservationImageCredits,
+    scenePlannerCreditsCost,
+    scenePlannerCostUsd,
+    estimatedCreditsCost,
+    estimatedTotalCostUsd,
+    reservationCreditsCost,
+    reservationCostUsd,
+  } = quoteResult.quote;
 
   // Check if this model supports resolution settings
   // Only certain models (currently Gemini) support configurable resolution
   const modelSupportsResolution = supportsResolution(modelId);
 
-  // Apply resolution multiplier only if model supports it
-  // This prevents charging users extra for resolution settings that are ignored
-  const imageCreditsCost = computeAdjustedCreditsCost(baseImageCreditsCost, resolution, modelId);
-
-  // Compute conservative estimate for reservation (accounts for OpenRouter API pricing discrepancy)
-  // The OpenRouter models API often underreports actual costs for multimodal image models
-  const baseReservationCredits = computeConservativeEstimate(modelPricing);
-  const reservationImageCredits = computeAdjustedCreditsCost(baseReservationCredits, resolution, modelId);
-
-  // Determine scene planner settings early for cost calculation
-  const enableScenePlanner = process.env.ENABLE_SCENE_PLANNER !== "false";
-  const scenePlannerModel =
-    process.env.OPENROUTER_SCENE_PLANNER_MODEL || DEFAULT_SCENE_PLANNER_MODEL;
-
-  // Calculate scene planner cost if enabled and not using a free model
-  let scenePlannerCreditsCost = 0;
-  let scenePlannerCostUsd = 0;
-  if (enableScenePlanner) {
-    const scenePlannerPricing = await getChatModelPricing(
-      scenePlannerModel,
-      openRouterApiKey
-    );
-    if (
-      scenePlannerPricing &&
-      !isModelFree({ id: scenePlannerModel, pricing: scenePlannerPricing })
-    ) {
-      scenePlannerCreditsCost =
-        computeChatCreditsCost(scenePlannerPricing, SCENE_PLANNER_ESTIMATED_TOKENS) ?? 0;
-      scenePlannerCostUsd = scenePlannerCreditsCost * CREDIT_USD;
-    }
-  }
-
-  // Estimated cost (what we expect to charge based on API pricing)
-  const estimatedCreditsCost = imageCreditsCost + scenePlannerCreditsCost;
-  const estimatedImageCostUsd = imageCreditsCost * CREDIT_USD;
-  const estimatedTotalCostUsd = estimatedImageCostUsd + scenePlannerCostUsd;
-
-  // Reservation cost (conservative estimate to ensure we have enough)
-  const reservationCreditsCost = reservationImageCredits + scenePlannerCreditsCost;
-  const reservationCostUsd = reservationCreditsCost * CREDIT_USD;
-
   // Use reservation amount for atomic credit reservation (higher than expected to cover actual cost)
   const cost = reservationCreditsCost;
   const costUsd = reservationCostUsd;
@@ -439,7 +652,23 @@ export async function GET(request: Request) {
   const isAdmin = session?.tier === "admin";
 
   // Skip credit checks for admin users but log for audit trail
-  if (!isAdmin) {
+  if (jobTarget?.batch) {
+    // Batch verses were reserved (or audit-logged) when the batch was created;
+    // claiming the verse keeps a double-submitted request from running it twice
+    const claimed = await convex.action(api.imageBatches.claimBatchVerse, {
+      sid,
+      batchId: jobTarget.batch.batchId,
+      verse: jobTarget.batch.verse,
+      generationId: chargeGenerationId,
+      serverSecret,
+    });
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "No verse ready", message: "The batch is finished or a verse is still generating." },
+        { status: 409 }
+      );
+    }
+  } else if (!isAdmin) {
     // Atomically reserve credits before generation to prevent race conditions
     const reserveResult = await convex.action(api.sessions.reserveCredits, {
       sid,
@@ -500,533 +729,530 @@ export async function GET(request: Request) {
     }
   }
 
-  // Track generation start time for stats
-  const generationStartTime = Date.now();
-
-  // Parse prev/next verse context for storyboard continuity
-  let prevVerse: { number: number; text: string; reference?: string } | null = null;
-  let nextVerse: { number: number; text: string; reference?: string } | null = null;
+  // Set once the job is queued; progress reports are no-ops without it
+  let jobId: Id<"imageJobs"> | null = null;
+
+  const reportJobStatus = async (
+    status: "planning" | "rendering" | "saving" | "done" | "failed",
+    details: { imageId?: Id<"verseImages">; error?: string } = {}
+  ) => {
+    if (!jobId) return;
+    await convex
+      .action(api.imageJobs.updateImageJob, { jobId, status, ...details, serverSecret })
+      .catch((error) => {
+        console.error(`[Image API] Failed to report job status=${status}:`, error);
+      });
+  };
 
-  try {
-    if (prevVerseParam) prevVerse = JSON.parse(prevVerseParam);
-    if (nextVerseParam) nextVerse = JSON.parse(nextVerseParam);
-  } catch (e) {
-    console.warn("[generate-image] Failed to parse verse context:", {
-      prevVerseParam: prevVerseParam?.substring(0, 100),
-      nextVerseParam: nextVerseParam?.substring(0, 100),
-      error: e instanceof Error ? e.message : "Unknown error",
-    });
-    // Continue without context - graceful degradation
-  }
+  // Record a batch verse's outcome so the batch moves on, and settles when done
+  const reportBatchVerse = async (
+    status: "done" | "failed",
+    details: { imageId?: Id<"verseImages">; credits?: number; costUsd?: number } = {}
+  ) => {
+    if (!jobTarget?.batch) return;
+    await convex
+      .action(api.imageBatches.completeBatchVerse, {
+        batchId: jobTarget.batch.batchId,
+        verse: jobTarget.batch.verse,
+        status,
+        ...details,
+        serverSecret,
+      })
+      .catch((error) => {
+        console.error(`[Image API] Failed to report batch verse status=${status}:`, error);
+      });
+  };
 
-  // Build prompt with storyboard context for visual continuity
-  const aspectRatioLabel = aspectRatio === "21:9" ? "ULTRA-WIDE CINEMATIC" :
-    aspectRatio === "3:2" ? "CLASSIC WIDE" : "WIDESCREEN";
-  const aspectRatioInstruction = `Generate the image in ${aspectRatioLabel} LANDSCAPE format with a ${aspectRatio} aspect ratio (wide, not square).`;
-
-  /**
-   * Get ordinal suffix for a number (1st, 2nd, 3rd, 4th, etc.)
-   */
-  function getOrdinalSuffix(n: number): string {
-    const j = n % 10;
-    const k = n % 100;
-    if (j === 1 && k !== 11) return "st";
-    if (j === 2 && k !== 12) return "nd";
-    if (j === 3 && k !== 13) return "rd";
-    return "th";
-  }
+  const runGeneration = async (): Promise<NextResponse> => {
+    // Track generation start time for stats
+    const generationStartTime = Date.now();
 
-  // Add generation diversity for non-first images
-  let generationNote = "";
-  if (generationNumber && generationNumber > 1) {
-    generationNote = `\n\nNOTE: This is the ${generationNumber}${getOrdinalSuffix(generationNumber)} generation of this image. Create a fresh, diverse interpretation while maintaining the core biblical scene.`;
-  }
+    // Parse prev/next verse context for storyboard continuity
+    let prevVerse: { number: number; text: string; reference?: string } | null = null;
+    let nextVerse: { number: number; text: string; reference?: string } | null = null;
 
-  // Build narrative context section
-  let narrativeContext = "";
-  if (prevVerse || nextVerse) {
-    narrativeContext = "\n\nNARRATIVE CONTEXT (for visual continuity - this is a storyboard):";
-    if (prevVerse) {
-      narrativeContext += `\n- Previous scene (v${prevVerse.number}): "${prevVerse.text}"`;
-    }
-    narrativeContext += `\n- CURRENT SCENE (the verse to illustrate): "${verseText}"`;
-    if (nextVerse) {
-      narrativeContext += `\n- Next scene (v${nextVerse.number}): "${nextVerse.text}"`;
+    try {
+      if (prevVerseParam) prevVerse = JSON.parse(prevVerseParam);
+      if (nextVerseParam) nextVerse = JSON.parse(nextVerseParam);
+    } catch (e) {
+      console.warn("[generate-image] Failed to parse verse context:", {
+        prevVerseParam: prevVerseParam?.substring(0, 100),
+        nextVerseParam: nextVerseParam?.substring(0, 100),
+        error: e instanceof Error ? e.message : "Unknown error",
+      });
+      // Continue without context - graceful degradation
     }
-    narrativeContext += "\n\nThis is part of a visual storyboard through Scripture. Maintain visual consistency with the flow of the narrative while focusing on THIS verse's moment.";
-  }
-
-  // Scene planner settings already defined above for cost calculation
 
-  const buildScenePlan = async (): Promise<ScenePlan | null> => {
-    if (!enableScenePlanner) return null;
-    const scenePlannerPrompt = `You are a scene planner for biblical illustrations. Return ONLY valid JSON.
+    // Prompt wording comes from a versioned template; a share of generations
+    // may be assigned to a candidate version
+    const promptTemplate = assignPromptTemplate(getPromptExperiment(), Math.random());
+    const templateInputs = {
+      reference,
+      verseText,
+      aspectRatio,
+      styleProfile,
+      chapterTheme,
+      generationNumber,
+      prevVerse,
+      nextVerse,
+    };
 
-Rules:
-- Single scene only (no collage, no split panels).
-- Biblical-era setting, no modern artifacts.
-- Do not include any text or written elements.
-- Keep it visually depictable, concise, and grounded in the verse.
-- Use short phrases (no full sentences).
+    // Scene planner settings come from the quote (needed for cost calculation)
 
-Return JSON with keys:
-primarySubject, action, setting, secondaryElements, mood, timeOfDay, composition
+    const buildScenePlan = async (): Promise<ScenePlan | null> => {
+      if (!enableScenePlanner) return null;
+      const scenePlannerPrompt = promptTemplate.buildScenePlannerPrompt(templateInputs);
 
-Inputs:
-Reference: ${reference}
-Verse: "${verseText}"
-${prevVerse ? `Previous: "${prevVerse.text}"` : ""}
-${nextVerse ? `Next: "${nextVerse.text}"` : ""}
-${chapterTheme ? `Theme setting: ${chapterTheme.setting}` : "Theme setting: none"}
-${chapterTheme ? `Theme elements: ${chapterTheme.elements}` : "Theme elements: none"}
-Style profile: ${styleProfile.label} (${styleProfile.rendering})`;
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), SCENE_PLANNER_TIMEOUT_MS);
+
+        let response: Response;
+        try {
+          response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+            method: "POST",
+            headers: {
+              "Authorization": `Bearer ${openRouterApiKey}`,
+              "Content-Type": "application/json",
+              "HTTP-Referer": process.env.OPENROUTER_REFERRER || "http://localhost:3000",
+              "X-Title": process.env.OPENROUTER_TITLE || "visibible",
+            },
+            body: JSON.stringify({
+              model: scenePlannerModel,
+              messages: [
+                {
+                  role: "user",
+                  content: scenePlannerPrompt,
+                },
+              ],
+              temperature: 0.2,
+              max_tokens: 220,
+            }),
+            signal: controller.signal,
+          });
+        } finally {
+          clearTimeout(timeoutId);
+        }
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), SCENE_PLANNER_TIMEOUT_MS);
+        if (!response.ok) {
+          console.warn(`[Image API] Scene planner failed: status=${response.status}`);
+          return null;
+        }
 
-      let response: Response;
-      try {
-        response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${openRouterApiKey}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": process.env.OPENROUTER_REFERRER || "http://localhost:3000",
-            "X-Title": process.env.OPENROUTER_TITLE || "visibible",
-          },
-          body: JSON.stringify({
-            model: scenePlannerModel,
-            messages: [
-              {
-                role: "user",
-                content: scenePlannerPrompt,
-              },
-            ],
-            temperature: 0.2,
-            max_tokens: 220,
-          }),
-          signal: controller.signal,
-        });
-      } finally {
-        clearTimeout(timeoutId);
-      }
+        const data = await response.json();
+        const message = data?.choices?.[0]?.message;
+        let content = "";
+        if (typeof message?.content === "string") {
+          content = message.content;
+        } else if (Array.isArray(message?.content)) {
+          content = message.content
+            .map((part: { text?: string }) => (typeof part.text === "string" ? part.text : ""))
+            .join("");
+        }
 
-      if (!response.ok) {
-        console.warn(`[Image API] Scene planner failed: status=${response.status}`);
+        if (!content) return null;
+        const jsonString = extractJsonObject(content) || content.trim();
+        const parsed = JSON.parse(jsonString);
+        return normalizeScenePlan(parsed);
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") {
+          console.warn(
+            `[Image API] Scene planner timeout after ${SCENE_PLANNER_TIMEOUT_MS}ms`
+          );
+        } else {
+          console.warn("[Image API] Scene planner error:", error);
+        }
         return null;
       }
+    };
 
-      const data = await response.json();
-      const message = data?.choices?.[0]?.message;
-      let content = "";
-      if (typeof message?.content === "string") {
-        content = message.content;
-      } else if (Array.isArray(message?.content)) {
-        content = message.content
-          .map((part: { text?: string }) => (typeof part.text === "string" ? part.text : ""))
-          .join("");
-      }
+    await reportJobStatus("planning");
+    const scenePlan = await buildScenePlan();
 
-      if (!content) return null;
-      const jsonString = extractJsonObject(content) || content.trim();
-      const parsed = JSON.parse(jsonString);
-      return normalizeScenePlan(parsed);
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        console.warn(
-          `[Image API] Scene planner timeout after ${SCENE_PLANNER_TIMEOUT_MS}ms`
-        );
-      } else {
-        console.warn("[Image API] Scene planner error:", error);
-      }
-      return null;
-    }
-  };
+    // Track whether scene planner was actually used (for partial refund on failure)
+    const scenePlannerUsed = scenePlan !== null;
 
-  const scenePlan = await buildScenePlan();
-
-  // Track whether scene planner was actually used (for partial refund on failure)
-  const scenePlannerUsed = scenePlan !== null;
-
-  // If scene planner failed/returned null but we reserved credits for it, issue partial refund
-  if (
-    scenePlannerCreditsCost > 0 &&
-    !scenePlannerUsed &&
-    reservationMade &&
-    !isAdmin
-  ) {
-    // Partial refund for unused scene planner credits with retry
-    const maxRetries = 3;
-    let refundSuccess = false;
-    for (let attempt = 1; attempt <= maxRetries && !refundSuccess; attempt++) {
-      try {
-        await convex.action(api.sessions.addCredits, {
-          sid,
-          amount: scenePlannerCreditsCost,
-          reason: "scene_planner_refund",
-          serverSecret,
-        });
-        refundSuccess = true;
-      } catch (refundError) {
-        if (attempt < maxRetries) {
-          // Exponential backoff: 100ms, 200ms, 400ms
-          await new Promise((resolve) =>
-            setTimeout(resolve, 100 * Math.pow(2, attempt - 1))
-          );
-        } else {
-          console.error(
-            `[Image API] Failed to refund scene planner credits after ${maxRetries} attempts:`,
-            refundError
-          );
-          // Continue with request - user will be over-charged but generation proceeds
+    // If scene planner failed/returned null but we reserved credits for it, issue partial refund
+    if (
+      scenePlannerCreditsCost > 0 &&
+      !scenePlannerUsed &&
+      reservationMade &&
+      !isAdmin
+    ) {
+      // Partial refund for unused scene planner credits with retry
+      const maxRetries = 3;
+      let refundSuccess = false;
+      for (let attempt = 1; attempt <= maxRetries && !refundSuccess; attempt++) {
+        try {
+          await convex.action(api.sessions.addCredits, {
+            sid,
+            amount: scenePlannerCreditsCost,
+            reason: "scene_planner_refund",
+            serverSecret,
+          });
+          refundSuccess = true;
+        } catch (refundError) {
+          if (attempt < maxRetries) {
+            // Exponential backoff: 100ms, 200ms, 400ms
+            await new Promise((resolve) =>
+              setTimeout(resolve, 100 * Math.pow(2, attempt - 1))
+            );
+          } else {
+            console.error(
+              `[Image API] Failed to refund scene planner credits after ${maxRetries} attempts:`,
+              refundError
+            );
+            // Continue with request - user will be over-charged but generation proceeds
+          }
         }
       }
     }
-  }
 
-  const promptInputs = {
-    reference,
-    aspectRatio,
-    styleProfileId: styleProfile.id,
-    ...(scenePlan ? { scenePlan } : {}),
-    ...(generationNumber ? { generationNumber } : {}),
-    ...(prevVerse ? { prevVerse } : {}),
-    ...(nextVerse ? { nextVerse } : {}),
-  };
-
-  const priorityRules = `PRIORITY RULES (must follow):
-1) ABSOLUTE: ZERO text of any kind. No letters, words, numbers, punctuation, symbols, runes, glyphs, sigils, logos, watermarks, captions, subtitles, labels, signage, banners, or inscriptions. Do not render the verse text or any readable/unreadable text-like marks. If a surface would normally contain writing (scrolls, tablets, signs), leave it blank or use abstract texture.
-2) FULL-BLEED IMMERSIVE SCENE: edge-to-edge cinematic composition. No borders, frames, mattes, canvas edges, stretcher bars, wall-hung paintings, posters, prints, photographs, gallery/museum settings, mockups, or letterboxing. Do not depict the scene as artwork on a wall or in a frame; the image itself is the scene. No white wall or studio backdrop. Do not leave blank margins. Avoid solid white or empty backgrounds; fill negative space with atmospheric darkness, clouds, or textured sky/land. The viewer is IN the scene.
-3) SINGLE SCENE ONLY: no split panels, diptychs, triptychs, insets, collages, or multiple scenes in one frame.`;
+    // Canonical looks for recurring characters and places the scene plan mentions
+    let registryEntries: RegistryPromptEntry[] = [];
+    if (scenePlan && referenceChapter) {
+      const chapterEntries = await convex
+        .query(api.visualRegistry.getRegistryEntriesForChapter, referenceChapter)
+        .catch((error) => {
+          console.warn("[Image API] Visual registry lookup failed:", error);
+          return null;
+        });
+      registryEntries = matchRegistryEntries(chapterEntries ?? [], scenePlan).map(
+        toRegistryPromptEntry
+      );
+    }
 
-  const globalNegatives = `GLOBAL NEGATIVES:
-- No modern artifacts or technology (vehicles, screens, guns, electrical lighting, contemporary architecture, modern clothing).
-- No anachronistic materials (plastic, neon, LEDs).
-- No distorted anatomy (extra limbs/fingers, malformed hands/feet, warped faces).`;
+    const promptInputs = {
+      reference,
+      aspectRatio,
+      styleProfileId: styleProfile.id,
+      ...(scenePlan ? { scenePlan } : {}),
+      ...(generationNumber ? { generationNumber } : {}),
+      ...(prevVerse ? { prevVerse } : {}),
+      ...(nextVerse ? { nextVerse } : {}),
+      ...(registryEntries.length > 0 ? { registryEntries } : {}),
+      ...(jobTarget?.refine ? { refineInstruction: jobTarget.refine.instruction } : {}),
+    };
 
-  const scenePlanBlock = scenePlan ? formatScenePlan(scenePlan) : "";
+    const prompt = promptTemplate.buildImagePrompt({
+      ...templateInputs,
+      scenePlan,
+      registryEntries,
+      refineInstruction: jobTarget?.refine?.instruction,
+    });
 
-  let prompt: string;
-  if (chapterTheme) {
-    prompt = `${priorityRules}
+    await reportJobStatus("rendering");
 
-SCENE:
-Render a single, cohesive biblical-era scene for ${reference}: "${verseText}"${scenePlanBlock}${narrativeContext}${generationNote}
+    try {
+      // Use OpenRouter chat completions with Gemini for image generation
+      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${openRouterApiKey}`,
+          "Content-Type": "application/json",
+          "HTTP-Referer": process.env.OPENROUTER_REFERRER || "http://localhost:3000",
+          "X-Title": process.env.OPENROUTER_TITLE || "visibible",
+        },
+        body: JSON.stringify({
+          model: modelId,
+          messages: [
+            {
+              role: "user",
+              content: jobTarget?.refine
+                ? [
+                    { type: "text", text: prompt },
+                    { type: "image_url", image_url: { url: jobTarget.refine.imageUrl } },
+                  ]
+                : prompt,
+            },
+          ],
+          // Request image output
+          modalities: ["image", "text"],
+          // Specify aspect ratio and conditionally include resolution
+          // image_size is only supported by certain models (currently Gemini)
+          image_config: {
+            aspect_ratio: aspectRatio,
+            ...(modelSupportsResolution && { image_size: resolution }),
+          },
+        }),
+      });
 
-CHAPTER THEME:
-Setting: ${chapterTheme.setting}
-Visual elements: ${chapterTheme.elements}
-Color palette: ${chapterTheme.palette}
-Style: ${chapterTheme.style}
+      if (!response.ok) {
+        // SECURITY: Log minimal error info to avoid exposing API internals
+        console.error(`[Image API] OpenRouter error: status=${response.status}`);
+        throw new Error(`OpenRouter API error: ${response.status}`);
+      }
 
-STYLE PROFILE: ${styleProfile.label}
-Rendering: ${styleProfile.rendering}
-${styleProfile.palette ? `Palette: ${styleProfile.palette}` : ""}
-${styleProfile.lighting ? `Lighting: ${styleProfile.lighting}` : ""}
-${styleProfile.materials ? `Materials/Texture: ${styleProfile.materials}` : ""}
-${styleProfile.composition ? `Composition: ${styleProfile.composition}` : ""}
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+      const providerRequestId = typeof data?.id === "string" ? data.id : undefined;
+
+      // Extract actual usage/cost from OpenRouter response
+      // OpenRouter may return cost in various locations depending on API version and request type
+      // Check multiple known locations in priority order
+      const openRouterUsageUsd: number | null = (() => {
+        // Priority 1: Direct cost field in usage object (most common for OpenRouter)
+        if (typeof data.usage?.cost === "number" && data.usage.cost > 0) {
+          return data.usage.cost;
+        }
+        // Priority 2: total_cost field (alternative naming)
+        if (typeof data.usage?.total_cost === "number" && data.usage.total_cost > 0) {
+          return data.usage.total_cost;
+        }
+        // Priority 3: Root-level cost field
+        if (typeof data.cost === "number" && data.cost > 0) {
+          return data.cost;
+        }
+        // Priority 4: Root-level total_cost field
+        if (typeof data.total_cost === "number" && data.total_cost > 0) {
+          return data.total_cost;
+        }
+        return null;
+      })();
+
+      // Log when actual cost isn't available - include usage structure for debugging
+      if (openRouterUsageUsd === null) {
+        // Log the actual usage object structure to help identify correct field location
+        const usageDebug = data.usage !== undefined
+          ? `usage=${JSON.stringify(data.usage)}`
+          : "usage=undefined";
+        console.warn(`[Image API] No cost in response for model=${modelId}, gen=${chargeGenerationId}, ${usageDebug}`);
+      }
 
-STYLE NEGATIVES:
-${styleProfile.negative}
+      // Calculate actual credits to charge based on OpenRouter usage
+      // Fall back to API-based estimate (not conservative 35x) if actual usage not available
+      const effectiveScenePlannerCredits = scenePlannerUsed ? scenePlannerCreditsCost : 0;
+      const effectiveScenePlannerCostUsd = scenePlannerUsed ? scenePlannerCostUsd : 0;
 
-${globalNegatives}
+      // Compute actual image credits from OpenRouter usage
+      // Use API-based estimate as fallback (imageCreditsCost) rather than conservative 35x (reservationImageCredits)
+      const { credits: actualImageCredits, usedActual } = computeCreditsFromActualUsage(
+        openRouterUsageUsd,
+        imageCreditsCost // Fall back to API-based estimate, not conservative 35x
+      );
+      const usedFallbackEstimate = !usedActual;
 
-${aspectRatioInstruction}`;
-  } else {
-    prompt = `${priorityRules}
+      // Log when fallback is used for retroactive analysis
+      if (usedFallbackEstimate) {
+        console.warn(`[Image API] Using fallback estimate for model=${modelId}, gen=${chargeGenerationId}, fallbackCredits=${imageCreditsCost}, reservationCredits=${reservationImageCredits}`);
+      }
 
-SCENE:
-Render a single, cohesive biblical-era scene for ${reference}: "${verseText}"${scenePlanBlock}${narrativeContext}${generationNote}
+      // Total actual credits and cost
+      const actualTotalCredits = actualImageCredits + effectiveScenePlannerCredits;
+      const actualImageCostUsd = usedActual && openRouterUsageUsd !== null
+        ? openRouterUsageUsd * PREMIUM_MULTIPLIER
+        : actualImageCredits * CREDIT_USD;
+      const actualTotalCostUsd = actualImageCostUsd + effectiveScenePlannerCostUsd;
+
+      // Record generation duration for ETA estimation
+      const generationDurationMs = Date.now() - generationStartTime;
+
+      // Track if there was a charge shortfall (rare: actual exceeded 35x conservative estimate)
+      let chargeShortfall: { wantedCredits: number; chargedCredits: number; shortfall: number } | null = null;
+
+      // Helper to record stats and return success
+      const recordStatsAndReturn = async (imageUrl: string) => {
+        if (shouldCharge) {
+          // Convert reservation to debit after successful generation
+          // Pass actual amount to charge based on OpenRouter usage
+          const deductResult = await convex.action(api.sessions.deductCredits, {
+            sid,
+            amount: cost, // Original reserved amount
+            modelId,
+            generationId: chargeGenerationId,
+            costUsd, // Original estimated cost
+            actualAmount: actualTotalCredits, // Actual credits to charge
+            actualCostUsd: actualTotalCostUsd, // Actual USD cost
+            serverSecret,
+          });
+
+          if (!deductResult.success) {
+            // This should rarely happen since we reserved credits, but handle gracefully
+            // Release the reservation if conversion fails
+            if (reservationMade) {
+              await convex
+                .action(api.sessions.releaseReservation, {
+                  sid,
+                  generationId: chargeGenerationId,
+                  serverSecret,
+                })
+                .catch(() => {}); // Ignore release errors
+            }
+            return NextResponse.json(
+              {
+                error: "Insufficient credits",
+                required: actualTotalCredits,
+                available:
+                  "available" in deductResult ? deductResult.available : 0,
+              },
+              { status: 402 }
+            );
+          }
 
-STYLE PROFILE: ${styleProfile.label}
-Rendering: ${styleProfile.rendering}
-${styleProfile.palette ? `Palette: ${styleProfile.palette}` : ""}
-${styleProfile.lighting ? `Lighting: ${styleProfile.lighting}` : ""}
-${styleProfile.materials ? `Materials/Texture: ${styleProfile.materials}` : ""}
-${styleProfile.composition ? `Composition: ${styleProfile.composition}` : ""}
+          if ("newBalance" in deductResult) {
+            updatedCredits = deductResult.newBalance;
+          }
 
-STYLE NEGATIVES:
-${styleProfile.negative}
+          // Handle shortfall case: actual cost exceeded reservation and user couldn't cover the difference
+          // In this case, we only charged the reserved amount, not the full actual amount
+          if ("shortfall" in deductResult && deductResult.shortfall) {
+            console.warn(
+              `[Image API] Shortfall: wanted=${actualTotalCredits} credits, charged=${cost} credits, shortfall=${deductResult.shortfall}, gen=${chargeGenerationId}`
+            );
+            // Mark that we had a shortfall - response will use reserved amounts instead of actual
+            chargeShortfall = {
+              wantedCredits: actualTotalCredits,
+              chargedCredits: cost,
+              shortfall: deductResult.shortfall as number,
+            };
+          }
 
-${globalNegatives}
+          // Log cost comparison for monitoring
+          if (usedActual) {
+            console.log(`[Image API] Cost comparison: estimated=${estimatedCreditsCost} credits, actual=${actualTotalCredits} credits, openRouterUsd=${openRouterUsageUsd}`);
+          }
+        }
 
-${aspectRatioInstruction}`;
-  }
+        // Record generation stats for ETA estimation (don't await - fire and forget)
+        convex
+          .mutation(api.modelStats.recordGeneration, {
+            modelId,
+            durationMs: generationDurationMs,
+          })
+          .catch(() => {});
+
+        // Calculate final charged amounts (may differ from actual in rare shortfall case)
+        const finalChargedCredits = chargeShortfall?.chargedCredits ?? actualTotalCredits;
+        const finalChargedImageCredits = chargeShortfall
+          ? Math.max(0, chargeShortfall.chargedCredits - effectiveScenePlannerCredits)
+          : actualImageCredits;
+        const finalChargedCostUsd = chargeShortfall ? costUsd : actualTotalCostUsd;
+        const finalChargedImageCostUsd = chargeShortfall
+          ? Math.max(0, costUsd - effectiveScenePlannerCostUsd)
+          : actualImageCostUsd;
 
-  try {
-    // Use OpenRouter chat completions with Gemini for image generation
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openRouterApiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": process.env.OPENROUTER_REFERRER || "http://localhost:3000",
-        "X-Title": process.env.OPENROUTER_TITLE || "visibible",
-      },
-      body: JSON.stringify({
-        model: modelId,
-        messages: [
+        return NextResponse.json(
           {
-            role: "user",
-            content: prompt,
+            imageUrl,
+            model: modelId,
+            provider: getProviderName(modelId),
+            providerRequestId,
+            generationId: chargeGenerationId,
+            prompt,
+            promptVersion: promptTemplate.version,
+            promptInputs,
+            reference,
+            verseText,
+            chapterTheme: chapterTheme ?? undefined,
+            generationNumber: generationNumber ?? undefined,
+            // Cost breakdown - actual charged amounts (adjusted for shortfall if applicable)
+            creditsCost: finalChargedCredits, // Total credits charged
+            imageCreditsCost: finalChargedImageCredits,
+            scenePlannerCredits: effectiveScenePlannerCredits,
+            costUsd: finalChargedCostUsd, // Total USD cost
+            imageCostUsd: finalChargedImageCostUsd,
+            scenePlannerCostUsd: effectiveScenePlannerCostUsd,
+            scenePlannerUsed,
+            // Estimation vs actual tracking
+            estimatedCreditsCost,
+            estimatedCostUsd: estimatedTotalCostUsd,
+            openRouterUsageUsd,
+            usedActualCost: usedActual,
+            usedFallbackEstimate, // true when OpenRouter didn't return usage data
+            // Shortfall tracking (rare: actual exceeded 35x conservative estimate)
+            ...(chargeShortfall && { chargeShortfall }),
+            durationMs: generationDurationMs,
+            aspectRatio,
+            resolution,
+            // Only show actual multiplier if model supports resolution
+            resolutionMultiplier: modelSupportsResolution ? RESOLUTIONS[resolution].multiplier : 1.0,
+            resolutionSupported: modelSupportsResolution,
+            ...(updatedCredits !== undefined && { credits: updatedCredits }),
           },
-        ],
-        // Request image output
-        modalities: ["image", "text"],
-        // Specify aspect ratio and conditionally include resolution
-        // image_size is only supported by certain models (currently Gemini)
-        image_config: {
-          aspect_ratio: aspectRatio,
-          ...(modelSupportsResolution && { image_size: resolution }),
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      // SECURITY: Log minimal error info to avoid exposing API internals
-      console.error(`[Image API] OpenRouter error: status=${response.status}`);
-      throw new Error(`OpenRouter API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const message = data.choices?.[0]?.message;
-    const providerRequestId = typeof data?.id === "string" ? data.id : undefined;
-
-    // Extract actual usage/cost from OpenRouter response
-    // OpenRouter may return cost in various locations depending on API version and request type
-    // Check multiple known locations in priority order
-    const openRouterUsageUsd: number | null = (() => {
-      // Priority 1: Direct cost field in usage object (most common for OpenRouter)
-      if (typeof data.usage?.cost === "number" && data.usage.cost > 0) {
-        return data.usage.cost;
-      }
-      // Priority 2: total_cost field (alternative naming)
-      if (typeof data.usage?.total_cost === "number" && data.usage.total_cost > 0) {
-        return data.usage.total_cost;
-      }
-      // Priority 3: Root-level cost field
-      if (typeof data.cost === "number" && data.cost > 0) {
-        return data.cost;
-      }
-      // Priority 4: Root-level total_cost field
-      if (typeof data.total_cost === "number" && data.total_cost > 0) {
-        return data.total_cost;
-      }
-      return null;
-    })();
-
-    // Log when actual cost isn't available - include usage structure for debugging
-    if (openRouterUsageUsd === null) {
-      // Log the actual usage object structure to help identify correct field location
-      const usageDebug = data.usage !== undefined
-        ? `usage=${JSON.stringify(data.usage)}`
-        : "usage=undefined";
-      console.warn(`[Image API] No cost in response for model=${modelId}, gen=${chargeGenerationId}, ${usageDebug}`);
-    }
-
-    // Calculate actual credits to charge based on OpenRouter usage
-    // Fall back to API-based estimate (not conservative 35x) if actual usage not available
-    const effectiveScenePlannerCredits = scenePlannerUsed ? scenePlannerCreditsCost : 0;
-    const effectiveScenePlannerCostUsd = scenePlannerUsed ? scenePlannerCostUsd : 0;
-
-    // Compute actual image credits from OpenRouter usage
-    // Use API-based estimate as fallback (imageCreditsCost) rather than conservative 35x (reservationImageCredits)
-    const { credits: actualImageCredits, usedActual } = computeCreditsFromActualUsage(
-      openRouterUsageUsd,
-      imageCreditsCost // Fall back to API-based estimate, not conservative 35x
-    );
-    const usedFallbackEstimate = !usedActual;
-
-    // Log when fallback is used for retroactive analysis
-    if (usedFallbackEstimate) {
-      console.warn(`[Image API] Using fallback estimate for model=${modelId}, gen=${chargeGenerationId}, fallbackCredits=${imageCreditsCost}, reservationCredits=${reservationImageCredits}`);
-    }
-
-    // Total actual credits and cost
-    const actualTotalCredits = actualImageCredits + effectiveScenePlannerCredits;
-    const actualImageCostUsd = usedActual && openRouterUsageUsd !== null
-      ? openRouterUsageUsd * PREMIUM_MULTIPLIER
-      : actualImageCredits * CREDIT_USD;
-    const actualTotalCostUsd = actualImageCostUsd + effectiveScenePlannerCostUsd;
-
-    // Record generation duration for ETA estimation
-    const generationDurationMs = Date.now() - generationStartTime;
-
-    // Track if there was a charge shortfall (rare: actual exceeded 35x conservative estimate)
-    let chargeShortfall: { wantedCredits: number; chargedCredits: number; shortfall: number } | null = null;
-
-    // Helper to record stats and return success
-    const recordStatsAndReturn = async (imageUrl: string) => {
-      if (shouldCharge) {
-        // Convert reservation to debit after successful generation
-        // Pass actual amount to charge based on OpenRouter usage
-        const deductResult = await convex.action(api.sessions.deductCredits, {
-          sid,
-          amount: cost, // Original reserved amount
-          modelId,
-          generationId: chargeGenerationId,
-          costUsd, // Original estimated cost
-          actualAmount: actualTotalCredits, // Actual credits to charge
-          actualCostUsd: actualTotalCostUsd, // Actual USD cost
-          serverSecret,
-        });
-
-        if (!deductResult.success) {
-          // This should rarely happen since we reserved credits, but handle gracefully
-          // Release the reservation if conversion fails
-          if (reservationMade) {
-            await convex
-              .action(api.sessions.releaseReservation, {
-                sid,
-                generationId: chargeGenerationId,
-                serverSecret,
-              })
-              .catch(() => {}); // Ignore release errors
+          {
+            headers: { "Cache-Control": "private, max-age=3600" },
           }
-          return NextResponse.json(
-            {
-              error: "Insufficient credits",
-              required: actualTotalCredits,
-              available:
-                "available" in deductResult ? deductResult.available : 0,
-            },
-            { status: 402 }
-          );
-        }
-
-        if ("newBalance" in deductResult) {
-          updatedCredits = deductResult.newBalance;
-        }
+        );
+      };
 
-        // Handle shortfall case: actual cost exceeded reservation and user couldn't cover the difference
-        // In this case, we only charged the reserved amount, not the full actual amount
-        if ("shortfall" in deductResult && deductResult.shortfall) {
-          console.warn(
-            `[Image API] Shortfall: wanted=${actualTotalCredits} credits, charged=${cost} credits, shortfall=${deductResult.shortfall}, gen=${chargeGenerationId}`
-          );
-          // Mark that we had a shortfall - response will use reserved amounts instead of actual
-          chargeShortfall = {
-            wantedCredits: actualTotalCredits,
-            chargedCredits: cost,
-            shortfall: deductResult.shortfall as number,
-          };
+      // OpenRouter returns images in a separate "images" field
+      if (message?.images && Array.isArray(message.images)) {
+        for (const image of message.images) {
+          if (image.image_url?.url) {
+            return await recordStatsAndReturn(image.image_url.url);
+          }
         }
+      }
 
-        // Log cost comparison for monitoring
-        if (usedActual) {
-          console.log(`[Image API] Cost comparison: estimated=${estimatedCreditsCost} credits, actual=${actualTotalCredits} credits, openRouterUsd=${openRouterUsageUsd}`);
+      // Fallback: check content array (some models use this format)
+      const content = message?.content;
+      if (Array.isArray(content)) {
+        for (const part of content) {
+          if (part.type === "image_url" && part.image_url?.url) {
+            return await recordStatsAndReturn(part.image_url.url);
+          }
+          if (part.inline_data?.data) {
+            const mimeType = part.inline_data.mime_type || "image/png";
+            return await recordStatsAndReturn(
+              `data:${mimeType};base64,${part.inline_data.data}`
+            );
+          }
         }
       }
 
-      // Record generation stats for ETA estimation (don't await - fire and forget)
-      convex
-        .mutation(api.modelStats.recordGeneration, {
-          modelId,
-          durationMs: generationDurationMs,
-        })
-        .catch(() => {});
-
-      // Calculate final charged amounts (may differ from actual in rare shortfall case)
-      const finalChargedCredits = chargeShortfall?.chargedCredits ?? actualTotalCredits;
-      const finalChargedImageCredits = chargeShortfall
-        ? Math.max(0, chargeShortfall.chargedCredits - effectiveScenePlannerCredits)
-        : actualImageCredits;
-      const finalChargedCostUsd = chargeShortfall ? costUsd : actualTotalCostUsd;
-      const finalChargedImageCostUsd = chargeShortfall
-        ? Math.max(0, costUsd - effectiveScenePlannerCostUsd)
-        : actualImageCostUsd;
-
+      // If no image found, return error and release reservation
+      // SECURITY: Log minimal info to avoid exposing API response structure
+      console.error(`[Image API] No image in response for model=${modelId}`);
+      if (reservationMade) {
+        await convex
+          .action(api.sessions.releaseReservation, {
+            sid,
+            generationId: chargeGenerationId,
+            serverSecret,
+          })
+          .catch((releaseError) => {
+            console.error("Failed to release reservation:", releaseError);
+          });
+      }
       return NextResponse.json(
-        {
-          imageUrl,
-          model: modelId,
-          provider: getProviderName(modelId),
-          providerRequestId,
-          generationId: chargeGenerationId,
-          prompt,
-          promptVersion: PROMPT_VERSION,
-          promptInputs,
-          reference,
-          verseText,
-          chapterTheme: chapterTheme ?? undefined,
-          generationNumber: generationNumber ?? undefined,
-          // Cost breakdown - actual charged amounts (adjusted for shortfall if applicable)
-          creditsCost: finalChargedCredits, // Total credits charged
-          imageCreditsCost: finalChargedImageCredits,
-          scenePlannerCredits: effectiveScenePlannerCredits,
-          costUsd: finalChargedCostUsd, // Total USD cost
-          imageCostUsd: finalChargedImageCostUsd,
-          scenePlannerCostUsd: effectiveScenePlannerCostUsd,
-          scenePlannerUsed,
-          // Estimation vs actual tracking
-          estimatedCreditsCost,
-          estimatedCostUsd: estimatedTotalCostUsd,
-          openRouterUsageUsd,
-          usedActualCost: usedActual,
-          usedFallbackEstimate, // true when OpenRouter didn't return usage data
-          // Shortfall tracking (rare: actual exceeded 35x conservative estimate)
-          ...(chargeShortfall && { chargeShortfall }),
-          durationMs: generationDurationMs,
-          aspectRatio,
-          resolution,
-          // Only show actual multiplier if model supports resolution
-          resolutionMultiplier: modelSupportsResolution ? RESOLUTIONS[resolution].multiplier : 1.0,
-          resolutionSupported: modelSupportsResolution,
-          ...(updatedCredits !== undefined && { credits: updatedCredits }),
-        },
-        {
-          headers: { "Cache-Control": "private, max-age=3600" },
-        }
+        { error: "No image generated - model may not support image output" },
+        { status: 500 }
       );
-    };
-
-    // OpenRouter returns images in a separate "images" field
-    if (message?.images && Array.isArray(message.images)) {
-      for (const image of message.images) {
-        if (image.image_url?.url) {
-          return await recordStatsAndReturn(image.image_url.url);
-        }
+    } catch (error) {
+      console.error("Image generation error:", error);
+      // Release reservation on failure so user doesn't lose credits
+      if (reservationMade) {
+        await convex
+          .action(api.sessions.releaseReservation, {
+            sid,
+            generationId: chargeGenerationId,
+            serverSecret,
+          })
+          .catch((releaseError) => {
+            console.error("Failed to release reservation:", releaseError);
+          });
       }
+      return NextResponse.json(
+        { error: "Failed to generate image" },
+        { status: 500 }
+      );
     }
+  };
 
-    // Fallback: check content array (some models use this format)
-    const content = message?.content;
-    if (Array.isArray(content)) {
-      for (const part of content) {
-        if (part.type === "image_url" && part.image_url?.url) {
-          return await recordStatsAndReturn(part.image_url.url);
-        }
-        if (part.inline_data?.data) {
-          const mimeType = part.inline_data.mime_type || "image/png";
-          return await recordStatsAndReturn(
-            `data:${mimeType};base64,${part.inline_data.data}`
-          );
-        }
-      }
-    }
+  if (!jobTarget) {
+    return runGeneration();
+  }
 
-    // If no image found, return error and release reservation
-    // SECURITY: Log minimal info to avoid exposing API response structure
-    console.error(`[Image API] No image in response for model=${modelId}`);
-    if (reservationMade) {
-      await convex
-        .action(api.sessions.releaseReservation, {
-          sid,
-          generationId: chargeGenerationId,
-          serverSecret,
-        })
-        .catch((releaseError) => {
-          console.error("Failed to release reservation:", releaseError);
-        });
-    }
-    return NextResponse.json(
-      { error: "No image generated - model may not support image output" },
-      { status: 500 }
-    );
+  try {
+    jobId = await convex.action(api.imageJobs.createImageJob, {
+      sid,
+      verseId: jobTarget.verseId,
+      generationId: chargeGenerationId,
+      modelId,
+      serverSecret,
+    });
   } catch (error) {
-    console.error("Image generation error:", error);
-    // Release reservation on failure so user doesn't lose credits
+    console.error("[Image API] Failed to create image job:", error);
     if (reservationMade) {
       await convex
         .action(api.sessions.releaseReservation, {
@@ -1038,9 +1264,80 @@ ${aspectRatioInstruction}`;
           console.error("Failed to release reservation:", releaseError);
         });
     }
+    await reportBatchVerse("failed");
     return NextResponse.json(
-      { error: "Failed to generate image" },
-      { status: 500 }
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
     );
   }
+
+  // Finish after the response so closing the tab doesn't lose the image
+  after(async () => {
+    try {
+      // Reuse the inline pipeline; its JSON response is the job result
+      const response = await runGeneration();
+      const data = await response.json();
+      if (!response.ok || !data?.imageUrl) {
+        await reportJobStatus("failed", { error: data?.error || "Failed to generate image" });
+        await reportBatchVerse("failed");
+        return;
+      }
+
+      await reportJobStatus("saving");
+      // Same generationId as the reservation, so a retried save is a no-op
+      const saved = await convex.action(api.verseImages.saveImage, {
+        verseId: jobTarget.verseId,
+        imageUrl: data.imageUrl,
+        model: data.model,
+        prompt: data.prompt,
+        promptVersion: data.promptVersion,
+        promptInputs: data.promptInputs,
+        reference: data.reference,
+        verseText: data.verseText,
+        chapterTheme: data.chapterTheme,
+        generationNumber: data.generationNumber,
+        parentImageId: jobTarget.refine?.parentImageId,
+        translationId: jobTarget.translationId,
+        provider: data.provider,
+        providerRequestId: data.providerRequestId,
+        creditsCost: data.creditsCost,
+        costUsd: data.costUsd,
+        durationMs: data.durationMs,
+        aspectRatio: data.aspectRatio,
+        generationId: chargeGenerationId,
+      });
+      await reportJobStatus("done", { imageId: saved.id });
+      await reportBatchVerse("done", {
+        imageId: saved.id,
+        credits: data.creditsCost,
+        costUsd: data.costUsd,
+      });
+    } catch (error) {
+      console.error("[Image API] Image job failed:", error);
+      // The generation may already be charged; nothing was saved, so give it back
+      if (reservationMade) {
+        await convex
+          .action(api.sessions.refundCredits, {
+            sid,
+            generationId: chargeGenerationId,
+            serverSecret,
+          })
+          .catch((refundError) => {
+            console.error("[Image API] Failed to refund image job:", refundError);
+          });
+      }
+      await reportJobStatus("failed", { error: "Failed to generate image" });
+      await reportBatchVerse("failed");
+    }
+  });
+
+  return NextResponse.json(
+    {
+      jobId,
+      generationId: chargeGenerationId,
+      ...(updatedCredits !== undefined && { credits: updatedCredits }),
+    },
+    { status: 202 }
+  );
+
 }
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { adminRequiredResponse, validateWriteRequest } from "@/lib/admin-route";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { api } from "../../../../convex/_generated/api";
+
+const giftCodesSchema = z.object({
+  credits: z.number().int(),
+  maxRedemptions: z.number().int(),
+  perSessionLimit: z.number().int().optional(),
+  expiresInDays: z.number().int().min(1).max(365),
+  count: z.number().int(),
+  note: z.string().trim().max(100).optional(),
+});
+
+const MAX_GIFT_CODES_BODY_SIZE = 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Option errors from Convex; the rest of each message says what's allowed
+const GIFT_CODE_OPTION_ERRORS = [
+  "Credits must be",
+  "Max redemptions must be",
+  "Per-session limit must be",
+  "Expiry must be",
+  "Count must be",
+];
+
+/**
+ * GET /api/gift-codes
+ * Recently created gift codes with their redemption counts. Admin sessions only.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const giftCodes = await convex.query(api.giftCodes.listGiftCodes, {
+      sid: sessionValidation.sid,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ giftCodes });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Gift code list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load gift codes" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/gift-codes
+ * Generate a batch of gift codes. Admin sessions only.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_GIFT_CODES_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = giftCodesSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Validation failed", message: parseResult.error.issues[0]?.message },
+      { status: 400 }
+    );
+  }
+  const { expiresInDays, note, ...options } = parseResult.data;
+
+  try {
+    const result = await convex.mutation(api.giftCodes.createGiftCodes, {
+      sid: validation.sid,
+      serverSecret: getConvexServerSecret(),
+      ...options,
+      expiresAt: Date.now() + expiresInDays * DAY_MS,
+      ...(note && { note }),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    const optionError = GIFT_CODE_OPTION_ERRORS.find((prefix) => message.includes(prefix));
+    if (optionError) {
+      const start = message.indexOf(optionError);
+      return NextResponse.json(
+        { error: message.slice(start).split("\n")[0].trim() },
+        { status: 400 }
+      );
+    }
+    console.error("Gift code creation error:", error);
+    return NextResponse.json(
+      { error: "Failed to create gift codes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,446 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  DEFAULT_RESOLUTION,
+  isValidAspectRatio,
+  isValidResolution,
+  ImageResolution,
+} from "@/lib/image-models";
+import { quoteImageGeneration } from "@/lib/image-pricing";
+import { isValidStyleProfile } from "@/lib/style-profiles";
+import { isTranslation } from "@/lib/translations";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { BOOK_BY_SLUG } from "@/data/bible-structure";
+import { api } from "../../../../convex/_generated/api";
+import type { Id } from "../../../../convex/_generated/dataModel";
+import { RATE_LIMITS } from "../../../../convex/rateLimit";
+import { findMissingVerses } from "../../../../convex/imageBatches";
+
+export const dynamic = "force-dynamic";
+
+const isImageGenerationEnabled =
+  process.env.ENABLE_IMAGE_GENERATION === "true";
+
+// Verses are started no faster than the generate-image rate limit allows
+const { windowMs, maxRequests } = RATE_LIMITS["generate-image"];
+const MIN_VERSE_INTERVAL_MS = Math.ceil(windowMs / maxRequests);
+
+const MAX_BATCH_BODY_SIZE = 4 * 1024;
+
+const themeSchema = z.object({
+  setting: z.string().max(500),
+  palette: z.string().max(500),
+  elements: z.string().max(500),
+  style: z.string().max(500),
+});
+
+const createBatchSchema = z.object({
+  book: z.string().min(1).max(50),
+  chapter: z.number().int().min(1),
+  model: z.string().max(200).optional(),
+  style: z.string().max(50).optional(),
+  aspectRatio: z.string().max(10).optional(),
+  resolution: z.string().max(10).optional(),
+  translationId: z.string().max(20).optional(),
+  theme: themeSchema.optional(),
+});
+
+/**
+ * Resolve a book slug and chapter to the chapter's verse count, or null.
+ */
+function chapterVerseCount(book: string, chapter: number): number | null {
+  const bookData = BOOK_BY_SLUG[book.toLowerCase()];
+  return bookData?.chapters[chapter - 1] ?? null;
+}
+
+/**
+ * Price every verse of a chapter that has no image yet.
+ */
+async function quoteChapter(
+  convex: NonNullable<ReturnType<typeof getConvexClient>>,
+  openRouterApiKey: string,
+  options: {
+    book: string;
+    chapter: number;
+    verseCount: number;
+    requestedModelId: string | null;
+    resolution: ImageResolution;
+  }
+) {
+  const [status, quoteResult] = await Promise.all([
+    convex.query(api.verseImages.getChapterImageStatus, {
+      book: options.book,
+      chapter: options.chapter,
+    }),
+    quoteImageGeneration(openRouterApiKey, {
+      requestedModelId: options.requestedModelId,
+      resolution: options.resolution,
+    }),
+  ]);
+  if (!quoteResult.ok) return quoteResult;
+
+  const missingVerses = findMissingVerses(
+    options.verseCount,
+    status.map((entry) => entry.verse)
+  );
+  const { quote } = quoteResult;
+  return {
+    ok: true as const,
+    quote,
+    missingVerses,
+    totalCredits: quote.reservationCreditsCost * missingVerses.length,
+    totalCostUsd: quote.reservationCostUsd * missingVerses.length,
+  };
+}
+
+/**
+ * GET /api/illustrate-chapter?book=genesis&chapter=1&model=...&resolution=...
+ * Quote the credits needed to illustrate every verse of a chapter that has no image.
+ */
+export async function GET(request: Request) {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse();
+  }
+
+  if (!isImageGenerationEnabled) {
+    return NextResponse.json(
+      { error: "Image generation disabled" },
+      { status: 403 }
+    );
+  }
+
+  const openRouterApiKey = process.env.OPENROUTER_API_KEY;
+  const convex = getConvexClient();
+  if (!openRouterApiKey || !convex) {
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const book = (searchParams.get("book") ?? "").toLowerCase();
+  const chapter = Number.parseInt(searchParams.get("chapter") ?? "", 10);
+  const verseCount = chapterVerseCount(book, chapter);
+  if (verseCount === null) {
+    return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+  }
+
+  const requestedResolution = searchParams.get("resolution");
+  const result = await quoteChapter(convex, openRouterApiKey, {
+    book,
+    chapter,
+    verseCount,
+    requestedModelId: searchParams.get("model"),
+    resolution:
+      requestedResolution && isValidResolution(requestedResolution)
+        ? requestedResolution
+        : DEFAULT_RESOLUTION,
+  });
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.error, message: result.message },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    book,
+    chapter,
+    model: result.quote.modelId,
+    missingVerses: result.missingVerses,
+    perVerseCredits: result.quote.reservationCreditsCost,
+    estimatedPerVerseCredits: result.quote.estimatedCreditsCost,
+    totalCredits: result.totalCredits,
+  });
+}
+
+/**
+ * POST /api/illustrate-chapter
+ * Reserve credits for every missing verse of a chapter at once and create a
+ * batch. The client then runs the verses one at a time through
+ * POST /api/generate-image { batchId }.
+ */
+export async function POST(request: Request) {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse();
+  }
+
+  if (!isImageGenerationEnabled) {
+    return NextResponse.json(
+      { error: "Image generation disabled" },
+      { status: 403 }
+    );
+  }
+
+  const openRouterApiKey = process.env.OPENROUTER_API_KEY;
+  if (!openRouterApiKey || openRouterApiKey.trim() === "") {
+    console.error("OPENROUTER_API_KEY is missing or empty");
+    return NextResponse.json(
+      { error: "Server configuration error: OpenRouter API key is not configured" },
+      { status: 500 }
+    );
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let serverSecret: string;
+  try {
+    serverSecret = getConvexServerSecret();
+  } catch {
+    console.error("[Illustrate Chapter API] CONVEX_SERVER_SECRET not configured");
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  // SECURITY: Validate session with IP binding to prevent token theft
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid) {
+    return NextResponse.json(
+      { error: "Session required for image generation" },
+      { status: 401 }
+    );
+  }
+  if (!sessionValidation.valid) {
+    return NextResponse.json({ error: "Session invalid" }, { status: 401 });
+  }
+  const sid = sessionValidation.sid;
+
+  let body: unknown;
+  try {
+    body = await readJsonBodyWithLimit(request, MAX_BATCH_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        {
+          error: "Payload too large",
+          message: `Request body exceeds maximum size of ${error.maxSize} bytes.`,
+          maxSize: error.maxSize,
+        },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Failed to read request body" }, { status: 400 });
+  }
+
+  const validationResult = createBatchSchema.safeParse(body);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: validationResult.error.issues },
+      { status: 400 }
+    );
+  }
+  const input = validationResult.data;
+  const book = input.book.toLowerCase();
+
+  const verseCount = chapterVerseCount(book, input.chapter);
+  if (verseCount === null) {
+    return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+  }
+
+  // Normalize settings once; every verse in the batch reuses them
+  const resolution =
+    input.resolution && isValidResolution(input.resolution)
+      ? input.resolution
+      : DEFAULT_RESOLUTION;
+  const settings = {
+    style: input.style && isValidStyleProfile(input.style) ? input.style : undefined,
+    aspectRatio:
+      input.aspectRatio && isValidAspectRatio(input.aspectRatio) ? input.aspectRatio : undefined,
+    resolution,
+    translationId: isTranslation(input.translationId) ? input.translationId : undefined,
+    // Without a theme, each verse picks up the chapter's stored theme
+    theme: input.theme,
+  };
+
+  const result = await quoteChapter(convex, openRouterApiKey, {
+    book,
+    chapter: input.chapter,
+    verseCount,
+    requestedModelId: input.model ?? null,
+    resolution,
+  });
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.error, message: result.message },
+      { status: 400 }
+    );
+  }
+  const { quote, missingVerses, totalCredits, totalCostUsd } = result;
+  if (missingVerses.length === 0) {
+    return NextResponse.json(
+      { error: "Chapter already illustrated" },
+      { status: 409 }
+    );
+  }
+
+  const session = await convex.query(api.sessions.getSession, { sid });
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 401 });
+  }
+  const isAdmin = session.tier === "admin";
+
+  // One reservation covers the whole chapter, so the daily spend cap is
+  // checked against the full quote before any verse starts
+  const generationId = crypto.randomUUID();
+  let reservedCredits = 0;
+  let reservedCostUsd = 0;
+  let updatedCredits: number | undefined;
+
+  if (!isAdmin) {
+    const reserveResult = await convex.action(api.sessions.reserveCredits, {
+      sid,
+      amount: totalCredits,
+      modelId: quote.modelId,
+      generationId,
+      costUsd: totalCostUsd,
+      serverSecret,
+    });
+
+    if (!reserveResult.success) {
+      if ("dailyLimit" in reserveResult) {
+        return NextResponse.json(
+          {
+            error: "Daily spending limit exceeded",
+            dailyLimit: reserveResult.dailyLimit,
+            dailySpent: reserveResult.dailySpent,
+            remaining: reserveResult.remaining,
+          },
+          { status: 429 }
+        );
+      }
+      return NextResponse.json(
+        {
+          error: "Insufficient credits",
+          required: totalCredits,
+          available: "available" in reserveResult ? reserveResult.available : 0,
+        },
+        { status: 402 }
+      );
+    }
+
+    reservedCredits = totalCredits;
+    reservedCostUsd = totalCostUsd;
+    if ("newBalance" in reserveResult) {
+      updatedCredits = reserveResult.newBalance;
+    }
+  } else {
+    // SECURITY: Log admin usage for audit trail even though credits aren't charged
+    try {
+      await convex.action(api.sessions.logAdminUsage, {
+        sid,
+        endpoint: "generate-image",
+        modelId: quote.modelId,
+        estimatedCredits: totalCredits,
+        estimatedCostUsd: totalCostUsd,
+        serverSecret,
+      });
+    } catch (err) {
+      console.error("[Illustrate Chapter API] Failed to log admin usage:", err);
+    }
+  }
+
+  let batchId: Id<"imageBatches">;
+  try {
+    batchId = await convex.action(api.imageBatches.createImageBatch, {
+      sid,
+      book,
+      chapter: input.chapter,
+      verses: missingVerses,
+      generationId,
+      reservedCredits,
+      reservedCostUsd,
+      settings: { model: quote.modelId, ...settings },
+      serverSecret,
+    });
+  } catch (error) {
+    console.error("[Illustrate Chapter API] Failed to create batch:", error);
+    if (reservedCredits > 0) {
+      await convex
+        .action(api.sessions.releaseReservation, { sid, generationId, serverSecret })
+        .catch((releaseError) => {
+          console.error("Failed to release reservation:", releaseError);
+        });
+    }
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({
+    batchId,
+    verses: missingVerses,
+    totalCredits,
+    minIntervalMs: MIN_VERSE_INTERVAL_MS,
+    ...(updatedCredits !== undefined && { credits: updatedCredits }),
+  });
+}
+
+/**
+ * DELETE /api/illustrate-chapter?batchId=...
+ * Stop a batch. Verses not yet started are refunded when it settles.
+ */
+export async function DELETE(request: Request) {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse();
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let serverSecret: string;
+  try {
+    serverSecret = getConvexServerSecret();
+  } catch {
+    return NextResponse.json(
+      { error: "Service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json({ error: "Session required" }, { status: 401 });
+  }
+
+  const batchId = new URL(request.url).searchParams.get("batchId");
+  if (!batchId || batchId.length > 100) {
+    return NextResponse.json({ error: "batchId is required" }, { status: 400 });
+  }
+
+  try {
+    const result = await convex.action(api.imageBatches.cancelImageBatch, {
+      sid: sessionValidation.sid,
+      batchId: batchId as Id<"imageBatches">,
+      serverSecret,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[Illustrate Chapter API] Failed to cancel batch:", error);
+    return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+  }
+}
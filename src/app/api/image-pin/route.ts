@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { adminRequiredResponse, validateWriteRequest } from "@/lib/admin-route";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+
+// imageId null unpins the verse
+const pinSchema = z.object({
+  verseId: z.string().min(1).max(100),
+  imageId: z.string().min(1).max(100).nullable(),
+});
+
+const MAX_PIN_BODY_SIZE = 1024;
+
+/**
+ * POST /api/image-pin
+ * Pin (or unpin) the canonical image for a verse. Admin sessions only.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_PIN_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = pinSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Validation failed", message: parseResult.error.issues[0]?.message },
+      { status: 400 }
+    );
+  }
+  const { verseId, imageId } = parseResult.data;
+
+  try {
+    const result = await convex.action(api.verseImages.setPinnedImage, {
+      sid: validation.sid,
+      verseId,
+      imageId: (imageId ?? undefined) as Id<"verseImages"> | undefined,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ success: true, imageId: result.imageId });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    if (message.includes("Image not found")) {
+      return NextResponse.json(
+        { error: "Image not found for this verse" },
+        { status: 404 }
+      );
+    }
+    console.error("Image pin error:", error);
+    return NextResponse.json(
+      { error: "Failed to update pinned image" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { validateSessionWithIp, getClientIp, hashIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+
+// value 0 clears the session's vote
+const voteSchema = z.object({
+  imageId: z.string().min(1).max(100),
+  value: z.union([z.literal(1), z.literal(-1), z.literal(0)]),
+});
+
+const MAX_VOTE_BODY_SIZE = 1024;
+
+/**
+ * GET /api/image-vote?verseId=...
+ * The current session's votes for a verse's images, keyed by image ID.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json({ votes: {} });
+  }
+
+  const verseId = new URL(request.url).searchParams.get("verseId");
+  if (!verseId || verseId.length > 100) {
+    return NextResponse.json(
+      { error: "verseId is required" },
+      { status: 400 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json({ votes: {} });
+  }
+
+  try {
+    const votes = await convex.query(api.imageVotes.getSessionVotes, {
+      sid: sessionValidation.sid,
+      verseId,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ votes });
+  } catch (error) {
+    console.error("Image votes error:", error);
+    return NextResponse.json(
+      { error: "Failed to load votes" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/image-vote
+ * Cast, change, or clear the session's vote on an image.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  // SECURITY: Validate request origin
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid) {
+    return NextResponse.json(
+      { error: "Session required to vote" },
+      { status: 401 }
+    );
+  }
+  if (!sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session invalid" },
+      { status: 401 }
+    );
+  }
+  const sid = sessionValidation.sid;
+
+  // SECURITY: Rate limit per IP + session pair, and per IP across sessions so
+  // opening fresh sessions can't stuff the ballot
+  const ipHash = sessionValidation.currentIpHash ?? await hashIp(getClientIp(request));
+  let rateLimitResult = await convex.mutation(api.rateLimit.checkRateLimit, {
+    identifier: `${ipHash}:${sid}`,
+    endpoint: "vote",
+  });
+  if (rateLimitResult.allowed) {
+    rateLimitResult = await convex.mutation(api.rateLimit.checkRateLimit, {
+      identifier: ipHash,
+      endpoint: "vote-ip",
+    });
+  }
+
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      {
+        error: "Too many votes. Please try again later.",
+        retryAfter: rateLimitResult.retryAfter,
+      },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": String(rateLimitResult.retryAfter || 60),
+        },
+      }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_VOTE_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = voteSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Validation failed", message: parseResult.error.issues[0]?.message },
+      { status: 400 }
+    );
+  }
+  const { imageId, value } = parseResult.data;
+
+  try {
+    const result = await convex.action(api.imageVotes.castVote, {
+      sid,
+      imageId: imageId as Id<"verseImages">,
+      value,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Image not found")) {
+      return NextResponse.json(
+        { error: "Image not found" },
+        { status: 404 }
+      );
+    }
+    console.error("Image vote error:", error);
+    return NextResponse.json(
+      { error: "Failed to record vote" },
+      { status: 500 }
+    );
+  }
+}
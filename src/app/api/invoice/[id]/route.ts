@@ -1,9 +1,14 @@
 import { NextResponse } from "next/server";
 import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
 import { getSessionFromCookies } from "@/lib/session";
-import { lookupLndInvoice, isLndConfigured } from "@/lib/lnd";
 import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
 import { api } from "../../../../../convex/_generated/api";
+import { planInvoiceSettlements, settlementCandidates } from "../../../../../convex/lightningSettlement";
+import {
+  getPaymentProvider,
+  SettlementEvent,
+  SETTLEMENT_GRACE_MS,
+} from "../../../../../convex/paymentProviders";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -12,7 +17,9 @@ interface RouteParams {
 /**
  * GET /api/invoice/:id
  * Returns the status of an invoice.
- * If pending, checks LND for real payment status and updates accordingly.
+ * If pending, checks the payment provider for its status and updates it the
+ * way the settlement sweep would, so an invoice stays pending through the
+ * grace period after expiry while its payment may still be confirmed.
  */
 export async function GET(
   request: Request,
@@ -51,33 +58,35 @@ export async function GET(
 
     if (invoice.status === "pending") {
       const now = Date.now();
-
-      if (now > invoice.expiresAt) {
+      const paymentProvider = getPaymentProvider();
+      const pending = {
+        invoiceId,
+        paymentHash: invoice.paymentHash,
+        expiresAt: invoice.expiresAt,
+      };
+
+      // Failed lookups are left out, which keeps the invoice pending for the sweep
+      const candidates = paymentProvider ? settlementCandidates([pending], now) : [];
+      const events: SettlementEvent[] =
+        paymentProvider && candidates.length > 0
+          ? await paymentProvider.pollSettlements(candidates)
+          : [];
+      const [decision] = planInvoiceSettlements([pending], events, now);
+
+      if (decision?.action === "confirm") {
+        // Payment received - confirm and grant credits
+        const result = await convex.action(api.invoices.confirmPayment, {
+          invoiceId,
+          paymentHash: decision.paymentHash,
+          settledAt: decision.settledAt,
+          serverSecret: getConvexServerSecret(),
+        });
+        // Update local status for response
+        invoice = { ...invoice, status: result.success ? "paid" : result.status ?? invoice.status };
+      } else if (decision?.action === "expire") {
+        // Canceled, unpaid past expiry, or past the grace period
         await convex.mutation(api.invoices.expireInvoice, { invoiceId });
         invoice = { ...invoice, status: "expired" };
-      } else if (invoice.paymentHash && isLndConfigured()) {
-        try {
-          const lndStatus = await lookupLndInvoice(invoice.paymentHash);
-
-          if (lndStatus.state === "SETTLED") {
-            // Payment received - confirm and grant credits
-            await convex.action(api.invoices.confirmPayment, {
-              invoiceId,
-              paymentHash: invoice.paymentHash,
-              serverSecret: getConvexServerSecret(),
-            });
-            // Update local status for response
-            invoice = { ...invoice, status: "paid" };
-          } else if (lndStatus.state === "CANCELED") {
-            // Invoice was canceled
-            await convex.mutation(api.invoices.expireInvoice, { invoiceId });
-            invoice = { ...invoice, status: "expired" };
-          }
-          // "OPEN" and "ACCEPTED" states mean still waiting for payment
-        } catch (lndError) {
-          // Log but don't fail - we can still return the cached status
-          console.warn("Failed to check LND status:", lndError);
-        }
       }
     }
 
@@ -87,6 +96,8 @@ export async function GET(
       amountUsd: invoice.amountUsd,
       amountSats: invoice.amountSats,
       bolt11: invoice.bolt11,
+      bundleId: invoice.bundleId,
+      credits: invoice.credits,
       expiresAt: invoice.expiresAt,
       paidAt: invoice.paidAt,
     });
@@ -101,7 +112,7 @@ export async function GET(
 
 /**
  * POST /api/invoice/:id
- * Confirms payment for an invoice after verifying LND settlement.
+ * Confirms payment for an invoice after verifying settlement with the payment provider.
  */
 export async function POST(
   request: Request,
@@ -145,15 +156,17 @@ export async function POST(
       );
     }
 
-    if (!isLndConfigured()) {
+    const paymentProvider = getPaymentProvider();
+    if (!paymentProvider) {
       return NextResponse.json(
         { error: "Lightning payments not configured" },
         { status: 503 }
       );
     }
 
+    // Past the grace period nothing can confirm it any more
     const now = Date.now();
-    if (now > invoice.expiresAt) {
+    if (now > invoice.expiresAt + SETTLEMENT_GRACE_MS) {
       await convex.mutation(api.invoices.expireInvoice, { invoiceId });
       return NextResponse.json(
         { error: "Invoice has expired" },
@@ -161,15 +174,24 @@ export async function POST(
       );
     }
 
-    const lndStatus = await lookupLndInvoice(invoice.paymentHash);
+    const providerStatus = await paymentProvider.lookupInvoice(invoice.paymentHash);
 
-    if (lndStatus.state === "SETTLED") {
+    if (providerStatus.state === "settled") {
+      // Settled before expiry still counts, even if confirmed during the grace period
       const result = await convex.action(api.invoices.confirmPayment, {
         invoiceId,
         paymentHash: invoice.paymentHash,
+        settledAt: providerStatus.settledAt,
         serverSecret: getConvexServerSecret(),
       });
 
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error ?? "Invoice can't be credited" },
+          { status: 410 }
+        );
+      }
+
       return NextResponse.json({
         success: result.success,
         alreadyPaid: result.alreadyPaid,
@@ -178,7 +200,7 @@ export async function POST(
       });
     }
 
-    if (lndStatus.state === "CANCELED") {
+    if (providerStatus.state === "canceled") {
       await convex.mutation(api.invoices.expireInvoice, { invoiceId });
       return NextResponse.json(
         { error: "Invoice was canceled" },
@@ -186,6 +208,15 @@ export async function POST(
       );
     }
 
+    // Still open after expiry: it can no longer be paid
+    if (now > invoice.expiresAt) {
+      await convex.mutation(api.invoices.expireInvoice, { invoiceId });
+      return NextResponse.json(
+        { error: "Invoice has expired" },
+        { status: 410 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Invoice not settled" },
       { status: 402 }
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { validateCsrfToken, CSRF_COOKIE_NAME } from "@/lib/csrf";
+import { getWalletErrorMessage } from "@/lib/wallet-connect";
+import { api } from "../../../../../../convex/_generated/api";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/invoice/:id/wallet
+ * Pays the session's invoice from its connected Nostr Wallet Connect wallet,
+ * if the invoice fits the wallet's per-top-up budget.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  // SECURITY: Validate request origin
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  // SECURITY: Validate CSRF token (this spends the user's money)
+  const cookieStore = await cookies();
+  const csrfCookie = cookieStore.get(CSRF_COOKIE_NAME)?.value;
+  if (!validateCsrfToken(request, csrfCookie)) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "CSRF validation failed" },
+      { status: 403 }
+    );
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Payment system not available" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json({ error: "Session required" }, { status: 401 });
+  }
+
+  const { id: invoiceId } = await params;
+
+  try {
+    const result = await convex.action(api.walletConnectActions.payInvoiceWithWallet, {
+      sid: sessionValidation.sid,
+      serverSecret: getConvexServerSecret(),
+      invoiceId,
+    });
+
+    return NextResponse.json({
+      success: result.success,
+      alreadyPaid: result.alreadyPaid,
+      newBalance: result.newBalance,
+      creditsAdded: result.creditsAdded,
+      error: result.error,
+    });
+  } catch (error) {
+    const message = getWalletErrorMessage(error);
+    if (message) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    console.error("Wallet payment error:", error);
+    return NextResponse.json(
+      { error: "Failed to pay with wallet" },
+      { status: 500 }
+    );
+  }
+}
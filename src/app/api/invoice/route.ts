@@ -1,17 +1,30 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { getSessionFromCookies, getClientIp, hashIp } from "@/lib/session";
 import { getConvexClient } from "@/lib/convex-client";
-import { getBtcPrice, usdToSats } from "@/lib/btc-price";
-import { createLndInvoice, base64ToHex, isLndConfigured } from "@/lib/lnd";
+import { createCreditInvoice } from "@/lib/credit-invoice";
 import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
 import { api } from "../../../../convex/_generated/api";
+import { resolveCreditPurchase } from "../../../../convex/creditBundles";
+import { getPaymentProvider } from "../../../../convex/paymentProviders";
 
-// Fixed bundle price
-const BUNDLE_USD = 3;
+const invoiceRequestSchema = z.object({
+  bundleId: z.string().min(1).max(40),
+  // Whole dollars, for the custom bundle
+  customUsd: z.number().optional(),
+});
+
+const MAX_INVOICE_BODY_SIZE = 1024;
 
 /**
  * POST /api/invoice
- * Creates a new Lightning invoice for credit purchase.
+ * Creates a new Lightning invoice for a credit bundle from the catalog
+ * (`convex/creditBundles.ts`), or a custom amount within its bounds.
  */
 export async function POST(request: Request): Promise<NextResponse> {
   // SECURITY: Validate request origin
@@ -27,7 +40,8 @@ export async function POST(request: Request): Promise<NextResponse> {
     );
   }
 
-  if (!isLndConfigured()) {
+  const paymentProvider = getPaymentProvider();
+  if (!paymentProvider) {
     return NextResponse.json(
       { error: "Lightning payments not configured" },
       { status: 503 }
@@ -42,7 +56,7 @@ export async function POST(request: Request): Promise<NextResponse> {
     );
   }
 
-  // SECURITY: Rate limit invoice creation to prevent LND flooding
+  // SECURITY: Rate limit invoice creation to prevent provider flooding
   // Use IP hash only (not session) to prevent multi-session bypass from same IP
   const clientIp = getClientIp(request);
   const rateLimitIdentifier = await hashIp(clientIp);
@@ -68,38 +82,42 @@ export async function POST(request: Request): Promise<NextResponse> {
     );
   }
 
+  let rawBody: unknown;
   try {
-    // Get current BTC price and calculate sats
-    const btcPrice = await getBtcPrice();
-    const amountSats = usdToSats(BUNDLE_USD, btcPrice);
-
-    // Generate invoiceId before LND call so we can include it in memo for linking
-    const invoiceId = crypto.randomUUID();
-    const memo = `Visibible: ${invoiceId}`;
-
-    // Create real Lightning invoice via LND
-    const lndInvoice = await createLndInvoice(amountSats, memo);
-
-    // Convert payment hash from base64 to hex
-    const paymentHash = base64ToHex(lndInvoice.r_hash);
+    rawBody = await readJsonBodyWithLimit(request, MAX_INVOICE_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
 
-    // Store in Convex with real LND data
-    const invoice = await convex.mutation(api.invoices.createInvoice, {
-      invoiceId,
-      sid,
-      amountSats,
-      bolt11: lndInvoice.payment_request,
-      paymentHash,
-    });
+  const parseResult = invoiceRequestSchema.safeParse(rawBody);
+  const purchase = parseResult.success
+    ? resolveCreditPurchase(parseResult.data.bundleId, parseResult.data.customUsd)
+    : null;
+  if (!parseResult.success || !purchase) {
+    return NextResponse.json(
+      { error: "Choose a credit bundle or a valid custom amount" },
+      { status: 400 }
+    );
+  }
 
-    return NextResponse.json({
-      invoiceId: invoice.invoiceId,
-      bolt11: invoice.bolt11,
-      amountUsd: invoice.amountUsd,
-      amountSats: invoice.amountSats,
-      expiresAt: invoice.expiresAt,
-      credits: invoice.credits,
-    });
+  try {
+    const invoice = await createCreditInvoice(convex, paymentProvider, sid, purchase);
+    return NextResponse.json(invoice);
   } catch (error) {
     console.error("Failed to create invoice:", error);
     return NextResponse.json(
@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { adminRequiredResponse, validateWriteRequest } from "@/lib/admin-route";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+
+const moderationSchema = z.object({
+  imageId: z.string().min(1).max(100),
+  decision: z.enum(["approve", "hide"]),
+});
+
+const MAX_MODERATION_BODY_SIZE = 1024;
+
+/**
+ * GET /api/moderation
+ * The queue of images awaiting review, oldest first. Admin sessions only.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const images = await convex.query(api.moderation.getModerationQueue, {
+      sid: sessionValidation.sid,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ images });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Moderation queue error:", error);
+    return NextResponse.json(
+      { error: "Failed to load moderation queue" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/moderation
+ * Approve an image or take it down. Admin sessions only.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_MODERATION_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = moderationSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Validation failed", message: parseResult.error.issues[0]?.message },
+      { status: 400 }
+    );
+  }
+  const { imageId, decision } = parseResult.data;
+
+  try {
+    const result = await convex.action(api.moderation.moderateImage, {
+      sid: validation.sid,
+      imageId: imageId as Id<"verseImages">,
+      decision,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    if (message.includes("Image not found")) {
+      return NextResponse.json(
+        { error: "Image not found" },
+        { status: 404 }
+      );
+    }
+    console.error("Image moderation error:", error);
+    return NextResponse.json(
+      { error: "Failed to update image" },
+      { status: 500 }
+    );
+  }
+}
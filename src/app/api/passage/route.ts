@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { getTranslationFromCookies } from "@/lib/get-translation";
+import { getVerseByReference } from "@/lib/bible-api";
+import { TRANSLATIONS, Translation, isTranslation } from "@/lib/translations";
+
+// Previews show the start of a passage; long ranges are cut here
+const MAX_PREVIEW_VERSES = 8;
+
+/**
+ * GET /api/passage?ref=Romans+8:28&translation=...
+ * Verse text for a citation preview. Defaults to the translation cookie.
+ */
+export async function GET(request: Request) {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const reference = searchParams.get("ref")?.trim() ?? "";
+  if (!reference || reference.length > 100) {
+    return NextResponse.json({ error: "ref is required" }, { status: 400 });
+  }
+
+  // Only accept own keys of TRANSLATIONS; anything else uses the cookie preference
+  const translationParam = searchParams.get("translation");
+  const translation: Translation = isTranslation(translationParam)
+    ? translationParam
+    : await getTranslationFromCookies();
+
+  try {
+    const verses = await getVerseByReference(reference, translation);
+    if (!verses || verses.length === 0) {
+      return NextResponse.json({ error: "Passage not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      {
+        reference,
+        translation: TRANSLATIONS[translation].code,
+        verses: verses.slice(0, MAX_PREVIEW_VERSES).map((v) => ({
+          chapter: v.chapter,
+          verse: v.verse,
+          text: v.text,
+        })),
+        truncated: verses.length > MAX_PREVIEW_VERSES,
+      },
+      {
+        // Scripture text is immutable; responses only vary by reference and translation
+        headers: { "Cache-Control": "private, max-age=3600" },
+      }
+    );
+  } catch (error) {
+    console.error("Passage lookup failed:", error);
+    return NextResponse.json({ error: "Passage lookup failed" }, { status: 500 });
+  }
+}
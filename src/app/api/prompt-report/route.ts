@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { adminRequiredResponse } from "@/lib/admin-route";
+import {
+  getPromptExperiment,
+  CURRENT_PROMPT_VERSION,
+  PROMPT_TEMPLATES,
+} from "@/lib/prompt-templates";
+import { api } from "../../../../convex/_generated/api";
+
+/**
+ * GET /api/prompt-report?days=30
+ * Prompt versions compared by regenerate rate, votes and feedback, plus the
+ * current A/B assignment. Admin sessions only.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  const daysParam = Number.parseInt(new URL(request.url).searchParams.get("days") ?? "", 10);
+
+  try {
+    const report = await convex.query(api.promptVersions.getPromptVersionReport, {
+      sid: sessionValidation.sid,
+      serverSecret: getConvexServerSecret(),
+      days: Number.isNaN(daysParam) ? undefined : daysParam,
+    });
+    return NextResponse.json({
+      ...report,
+      currentVersion: CURRENT_PROMPT_VERSION,
+      experiment: getPromptExperiment(),
+      templates: Object.values(PROMPT_TEMPLATES).map((template) => ({
+        version: template.version,
+        description: template.description,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Prompt report error:", error);
+    return NextResponse.json(
+      { error: "Failed to load prompt report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { validateSessionWithIp, getClientIp, hashIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { validateCsrfToken, CSRF_COOKIE_NAME } from "@/lib/csrf";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { api } from "../../../../convex/_generated/api";
+
+const redeemSchema = z.object({
+  code: z.string().trim().min(1).max(64),
+});
+
+const MAX_REDEEM_BODY_SIZE = 1024;
+
+// Convex redemption errors and the status each maps to
+const REDEEM_ERROR_STATUS: Array<[message: string, status: number]> = [
+  ["Gift code not found", 404],
+  ["This gift code has expired", 410],
+  ["This gift code has been fully redeemed", 410],
+  ["This gift code has already been redeemed in this session", 409],
+];
+
+/**
+ * POST /api/redeem
+ * Redeem a gift code for credits on the current session.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  // SECURITY: Validate request origin
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  // SECURITY: Validate CSRF token
+  const cookieStore = await cookies();
+  const csrfCookie = cookieStore.get(CSRF_COOKIE_NAME)?.value;
+  if (!validateCsrfToken(request, csrfCookie)) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "CSRF validation failed" },
+      { status: 403 }
+    );
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  // SECURITY: Rate limit attempts so codes can't be guessed
+  // Use IP hash only (not session) to prevent multi-session bypass from same IP
+  const rateLimitIdentifier = sessionValidation.currentIpHash ?? await hashIp(getClientIp(request));
+  const rateLimitResult = await convex.mutation(api.rateLimit.checkRateLimit, {
+    identifier: rateLimitIdentifier,
+    endpoint: "redeem",
+  });
+
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      {
+        error: "Too many gift code attempts",
+        message: "Please wait before trying another code.",
+        retryAfter: rateLimitResult.retryAfter,
+      },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": String(rateLimitResult.retryAfter || 60),
+        },
+      }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_REDEEM_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = redeemSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Enter a gift code" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await convex.mutation(api.giftCodes.redeemGiftCode, {
+      sid: sessionValidation.sid,
+      serverSecret: getConvexServerSecret(),
+      code: parseResult.data.code,
+    });
+    return NextResponse.json({
+      success: result.success,
+      newBalance: result.newBalance,
+      creditsAdded: result.creditsAdded,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    for (const [redeemError, status] of REDEEM_ERROR_STATUS) {
+      if (message.includes(redeemError)) {
+        return NextResponse.json({ error: redeemError }, { status });
+      }
+    }
+    if (message.includes("Session not found")) {
+      return NextResponse.json(
+        { error: "Session required" },
+        { status: 401 }
+      );
+    }
+    console.error("Gift code redemption error:", error);
+    return NextResponse.json(
+      { error: "Failed to redeem gift code" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { getConvexClient } from "@/lib/convex-client";
+import { getClientIp, hashIp } from "@/lib/session";
+import { api } from "../../../../convex/_generated/api";
+import { getTranslationFromCookies } from "@/lib/get-translation";
+import { TRANSLATIONS, Translation } from "@/lib/translations";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  SearchQueryError,
+  searchScripture,
+} from "@/lib/scripture-search";
+
+/**
+ * GET /api/search?q=...&translation=...&limit=...
+ * Full-text search over one translation. Defaults to the translation cookie.
+ * See src/lib/scripture-search.ts for query syntax.
+ * If some chapters could not be read, `partial` is true and `missingChapters`
+ * lists them; partial results are not cached.
+ */
+export async function GET(request: Request) {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse();
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  // Rate limit by IP hash: an unscoped search reads every chapter of the Bible
+  const ipHash = await hashIp(getClientIp(request));
+  const rateLimitResult = await convex.mutation(api.rateLimit.checkRateLimit, {
+    identifier: ipHash,
+    endpoint: "search",
+  });
+
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: "Too many searches. Please wait a moment." },
+      {
+        status: 429,
+        headers: { "Retry-After": String(rateLimitResult.retryAfter || 60) },
+      }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim() ?? "";
+
+  // Only accept own keys of TRANSLATIONS; anything else uses the cookie preference
+  const translationParam = searchParams.get("translation");
+  const translation: Translation =
+    translationParam && Object.prototype.hasOwnProperty.call(TRANSLATIONS, translationParam)
+      ? (translationParam as Translation)
+      : await getTranslationFromCookies();
+
+  const limitParam = parseInt(searchParams.get("limit") ?? "", 10);
+  const limit = Number.isNaN(limitParam) ? DEFAULT_SEARCH_LIMIT : limitParam;
+
+  try {
+    const { query, results, total, missingChapters } = await searchScripture(
+      q,
+      translation,
+      limit
+    );
+    const partial = missingChapters.length > 0;
+    if (partial) {
+      console.warn(
+        `Search skipped ${missingChapters.length} unreadable chapter(s): ${missingChapters.join(", ")}`
+      );
+    }
+    return NextResponse.json(
+      {
+        translation,
+        books: query.books.map((book) => book.slug),
+        results,
+        total,
+        partial,
+        missingChapters,
+      },
+      {
+        // Scripture text is immutable; results only vary by query and translation.
+        // Partial results would pin the provider failure in the cache.
+        headers: { "Cache-Control": partial ? "no-store" : "private, max-age=3600" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Search failed:", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
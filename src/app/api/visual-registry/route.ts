@@ -0,0 +1,208 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { adminRequiredResponse, validateWriteRequest } from "@/lib/admin-route";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import {
+  parseRegistryScopes,
+  MAX_REGISTRY_ALIASES,
+  MAX_REGISTRY_DESCRIPTION_LENGTH,
+  MAX_REGISTRY_NAME_LENGTH,
+} from "@/lib/visual-registry";
+import { api } from "../../../../convex/_generated/api";
+import { Id } from "../../../../convex/_generated/dataModel";
+
+const saveEntrySchema = z.object({
+  // Omitted when creating a new entry
+  id: z.string().min(1).max(100).optional(),
+  kind: z.enum(["character", "location"]),
+  name: z.string().trim().min(1).max(MAX_REGISTRY_NAME_LENGTH),
+  aliases: z.array(z.string().max(MAX_REGISTRY_NAME_LENGTH)).max(MAX_REGISTRY_ALIASES),
+  description: z.string().trim().min(1).max(MAX_REGISTRY_DESCRIPTION_LENGTH),
+  // Editor scope list, e.g. "Exodus; Numbers 1-20"; empty applies everywhere
+  scopes: z.string().max(1000),
+});
+
+const MAX_ENTRY_BODY_SIZE = 4 * 1024;
+
+/**
+ * GET /api/visual-registry
+ * Every registry entry. Admin sessions only.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const entries = await convex.query(api.visualRegistry.listRegistryEntries, {
+      sid: sessionValidation.sid,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Visual registry list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load registry" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/visual-registry
+ * Create an entry, or replace the one with the given id. Admin sessions only.
+ */
+export async function PUT(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_ENTRY_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = saveEntrySchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Validation failed", message: parseResult.error.issues[0]?.message },
+      { status: 400 }
+    );
+  }
+  const { id, kind, name, aliases, description } = parseResult.data;
+
+  const scopes = parseRegistryScopes(parseResult.data.scopes);
+  if (!scopes) {
+    return NextResponse.json(
+      {
+        error: "Validation failed",
+        message: 'Scopes must be books or chapter ranges, e.g. "Exodus; Numbers 1-20"',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await convex.action(api.visualRegistry.saveRegistryEntry, {
+      sid: validation.sid,
+      entryId: id as Id<"visualRegistry"> | undefined,
+      kind,
+      name,
+      aliases,
+      description,
+      scopes,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("Admin session required")) {
+        return adminRequiredResponse();
+      }
+      if (error.message.includes("Registry name already in use")) {
+        return NextResponse.json(
+          { error: "Name already in use" },
+          { status: 409 }
+        );
+      }
+      if (error.message.includes("Registry entry not found")) {
+        return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+      }
+    }
+    console.error("Visual registry save error:", error);
+    return NextResponse.json(
+      { error: "Failed to save registry entry" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/visual-registry?id=<entryId>
+ * Remove an entry. Admin sessions only.
+ */
+export async function DELETE(request: Request): Promise<NextResponse> {
+  const validation = await validateWriteRequest(request);
+  if ("response" in validation) return validation.response;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return NextResponse.json(
+      { error: "Service unavailable" },
+      { status: 503 }
+    );
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id || id.length > 100) {
+    return NextResponse.json({ error: "Entry id required" }, { status: 400 });
+  }
+
+  try {
+    const result = await convex.action(api.visualRegistry.deleteRegistryEntry, {
+      sid: validation.sid,
+      entryId: id as Id<"visualRegistry">,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Admin session required")) {
+      return adminRequiredResponse();
+    }
+    console.error("Visual registry delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete registry entry" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { validateCsrfToken, CSRF_COOKIE_NAME } from "@/lib/csrf";
+import { createCreditInvoice } from "@/lib/credit-invoice";
+import { getWalletErrorMessage } from "@/lib/wallet-connect";
+import { api } from "../../../../../convex/_generated/api";
+import { resolveCreditPurchase } from "../../../../../convex/creditBundles";
+import { getPaymentProvider } from "../../../../../convex/paymentProviders";
+
+/**
+ * POST /api/wallet/refill
+ * Auto-refill: when the session's credits are below its wallet's threshold,
+ * buys the auto-refill bundle and pays it from the connected wallet.
+ * Convex decides whether a refill is due (threshold and cooldown), so
+ * calling this when none is due is a harmless no-op.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  // SECURITY: Validate request origin
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  // SECURITY: Validate CSRF token (this spends the user's money)
+  const cookieStore = await cookies();
+  const csrfCookie = cookieStore.get(CSRF_COOKIE_NAME)?.value;
+  if (!validateCsrfToken(request, csrfCookie)) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "CSRF validation failed" },
+      { status: 403 }
+    );
+  }
+
+  const convex = getConvexClient();
+  const paymentProvider = getPaymentProvider();
+  if (!convex || !paymentProvider) {
+    return NextResponse.json(
+      { error: "Payment system not available" },
+      { status: 503 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json({ error: "Session required" }, { status: 401 });
+  }
+  const sid = sessionValidation.sid;
+
+  try {
+    const serverSecret = getConvexServerSecret();
+    const claim = await convex.mutation(api.walletConnect.claimAutoRefill, { sid, serverSecret });
+    const purchase = claim ? resolveCreditPurchase(claim.bundleId) : null;
+    if (!purchase) {
+      return NextResponse.json({ refilled: false });
+    }
+
+    const invoice = await createCreditInvoice(convex, paymentProvider, sid, purchase);
+    const result = await convex.action(api.walletConnectActions.payInvoiceWithWallet, {
+      sid,
+      serverSecret,
+      invoiceId: invoice.invoiceId,
+    });
+
+    return NextResponse.json({
+      refilled: result.success,
+      newBalance: result.newBalance,
+      creditsAdded: result.creditsAdded,
+    });
+  } catch (error) {
+    const message = getWalletErrorMessage(error);
+    if (message) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    console.error("Wallet auto-refill error:", error);
+    return NextResponse.json(
+      { error: "Auto-refill failed" },
+      { status: 500 }
+    );
+  }
+}
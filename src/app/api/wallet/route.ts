@@ -0,0 +1,206 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { validateSessionWithIp } from "@/lib/session";
+import { getConvexClient, getConvexServerSecret } from "@/lib/convex-client";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { validateCsrfToken, CSRF_COOKIE_NAME } from "@/lib/csrf";
+import { getWalletErrorMessage } from "@/lib/wallet-connect";
+import {
+  readJsonBodyWithLimit,
+  PayloadTooLargeError,
+  InvalidJsonError,
+} from "@/lib/request-body";
+import { api } from "../../../../convex/_generated/api";
+
+const walletSettingsSchema = z.object({
+  // nostr+walletconnect:// URI; only when connecting a (new) wallet
+  connectionUri: z.string().trim().min(1).max(2000).optional(),
+  budgetUsd: z.number(),
+  autoRefillThreshold: z.number().optional(),
+  autoRefillBundleId: z.string().max(40).optional(),
+});
+
+const MAX_WALLET_BODY_SIZE = 4096;
+
+/**
+ * Shared origin, CSRF and session checks for the state-changing handlers.
+ * Returns the session id, or the response to send instead.
+ */
+async function authorizeChange(request: Request): Promise<string | NextResponse> {
+  // SECURITY: Validate request origin
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  // SECURITY: Validate CSRF token
+  const cookieStore = await cookies();
+  const csrfCookie = cookieStore.get(CSRF_COOKIE_NAME)?.value;
+  if (!validateCsrfToken(request, csrfCookie)) {
+    return NextResponse.json(
+      { error: "Invalid request", message: "CSRF validation failed" },
+      { status: 403 }
+    );
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+  return sessionValidation.sid;
+}
+
+function serviceUnavailableResponse(): NextResponse {
+  return NextResponse.json(
+    { error: "Service unavailable" },
+    { status: 503 }
+  );
+}
+
+/**
+ * GET /api/wallet
+ * The session's connected Nostr Wallet Connect wallet (never its secret), or null.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  if (!validateOrigin(request)) {
+    return invalidOriginResponse() as NextResponse;
+  }
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return serviceUnavailableResponse();
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return NextResponse.json(
+      { error: "Session required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const wallet = await convex.query(api.walletConnect.getWalletConnection, {
+      sid: sessionValidation.sid,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ wallet });
+  } catch (error) {
+    console.error("Wallet lookup error:", error);
+    return NextResponse.json(
+      { error: "Failed to load wallet" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/wallet
+ * Connect a wallet (with connectionUri) or change the connected wallet's
+ * per-top-up budget and auto-refill.
+ */
+export async function PUT(request: Request): Promise<NextResponse> {
+  const authorized = await authorizeChange(request);
+  if (authorized instanceof NextResponse) return authorized;
+  const sid = authorized;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return serviceUnavailableResponse();
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await readJsonBodyWithLimit(request, MAX_WALLET_BODY_SIZE);
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json(
+        { error: "Payload too large" },
+        { status: 413 }
+      );
+    }
+    if (error instanceof InvalidJsonError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to read request body" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = walletSettingsSchema.safeParse(rawBody);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      { error: "Invalid wallet settings" },
+      { status: 400 }
+    );
+  }
+  const { connectionUri, ...settings } = parseResult.data;
+
+  try {
+    const serverSecret = getConvexServerSecret();
+    const wallet = connectionUri
+      ? await convex.action(api.walletConnectActions.connectWallet, {
+          sid,
+          serverSecret,
+          connectionUri,
+          ...settings,
+        })
+      : await convex.mutation(api.walletConnect.updateWalletSettings, {
+          sid,
+          serverSecret,
+          ...settings,
+        });
+    return NextResponse.json({ wallet });
+  } catch (error) {
+    const message = getWalletErrorMessage(error);
+    if (message) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    if (error instanceof Error && error.message.includes("Wallet Connect is not configured")) {
+      return NextResponse.json(
+        { error: "Wallet Connect is not available" },
+        { status: 503 }
+      );
+    }
+    console.error("Wallet update error:", error);
+    return NextResponse.json(
+      { error: "Failed to save wallet" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/wallet
+ * Disconnect the session's wallet and delete its encrypted secret.
+ */
+export async function DELETE(request: Request): Promise<NextResponse> {
+  const authorized = await authorizeChange(request);
+  if (authorized instanceof NextResponse) return authorized;
+
+  const convex = getConvexClient();
+  if (!convex) {
+    return serviceUnavailableResponse();
+  }
+
+  try {
+    await convex.mutation(api.walletConnect.disconnectWallet, {
+      sid: authorized,
+      serverSecret: getConvexServerSecret(),
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Wallet disconnect error:", error);
+    return NextResponse.json(
+      { error: "Failed to disconnect wallet" },
+      { status: 500 }
+    );
+  }
+}
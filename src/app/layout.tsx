@@ -7,6 +7,7 @@ import { NavigationProvider } from "@/context/navigation-context";
 import { PreferencesProvider } from "@/context/preferences-context";
 import { ChatSidebar } from "@/components/chat-sidebar";
 import { BuyCreditsModal } from "@/components/buy-credits-modal";
+import { WalletAutoRefill } from "@/components/wallet-auto-refill";
 import { ChatFAB } from "@/components/chat-fab";
 import { ChatPrompt } from "@/components/chat-prompt";
 import { FeedbackPrompt } from "@/components/feedback-prompt";
@@ -46,6 +47,7 @@ export default function RootLayout({
                 <ChatPrompt />
                 <FeedbackPrompt />
                 <BuyCreditsModal />
+                <WalletAutoRefill />
               </NavigationProvider>
             </PreferencesProvider>
           </SessionProvider>
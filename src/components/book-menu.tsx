@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { ReactNode, useState } from "react";
 import Link from "next/link";
 import { X, ChevronDown, ChevronRight, ArrowLeft } from "lucide-react";
 import { useQuery } from "convex/react";
@@ -8,6 +8,12 @@ import { api } from "../../convex/_generated/api";
 import { BIBLE_BOOKS, BibleBook } from "@/data/bible-structure";
 import { useNavigation } from "@/context/navigation-context";
 import { useConvexEnabled } from "@/components/convex-client-provider";
+import {
+  BatchVerseStatus,
+  ChapterIllustrator,
+  batchVerseStatuses,
+  useChapterIllustration,
+} from "@/components/chapter-illustrator";
 
 type MenuView = "books" | "chapters" | "verses";
 
@@ -15,6 +21,9 @@ interface BookMenuBaseProps {
   booksWithImages: string[];
   chaptersWithImages: number[];
   versesWithImages: Set<number>;
+  // Progress of a running "illustrate this chapter" batch, by verse
+  batchStatuses?: Map<number, BatchVerseStatus>;
+  renderIllustrator?: (book: BibleBook, chapter: number) => ReactNode;
 }
 
 export function BookMenu() {
@@ -54,11 +63,21 @@ function BookMenuWithConvex() {
 
   const versesWithImages = new Set(versesImageStatus?.map((v) => v.verse) ?? []);
 
+  const illustration = useChapterIllustration();
+  const batchStatuses =
+    selectedBook && selectedChapter
+      ? batchVerseStatuses(illustration, selectedBook.slug, selectedChapter)
+      : undefined;
+
   return (
     <BookMenuBase
       booksWithImages={booksWithImages}
       chaptersWithImages={chaptersWithImages}
       versesWithImages={versesWithImages}
+      batchStatuses={batchStatuses}
+      renderIllustrator={(book, chapter) => (
+        <ChapterIllustrator book={book.slug} chapter={chapter} illustration={illustration} />
+      )}
       selectedBookState={[selectedBook, setSelectedBook]}
       selectedChapterState={[selectedChapter, setSelectedChapter]}
     />
@@ -74,6 +93,8 @@ function BookMenuBase({
   booksWithImages,
   chaptersWithImages,
   versesWithImages,
+  batchStatuses,
+  renderIllustrator,
   selectedBookState,
   selectedChapterState,
 }: BookMenuBasePropsWithState) {
@@ -318,9 +339,19 @@ function BookMenuBase({
 
           {view === "verses" && selectedBook && selectedChapter && (
             <div className="p-4">
-              <p className="text-sm text-[var(--muted)] mb-4">
-                Select a verse
-              </p>
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-sm text-[var(--muted)]">
+                  Select a verse
+                </p>
+                <Link
+                  href={`/${selectedBook.slug}/${selectedChapter}`}
+                  onClick={handleVerseSelect}
+                  className="text-sm text-[var(--accent)] hover:underline"
+                >
+                  Read whole chapter
+                </Link>
+              </div>
+              {renderIllustrator?.(selectedBook, selectedChapter)}
               <div className="grid grid-cols-6 sm:grid-cols-5 gap-1.5 sm:gap-2">
                 {Array.from(
                   { length: selectedBook.chapters[selectedChapter - 1] },
@@ -337,7 +368,13 @@ function BookMenuBase({
                       className={`w-2 h-2 rounded-full border border-[var(--background)]/30 mt-0.5 ${
                         versesWithImages.has(verse)
                           ? "bg-[var(--accent)]"
-                          : "bg-[var(--muted)]/30"
+                          : batchStatuses?.get(verse) === "generating"
+                            ? "bg-[var(--accent)] animate-pulse"
+                            : batchStatuses?.get(verse) === "failed"
+                              ? "bg-red-500"
+                              : batchStatuses?.get(verse) === "pending"
+                                ? "bg-[var(--accent)]/30"
+                                : "bg-[var(--muted)]/30"
                       }`}
                     />
                   </Link>
@@ -1,10 +1,29 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { X, Loader2, Check, Copy, Zap, ChevronDown, Shield, Sparkles, BookOpen, ArrowRight } from "lucide-react";
+import { X, Loader2, Check, Copy, Zap, ChevronDown, Gift, Shield, Sparkles, BookOpen, ArrowRight } from "lucide-react";
 import Image from "next/image";
 import QRCode from "qrcode";
+import { useQuery } from "convex/react";
 import { useSession } from "@/context/session-context";
+import { useConvexEnabled } from "@/components/convex-client-provider";
+import {
+  WalletConnectSettings,
+  WALLET_CONNECTED_STORAGE_KEY,
+  type WalletConnection,
+} from "@/components/wallet-connect-settings";
+import { api } from "../../convex/_generated/api";
+import {
+  bundleCredits,
+  resolveCreditPurchase,
+  CREDIT_BUNDLES,
+  CREDITS_PER_USD,
+  CUSTOM_BUNDLE_ID,
+  DEFAULT_BUNDLE_ID,
+  MAX_CUSTOM_USD,
+  MIN_CUSTOM_USD,
+} from "../../convex/creditBundles";
+import { SETTLEMENT_GRACE_MS } from "../../convex/paymentProviders";
 
 function CashAppLogo({ className }: { className?: string }) {
   return (
@@ -143,6 +162,7 @@ interface Invoice {
   amountUsd: number;
   amountSats: number;
   expiresAt: number;
+  bundleId: string;
   credits: number;
 }
 
@@ -150,6 +170,7 @@ type ModalState = "welcome" | "selection" | "loading" | "invoice" | "success" |
 
 export function BuyCreditsModal() {
   const { isBuyModalOpen, closeBuyModal, refetch, credits } = useSession();
+  const isConvexEnabled = useConvexEnabled();
   const [state, setState] = useState<ModalState>("welcome");
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -159,22 +180,54 @@ export function BuyCreditsModal() {
   const prevModalOpenRef = useRef(false);
   const hasSeenWelcomeRef = useRef(false);
 
+  // Bundle selection; customUsd is the text of the custom amount input
+  const [bundleId, setBundleId] = useState(DEFAULT_BUNDLE_ID);
+  const [customUsd, setCustomUsd] = useState("5");
+  const purchase = resolveCreditPurchase(
+    bundleId,
+    bundleId === CUSTOM_BUNDLE_ID ? Number(customUsd) : undefined
+  );
+  const purchaseBody = purchase
+    ? JSON.stringify({
+        bundleId: purchase.bundleId,
+        ...(purchase.bundleId === CUSTOM_BUNDLE_ID && { customUsd: purchase.amountUsd }),
+      })
+    : null;
+
   // Admin login state
   const [showAdminInput, setShowAdminInput] = useState(false);
   const [adminPassword, setAdminPassword] = useState("");
   const [adminError, setAdminError] = useState<string | null>(null);
   const [adminSubmitting, setAdminSubmitting] = useState(false);
 
+  // Gift code redemption state
+  const [showGiftCodeInput, setShowGiftCodeInput] = useState(false);
+  const [giftCode, setGiftCode] = useState("");
+  const [giftCodeError, setGiftCodeError] = useState<string | null>(null);
+  const [giftCodeCredits, setGiftCodeCredits] = useState<number | null>(null);
+  const [giftCodeSubmitting, setGiftCodeSubmitting] = useState(false);
+
+  // Connected Nostr Wallet Connect wallet; pays new invoices within its budget
+  const [wallet, setWallet] = useState<WalletConnection | null>(null);
+  const [walletPayment, setWalletPayment] = useState<"idle" | "paying" | "failed">("idle");
+  const [walletError, setWalletError] = useState<string | null>(null);
+  const walletPaidInvoiceRef = useRef<string | null>(null);
+
   /**
-   * Creates a new Lightning invoice for purchasing credits.
+   * Creates a new Lightning invoice for the selected credit bundle.
    * Memoized with useCallback to ensure stable reference for useEffect dependencies.
    */
   const createInvoice = useCallback(async () => {
+    if (!purchaseBody) return;
     setState("loading");
     setError(null);
 
     try {
-      const response = await fetch("/api/invoice", { method: "POST" });
+      const response = await fetch("/api/invoice", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: purchaseBody,
+      });
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error || "Failed to create invoice");
@@ -187,7 +240,7 @@ export function BuyCreditsModal() {
       setError(err instanceof Error ? err.message : "Failed to create invoice");
       setState("error");
     }
-  }, []);
+  }, [purchaseBody]);
 
   // When modal opens, check if we have a valid unexpired invoice
   useEffect(() => {
@@ -204,8 +257,8 @@ export function BuyCreditsModal() {
     if (!modalJustOpened) return;
 
     // Check invoice expiry once when modal opens
-    if (invoice && invoice.expiresAt > Date.now()) {
-      // Resume existing valid invoice
+    if (invoice && invoice.expiresAt + SETTLEMENT_GRACE_MS > Date.now()) {
+      // Resume existing invoice; past expiry it may still be confirmed during the grace period
       setState("invoice");
     } else {
       // Check if user has seen welcome before
@@ -221,6 +274,28 @@ export function BuyCreditsModal() {
     }
   }, [isBuyModalOpen, invoice]);
 
+  // Load the connected wallet when the modal opens
+  useEffect(() => {
+    if (!isBuyModalOpen) return;
+
+    let cancelled = false;
+    fetch("/api/wallet")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        if (data.wallet) {
+          localStorage.setItem(WALLET_CONNECTED_STORAGE_KEY, "true");
+        } else {
+          localStorage.removeItem(WALLET_CONNECTED_STORAGE_KEY);
+        }
+        setWallet(data.wallet);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [isBuyModalOpen]);
+
   // Reset state when modal closes (preserve invoice for persistence)
   useEffect(() => {
     if (!isBuyModalOpen) {
@@ -228,6 +303,10 @@ export function BuyCreditsModal() {
       setShowAdminInput(false);
       setAdminPassword("");
       setAdminError(null);
+      setShowGiftCodeInput(false);
+      setGiftCode("");
+      setGiftCodeError(null);
+      setGiftCodeCredits(null);
     }
   }, [isBuyModalOpen]);
 
@@ -272,6 +351,49 @@ export function BuyCreditsModal() {
     }
   };
 
+  const handleRedeemGiftCode = async () => {
+    if (!giftCode.trim()) {
+      setGiftCodeError("Please enter a gift code");
+      return;
+    }
+
+    setGiftCodeSubmitting(true);
+    setGiftCodeError(null);
+    setGiftCodeCredits(null);
+
+    // Read CSRF token from cookie
+    const csrfToken = document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1];
+
+    try {
+      const response = await fetch("/api/redeem", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ code: giftCode }),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        setGiftCodeError(data?.error || "Failed to redeem gift code");
+        return;
+      }
+
+      setGiftCode("");
+      setGiftCodeCredits(data.creditsAdded);
+      // Refetch rather than set credits: redeeming can upgrade the tier too
+      await refetch();
+    } catch {
+      setGiftCodeError("Failed to redeem gift code");
+    } finally {
+      setGiftCodeSubmitting(false);
+    }
+  };
+
   const handleAdminKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !adminSubmitting) {
       handleAdminLogin();
@@ -295,30 +417,74 @@ export function BuyCreditsModal() {
     }
   }, [invoice?.bolt11]);
 
-  // Poll for payment status
-  useEffect(() => {
-    if (state !== "invoice" || !invoice) return;
+  // Payment status arrives through the Convex subscription in InvoiceStatusWatcher
+  const handleInvoiceStatus = useCallback(
+    (status: string) => {
+      if (status === "paid") {
+        setState("success");
+        // Refetch session to update credits
+        refetch();
+      } else if (status === "expired" || status === "failed") {
+        setError("Invoice expired. Please try again.");
+        setState("error");
+      }
+    },
+    [refetch]
+  );
 
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/invoice/${invoice.invoiceId}`);
-        if (!response.ok) return;
+  /**
+   * Pays the invoice from the connected wallet. The wallet returns the
+   * preimage, so a successful payment is confirmed without waiting for the
+   * settlement subscription.
+   */
+  const payWithWallet = useCallback(
+    async (invoiceId: string) => {
+      setWalletPayment("paying");
+      setWalletError(null);
 
-        const data = await response.json();
-        if (data.status === "paid") {
-          setState("success");
-          // Refetch session to update credits
-          await refetch();
-          clearInterval(pollInterval);
-        } else if (data.status === "expired" || data.status === "failed") {
-          setError("Invoice expired. Please try again.");
-          setState("error");
-          clearInterval(pollInterval);
+      // Read CSRF token from cookie
+      const csrfToken = document.cookie
+        .split("; ")
+        .find((row) => row.startsWith("visibible_csrf="))
+        ?.split("=")[1];
+
+      try {
+        const response = await fetch(`/api/invoice/${invoiceId}/wallet`, {
+          method: "POST",
+          headers: { "x-csrf-token": csrfToken || "" },
+        });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !data?.success) {
+          setWalletError(data?.error || "Your wallet couldn't pay this invoice");
+          setWalletPayment("failed");
+          return;
         }
+        setWalletPayment("idle");
+        handleInvoiceStatus("paid");
       } catch {
-        // Ignore polling errors
+        setWalletError("Your wallet couldn't pay this invoice");
+        setWalletPayment("failed");
       }
-    }, 3000);
+    },
+    [handleInvoiceStatus]
+  );
+
+  // Try the wallet once per invoice that fits its budget; the QR stays as a fallback
+  useEffect(() => {
+    if (state !== "invoice" || !invoice || !wallet) return;
+    if (walletPaidInvoiceRef.current === invoice.invoiceId) return;
+    // A resumed invoice may be past expiry, in its grace period
+    if (invoice.amountUsd > wallet.budgetUsd || invoice.expiresAt <= Date.now()) return;
+
+    walletPaidInvoiceRef.current = invoice.invoiceId;
+    payWithWallet(invoice.invoiceId);
+  }, [state, invoice, wallet, payWithWallet]);
+
+  // Update the countdown. After expiry the subscription keeps watching through
+  // the settlement grace period, since a payment made just before expiry can
+  // still be confirmed; only then give up on the invoice.
+  useEffect(() => {
+    if (state !== "invoice" || !invoice) return;
 
     setTimeLeftMs(Math.max(0, invoice.expiresAt - Date.now()));
 
@@ -327,19 +493,17 @@ export function BuyCreditsModal() {
       if (!invoice) return;
       const remaining = invoice.expiresAt - Date.now();
       setTimeLeftMs(Math.max(0, remaining));
-      if (remaining <= 0) {
+      if (remaining + SETTLEMENT_GRACE_MS <= 0) {
         setError("Invoice expired. Please try again.");
         setState("error");
-        clearInterval(pollInterval);
         clearInterval(expirationCheck);
       }
     }, 1000);
 
     return () => {
-      clearInterval(pollInterval);
       clearInterval(expirationCheck);
     };
-  }, [state, invoice, refetch]);
+  }, [state, invoice]);
 
   const copyBolt11 = useCallback(async () => {
     if (!invoice) return;
@@ -379,6 +543,8 @@ export function BuyCreditsModal() {
   };
 
   const handleCancelInvoice = () => {
+    setWalletPayment("idle");
+    setWalletError(null);
     setState("selection");
     setInvoice(null);
     setQrDataUrl("");
@@ -516,14 +682,73 @@ export function BuyCreditsModal() {
                 </div>
               )}
 
-              {/* Package info */}
-              <div className="text-center py-6 bg-[var(--surface)] rounded-[var(--radius-md)]">
-                <p className="text-3xl font-bold text-[var(--foreground)]">
-                  300 credits
-                </p>
-                <p className="text-[var(--muted)] mt-1">$3 USD</p>
+              {/* Bundles */}
+              <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Credit bundle">
+                {CREDIT_BUNDLES.map((bundle) => (
+                  <button
+                    key={bundle.id}
+                    role="radio"
+                    aria-checked={bundleId === bundle.id}
+                    onClick={() => setBundleId(bundle.id)}
+                    className={`py-3 px-2 text-center rounded-[var(--radius-md)] border transition-colors ${
+                      bundleId === bundle.id
+                        ? "border-[var(--accent)] bg-[var(--accent)]/10"
+                        : "border-transparent bg-[var(--surface)] hover:bg-[var(--divider)]"
+                    }`}
+                  >
+                    <p className="text-lg font-bold text-[var(--foreground)]">
+                      {bundleCredits(bundle).toLocaleString()} credits
+                    </p>
+                    <p className="text-sm text-[var(--muted)]">${bundle.amountUsd} USD</p>
+                    {bundle.bonusCredits > 0 && (
+                      <p className="text-xs font-medium text-[var(--accent)] mt-0.5">
+                        +{bundle.bonusCredits.toLocaleString()} bonus
+                      </p>
+                    )}
+                  </button>
+                ))}
+                <button
+                  role="radio"
+                  aria-checked={bundleId === CUSTOM_BUNDLE_ID}
+                  onClick={() => setBundleId(CUSTOM_BUNDLE_ID)}
+                  className={`py-3 px-2 text-center rounded-[var(--radius-md)] border transition-colors ${
+                    bundleId === CUSTOM_BUNDLE_ID
+                      ? "border-[var(--accent)] bg-[var(--accent)]/10"
+                      : "border-transparent bg-[var(--surface)] hover:bg-[var(--divider)]"
+                  }`}
+                >
+                  <p className="text-lg font-bold text-[var(--foreground)]">Custom</p>
+                  <p className="text-sm text-[var(--muted)]">
+                    ${MIN_CUSTOM_USD}–${MAX_CUSTOM_USD} USD
+                  </p>
+                </button>
               </div>
 
+              {bundleId === CUSTOM_BUNDLE_ID && (
+                <div className="space-y-1">
+                  <label className="flex items-center gap-2 px-4 py-2 bg-[var(--surface)] rounded-[var(--radius-md)]">
+                    <span className="text-sm text-[var(--muted)]">$</span>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={MIN_CUSTOM_USD}
+                      max={MAX_CUSTOM_USD}
+                      step={1}
+                      value={customUsd}
+                      onChange={(e) => setCustomUsd(e.target.value)}
+                      className="flex-1 bg-transparent text-[var(--foreground)] focus:outline-none"
+                      aria-label="Custom amount in USD"
+                    />
+                    <span className="text-sm text-[var(--muted)]">USD</span>
+                  </label>
+                  <p className={`text-xs ${purchase ? "text-[var(--muted)]" : "text-[var(--error)]"}`}>
+                    {purchase
+                      ? `${CREDITS_PER_USD} credits per dollar, no bonus`
+                      : `Enter whole dollars from $${MIN_CUSTOM_USD} to $${MAX_CUSTOM_USD}`}
+                  </p>
+                </div>
+              )}
+
               {/* Payment methods info */}
               <div className="flex flex-col items-center gap-3 py-3">
                 <p className="text-sm text-[var(--muted)]">Pay with</p>
@@ -556,11 +781,66 @@ export function BuyCreditsModal() {
               {/* Buy button */}
               <button
                 onClick={createInvoice}
-                className="w-full py-3 bg-[var(--accent)] text-[var(--accent-text)] rounded-[var(--radius-full)] font-medium hover:bg-[var(--accent-hover)] transition-colors"
+                disabled={!purchase}
+                className="w-full py-3 bg-[var(--accent)] text-[var(--accent-text)] rounded-[var(--radius-full)] font-medium hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
               >
-                Buy 300 Credits
+                {purchase ? `Buy ${purchase.credits.toLocaleString()} Credits` : "Buy Credits"}
               </button>
 
+              <WalletConnectSettings wallet={wallet} onChange={setWallet} />
+
+              {/* Gift code */}
+              <div className="pt-4 border-t border-[var(--divider)]">
+                <button
+                  onClick={() => setShowGiftCodeInput(!showGiftCodeInput)}
+                  className="flex items-center justify-center gap-2 w-full py-2 text-sm text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+                >
+                  <Gift size={14} />
+                  <span>Have a gift code?</span>
+                  <ChevronDown
+                    size={14}
+                    className={`transition-transform ${showGiftCodeInput ? "rotate-180" : ""}`}
+                  />
+                </button>
+
+                {showGiftCodeInput && (
+                  <div className="mt-3 space-y-3">
+                    <input
+                      type="text"
+                      value={giftCode}
+                      onChange={(e) => setGiftCode(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !giftCodeSubmitting) handleRedeemGiftCode();
+                      }}
+                      placeholder="XXXX-XXXX-XXXX"
+                      autoComplete="off"
+                      className="w-full px-4 py-3 bg-[var(--surface)] border border-[var(--divider)] rounded-[var(--radius-md)] font-mono uppercase text-[var(--foreground)] placeholder:text-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                      aria-label="Gift code"
+                      disabled={giftCodeSubmitting}
+                    />
+                    {giftCodeError && (
+                      <p className="text-sm text-[var(--error)]">{giftCodeError}</p>
+                    )}
+                    {giftCodeCredits !== null && (
+                      <p className="text-sm text-[var(--success)]">
+                        Added {giftCodeCredits.toLocaleString()} credits
+                      </p>
+                    )}
+                    <button
+                      onClick={handleRedeemGiftCode}
+                      disabled={giftCodeSubmitting}
+                      className="w-full py-2 bg-[var(--surface)] text-[var(--foreground)] rounded-[var(--radius-md)] font-medium hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+                    >
+                      {giftCodeSubmitting ? (
+                        <Loader2 size={18} className="animate-spin mx-auto" />
+                      ) : (
+                        "Redeem"
+                      )}
+                    </button>
+                  </div>
+                )}
+              </div>
+
               {/* Admin Access */}
               <div className="pt-4 border-t border-[var(--divider)]">
                 <button
@@ -616,6 +896,9 @@ export function BuyCreditsModal() {
 
         {state === "invoice" && invoice && (
           <div className="space-y-4">
+            {isConvexEnabled && (
+              <InvoiceStatusWatcher invoiceId={invoice.invoiceId} onStatus={handleInvoiceStatus} />
+            )}
             {/* Price display */}
             <div className="text-center py-4 bg-[var(--surface)] rounded-[var(--radius-md)]">
               <p className="text-3xl font-bold text-[var(--foreground)]">
@@ -686,11 +969,29 @@ export function BuyCreditsModal() {
             <div className="flex items-center justify-center gap-2 py-2">
               <Loader2 size={16} className="animate-spin text-[var(--muted)]" />
               <p className="text-sm text-[var(--muted)]">
-                Waiting for payment...
+                {walletPayment === "paying" ? "Paying with your wallet..." : "Waiting for payment..."}
               </p>
             </div>
+            {walletPayment === "failed" && invoice && (
+              <div className="text-center space-y-1">
+                <p className="text-sm text-[var(--error)]">{walletError}</p>
+                <button
+                  onClick={() => payWithWallet(invoice.invoiceId)}
+                  className="text-sm text-[var(--accent)] hover:underline"
+                >
+                  Try wallet again
+                </button>
+              </div>
+            )}
+            {wallet && invoice.amountUsd > wallet.budgetUsd && (
+              <p className="text-xs text-center text-[var(--muted)]">
+                Over your ${wallet.budgetUsd} wallet budget, so pay by QR or invoice instead.
+              </p>
+            )}
             <p className="text-xs text-center text-[var(--muted)]">
-              Expires in {formatTimeLeft(timeLeftMs)}
+              {timeLeftMs > 0
+                ? `Expires in ${formatTimeLeft(timeLeftMs)}`
+                : "Invoice expired. Still checking for a payment made just before it did..."}
             </p>
 
             {/* Cancel and go back */}
@@ -712,7 +1013,7 @@ export function BuyCreditsModal() {
               Payment Received!
             </h3>
             <p className="text-[var(--muted)] mt-1">
-              {invoice?.credits ?? 300} credits added to your account
+              {invoice?.credits.toLocaleString()} credits added to your account
             </p>
             <button
               onClick={handleClose}
@@ -747,6 +1048,28 @@ export function BuyCreditsModal() {
   );
 }
 
+/**
+ * Follows an invoice's status through Convex. The settlement worker marks
+ * the invoice paid once the payment provider reports it settled, so no
+ * polling is needed.
+ */
+function InvoiceStatusWatcher({
+  invoiceId,
+  onStatus,
+}: {
+  invoiceId: string;
+  onStatus: (status: string) => void;
+}) {
+  const invoiceStatus = useQuery(api.invoices.getInvoiceStatus, { invoiceId });
+  const status = invoiceStatus?.status;
+
+  useEffect(() => {
+    if (status) onStatus(status);
+  }, [status, onStatus]);
+
+  return null;
+}
+
 function formatTimeLeft(ms: number) {
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
   const hours = Math.floor(totalSeconds / 3600);
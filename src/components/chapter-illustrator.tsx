@@ -0,0 +1,359 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Sparkles, Square } from "lucide-react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useSession } from "@/context/session-context";
+import { usePreferences } from "@/context/preferences-context";
+
+export type BatchVerseStatus = "pending" | "generating" | "done" | "failed";
+
+interface ChapterQuote {
+  missingVerses: number[];
+  perVerseCredits: number;
+  estimatedPerVerseCredits: number;
+  totalCredits: number;
+}
+
+interface ActiveBatch {
+  batchId: Id<"imageBatches">;
+  minIntervalMs: number;
+}
+
+// Survives page navigation so a running batch keeps going on the next page
+const STORAGE_KEY = "visibible_image_batch";
+// Matches the generate-image rate limit when a resumed batch has no interval stored
+const DEFAULT_MIN_INTERVAL_MS = 12_000;
+
+function loadActiveBatch(): ActiveBatch | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<ActiveBatch>;
+    if (!parsed.batchId) return null;
+    return {
+      batchId: parsed.batchId,
+      minIntervalMs: parsed.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function saveActiveBatch(batch: ActiveBatch | null) {
+  try {
+    if (batch) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(batch));
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Ignore sessionStorage errors
+  }
+}
+
+/**
+ * Runs the session's "illustrate this chapter" batch: starts each pending
+ * verse through /api/generate-image once the previous one finishes, no faster
+ * than the rate limit allows, and follows progress through Convex.
+ */
+export function useChapterIllustration() {
+  const { refetch: refetchSession, updateCredits } = useSession();
+  const [activeBatch, setActiveBatch] = useState<ActiveBatch | null>(loadActiveBatch);
+  const [runnerError, setRunnerError] = useState<string | null>(null);
+  // Bumped to retry a verse start after a rate limit or lost race
+  const [attempt, setAttempt] = useState(0);
+  const nextStartAtRef = useRef(0);
+  const isStartingRef = useRef(false);
+
+  const batch = useQuery(
+    api.imageBatches.getImageBatch,
+    activeBatch ? { batchId: activeBatch.batchId } : "skip"
+  );
+
+  const begin = useCallback(
+    (batchId: Id<"imageBatches">, minIntervalMs: number, credits?: number) => {
+      const next = { batchId, minIntervalMs };
+      saveActiveBatch(next);
+      setActiveBatch(next);
+      setRunnerError(null);
+      nextStartAtRef.current = 0;
+      if (credits !== undefined) updateCredits(credits);
+    },
+    [updateCredits]
+  );
+
+  const stop = useCallback(async () => {
+    if (!activeBatch) return;
+    const params = new URLSearchParams({ batchId: activeBatch.batchId });
+    await fetch(`/api/illustrate-chapter?${params}`, { method: "DELETE" }).catch(() => {});
+  }, [activeBatch]);
+
+  const dismiss = useCallback(() => {
+    saveActiveBatch(null);
+    setActiveBatch(null);
+    setRunnerError(null);
+  }, []);
+
+  const resume = useCallback(() => {
+    setRunnerError(null);
+  }, []);
+
+  // The batch was deleted or belongs to an older session
+  useEffect(() => {
+    if (activeBatch && batch === null) {
+      saveActiveBatch(null);
+      setActiveBatch(null);
+    }
+  }, [activeBatch, batch]);
+
+  // Settlement converts the reservation and refunds the rest
+  const isSettled = batch?.status === "settled";
+  useEffect(() => {
+    if (isSettled) refetchSession();
+  }, [isSettled, refetchSession]);
+
+  // Start the next verse once nothing is generating
+  useEffect(() => {
+    if (!activeBatch || !batch || batch.status !== "running" || runnerError) return;
+    if (batch.verses.some((v) => v.status === "generating")) return;
+    if (!batch.verses.some((v) => v.status === "pending")) return;
+    if (isStartingRef.current) return;
+
+    const delay = Math.max(0, nextStartAtRef.current - Date.now());
+    const timer = setTimeout(async () => {
+      isStartingRef.current = true;
+      nextStartAtRef.current = Date.now() + activeBatch.minIntervalMs;
+      try {
+        const response = await fetch("/api/generate-image", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ batchId: activeBatch.batchId }),
+        });
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get("Retry-After")) || 60;
+          nextStartAtRef.current = Date.now() + retryAfter * 1000;
+          setAttempt((n) => n + 1);
+        } else if (response.status === 409) {
+          // Another tab claimed the verse, or the batch just finished
+          setAttempt((n) => n + 1);
+        } else if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          setRunnerError(data?.error || "Failed to start the next verse");
+        }
+      } catch {
+        setRunnerError("Network error");
+      } finally {
+        isStartingRef.current = false;
+      }
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [activeBatch, batch, runnerError, attempt]);
+
+  return { batch: batch ?? null, runnerError, begin, stop, dismiss, resume };
+}
+
+export type ChapterIllustration = ReturnType<typeof useChapterIllustration>;
+
+/**
+ * Per-verse batch status for a chapter, for the verse grid.
+ */
+export function batchVerseStatuses(
+  illustration: ChapterIllustration,
+  book: string,
+  chapter: number
+): Map<number, BatchVerseStatus> {
+  const { batch } = illustration;
+  if (!batch || batch.book !== book || batch.chapter !== chapter) return new Map();
+  return new Map(batch.verses.map((v) => [v.verse, v.status]));
+}
+
+function formatCredits(credits: number): string {
+  return credits.toLocaleString();
+}
+
+/**
+ * "Illustrate this chapter" panel: quotes the missing verses, reserves the
+ * total once, then shows progress of the running batch.
+ */
+export function ChapterIllustrator({
+  book,
+  chapter,
+  illustration,
+}: {
+  book: string;
+  chapter: number;
+  illustration: ChapterIllustration;
+}) {
+  const { tier, credits, buyCredits } = useSession();
+  const { imageModel, imageStyle, imageAspectRatio, imageResolution, translation } =
+    usePreferences();
+  const [quote, setQuote] = useState<ChapterQuote | null>(null);
+  const [isAvailable, setIsAvailable] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { batch, runnerError, begin, stop, dismiss, resume } = illustration;
+  const isOtherChapter = batch && (batch.book !== book || batch.chapter !== chapter);
+  const isRunning = batch?.status === "running";
+
+  // Re-quote whenever the chapter or image settings change
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({
+      book,
+      chapter: String(chapter),
+      model: imageModel,
+      resolution: imageResolution,
+    });
+    fetch(`/api/illustrate-chapter?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        if (response.status === 403 || response.status === 503) {
+          setIsAvailable(false);
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.message || data.error || "Failed to price chapter");
+          return;
+        }
+        setIsAvailable(true);
+        setError(null);
+        setQuote(data);
+      })
+      .catch(() => {});
+    return () => controller.abort();
+  }, [book, chapter, imageModel, imageResolution, batch?.status]);
+
+  const handleStart = async () => {
+    if (!quote) return;
+    if (tier !== "admin" && credits < quote.totalCredits) {
+      buyCredits();
+      return;
+    }
+
+    setIsStarting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/illustrate-chapter", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          book,
+          chapter,
+          model: imageModel,
+          style: imageStyle,
+          aspectRatio: imageAspectRatio,
+          resolution: imageResolution,
+          translationId: translation,
+        }),
+      });
+      const data = await response.json();
+      if (response.status === 402) {
+        buyCredits();
+        return;
+      }
+      if (!response.ok) {
+        setError(data.message || data.error || "Failed to start");
+        return;
+      }
+      begin(data.batchId, data.minIntervalMs, data.credits);
+    } catch {
+      setError("Network error");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!isAvailable) return null;
+
+  // Progress of this chapter's batch
+  if (batch && !isOtherChapter) {
+    const total = batch.verses.length;
+    const done = batch.verses.filter((v) => v.status === "done").length;
+    const failed = batch.verses.filter((v) => v.status === "failed").length;
+
+    return (
+      <div className="mb-4 p-3 rounded-lg bg-[var(--surface)] text-sm">
+        <div className="flex items-center gap-2">
+          {isRunning && !runnerError ? (
+            <Loader2 size={14} className="animate-spin text-[var(--accent)]" />
+          ) : (
+            <Sparkles size={14} className="text-[var(--accent)]" />
+          )}
+          <span className="flex-1">
+            {done}/{total} illustrated
+            {failed > 0 && <span className="text-[var(--muted)]"> · {failed} failed</span>}
+          </span>
+          {isRunning ? (
+            <button
+              onClick={stop}
+              className="flex items-center gap-1 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+              title="Stop after the current verse"
+            >
+              <Square size={12} />
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={dismiss}
+              className="text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
+        <div className="mt-2 h-1 rounded-full bg-[var(--divider)] overflow-hidden">
+          <div
+            className="h-full bg-[var(--accent)] transition-all"
+            style={{ width: `${total > 0 ? ((done + failed) / total) * 100 : 0}%` }}
+          />
+        </div>
+        {runnerError && isRunning && (
+          <p className="mt-2 text-xs text-red-500">
+            Paused: {runnerError}{" "}
+            <button onClick={resume} className="underline">
+              Resume
+            </button>
+          </p>
+        )}
+        {!isRunning && failed > 0 && (
+          <p className="mt-2 text-xs text-[var(--muted)]">
+            Credits for failed verses were refunded.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  if (!quote || quote.missingVerses.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-3 rounded-lg bg-[var(--surface)] text-sm">
+      <button
+        onClick={handleStart}
+        disabled={isStarting || Boolean(isOtherChapter && isRunning)}
+        className="w-full flex items-center justify-center gap-2 min-h-[36px] rounded-md bg-[var(--accent)] text-[var(--accent-text)] hover:bg-[var(--accent-hover)] disabled:opacity-50 transition-colors"
+      >
+        {isStarting ? (
+          <Loader2 size={14} className="animate-spin" />
+        ) : (
+          <Sparkles size={14} />
+        )}
+        Illustrate this chapter
+      </button>
+      <p className="mt-2 text-xs text-[var(--muted)] text-center">
+        {quote.missingVerses.length} verse{quote.missingVerses.length === 1 ? "" : "s"} without
+        images · up to {formatCredits(quote.totalCredits)} credits
+      </p>
+      {isOtherChapter && isRunning && (
+        <p className="mt-1 text-xs text-[var(--muted)] text-center">
+          Another chapter is being illustrated.
+        </p>
+      )}
+      {error && <p className="mt-1 text-xs text-red-500 text-center">{error}</p>}
+    </div>
+  );
+}
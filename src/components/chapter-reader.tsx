@@ -0,0 +1,168 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import { useConvexEnabled } from "@/components/convex-client-provider";
+
+interface Verse {
+  number: number;
+  text: string;
+}
+
+interface ChapterReaderProps {
+  /** Book slug, used for verse links */
+  book: string;
+  bookName: string;
+  chapter: number;
+  verses: Verse[];
+  prevUrl: string | null;
+  nextUrl: string | null;
+}
+
+interface VerseThumbnail {
+  verse: number;
+  imageCount: number;
+  thumbnailUrl: string | null;
+}
+
+interface ChapterReaderBaseProps extends ChapterReaderProps {
+  imageStatus: VerseThumbnail[] | null | undefined;
+}
+
+export function ChapterReader(props: ChapterReaderProps) {
+  const isConvexEnabled = useConvexEnabled();
+
+  if (!isConvexEnabled) {
+    return <ChapterReaderBase {...props} imageStatus={null} />;
+  }
+
+  return <ChapterReaderWithConvex {...props} />;
+}
+
+function ChapterReaderWithConvex(props: ChapterReaderProps) {
+  const { book, chapter } = props;
+
+  const imageStatus = useQuery(api.verseImages.getChapterImageStatus, {
+    book,
+    chapter,
+    includeThumbnails: true,
+  }) as VerseThumbnail[] | undefined;
+
+  return <ChapterReaderBase {...props} imageStatus={imageStatus} />;
+}
+
+function ChapterNav({ prevUrl, nextUrl, label }: { prevUrl: string | null; nextUrl: string | null; label: string }) {
+  return (
+    <nav className="flex items-center">
+      <div className="flex-1 flex justify-start">
+        {prevUrl ? (
+          <Link
+            href={prevUrl}
+            className="flex items-center gap-2 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)] min-h-[44px] px-3 -ml-3"
+            aria-label="Previous chapter"
+          >
+            <ChevronLeft size={20} strokeWidth={1.5} />
+            <span className="text-sm">Previous</span>
+          </Link>
+        ) : null}
+      </div>
+
+      <span className="text-[var(--muted)] text-sm">{label}</span>
+
+      <div className="flex-1 flex justify-end">
+        {nextUrl ? (
+          <Link
+            href={nextUrl}
+            className="flex items-center gap-2 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)] min-h-[44px] px-3 -mr-3"
+            aria-label="Next chapter"
+          >
+            <span className="text-sm">Next</span>
+            <ChevronRight size={20} strokeWidth={1.5} />
+          </Link>
+        ) : null}
+      </div>
+    </nav>
+  );
+}
+
+/**
+ * Whole chapter as flowing text. Verse numbers link to the per-verse view;
+ * verses that already have an image show a small thumbnail marker.
+ */
+function ChapterReaderBase({
+  book,
+  bookName,
+  chapter,
+  verses,
+  prevUrl,
+  nextUrl,
+  imageStatus,
+}: ChapterReaderBaseProps) {
+  const thumbnails = new Map(imageStatus?.map((v) => [v.verse, v]) ?? []);
+  const illustratedCount = thumbnails.size;
+  const label = `${verses.length} verses`;
+
+  return (
+    <article className="px-4 md:px-6 py-6 mx-auto max-w-2xl">
+      <div className="mb-6 pb-4 border-b border-[var(--divider)]">
+        <ChapterNav prevUrl={prevUrl} nextUrl={nextUrl} label={label} />
+      </div>
+
+      <header className="mb-8 text-center">
+        <p className="text-[var(--muted)] text-sm uppercase tracking-widest mb-2">
+          {bookName}
+        </p>
+        <h1 className="text-4xl md:text-5xl font-light tracking-tight">
+          Chapter {chapter}
+        </h1>
+        {illustratedCount > 0 && (
+          <p className="mt-2 text-sm text-[var(--muted)]">
+            {illustratedCount} of {verses.length} verses illustrated
+          </p>
+        )}
+      </header>
+
+      <div className="leading-relaxed text-lg md:text-xl">
+        <p className="text-pretty">
+          {verses.map((verse) => {
+            const thumbnail = thumbnails.get(verse.number);
+            const verseUrl = `/${book}/${chapter}/${verse.number}`;
+            return (
+              <span key={verse.number} id={`v${verse.number}`} className="text-[var(--foreground)]">
+                <Link
+                  href={verseUrl}
+                  className="text-xs text-[var(--muted)] hover:text-[var(--accent)] align-super mr-1"
+                  aria-label={`Open ${bookName} ${chapter}:${verse.number}`}
+                >
+                  {verse.number}
+                </Link>
+                {thumbnail?.thumbnailUrl && (
+                  <Link
+                    href={verseUrl}
+                    className="inline-block align-middle mr-1.5"
+                    title={`${thumbnail.imageCount} image${thumbnail.imageCount === 1 ? "" : "s"}`}
+                  >
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={thumbnail.thumbnailUrl}
+                      alt=""
+                      loading="lazy"
+                      className="w-6 h-6 rounded-[var(--radius-sm)] object-cover border border-[var(--divider)]"
+                    />
+                  </Link>
+                )}
+                {verse.text}{" "}
+              </span>
+            );
+          })}
+        </p>
+      </div>
+
+      <div className="mt-12 pt-6 border-t border-[var(--divider)]">
+        <ChapterNav prevUrl={prevUrl} nextUrl={nextUrl} label={label} />
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Save, Sparkles, Trash2 } from "lucide-react";
+import { useSession } from "@/context/session-context";
+import { BIBLE_BOOKS } from "@/data/bible-structure";
+import { formatRelativeTime } from "@/lib/image-metadata";
+import { CHAPTER_THEME_FIELDS, ChapterTheme, MAX_THEME_FIELD_LENGTH } from "@/lib/chapter-themes";
+
+interface StoredTheme extends ChapterTheme {
+  chapter: number;
+  source: "admin" | "drafted";
+  draftModel?: string;
+  updatedAt: number;
+}
+
+const EMPTY_THEME: ChapterTheme = { setting: "", palette: "", elements: "", style: "" };
+
+const FIELD_LABELS: Record<keyof ChapterTheme, string> = {
+  setting: "Setting",
+  palette: "Palette",
+  elements: "Recurring elements",
+  style: "Style",
+};
+
+function getCsrfToken(): string {
+  return (
+    document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1] ?? ""
+  );
+}
+
+/**
+ * Admin editor for per-chapter visual themes. Themes can be written by hand
+ * or drafted from the chapter text, then saved to Convex. Image generation
+ * picks up a chapter's theme whenever the client sends none.
+ */
+export function ChapterThemeEditor() {
+  const { tier, isLoading: sessionLoading } = useSession();
+  const [book, setBook] = useState(BIBLE_BOOKS[0].slug);
+  const [chapter, setChapter] = useState(1);
+  const [themes, setThemes] = useState<StoredTheme[]>([]);
+  const [form, setForm] = useState<ChapterTheme>(EMPTY_THEME);
+  const [draftModel, setDraftModel] = useState<string | undefined>(undefined);
+  const [busy, setBusy] = useState<"load" | "draft" | "save" | "delete" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = tier === "admin";
+  const bookData = BIBLE_BOOKS.find((b) => b.slug === book) ?? BIBLE_BOOKS[0];
+  const stored = themes.find((theme) => theme.chapter === chapter);
+
+  const loadThemes = useCallback(async (bookSlug: string) => {
+    setBusy("load");
+    setError(null);
+    try {
+      const response = await fetch(`/api/chapter-themes?${new URLSearchParams({ book: bookSlug })}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to load chapter themes");
+        return;
+      }
+      setThemes(data?.themes ?? []);
+    } catch {
+      setError("Failed to load chapter themes");
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) loadThemes(book);
+  }, [isAdmin, book, loadThemes]);
+
+  // Show the stored theme when switching chapters
+  useEffect(() => {
+    setForm(stored ?? EMPTY_THEME);
+    setDraftModel(stored?.source === "drafted" ? stored.draftModel : undefined);
+  }, [stored]);
+
+  const draft = async () => {
+    setBusy("draft");
+    setError(null);
+    try {
+      const response = await fetch("/api/chapter-themes/draft", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-csrf-token": getCsrfToken() },
+        body: JSON.stringify({ book, chapter }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to draft theme");
+        return;
+      }
+      setForm(data.theme);
+      setDraftModel(data.model);
+    } catch {
+      setError("Failed to draft theme");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const save = async () => {
+    setBusy("save");
+    setError(null);
+    try {
+      const response = await fetch("/api/chapter-themes", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", "x-csrf-token": getCsrfToken() },
+        body: JSON.stringify({ book, chapter, ...form, draftModel }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.message || data?.error || "Failed to save theme");
+        return;
+      }
+      await loadThemes(book);
+    } catch {
+      setError("Failed to save theme");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async () => {
+    setBusy("delete");
+    setError(null);
+    try {
+      const params = new URLSearchParams({ book, chapter: String(chapter) });
+      const response = await fetch(`/api/chapter-themes?${params}`, {
+        method: "DELETE",
+        headers: { "x-csrf-token": getCsrfToken() },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error || "Failed to remove theme");
+        return;
+      }
+      await loadThemes(book);
+    } catch {
+      setError("Failed to remove theme");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (sessionLoading) {
+    return (
+      <div className="flex justify-center py-16 text-[var(--muted)]">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <p className="py-16 text-center text-sm text-[var(--muted)]">
+        Admin access required.
+      </p>
+    );
+  }
+
+  const isComplete = CHAPTER_THEME_FIELDS.every((field) => form[field].trim() !== "");
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 space-y-4">
+      <div>
+        <h1 className="text-xl font-semibold">Chapter themes</h1>
+        <p className="text-xs text-[var(--muted)]">
+          {themes.length} of {bookData.chapters.length} chapters in {bookData.name} have a theme
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={book}
+          onChange={(e) => {
+            setBook(e.target.value);
+            setChapter(1);
+          }}
+          className="flex-1 min-h-[36px] px-2 rounded-[var(--radius-sm)] bg-[var(--surface)] text-sm"
+          aria-label="Book"
+        >
+          {BIBLE_BOOKS.map((b) => (
+            <option key={b.slug} value={b.slug}>
+              {b.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={chapter}
+          onChange={(e) => setChapter(Number(e.target.value))}
+          className="w-24 min-h-[36px] px-2 rounded-[var(--radius-sm)] bg-[var(--surface)] text-sm"
+          aria-label="Chapter"
+        >
+          {bookData.chapters.map((_, index) => (
+            <option key={index + 1} value={index + 1}>
+              {index + 1}
+              {themes.some((theme) => theme.chapter === index + 1) ? " •" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-[var(--muted)]">
+        {stored
+          ? `${stored.source === "drafted" ? "Drafted" : "Written"} · updated ${formatRelativeTime(stored.updatedAt)}`
+          : "No theme yet. Images of this chapter use only the verse and style profile."}
+      </p>
+
+      <div className="space-y-3">
+        {CHAPTER_THEME_FIELDS.map((field) => (
+          <label key={field} className="block space-y-1">
+            <span className="text-xs font-medium text-[var(--muted)]">{FIELD_LABELS[field]}</span>
+            <textarea
+              value={form[field]}
+              onChange={(e) => setForm((current) => ({ ...current, [field]: e.target.value }))}
+              maxLength={MAX_THEME_FIELD_LENGTH}
+              rows={2}
+              className="w-full p-2 rounded-[var(--radius-sm)] border border-[var(--divider)] bg-[var(--background)] text-sm"
+            />
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={draft}
+          disabled={busy !== null}
+          className="min-h-[36px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs bg-[var(--surface)] hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+        >
+          {busy === "draft" ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+          Draft from chapter text
+        </button>
+        <button
+          onClick={save}
+          disabled={busy !== null || !isComplete}
+          className="min-h-[36px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs bg-[var(--accent)] text-[var(--accent-text)] hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+        >
+          {busy === "save" ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+          Save
+        </button>
+        {stored && (
+          <button
+            onClick={remove}
+            disabled={busy !== null}
+            className="min-h-[36px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs text-red-500 hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={12} />
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
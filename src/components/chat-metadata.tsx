@@ -12,6 +12,9 @@ export interface MessageMetadata {
   totalTokens?: number;
   finishReason?: string;
   latencyMs?: number;
+  creditsCharged?: number;
+  actualCredits?: number;
+  conversationId?: string; // Saved conversation this message belongs to
 }
 
 interface ConversationSummaryProps {
@@ -188,6 +191,12 @@ export function MessageMetadataDisplay({ metadata, modelPricing }: MessageMetada
         <span>{(metadata.totalTokens || 0).toLocaleString()} tokens</span>
         <span>•</span>
         <span>{metadata.latencyMs?.toLocaleString() || 0}ms</span>
+        {metadata.creditsCharged !== undefined && (
+          <>
+            <span>•</span>
+            <span>{formatCredits(metadata.creditsCharged)}</span>
+          </>
+        )}
         <ChevronDown size={12} className="ml-0.5 opacity-70" />
       </button>
     );
@@ -211,11 +220,18 @@ export function MessageMetadataDisplay({ metadata, modelPricing }: MessageMetada
         <MetadataRow label="Latency" value={`${(metadata.latencyMs || 0).toLocaleString()}ms`} />
         <MetadataRow label="Finish" value={metadata.finishReason || "unknown"} />
         {cost !== null && <MetadataRow label="Cost" value={formatCost(cost)} />}
+        {metadata.creditsCharged !== undefined && (
+          <MetadataRow label="Charged" value={formatCredits(metadata.creditsCharged)} />
+        )}
       </div>
     </div>
   );
 }
 
+function formatCredits(credits: number): string {
+  return `${credits} credit${credits === 1 ? "" : "s"}`;
+}
+
 // Helper component for detail rows in conversation summary
 function DetailRow({
   label,
@@ -5,6 +5,7 @@ import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useNavigation } from "@/context/navigation-context";
 import { useConvexEnabled } from "@/components/convex-client-provider";
+import { verseIdForReference } from "@/lib/reference-parser";
 import { Chat } from "./chat";
 import { Feedback, type ImageContext } from "./feedback";
 
@@ -13,13 +14,6 @@ import { Feedback, type ImageContext } from "./feedback";
  * - Desktop (md+): Fixed 384px width on right side
  * - Mobile: Full width overlay with backdrop
  */
-// Helper to create verse ID from reference
-function createVerseId(book: string, chapter: number, verseRange: string): string {
-  return `${book} ${chapter}:${verseRange}`
-    .toLowerCase()
-    .replace(/\s+/g, "-")
-    .replace(/:/g, "-");
-}
 
 export function ChatSidebar() {
   const { isChatOpen, closeChat, chatContext, sidebarTab, setSidebarTab, currentImageId } =
@@ -28,7 +22,7 @@ export function ChatSidebar() {
 
   // Build verse ID from chat context for image query
   const verseId = chatContext?.book && chatContext?.chapter && chatContext?.verseRange
-    ? createVerseId(chatContext.book, chatContext.chapter, chatContext.verseRange)
+    ? verseIdForReference(`${chatContext.book} ${chatContext.chapter}:${chatContext.verseRange}`)
     : null;
 
   // Query image history for current verse (only when Convex is enabled)
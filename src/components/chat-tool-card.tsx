@@ -0,0 +1,117 @@
+"use client";
+
+import { BookOpen, ChevronDown, Loader2 } from "lucide-react";
+
+// Tool call part as streamed by the AI SDK (type is "tool-<toolName>")
+export interface ToolPart {
+  type: string;
+  state?: string;
+  input?: unknown;
+  output?: unknown;
+  errorText?: string;
+}
+
+interface ToolVerse {
+  verse: number;
+  text: string;
+}
+
+interface ToolVerseResult {
+  translation?: string;
+  verses?: ToolVerse[];
+  truncated?: boolean;
+  error?: string;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  lookupPassage: "Looked up",
+  compareTranslations: "Compared translations of",
+  listChapterVerses: "Read chapter",
+};
+
+export function isToolPart(part: { type: string }): boolean {
+  return part.type.startsWith("tool-");
+}
+
+/**
+ * Short description of what the tool call asked for, e.g. "John 3:16".
+ */
+function describeInput(input: unknown): string {
+  if (!input || typeof input !== "object") return "";
+  const { reference, book, chapter } = input as {
+    reference?: string;
+    book?: string;
+    chapter?: number;
+  };
+  if (reference) return reference;
+  if (book) return chapter ? `${book} ${chapter}` : book;
+  return "";
+}
+
+function VerseList({ result }: { result: ToolVerseResult }) {
+  if (result.error) {
+    return <p className="text-[var(--muted)]">{result.error}</p>;
+  }
+  return (
+    <div className="space-y-1">
+      {result.verses?.map((verse) => (
+        <p key={verse.verse}>
+          <sup className="text-[var(--muted)] mr-1">{verse.verse}</sup>
+          {verse.text}
+        </p>
+      ))}
+      {result.truncated && <p className="text-[var(--muted)] italic">Remaining verses omitted</p>}
+    </div>
+  );
+}
+
+/**
+ * Collapsible card for a scripture tool call inside an assistant message.
+ * Collapsed it shows what was looked up; expanded it shows the returned text.
+ */
+export function ChatToolCard({ part }: { part: ToolPart }) {
+  const toolName = part.type.slice("tool-".length);
+  const label = TOOL_LABELS[toolName] ?? toolName;
+  const target = describeInput(part.input);
+  const isRunning = part.state === "input-streaming" || part.state === "input-available";
+  const output = part.output as (ToolVerseResult & { results?: ToolVerseResult[] }) | undefined;
+
+  return (
+    <details className="group my-2 rounded-[var(--radius-md)] border border-[var(--divider)] text-xs">
+      <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer list-none text-[var(--muted)] hover:text-[var(--foreground)] transition-colors">
+        {isRunning ? (
+          <Loader2 size={12} className="animate-spin shrink-0" />
+        ) : (
+          <BookOpen size={12} className="shrink-0" />
+        )}
+        <span className="flex-1 truncate">
+          {label} {target}
+          {output?.translation ? ` (${output.translation})` : ""}
+        </span>
+        <ChevronDown
+          size={12}
+          className="shrink-0 transition-transform duration-[var(--motion-fast)] group-open:rotate-180"
+        />
+      </summary>
+
+      <div className="px-3 pb-3 max-h-64 overflow-y-auto text-[var(--foreground)]">
+        {part.state === "output-error" && (
+          <p className="text-[var(--muted)]">{part.errorText || "Lookup failed"}</p>
+        )}
+        {isRunning && <p className="text-[var(--muted)]">Looking up…</p>}
+        {output?.results ? (
+          <div className="space-y-3">
+            {output.results.map((result, i) => (
+              <div key={result.translation ?? i}>
+                <p className="font-medium mb-1">{result.translation}</p>
+                <VerseList result={result} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          output && <VerseList result={output} />
+        )}
+      </div>
+    </details>
+  );
+}
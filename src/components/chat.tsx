@@ -2,12 +2,16 @@
 
 import { useChat } from "@ai-sdk/react";
 import { useState, useMemo, useEffect, useRef, startTransition } from "react";
+import type { UIMessage } from "ai";
 import { ChevronUp, Loader2, Send, Zap } from "lucide-react";
 import { usePreferences } from "@/context/preferences-context";
 import { useSession } from "@/context/session-context";
 import { ChatModelSelector } from "./chat-model-selector";
 import { ConversationSummary, MessageMetadataDisplay, MessageMetadata } from "./chat-metadata";
 import { MarkdownRenderer } from "./markdown-renderer";
+import { ConversationList } from "./conversation-list";
+import { ChatToolCard, isToolPart, type ToolPart } from "./chat-tool-card";
+import { conversationVerseId } from "@/lib/reference-parser";
 
 type VerseContext = {
   number: number;
@@ -35,7 +39,23 @@ type ChatProps = {
 interface ChatMessage {
   id: string;
   role: "user" | "assistant" | "system";
-  parts: Array<{ type: string; text?: string }>;
+  parts: Array<ToolPart & { text?: string }>;
+  metadata?: MessageMetadata;
+}
+
+// Saved conversation shown in the chat, scoped to the chatId it was opened in.
+// id is null for a fresh conversation; key forces a new one on "New".
+interface ConversationSelection {
+  chatId: string;
+  id: string | null;
+  messages: ChatMessage[];
+  key: number;
+}
+
+interface SavedMessage {
+  id: string;
+  role: "user" | "assistant";
+  text: string;
   metadata?: MessageMetadata;
 }
 
@@ -76,7 +96,16 @@ export function Chat({ context, variant = "inline" }: ChatProps) {
     return `${variant}-${book}-${chapter}-${verseRange}`.toLowerCase();
   }, [context, variant]);
 
-  const { messages, sendMessage, status, error } = useChat({ id: chatId });
+  const [selection, setSelection] = useState<ConversationSelection | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const activeSelection = selection?.chatId === chatId ? selection : null;
+
+  const { messages, sendMessage, status, error } = useChat({
+    id: `${chatId}:${activeSelection?.id ?? `new-${activeSelection?.key ?? 0}`}`,
+    messages: activeSelection?.messages as UIMessage[] | undefined,
+    onFinish: () => setHistoryVersion((v) => v + 1),
+  });
   const [input, setInput] = useState("");
   const [isExpanded, setIsExpanded] = useState(false);
   const prevChatIdRef = useRef<string>(chatId);
@@ -87,10 +116,20 @@ export function Chat({ context, variant = "inline" }: ChatProps) {
   const isAdmin = tier === "admin";
   const canSend = isAdmin || credits >= 1;
 
-  // Include both context and model in request body
+  // Cast messages to include metadata
+  const typedMessages = messages as ChatMessage[];
+
+  // The server reports the saved conversation on each reply's metadata
+  const conversationId =
+    typedMessages.findLast((m) => m.metadata?.conversationId)?.metadata?.conversationId ??
+    activeSelection?.id ??
+    null;
+
+  // Include context, model and the conversation being continued in request body
   const requestBody = {
     ...(context ? { context } : {}),
     model: chatModel,
+    ...(conversationId ? { conversationId } : {}),
   };
 
   const isLoading = status === "streaming" || status === "submitted";
@@ -115,8 +154,42 @@ export function Chat({ context, variant = "inline" }: ChatProps) {
     setIsExpanded(true);
   };
 
-  // Cast messages to include metadata
-  const typedMessages = messages as ChatMessage[];
+  const startNewConversation = () => {
+    setHistoryError(null);
+    setSelection((current) => ({
+      chatId,
+      id: null,
+      messages: [],
+      key: (current?.key ?? 0) + 1,
+    }));
+  };
+
+  const resumeConversation = async (id: string) => {
+    if (id === conversationId || isLoading) return;
+    setHistoryError(null);
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.conversation) {
+        setHistoryError(data?.error || "Failed to load conversation");
+        return;
+      }
+      const saved: SavedMessage[] = data.conversation.messages;
+      setSelection((current) => ({
+        chatId,
+        id,
+        messages: saved.map((message) => ({
+          id: message.id,
+          role: message.role,
+          parts: [{ type: "text", text: message.text }],
+          metadata: message.metadata,
+        })),
+        key: current?.key ?? 0,
+      }));
+    } catch {
+      setHistoryError("Failed to load conversation");
+    }
+  };
 
   return (
     <section
@@ -126,10 +199,25 @@ export function Chat({ context, variant = "inline" }: ChatProps) {
           : "border-t border-[var(--divider)] bg-[var(--background)]"
       }
     >
+      {/* Saved conversations for this passage - sidebar only */}
+      {isSidebar && (
+        <ConversationList
+          verseId={conversationVerseId(context)}
+          activeConversationId={conversationId}
+          refreshKey={historyVersion}
+          onSelect={resumeConversation}
+          onNew={startNewConversation}
+        />
+      )}
+
       {/* Messages Area */}
       {isSidebar ? (
         // Sidebar: always visible, flex-1 to fill space
         <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+          {historyError && (
+            <p className="text-xs text-red-500">{historyError}</p>
+          )}
+
           {typedMessages.map((message) => (
             <div
               key={message.id}
@@ -147,6 +235,8 @@ export function Chat({ context, variant = "inline" }: ChatProps) {
                 {message.parts.map((part, i) =>
                   part.type === "text" && part.text ? (
                     <MarkdownRenderer key={i} content={part.text} />
+                  ) : isToolPart(part) ? (
+                    <ChatToolCard key={i} part={part} />
                   ) : null
                 )}
                 {message.role === "assistant" && (
@@ -212,6 +302,8 @@ export function Chat({ context, variant = "inline" }: ChatProps) {
                       {message.parts.map((part, i) =>
                         part.type === "text" && part.text ? (
                           <MarkdownRenderer key={i} content={part.text} />
+                        ) : isToolPart(part) ? (
+                          <ChatToolCard key={i} part={part} />
                         ) : null
                       )}
                       {message.role === "assistant" && (
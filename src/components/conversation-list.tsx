@@ -0,0 +1,261 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, ChevronDown, History, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { formatRelativeTime } from "@/lib/image-metadata";
+
+export interface ConversationSummaryItem {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface ConversationListProps {
+  verseId: string;
+  activeConversationId: string | null;
+  // Bumped by the chat whenever a reply finishes so new threads show up
+  refreshKey: number;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+}
+
+// Read CSRF token from cookie
+function getCsrfToken(): string {
+  return (
+    document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1] ?? ""
+  );
+}
+
+/**
+ * Collapsible list of the session's saved conversations for the current verse.
+ * Conversations can be resumed, renamed inline, or deleted.
+ */
+export function ConversationList({
+  verseId,
+  activeConversationId,
+  refreshKey,
+  onSelect,
+  onNew,
+}: ConversationListProps) {
+  const [conversations, setConversations] = useState<ConversationSummaryItem[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadConversations = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/conversations?verseId=${encodeURIComponent(verseId)}`
+      );
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to load conversations");
+        return;
+      }
+      setConversations(data?.conversations ?? []);
+    } catch {
+      setError("Failed to load conversations");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [verseId]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations, refreshKey]);
+
+  const startRename = (conversation: ConversationSummaryItem) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const saveRename = async (conversationId: string) => {
+    const title = draftTitle.trim();
+    if (!title) return;
+    setBusyId(conversationId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": getCsrfToken(),
+        },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to rename conversation");
+        return;
+      }
+      setConversations((list) =>
+        list.map((c) => (c.id === conversationId ? { ...c, title: data?.title ?? title } : c))
+      );
+      setEditingId(null);
+    } catch {
+      setError("Failed to rename conversation");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteConversation = async (conversation: ConversationSummaryItem) => {
+    if (!window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    setBusyId(conversation.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, {
+        method: "DELETE",
+        headers: { "x-csrf-token": getCsrfToken() },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error || "Failed to delete conversation");
+        return;
+      }
+      setConversations((list) => list.filter((c) => c.id !== conversation.id));
+      if (conversation.id === activeConversationId) onNew();
+    } catch {
+      setError("Failed to delete conversation");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="shrink-0 border-b border-[var(--divider)]">
+      <div className="flex items-center justify-between px-4">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="min-h-[44px] flex items-center gap-2 text-xs uppercase tracking-wider text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+          aria-expanded={isOpen}
+        >
+          <History size={14} strokeWidth={1.5} />
+          History{conversations.length > 0 ? ` (${conversations.length})` : ""}
+          <ChevronDown
+            size={14}
+            strokeWidth={1.5}
+            className={`transition-transform duration-[var(--motion-fast)] ${isOpen ? "rotate-180" : ""}`}
+          />
+        </button>
+        <button
+          onClick={onNew}
+          disabled={activeConversationId === null}
+          className="min-h-[44px] flex items-center gap-1 text-xs text-[var(--muted)] hover:text-[var(--foreground)] transition-colors disabled:opacity-50"
+          title="Start a new conversation"
+        >
+          <Plus size={14} strokeWidth={1.5} />
+          New
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-3 max-h-60 overflow-y-auto space-y-1">
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          {isLoading && conversations.length === 0 && (
+            <div className="flex justify-center py-2 text-[var(--muted)]">
+              <Loader2 size={16} className="animate-spin" />
+            </div>
+          )}
+
+          {!isLoading && conversations.length === 0 && !error && (
+            <p className="text-xs text-[var(--muted)] py-2">No saved conversations for this passage</p>
+          )}
+
+          {conversations.map((conversation) => {
+            const isActive = conversation.id === activeConversationId;
+            const isBusy = busyId === conversation.id;
+
+            if (editingId === conversation.id) {
+              return (
+                <form
+                  key={conversation.id}
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveRename(conversation.id);
+                  }}
+                  className="flex items-center gap-1"
+                >
+                  <input
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    maxLength={120}
+                    autoFocus
+                    aria-label="Conversation title"
+                    className="flex-1 min-h-[36px] px-2 text-sm bg-[var(--surface)] border border-[var(--divider)] rounded-[var(--radius-sm)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isBusy || !draftTitle.trim()}
+                    className="min-h-[36px] min-w-[36px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+                    aria-label="Save title"
+                  >
+                    {isBusy ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="min-h-[36px] min-w-[36px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)]"
+                    aria-label="Cancel rename"
+                  >
+                    <X size={14} />
+                  </button>
+                </form>
+              );
+            }
+
+            return (
+              <div
+                key={conversation.id}
+                className={`group flex items-center gap-1 rounded-[var(--radius-sm)] ${
+                  isActive ? "bg-[var(--surface)]" : "hover:bg-[var(--surface)]"
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  className="flex-1 min-w-0 min-h-[36px] px-2 text-left"
+                  aria-current={isActive ? "true" : undefined}
+                >
+                  <span className="block truncate text-sm">{conversation.title}</span>
+                  <span className="block text-[10px] text-[var(--muted)]">
+                    {conversation.messageCount} message{conversation.messageCount === 1 ? "" : "s"} ·{" "}
+                    {formatRelativeTime(conversation.updatedAt)}
+                  </span>
+                </button>
+                <button
+                  onClick={() => startRename(conversation)}
+                  disabled={busyId !== null}
+                  className="min-h-[36px] min-w-[36px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+                  aria-label={`Rename ${conversation.title}`}
+                  title="Rename"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={() => deleteConversation(conversation)}
+                  disabled={busyId !== null}
+                  className="min-h-[36px] min-w-[36px] flex items-center justify-center text-[var(--muted)] hover:text-red-500 disabled:opacity-50"
+                  aria-label={`Delete ${conversation.title}`}
+                  title="Delete"
+                >
+                  {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { Zap, Shield } from "lucide-react";
 import { useSession } from "@/context/session-context";
 
@@ -13,13 +14,17 @@ export function CreditsBadge() {
     );
   }
 
-  // Admin tier - show admin badge
+  // Admin tier - show admin badge, linking to the moderation queue
   if (tier === "admin") {
     return (
-      <div className="flex items-center gap-1.5 h-8 px-3 bg-[var(--accent)] text-[var(--accent-text)] rounded-[var(--radius-full)] text-sm font-medium">
+      <Link
+        href="/admin/moderation"
+        className="flex items-center gap-1.5 h-8 px-3 bg-[var(--accent)] text-[var(--accent-text)] rounded-[var(--radius-full)] text-sm font-medium"
+        title="Moderation queue"
+      >
         <Shield size={16} strokeWidth={2} />
         <span>Admin</span>
-      </div>
+      </Link>
     );
   }
 
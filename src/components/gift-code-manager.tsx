@@ -0,0 +1,243 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, Loader2, RefreshCw } from "lucide-react";
+import { useSession } from "@/context/session-context";
+
+interface GiftCode {
+  code: string;
+  credits: number;
+  maxRedemptions: number;
+  redemptionCount: number;
+  perSessionLimit?: number;
+  expiresAt: number;
+  note?: string;
+  createdAt: number;
+}
+
+/**
+ * Admin gift code tool: generates a batch of codes with shared credits,
+ * limits and expiry, and lists recent codes with their redemption counts.
+ */
+export function GiftCodeManager() {
+  const { tier, isLoading: sessionLoading } = useSession();
+  const [giftCodes, setGiftCodes] = useState<GiftCode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form fields hold input text; an empty per-session limit means one per session
+  const [credits, setCredits] = useState("300");
+  const [maxRedemptions, setMaxRedemptions] = useState("1");
+  const [perSessionLimit, setPerSessionLimit] = useState("1");
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [count, setCount] = useState("1");
+  const [note, setNote] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  const isAdmin = tier === "admin";
+
+  const loadGiftCodes = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/gift-codes");
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to load gift codes");
+        return;
+      }
+      setGiftCodes(data?.giftCodes ?? []);
+    } catch {
+      setError("Failed to load gift codes");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) loadGiftCodes();
+  }, [isAdmin, loadGiftCodes]);
+
+  const createGiftCodes = async () => {
+    setIsCreating(true);
+    setError(null);
+    setCopied(false);
+
+    // Read CSRF token from cookie
+    const csrfToken = document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1];
+
+    try {
+      const response = await fetch("/api/gift-codes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({
+          credits: Number(credits),
+          maxRedemptions: Number(maxRedemptions),
+          ...(perSessionLimit.trim() && { perSessionLimit: Number(perSessionLimit) }),
+          expiresInDays: Number(expiresInDays),
+          count: Number(count),
+          ...(note.trim() && { note: note.trim() }),
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.message || data?.error || "Failed to create gift codes");
+        return;
+      }
+      setNewCodes(data?.codes ?? []);
+      await loadGiftCodes();
+    } catch {
+      setError("Failed to create gift codes");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copyNewCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(newCodes.join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Ignore clipboard errors
+    }
+  };
+
+  if (sessionLoading) {
+    return (
+      <div className="flex justify-center py-16 text-[var(--muted)]">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <p className="py-16 text-center text-sm text-[var(--muted)]">
+        Admin access required.
+      </p>
+    );
+  }
+
+  const inputClassName =
+    "min-h-[36px] px-2 rounded-[var(--radius-sm)] bg-[var(--surface)] text-sm text-[var(--foreground)]";
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Gift codes</h1>
+          <p className="text-xs text-[var(--muted)]">Codes redeemable for credits from the buy credits dialog</p>
+        </div>
+        <button
+          onClick={loadGiftCodes}
+          disabled={isLoading}
+          className="ml-auto min-h-[44px] min-w-[44px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] transition-colors disabled:opacity-50"
+          aria-label="Refresh gift codes"
+          title="Refresh"
+        >
+          <RefreshCw size={18} strokeWidth={1.5} className={isLoading ? "animate-spin" : ""} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 p-3 rounded-[var(--radius-md)] border border-[var(--divider)]">
+        <label className="flex flex-col gap-1 text-xs text-[var(--muted)]">
+          Credits
+          <input type="number" min={1} step={1} value={credits} onChange={(e) => setCredits(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-[var(--muted)]">
+          Max redemptions
+          <input type="number" min={1} step={1} value={maxRedemptions} onChange={(e) => setMaxRedemptions(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-[var(--muted)]">
+          Per session
+          <input type="number" min={1} step={1} value={perSessionLimit} onChange={(e) => setPerSessionLimit(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-[var(--muted)]">
+          Expires in days
+          <input type="number" min={1} max={365} step={1} value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-[var(--muted)]">
+          Number of codes
+          <input type="number" min={1} max={100} step={1} value={count} onChange={(e) => setCount(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-[var(--muted)]">
+          Note
+          <input type="text" maxLength={100} value={note} onChange={(e) => setNote(e.target.value)} placeholder="Campaign or recipient" className={inputClassName} />
+        </label>
+        <button
+          onClick={createGiftCodes}
+          disabled={isCreating}
+          className="col-span-2 sm:col-span-3 min-h-[36px] inline-flex items-center justify-center gap-1 rounded-[var(--radius-sm)] text-sm bg-[var(--accent)] text-[var(--accent-text)] hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 size={14} className="animate-spin" /> : "Generate"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {newCodes.length > 0 && (
+        <div className="p-3 rounded-[var(--radius-md)] bg-[var(--surface)] space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-[var(--muted)]">
+              New code{newCodes.length === 1 ? "" : "s"}
+            </p>
+            <button
+              onClick={copyNewCodes}
+              className="inline-flex items-center gap-1 text-xs text-[var(--accent)] hover:underline"
+            >
+              {copied ? <Check size={12} /> : <Copy size={12} />}
+              {copied ? "Copied" : "Copy all"}
+            </button>
+          </div>
+          <pre className="text-sm font-mono whitespace-pre-wrap">{newCodes.join("\n")}</pre>
+        </div>
+      )}
+
+      {!isLoading && giftCodes.length === 0 && !error && (
+        <p className="py-8 text-center text-sm text-[var(--muted)]">No gift codes yet.</p>
+      )}
+
+      {giftCodes.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-[var(--muted)] border-b border-[var(--divider)]">
+              <th className="py-2 font-medium">Code</th>
+              <th className="py-2 font-medium text-right">Credits</th>
+              <th className="py-2 font-medium text-right">Redeemed</th>
+              <th className="py-2 font-medium text-right">Expires</th>
+            </tr>
+          </thead>
+          <tbody>
+            {giftCodes.map((giftCode) => (
+              <tr key={giftCode.code} className="border-b border-[var(--divider)] align-top">
+                <td className="py-2">
+                  <div className="font-mono">{giftCode.code}</div>
+                  <div className="text-xs text-[var(--muted)]">
+                    {giftCode.perSessionLimit ? `${giftCode.perSessionLimit} per session` : "No per-session limit"}
+                    {giftCode.note && ` · ${giftCode.note}`}
+                  </div>
+                </td>
+                <td className="py-2 text-right">{giftCode.credits.toLocaleString()}</td>
+                <td className="py-2 text-right">
+                  {giftCode.redemptionCount} / {giftCode.maxRedemptions}
+                </td>
+                <td className="py-2 text-right">
+                  {new Date(giftCode.expiresAt).toLocaleDateString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useNavigation } from "@/context/navigation-context";
 import { TranslationSelector } from "./translation-selector";
 import { ImageModelSelector } from "./image-model-selector";
 import { CreditsBadge } from "./credits-badge";
+import { ScriptureSearch } from "./scripture-search";
 
 function Divider() {
   return <div className="w-px h-6 bg-[var(--divider)] mx-1 sm:mx-2" />;
@@ -56,6 +57,7 @@ export function Header() {
 
           {/* Navigation Group */}
           <div className="flex items-center">
+            <ScriptureSearch />
             <button
               className="min-h-[44px] min-w-[44px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)]"
               aria-label="Toggle chat"
@@ -75,9 +77,10 @@ export function Header() {
           </div>
         </nav>
 
-        {/* Mobile Actions - Credits + Chat + Books + Hamburger */}
+        {/* Mobile Actions - Credits + Search + Chat + Books + Hamburger */}
         <nav className="flex sm:hidden items-center">
           <CreditsBadge />
+          <ScriptureSearch />
           <button
             className="min-h-[44px] min-w-[44px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)]"
             aria-label="Toggle chat"
@@ -1,11 +1,14 @@
 "use client";
 
 import { useEffect, useState, useCallback, useRef } from "react";
-import { useQuery, useAction } from "convex/react";
+import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { createVerseId } from "../../convex/verseIds";
 import Link from "next/link";
-import { ChevronLeft, ChevronRight, RefreshCw, Sparkles, Loader2, Zap, ImageOff, Clock, ChevronDown, Settings } from "lucide-react";
+import { ChevronLeft, ChevronRight, RefreshCw, Sparkles, Loader2, Zap, ImageOff, Clock, ChevronDown, Settings, Wand2 } from "lucide-react";
 import { ImageControlsSheet } from "./image-controls-sheet";
+import { ImageHistoryDrawer } from "./image-history-drawer";
 import { usePreferences } from "@/context/preferences-context";
 import { useConvexEnabled } from "@/components/convex-client-provider";
 import { useSession } from "@/context/session-context";
@@ -19,6 +22,14 @@ import {
   supportsResolution,
   isValidAspectRatio,
 } from "@/lib/image-models";
+import {
+  getShortModelName,
+  formatDuration,
+  formatRelativeTime,
+  getDimensionLabel,
+} from "@/lib/image-metadata";
+import { STYLE_PROFILES, StyleProfileId } from "@/lib/style-profiles";
+import { MAX_REFINE_INSTRUCTION_LENGTH } from "@/lib/image-refine";
 
 interface ChapterTheme {
   setting: string;
@@ -51,8 +62,33 @@ interface PromptInputs {
   generationNumber?: number;
   prevVerse?: VerseContext;
   nextVerse?: VerseContext;
+  registryEntries?: {
+    id: string;
+    kind: "character" | "location";
+    name: string;
+    description: string;
+  }[];
+  refineInstruction?: string;
 }
 
+// Progress of an async generation job, as returned by imageJobs.getImageJob
+interface ImageJobProgress {
+  id: string;
+  verseId: string;
+  status: "queued" | "planning" | "rendering" | "saving" | "done" | "failed";
+  imageId?: string;
+  error?: string;
+}
+
+const IMAGE_JOB_LABELS: Record<ImageJobProgress["status"], string> = {
+  queued: "Queued...",
+  planning: "Planning scene...",
+  rendering: "Rendering...",
+  saving: "Saving...",
+  done: "Generating...",
+  failed: "Generating...",
+};
+
 interface HeroImageProps {
   alt?: string;
   caption?: string;
@@ -63,63 +99,10 @@ interface HeroImageProps {
   prevVerse?: VerseContext;
   nextVerse?: VerseContext;
   currentReference?: string;
-}
-
-/**
- * Create a verse ID from a reference string.
- * "Genesis 1:1" -> "genesis-1-1"
- * "1 John 3:16" -> "1-john-3-16"
- */
-function createVerseId(reference: string): string {
-  return reference
-    .toLowerCase()
-    .replace(/\s+/g, "-")
-    .replace(/:/g, "-");
-}
-
-/**
- * Extract a short display name from a model ID.
- * "google/gemini-2.5-flash-image" -> "Gemini 2.5 Flash"
- */
-function getShortModelName(modelId: string): string {
-  const parts = modelId.split("/");
-  const name = parts[parts.length - 1] || modelId;
-  return name
-    .replace(/-image$/i, "")
-    .replace(/-/g, " ")
-    .replace(/\b\w/g, (c) => c.toUpperCase())
-    .trim();
-}
-
-/**
- * Format duration in milliseconds to human-readable string.
- */
-function formatDuration(ms?: number): string {
-  if (!ms) return "N/A";
-  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
-}
-
-/**
- * Format timestamp to relative time string.
- */
-function formatRelativeTime(timestamp?: number): string {
-  if (!timestamp) return "Unknown";
-  const diff = Date.now() - timestamp;
-  const minutes = Math.floor(diff / 60000);
-  if (minutes < 1) return "Just now";
-  if (minutes < 60) return `${minutes}m ago`;
-  const hours = Math.floor(minutes / 60);
-  if (hours < 24) return `${hours}h ago`;
-  const days = Math.floor(hours / 24);
-  return `${days}d ago`;
-}
-
-/**
- * Format image dimensions to display string.
- */
-function getDimensionLabel(width?: number, height?: number): string {
-  if (!width || !height) return "Unknown";
-  return `${width} x ${height}`;
+  /** Text shown over the image on mobile (defaults to verseText) */
+  overlayText?: string;
+  /** What prev/next steps through: a single verse or a multi-verse passage */
+  navUnit?: "verse" | "passage";
 }
 
 /**
@@ -271,6 +254,156 @@ function ResolutionSelector({
   );
 }
 
+/**
+ * Compact dropdown selector for the generation style profile, with a toggle
+ * to only show images generated in the selected style.
+ */
+function StyleSelector({
+  value,
+  onChange,
+  filterByStyle,
+  onFilterByStyleChange,
+}: {
+  value: StyleProfileId;
+  onChange: (value: StyleProfileId) => void;
+  filterByStyle: boolean;
+  onFilterByStyleChange: (enabled: boolean) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="min-h-[36px] px-2 flex items-center gap-1 text-xs font-medium text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface)]/70 rounded-[var(--radius-md)] transition-colors duration-[var(--motion-fast)]"
+        aria-label={`Style: ${STYLE_PROFILES[value].label}`}
+        aria-expanded={isOpen}
+      >
+        <span className={filterByStyle ? "text-[var(--accent)]" : ""}>{STYLE_PROFILES[value].label}</span>
+        <ChevronDown
+          size={12}
+          className={`transition-transform duration-[var(--motion-fast)] ${isOpen ? "rotate-180" : ""}`}
+        />
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full mb-1 left-0 w-56 rounded-[var(--radius-md)] bg-[var(--background)] border border-[var(--divider)] shadow-lg z-50 overflow-hidden">
+          {(Object.keys(STYLE_PROFILES) as StyleProfileId[]).map((style) => (
+            <button
+              key={style}
+              onClick={() => {
+                onChange(style);
+                setIsOpen(false);
+              }}
+              className={`w-full px-3 py-2 text-left transition-colors duration-[var(--motion-fast)] hover:bg-[var(--surface)] ${
+                value === style ? "bg-[var(--surface)] text-[var(--foreground)]" : "text-[var(--muted)]"
+              }`}
+            >
+              <span className="block text-sm">{STYLE_PROFILES[style].label}</span>
+              <span className="block text-xs text-[var(--muted)]">{STYLE_PROFILES[style].description}</span>
+            </button>
+          ))}
+          <label className="flex items-center gap-2 px-3 py-2 text-xs text-[var(--muted)] border-t border-[var(--divider)] cursor-pointer hover:bg-[var(--surface)]">
+            <input
+              type="checkbox"
+              checked={filterByStyle}
+              onChange={(event) => onFilterByStyleChange(event.target.checked)}
+              className="accent-[var(--accent)]"
+            />
+            Only show this style
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Popover to refine the shown image with a short instruction
+ * ("make it night"). The result is saved as a new image linked to it.
+ */
+function RefineControl({
+  disabled,
+  onRefine,
+}: {
+  disabled: boolean;
+  onRefine: (instruction: string) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState("");
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const submit = () => {
+    const trimmed = instruction.trim();
+    if (!trimmed) return;
+    onRefine(trimmed);
+    setInstruction("");
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="min-h-[44px] min-w-[44px] flex items-center justify-center rounded-[var(--radius-full)] text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface)]/70 transition-colors duration-[var(--motion-fast)] disabled:opacity-40 disabled:cursor-not-allowed focus-ring"
+        aria-label="Refine this image"
+        aria-expanded={isOpen}
+        title="Refine this image"
+      >
+        <Wand2 size={18} strokeWidth={1.5} />
+      </button>
+      {isOpen && (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            submit();
+          }}
+          className="absolute bottom-full mb-1 right-0 w-72 p-2 space-y-2 rounded-[var(--radius-md)] bg-[var(--background)] border border-[var(--divider)] shadow-lg z-50"
+        >
+          <input
+            value={instruction}
+            onChange={(event) => setInstruction(event.target.value)}
+            maxLength={MAX_REFINE_INSTRUCTION_LENGTH}
+            placeholder="e.g. make it night"
+            className="w-full min-h-[36px] px-2 rounded-[var(--radius-sm)] border border-[var(--divider)] bg-[var(--background)] text-sm"
+            aria-label="Refinement instruction"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!instruction.trim()}
+            className="w-full min-h-[36px] inline-flex items-center justify-center gap-1 rounded-[var(--radius-sm)] text-xs bg-[var(--accent)] text-[var(--accent-text)] hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+          >
+            <Wand2 size={12} />
+            Refine this image
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
 /**
  * Expandable metadata badge for generated images.
  * Shows model name collapsed, expands to reveal full details.
@@ -404,6 +537,8 @@ export function HeroImage({
   prevVerse,
   nextVerse,
   currentReference,
+  overlayText,
+  navUnit = "verse",
 }: HeroImageProps) {
   const isConvexEnabled = useConvexEnabled();
 
@@ -419,10 +554,11 @@ export function HeroImage({
         prevVerse={prevVerse}
         nextVerse={nextVerse}
         currentReference={currentReference}
+        overlayText={overlayText}
+        navUnit={navUnit}
         imageHistory={[]}
         isQueryLoading={false}
         imageRefreshKey={0}
-        onSaveImage={undefined}
       />
     );
   }
@@ -438,6 +574,8 @@ export function HeroImage({
       prevVerse={prevVerse}
       nextVerse={nextVerse}
       currentReference={currentReference}
+      overlayText={overlayText}
+      navUnit={navUnit}
     />
   );
 }
@@ -451,6 +589,7 @@ interface ConvexImageData {
   verseText?: string;
   chapterTheme?: ChapterTheme;
   generationNumber?: number;
+  parentImageId?: string;
   promptVersion?: string;
   promptInputs?: PromptInputs;
   translationId?: string;
@@ -466,32 +605,17 @@ interface ConvexImageData {
   imageWidth?: number;
   imageHeight?: number;
   createdAt: number;
+  isPinned?: boolean;
+  voteScore?: number;
 }
 
 interface HeroImageBaseProps extends HeroImageProps {
   imageHistory: ConvexImageData[] | undefined;
   isQueryLoading: boolean;
   imageRefreshKey?: number;
-  onSaveImage?: (args: {
-    verseId: string;
-    imageUrl: string;
-    model: string;
-    prompt?: string;
-    reference?: string;
-    verseText?: string;
-    chapterTheme?: ChapterTheme;
-    generationNumber?: number;
-    promptVersion?: string;
-    promptInputs?: PromptInputs;
-    translationId?: string;
-    provider?: string;
-    providerRequestId?: string;
-    creditsCost?: number;
-    costUsd?: number;
-    durationMs?: number;
-    aspectRatio?: string;
-    generationId?: string;
-  }) => Promise<string | null>;
+  // Convex only: the job being watched and a callback to start watching one
+  imageJob?: ImageJobProgress | null;
+  onJobStarted?: (jobId: string) => void;
   onRefreshImages?: () => void;
 }
 
@@ -505,48 +629,34 @@ function HeroImageWithConvex({
   prevVerse,
   nextVerse,
   currentReference,
+  overlayText,
+  navUnit = "verse",
 }: HeroImageProps) {
   // Create verse ID for Convex query
   const verseId = currentReference ? createVerseId(currentReference) : null;
   const [refreshToken, setRefreshToken] = useState(0);
+  const { imageStyle, filterImagesByStyle } = usePreferences();
 
-  // Query Convex for all images for this verse (sorted newest first)
+  // Query Convex for all images for this verse (sorted newest first),
+  // limited to the preferred style when the style filter is on
   const imageHistory = useQuery(
     api.verseImages.getImageHistory,
-    verseId ? { verseId, refreshToken } : "skip"
+    verseId
+      ? { verseId, refreshToken, styleProfileId: filterImagesByStyle ? imageStyle : undefined }
+      : "skip"
   );
 
-  // Action to save new images (handles both URLs and base64 data)
-  const saveImageAction = useAction(api.verseImages.saveImage);
-
-  // Wrap action to match expected signature (Promise<void>)
-  const saveImage = useCallback(
-    async (args: {
-      verseId: string;
-      imageUrl: string;
-      model: string;
-      prompt?: string;
-      reference?: string;
-      verseText?: string;
-      chapterTheme?: ChapterTheme;
-      generationNumber?: number;
-      promptVersion?: string;
-      promptInputs?: PromptInputs;
-      translationId?: string;
-      provider?: string;
-      providerRequestId?: string;
-      creditsCost?: number;
-      costUsd?: number;
-      durationMs?: number;
-      aspectRatio?: string;
-      generationId?: string;
-    }) => {
-      const result = await saveImageAction(args);
-      return result?.id ?? null;
-    },
-    [saveImageAction]
+  // Live progress of the latest image job started from this verse
+  const [jobId, setJobId] = useState<Id<"imageJobs"> | null>(null);
+  const imageJob = useQuery(
+    api.imageJobs.getImageJob,
+    jobId ? { jobId } : "skip"
   );
 
+  const startWatchingJob = useCallback((id: string) => {
+    setJobId(id as Id<"imageJobs">);
+  }, []);
+
   const refreshImages = useCallback(() => {
     setRefreshToken((value) => value + 1);
   }, []);
@@ -564,10 +674,13 @@ function HeroImageWithConvex({
       prevVerse={prevVerse}
       nextVerse={nextVerse}
       currentReference={currentReference}
+      overlayText={overlayText}
+      navUnit={navUnit}
       imageHistory={imageHistory}
       isQueryLoading={isQueryLoading}
       imageRefreshKey={refreshToken}
-      onSaveImage={saveImage}
+      imageJob={imageJob}
+      onJobStarted={startWatchingJob}
       onRefreshImages={refreshImages}
     />
   );
@@ -588,15 +701,29 @@ function HeroImageBase({
   prevVerse,
   nextVerse,
   currentReference,
+  overlayText,
+  navUnit = "verse",
   imageHistory,
   isQueryLoading,
   imageRefreshKey = 0,
-  onSaveImage,
+  imageJob,
+  onJobStarted,
   onRefreshImages,
 }: HeroImageBaseProps) {
-  const { imageModel, imageAspectRatio, imageResolution, setImageAspectRatio, setImageResolution, translation } = usePreferences();
+  const {
+    imageModel,
+    imageAspectRatio,
+    imageResolution,
+    imageStyle,
+    filterImagesByStyle,
+    setImageAspectRatio,
+    setImageResolution,
+    setImageStyle,
+    setFilterImagesByStyle,
+    translation,
+  } = usePreferences();
   const isConvexEnabled = useConvexEnabled();
-  const { tier, credits, buyCredits, updateCredits, isLoading: sessionLoading } = useSession();
+  const { tier, credits, buyCredits, updateCredits, refetch: refetchSession, isLoading: sessionLoading } = useSession();
   const { setCurrentImageId, openImageControls } = useNavigation();
 
   // Fetch model pricing info
@@ -663,7 +790,9 @@ function HeroImageBase({
   // Create verse ID for Convex query
   const verseId = currentReference ? createVerseId(currentReference) : null;
 
-  // Image navigation state: null = show newest, string = show specific image by ID
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+
+  // Image navigation state: null = show default (pinned, top-voted, else newest), string = show specific image by ID
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
   const [pendingImageId, setPendingImageId] = useState<string | null>(null);
   const pendingFollowLatest = useRef(true);
@@ -675,6 +804,8 @@ function HeroImageBase({
     id?: string;
   } | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  // Job this component started and is waiting on (the server saves its image)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const [isImageLoading, setIsImageLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasAttemptedGeneration, setHasAttemptedGeneration] = useState(false);
@@ -687,12 +818,20 @@ function HeroImageBase({
   // Maximum number of retries before giving up
   const maxLoadAttempts = 3;
 
-  // Image history helpers - simplified: null = show newest (index 0)
+  // Image history helpers - null selection shows the pinned image, then the
+  // top-voted image (newest wins ties), then the newest (index 0)
   const totalImages = imageHistory?.length || 0;
+  const pinnedIndex = imageHistory?.findIndex((img) => img.isPinned) ?? -1;
+  const topVotedIndex = imageHistory?.reduce(
+    (best, img, index) => ((img.voteScore ?? 0) > (imageHistory[best].voteScore ?? 0) ? index : best),
+    0
+  ) ?? 0;
+  const hasTopVoted = (imageHistory?.[topVotedIndex]?.voteScore ?? 0) > 0;
+  const defaultIndex = pinnedIndex >= 0 ? pinnedIndex : hasTopVoted ? topVotedIndex : 0;
   const selectedIndex = selectedImageId && imageHistory
     ? imageHistory.findIndex((img) => img.id === selectedImageId)
     : -1;
-  const currentIndex = selectedIndex >= 0 ? selectedIndex : 0;
+  const currentIndex = selectedIndex >= 0 ? selectedIndex : defaultIndex;
   const currentImage = totalImages > 0 ? imageHistory![currentIndex] : null;
 
   // Determine what image to display
@@ -707,7 +846,15 @@ function HeroImageBase({
   const canGoNewer = totalImages > 0 && currentIndex > 0;
   const displayIndex = totalImages - currentIndex;
   const imageCountLabel = totalImages > 0
-    ? `${displayIndex} / ${totalImages}${currentIndex === 0 ? " · Latest" : ""}`
+    ? `${displayIndex} / ${totalImages}${
+        currentImage?.isPinned
+          ? " · Pinned"
+          : hasTopVoted && currentIndex === topVotedIndex
+            ? " · Top voted"
+            : currentIndex === 0
+              ? " · Latest"
+              : ""
+      }`
     : displayImage
       ? "1 / 1"
       : isQueryLoading
@@ -715,6 +862,9 @@ function HeroImageBase({
         : isGenerating
           ? "Generating..."
           : "No images yet";
+  const generatingLabel = imageJob && imageJob.id === activeJobId
+    ? IMAGE_JOB_LABELS[imageJob.status]
+    : "Generating...";
   const showControls = Boolean(prevUrl || nextUrl || hasImages || isGenerating || isQueryLoading);
 
   // Sync current image ID to navigation context for ScriptureDetails
@@ -722,8 +872,8 @@ function HeroImageBase({
     setCurrentImageId(currentImage?.id || null);
   }, [currentImage?.id, setCurrentImageId]);
 
-  // Generate new image function
-  const generateImage = useCallback(async () => {
+  // Generate new image function; with refine, edit an existing image instead
+  const generateImage = useCallback(async (refine?: { imageId: string; instruction: string }) => {
     if (!verseId || !currentReference) return;
 
     if (activeRequest.current) {
@@ -740,35 +890,74 @@ function HeroImageBase({
     setIsGenerating(true);
     setError(null);
     setPendingImageId(null);
+    setActiveJobId(null);
     setImageLoadAttempts(0);
 
     // Check if this generation is still current (defined outside try for use in catch)
     const isStale = () => controller.signal.aborted || !isMounted.current || thisGenerationId !== generationIdRef.current;
 
-    const clientGenerationId = typeof crypto !== "undefined" && "randomUUID" in crypto
-      ? crypto.randomUUID()
-      : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    // Once a job is queued the subscription below owns isGenerating
+    let jobStarted = false;
 
     try {
-      const params = new URLSearchParams();
-      if (verseText) params.set("text", verseText);
-      if (chapterTheme) params.set("theme", JSON.stringify(chapterTheme));
-      if (prevVerse) params.set("prevVerse", JSON.stringify(prevVerse));
-      if (nextVerse) params.set("nextVerse", JSON.stringify(nextVerse));
-      if (currentReference) params.set("reference", currentReference);
-      if (imageModel) params.set("model", imageModel);
-      params.set("aspectRatio", imageAspectRatio);
-      params.set("resolution", imageResolution);
-
       // Pass existing image count to add generation diversity
       const existingImageCount = imageHistory?.length || 0;
-      if (existingImageCount > 0) {
-        params.set("generation", String(existingImageCount + 1));
+      const generation = existingImageCount > 0 ? existingImageCount + 1 : undefined;
+
+      let response: Response;
+      if (onJobStarted && refine) {
+        // Verse, style and aspect ratio come from the image being refined
+        response = await fetch("/api/generate-image", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            refineImageId: refine.imageId,
+            instruction: refine.instruction,
+            model: imageModel,
+            generation,
+            resolution: imageResolution,
+          }),
+          signal: controller.signal,
+        });
+      } else if (onJobStarted) {
+        // With Convex, queue a job; the server saves the image when it's done
+        response = await fetch("/api/generate-image", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            verseId,
+            translationId: translation,
+            reference: currentReference,
+            text: verseText,
+            theme: chapterTheme,
+            prevVerse,
+            nextVerse,
+            model: imageModel,
+            generation,
+            style: imageStyle,
+            aspectRatio: imageAspectRatio,
+            resolution: imageResolution,
+          }),
+          signal: controller.signal,
+        });
+      } else {
+        const params = new URLSearchParams();
+        if (verseText) params.set("text", verseText);
+        if (chapterTheme) params.set("theme", JSON.stringify(chapterTheme));
+        if (prevVerse) params.set("prevVerse", JSON.stringify(prevVerse));
+        if (nextVerse) params.set("nextVerse", JSON.stringify(nextVerse));
+        if (currentReference) params.set("reference", currentReference);
+        if (imageModel) params.set("model", imageModel);
+        params.set("aspectRatio", imageAspectRatio);
+        params.set("resolution", imageResolution);
+        params.set("style", imageStyle);
+        if (generation) params.set("generation", String(generation));
+
+        response = await fetch(`/api/generate-image?${params.toString()}`, {
+          signal: controller.signal,
+        });
       }
 
-      const url = `/api/generate-image?${params.toString()}`;
-      const response = await fetch(url, { signal: controller.signal });
-
       if (isStale()) {
         return;
       }
@@ -802,65 +991,30 @@ function HeroImageBase({
       }
 
       if (!response.ok) {
-        throw new Error(data?.error || "Failed to generate image");
+        throw new Error((refine && data?.message) || data?.error || "Failed to generate image");
       }
 
-        if (data?.imageUrl) {
-          const modelUsed = data.model || imageModel || "unknown";
-          const saveGenerationId = data.generationId || clientGenerationId;
-
-        // Update credits in session context if returned
-        if (typeof data.credits === "number") {
-          updateCredits(data.credits);
-        }
-
-        if (isStale()) {
-          return;
-        }
-
-        // Save to Convex (action handles both URLs and base64 data)
-        if (onSaveImage) {
-          const savedId = await onSaveImage({
-            verseId,
-            imageUrl: data.imageUrl,
-            model: modelUsed,
-            prompt: data.prompt,
-            promptVersion: data.promptVersion,
-            promptInputs: data.promptInputs,
-            reference: data.reference,
-            verseText: data.verseText,
-            chapterTheme: data.chapterTheme,
-            generationNumber: data.generationNumber,
-            translationId: translation,
-            provider: data.provider,
-            providerRequestId: data.providerRequestId,
-            creditsCost: data.creditsCost,
-            costUsd: data.costUsd,
-            durationMs: data.durationMs,
-            aspectRatio: data.aspectRatio,
-            generationId: saveGenerationId,
-          });
-
-          if (isStale()) {
-            return;
-          }
-
-          if (savedId) {
-            setPendingImageId(savedId);
-          }
-        }
+      // Update credits in session context if returned
+      if (typeof data.credits === "number") {
+        updateCredits(data.credits);
+      }
 
-        if (isStale()) {
-          return;
+      if (onJobStarted) {
+        if (!data?.jobId) {
+          throw new Error("Missing job ID");
         }
+        jobStarted = true;
+        setActiveJobId(data.jobId);
+        onJobStarted(data.jobId);
+        return;
+      }
 
-        if (!onSaveImage) {
-          // No Convex persistence; show the generated URL immediately.
-          setGeneratedImage({
-            url: data.imageUrl,
-            model: modelUsed,
-          });
-        }
+      if (data?.imageUrl) {
+        // No Convex persistence; show the generated URL immediately.
+        setGeneratedImage({
+          url: data.imageUrl,
+          model: data.model || imageModel || "unknown",
+        });
       } else {
         throw new Error("Missing image URL");
       }
@@ -877,7 +1031,7 @@ function HeroImageBase({
       // Always clean up if this is still the current generation
       if (thisGenerationId === generationIdRef.current) {
         activeRequest.current = null;
-        if (isMounted.current) {
+        if (isMounted.current && !jobStarted) {
           setIsGenerating(false);
         }
       }
@@ -892,13 +1046,34 @@ function HeroImageBase({
     imageModel,
     imageAspectRatio,
     imageResolution,
+    imageStyle,
     translation,
-    onSaveImage,
+    onJobStarted,
     selectedImageId,
     imageHistory,
     updateCredits,
   ]);
 
+  // Follow the queued job until the server saves the image or gives up
+  useEffect(() => {
+    if (!imageJob || imageJob.id !== activeJobId) return;
+    if (imageJob.status === "done") {
+      setActiveJobId(null);
+      setIsGenerating(false);
+      if (imageJob.imageId) {
+        setPendingImageId(imageJob.imageId);
+      }
+      // Unused reserved credits were refunded on settlement
+      refetchSession();
+    } else if (imageJob.status === "failed") {
+      setActiveJobId(null);
+      setIsGenerating(false);
+      setError(imageJob.error || "Failed to generate image");
+      // The reservation was released
+      refetchSession();
+    }
+  }, [imageJob, activeJobId, refetchSession]);
+
   // Manual regenerate function - resets load attempts and queues a new image
   const handleManualRegenerate = useCallback(() => {
     setImageLoadAttempts(0);
@@ -908,6 +1083,15 @@ function HeroImageBase({
     generateImage();
   }, [generateImage]);
 
+  // Refine the shown image; the refined image is saved as a new one linked to it
+  const handleRefine = useCallback((instruction: string) => {
+    if (!currentImage) return;
+    setError(null);
+    setGeneratedImage(null);
+    setPendingImageId(null);
+    generateImage({ imageId: currentImage.id, instruction });
+  }, [currentImage, generateImage]);
+
   const handleImageReload = useCallback(() => {
     if (onRefreshImages) {
       setError(null);
@@ -924,27 +1108,33 @@ function HeroImageBase({
     if (!imageHistory || imageHistory.length === 0) return;
     const idx = selectedImageId
       ? imageHistory.findIndex((img) => img.id === selectedImageId)
-      : 0;
-    const currentIdx = idx >= 0 ? idx : 0;
+      : defaultIndex;
+    const currentIdx = idx >= 0 ? idx : defaultIndex;
     if (currentIdx < imageHistory.length - 1) {
       setSelectedImageId(imageHistory[currentIdx + 1].id); // Older image
       setError(null);
       setImageLoadAttempts(0);
     }
-  }, [selectedImageId, imageHistory]);
+  }, [selectedImageId, imageHistory, defaultIndex]);
 
   const goToNextImage = useCallback(() => {
     if (!imageHistory || imageHistory.length === 0) return;
     const idx = selectedImageId
       ? imageHistory.findIndex((img) => img.id === selectedImageId)
-      : 0;
-    const currentIdx = idx >= 0 ? idx : 0;
+      : defaultIndex;
+    const currentIdx = idx >= 0 ? idx : defaultIndex;
     if (currentIdx > 0) {
       setSelectedImageId(imageHistory[currentIdx - 1].id); // Newer image
       setError(null);
       setImageLoadAttempts(0);
     }
-  }, [selectedImageId, imageHistory]);
+  }, [selectedImageId, imageHistory, defaultIndex]);
+
+  const selectImage = useCallback((imageId: string) => {
+    setSelectedImageId(imageId);
+    setError(null);
+    setImageLoadAttempts(0);
+  }, []);
 
   // Auto-generate on first visit if no existing images AND user has credits
   useEffect(() => {
@@ -975,7 +1165,11 @@ function HeroImageBase({
     if (!pendingImageId || !imageHistory) return;
     const exists = imageHistory.some((img) => img.id === pendingImageId);
     if (!exists) return;
-    if (pendingFollowLatest.current) {
+    // A pinned or top-voted image would win the null selection, so select the new one explicitly
+    if (
+      pendingFollowLatest.current &&
+      !imageHistory.some((img) => img.isPinned || (img.voteScore ?? 0) > 0)
+    ) {
       setSelectedImageId(null);
     } else {
       setSelectedImageId(pendingImageId);
@@ -992,10 +1186,14 @@ function HeroImageBase({
     setImageLoadAttempts(0);
     setPendingImageId(null);
     setIsImageLoading(false);
+    setIsGalleryOpen(false);
     pendingFollowLatest.current = true;
     if (activeRequest.current) {
       activeRequest.current.abort();
     }
+    // A queued job keeps running and saves to its own verse; stop waiting on it
+    setActiveJobId(null);
+    setIsGenerating(false);
   }, [verseId]);
 
   // If selected image no longer exists in history, reset to newest
@@ -1085,7 +1283,7 @@ function HeroImageBase({
                 <div className="flex items-center gap-2 px-4 py-2 bg-[var(--background)]/70 border border-[var(--divider)]/60 backdrop-blur-sm rounded-[var(--radius-md)]">
                   <RefreshCw className="w-4 h-4 animate-spin" />
                   <span className="text-sm text-[var(--foreground)]/70">
-                    {isGenerating ? "Generating..." : "Loading image..."}
+                    {isGenerating ? generatingLabel : "Loading image..."}
                   </span>
                 </div>
               </div>
@@ -1131,7 +1329,7 @@ function HeroImageBase({
                 <div className="flex items-center gap-2 px-4 py-2 bg-[var(--background)]/70 border border-[var(--divider)]/60 backdrop-blur-sm rounded-[var(--radius-md)]">
                   <RefreshCw className="w-4 h-4 animate-spin" />
                   <span className="text-sm text-[var(--foreground)]/70">
-                    {isQueryLoading ? "Loading..." : "Generating..."}
+                    {isQueryLoading ? "Loading..." : generatingLabel}
                   </span>
                 </div>
               </div>
@@ -1215,29 +1413,29 @@ function HeroImageBase({
                     <Link
                       href={prevUrl}
                       className="min-h-[44px] px-3 inline-flex items-center gap-2 rounded-[var(--radius-full)] text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface)]/70 transition-colors duration-[var(--motion-fast)] focus-ring"
-                      aria-label="Previous verse"
+                      aria-label={`Previous ${navUnit}`}
                     >
                       <ChevronLeft size={18} strokeWidth={1.5} />
-                      <span className="text-sm">Prev verse</span>
+                      <span className="text-sm">Prev {navUnit}</span>
                     </Link>
                   ) : (
                     <span className="min-h-[44px] px-3 inline-flex items-center gap-2 rounded-[var(--radius-full)] text-[var(--muted)]/50">
                       <ChevronLeft size={18} strokeWidth={1.5} />
-                      <span className="text-sm">Prev verse</span>
+                      <span className="text-sm">Prev {navUnit}</span>
                     </span>
                   )}
                   {nextUrl ? (
                     <Link
                       href={nextUrl}
                       className="min-h-[44px] px-3 inline-flex items-center gap-2 rounded-[var(--radius-full)] text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface)]/70 transition-colors duration-[var(--motion-fast)] focus-ring"
-                      aria-label="Next verse"
+                      aria-label={`Next ${navUnit}`}
                     >
-                      <span className="text-sm">Next verse</span>
+                      <span className="text-sm">Next {navUnit}</span>
                       <ChevronRight size={18} strokeWidth={1.5} />
                     </Link>
                   ) : (
                     <span className="min-h-[44px] px-3 inline-flex items-center gap-2 rounded-[var(--radius-full)] text-[var(--muted)]/50">
-                      <span className="text-sm">Next verse</span>
+                      <span className="text-sm">Next {navUnit}</span>
                       <ChevronRight size={18} strokeWidth={1.5} />
                     </span>
                   )}
@@ -1253,10 +1451,16 @@ function HeroImageBase({
                   >
                     <ChevronLeft size={18} strokeWidth={1.5} />
                   </button>
-                  <div className="flex flex-col items-center leading-tight px-2">
+                  <button
+                    onClick={() => setIsGalleryOpen(true)}
+                    disabled={totalImages === 0}
+                    className="min-h-[44px] flex flex-col items-center justify-center leading-tight px-2 rounded-[var(--radius-md)] hover:bg-[var(--surface)]/70 transition-colors duration-[var(--motion-fast)] disabled:hover:bg-transparent focus-ring"
+                    aria-label="Open image history"
+                    title="Image history"
+                  >
                     <span className="text-[10px] uppercase tracking-[0.2em] text-[var(--muted)]">Images</span>
                     <span className="text-xs text-[var(--foreground)]">{imageCountLabel}</span>
-                  </div>
+                  </button>
                   <button
                     onClick={goToPrevImage}
                     disabled={!canGoOlder}
@@ -1266,10 +1470,19 @@ function HeroImageBase({
                   >
                     <ChevronRight size={18} strokeWidth={1.5} />
                   </button>
+                  {onJobStarted && currentImage && canGenerate && (
+                    <RefineControl disabled={isGenerating} onRefine={handleRefine} />
+                  )}
                 </div>
 
-                {/* Aspect Ratio & Resolution Selectors */}
+                {/* Style, Aspect Ratio & Resolution Selectors */}
                 <div className="hidden sm:flex items-center gap-1">
+                  <StyleSelector
+                    value={imageStyle}
+                    onChange={setImageStyle}
+                    filterByStyle={filterImagesByStyle}
+                    onFilterByStyleChange={setFilterImagesByStyle}
+                  />
                   <AspectRatioSelector
                     value={imageAspectRatio}
                     onChange={setImageAspectRatio}
@@ -1307,7 +1520,7 @@ function HeroImageBase({
                       <RefreshCw size={18} strokeWidth={1.5} />
                     )}
                     {isGenerating ? (
-                      <span className="text-sm">Generating...</span>
+                      <span className="text-sm">{generatingLabel}</span>
                     ) : (
                       <span className="text-sm inline-flex items-center gap-2">
                         Generate
@@ -1352,11 +1565,11 @@ function HeroImageBase({
       </div>
 
       {/* Mobile Verse Text Overlay - positioned at bottom of image */}
-      {verseText && (
+      {(overlayText ?? verseText) && (
         <div className="sm:hidden absolute inset-x-0 bottom-0 z-10 px-4 pb-4">
           <div className="bg-[var(--background)]/50 backdrop-blur-sm rounded-2xl p-4 mx-auto max-w-lg border border-[rgba(255,255,255,0.04)]">
             <p className="text-pretty text-center text-base leading-relaxed text-[var(--foreground)]">
-              {verseText}
+              {overlayText ?? verseText}
             </p>
           </div>
         </div>
@@ -1375,6 +1588,7 @@ function HeroImageBase({
       <ImageControlsSheet
         prevUrl={prevUrl}
         nextUrl={nextUrl}
+        navUnit={navUnit}
         currentImageIndex={displayIndex}
         totalImages={totalImages}
         onOlderImage={goToPrevImage}
@@ -1387,6 +1601,19 @@ function HeroImageBase({
         canGenerate={canGenerate}
         isPricingLoading={pricingPending}
         onBuyCredits={buyCredits}
+        onOpenGallery={() => setIsGalleryOpen(true)}
+      />
+
+      {/* Image History Gallery */}
+      <ImageHistoryDrawer
+        isOpen={isGalleryOpen}
+        onClose={() => setIsGalleryOpen(false)}
+        verseId={verseId}
+        reference={currentReference}
+        images={imageHistory ?? []}
+        currentImageId={currentImage?.id ?? null}
+        onSelectImage={selectImage}
+        isAdmin={isAdmin}
       />
     </figure>
   );
@@ -3,11 +3,14 @@
 import { X, ChevronLeft, ChevronRight, Sparkles, Loader2, Zap } from "lucide-react";
 import Link from "next/link";
 import { useNavigation } from "@/context/navigation-context";
+import { usePreferences } from "@/context/preferences-context";
+import { STYLE_PROFILES, StyleProfileId } from "@/lib/style-profiles";
 
 interface ImageControlsSheetProps {
   // Verse Navigation
   prevUrl?: string | null;
   nextUrl?: string | null;
+  navUnit?: "verse" | "passage";
   // Image navigation
   currentImageIndex: number;
   totalImages: number;
@@ -22,11 +25,14 @@ interface ImageControlsSheetProps {
   canGenerate: boolean;
   isPricingLoading?: boolean;
   onBuyCredits?: () => void;
+  // Image history gallery
+  onOpenGallery?: () => void;
 }
 
 export function ImageControlsSheet({
   prevUrl,
   nextUrl,
+  navUnit = "verse",
   currentImageIndex,
   totalImages,
   onOlderImage,
@@ -39,8 +45,10 @@ export function ImageControlsSheet({
   canGenerate,
   isPricingLoading,
   onBuyCredits,
+  onOpenGallery,
 }: ImageControlsSheetProps) {
   const { isImageControlsOpen, closeImageControls } = useNavigation();
+  const { imageStyle, setImageStyle, filterImagesByStyle, setFilterImagesByStyle } = usePreferences();
 
   return (
     <>
@@ -82,12 +90,12 @@ export function ImageControlsSheet({
                 className="flex-1 min-h-[44px] flex items-center justify-center gap-2 rounded-lg bg-[var(--surface)] text-sm font-medium hover:bg-[var(--divider)] transition-colors"
               >
                 <ChevronLeft size={18} />
-                Prev verse
+                Prev {navUnit}
               </Link>
             ) : (
               <div className="flex-1 min-h-[44px] flex items-center justify-center gap-2 rounded-lg bg-[var(--surface)] text-sm font-medium text-[var(--muted)]/50">
                 <ChevronLeft size={18} />
-                Prev verse
+                Prev {navUnit}
               </div>
             )}
             {nextUrl ? (
@@ -96,12 +104,12 @@ export function ImageControlsSheet({
                 onClick={closeImageControls}
                 className="flex-1 min-h-[44px] flex items-center justify-center gap-2 rounded-lg bg-[var(--surface)] text-sm font-medium hover:bg-[var(--divider)] transition-colors"
               >
-                Next verse
+                Next {navUnit}
                 <ChevronRight size={18} />
               </Link>
             ) : (
               <div className="flex-1 min-h-[44px] flex items-center justify-center gap-2 rounded-lg bg-[var(--surface)] text-sm font-medium text-[var(--muted)]/50">
-                Next verse
+                Next {navUnit}
                 <ChevronRight size={18} />
               </div>
             )}
@@ -118,10 +126,15 @@ export function ImageControlsSheet({
               >
                 <ChevronLeft size={20} />
               </button>
-              <div className="text-center min-w-[80px]">
+              <button
+                onClick={() => { onOpenGallery?.(); closeImageControls(); }}
+                disabled={!onOpenGallery}
+                className="text-center min-w-[80px] min-h-[44px] rounded-lg hover:bg-[var(--surface)] transition-colors"
+                aria-label="Open image history"
+              >
                 <div className="text-xs text-[var(--muted)] uppercase tracking-wider">Images</div>
                 <div className="text-sm font-medium">{currentImageIndex} / {totalImages}</div>
-              </div>
+              </button>
               <button
                 onClick={onOlderImage}
                 disabled={!hasOlderImage}
@@ -133,6 +146,39 @@ export function ImageControlsSheet({
             </div>
           )}
 
+          {/* Style Picker */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-[var(--muted)] uppercase tracking-wider">Style</span>
+              <label className="flex items-center gap-2 text-xs text-[var(--muted)]">
+                <input
+                  type="checkbox"
+                  checked={filterImagesByStyle}
+                  onChange={(event) => setFilterImagesByStyle(event.target.checked)}
+                  className="accent-[var(--accent)]"
+                />
+                Only show this style
+              </label>
+            </div>
+            <div className="flex gap-2 overflow-x-auto -mx-4 px-4 pb-1">
+              {(Object.keys(STYLE_PROFILES) as StyleProfileId[]).map((style) => (
+                <button
+                  key={style}
+                  onClick={() => setImageStyle(style)}
+                  className={`flex-shrink-0 min-h-[44px] px-3 rounded-lg text-sm transition-colors ${
+                    imageStyle === style
+                      ? "bg-[var(--accent)] text-[var(--accent-text)]"
+                      : "bg-[var(--surface)] text-[var(--foreground)] hover:bg-[var(--divider)]"
+                  }`}
+                  aria-pressed={imageStyle === style}
+                  title={STYLE_PROFILES[style].description}
+                >
+                  {STYLE_PROFILES[style].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Generate Button - Full Width */}
           {isPricingLoading ? (
             <button
@@ -0,0 +1,383 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Pin, PinOff, Loader2, Clock, Zap, Crop, ThumbsUp, ThumbsDown, EyeOff } from "lucide-react";
+import {
+  getShortModelName,
+  formatDuration,
+  formatRelativeTime,
+  formatImageCost,
+} from "@/lib/image-metadata";
+
+export interface GalleryImage {
+  id: string;
+  imageUrl: string | undefined;
+  model: string;
+  creditsCost?: number;
+  costUsd?: number;
+  durationMs?: number;
+  aspectRatio?: string;
+  createdAt: number;
+  isPinned?: boolean;
+  voteScore?: number;
+}
+
+type GallerySort = "newest" | "votes";
+type VoteValue = 1 | -1;
+
+const SORT_OPTIONS: Array<{ value: GallerySort; label: string }> = [
+  { value: "newest", label: "Newest" },
+  { value: "votes", label: "Top voted" },
+];
+
+interface ImageHistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  verseId: string | null;
+  reference?: string;
+  /** Every generation for the verse, newest first */
+  images: GalleryImage[];
+  currentImageId: string | null;
+  onSelectImage: (id: string) => void;
+  isAdmin: boolean;
+}
+
+/**
+ * Slide-out gallery of every generation for a verse.
+ * Anyone with a session can vote; admins can pin one image as the verse's
+ * canonical image or take an image down.
+ */
+export function ImageHistoryDrawer({
+  isOpen,
+  onClose,
+  verseId,
+  reference,
+  images,
+  currentImageId,
+  onSelectImage,
+  isAdmin,
+}: ImageHistoryDrawerProps) {
+  const [pinningId, setPinningId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<GallerySort>("newest");
+  const [myVotes, setMyVotes] = useState<Record<string, VoteValue>>({});
+  const [votingId, setVotingId] = useState<string | null>(null);
+  const [takingDownId, setTakingDownId] = useState<string | null>(null);
+
+  // Load this session's votes when the drawer opens
+  useEffect(() => {
+    if (!isOpen || !verseId) return;
+    let isCancelled = false;
+    fetch(`/api/image-vote?verseId=${encodeURIComponent(verseId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!isCancelled && data?.votes) setMyVotes(data.votes);
+      })
+      .catch(() => {
+        // Votes just show as uncast
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, verseId]);
+
+  const vote = async (imageId: string, value: VoteValue) => {
+    // Voting the same way again clears the vote
+    const nextValue = myVotes[imageId] === value ? 0 : value;
+    setVotingId(imageId);
+    setActionError(null);
+    try {
+      const response = await fetch("/api/image-vote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ imageId, value: nextValue }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setActionError(data?.error || "Failed to record vote");
+        return;
+      }
+      setMyVotes((votes) => {
+        const next = { ...votes };
+        if (nextValue === 0) delete next[imageId];
+        else next[imageId] = nextValue;
+        return next;
+      });
+    } catch {
+      setActionError("Failed to record vote");
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  // Generation numbers follow creation order regardless of sort
+  const generationNumbers = new Map(images.map((image, index) => [image.id, images.length - index]));
+  const sortedImages = sortBy === "votes"
+    ? [...images].sort(
+        (a, b) => (b.voteScore ?? 0) - (a.voteScore ?? 0) || b.createdAt - a.createdAt
+      )
+    : images;
+
+  // Read CSRF token from cookie
+  const getCsrfToken = () =>
+    document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1];
+
+  const updatePin = async (imageId: string | null, busyId: string) => {
+    if (!verseId) return;
+    setPinningId(busyId);
+    setActionError(null);
+    const csrfToken = getCsrfToken();
+
+    try {
+      const response = await fetch("/api/image-pin", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ verseId, imageId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setActionError(data?.error || "Failed to update pinned image");
+      }
+      // On success the Convex history subscription picks up the new pin
+    } catch {
+      setActionError("Failed to update pinned image");
+    } finally {
+      setPinningId(null);
+    }
+  };
+
+  const takeDown = async (imageId: string) => {
+    if (!window.confirm("Take this image down? It will be hidden everywhere and retracted from Nostr.")) {
+      return;
+    }
+    setTakingDownId(imageId);
+    setActionError(null);
+    const csrfToken = getCsrfToken();
+
+    try {
+      const response = await fetch("/api/moderation", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ imageId, decision: "hide" }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setActionError(data?.error || "Failed to take down image");
+      }
+      // On success the image drops out of the Convex history subscription
+    } catch {
+      setActionError("Failed to take down image");
+    } finally {
+      setTakingDownId(null);
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className={`fixed inset-0 bg-black/50 z-40 transition-opacity duration-300 ${
+          isOpen ? "opacity-100" : "opacity-0 pointer-events-none"
+        }`}
+        onClick={onClose}
+      />
+
+      {/* Slide-out Panel */}
+      <div
+        className={`fixed top-0 right-0 h-full w-full sm:w-96 sm:max-w-[85vw] bg-[var(--background)] z-50 flex flex-col transform transition-transform duration-300 ease-out ${
+          isOpen ? "translate-x-0" : "translate-x-full"
+        }`}
+        style={{ paddingTop: "env(safe-area-inset-top)" }}
+        aria-hidden={!isOpen}
+      >
+        {/* Header */}
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-[var(--divider)]">
+          <div>
+            <h2 className="text-lg font-semibold">Image History</h2>
+            <p className="text-xs text-[var(--muted)]">
+              {reference ? `${reference} · ` : ""}
+              {images.length} image{images.length === 1 ? "" : "s"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="min-h-[44px] min-w-[44px] -mr-2 flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+            aria-label="Close image history"
+            title="Close"
+          >
+            <X size={20} strokeWidth={1.5} />
+          </button>
+        </div>
+
+        {/* Sort toggle */}
+        <div className="flex gap-1 p-2 border-b border-[var(--divider)]">
+          {SORT_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setSortBy(value)}
+              className={`flex-1 min-h-[36px] rounded-[var(--radius-md)] text-xs transition-colors duration-[var(--motion-fast)] ${
+                sortBy === value
+                  ? "bg-[var(--surface)] text-[var(--foreground)]"
+                  : "text-[var(--muted)] hover:text-[var(--foreground)]"
+              }`}
+              aria-pressed={sortBy === value}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {actionError && (
+          <p className="px-4 py-2 text-sm text-red-500 border-b border-[var(--divider)]">{actionError}</p>
+        )}
+
+        {/* Content */}
+        <div
+          className="flex-1 overflow-y-auto p-4 space-y-3"
+          style={{ paddingBottom: "env(safe-area-inset-bottom)" }}
+        >
+          {images.length === 0 && (
+            <p className="text-sm text-[var(--muted)] text-center py-8">No images yet</p>
+          )}
+
+          {sortedImages.map((image) => {
+            const isCurrent = image.id === currentImageId;
+            const isBusy = pinningId === image.id;
+            const generationNumber = generationNumbers.get(image.id);
+            const myVote = myVotes[image.id];
+            return (
+              <div
+                key={image.id}
+                className={`flex gap-3 p-2 rounded-[var(--radius-md)] border transition-colors ${
+                  isCurrent
+                    ? "border-[var(--accent)] bg-[var(--surface)]"
+                    : "border-[var(--divider)] hover:bg-[var(--surface)]"
+                }`}
+              >
+                <button
+                  onClick={() => {
+                    onSelectImage(image.id);
+                    onClose();
+                  }}
+                  className="flex-shrink-0 w-20 h-20 rounded-[var(--radius-sm)] overflow-hidden bg-[var(--surface)] focus-ring"
+                  aria-label={`Show image ${generationNumber}`}
+                >
+                  {image.imageUrl && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={image.imageUrl}
+                      alt=""
+                      loading="lazy"
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </button>
+
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">
+                      {getShortModelName(image.model)}
+                    </span>
+                    {image.isPinned && (
+                      <span className="inline-flex items-center gap-0.5 text-[10px] uppercase tracking-wider text-[var(--accent)]">
+                        <Pin size={10} strokeWidth={2} />
+                        Pinned
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-[var(--muted)]">
+                    <span className="inline-flex items-center gap-1" title="Cost">
+                      <Zap size={12} strokeWidth={2} />
+                      {formatImageCost(image.creditsCost, image.costUsd)}
+                    </span>
+                    <span className="inline-flex items-center gap-1" title="Generation time">
+                      <Clock size={12} strokeWidth={2} />
+                      {formatDuration(image.durationMs)}
+                    </span>
+                    <span className="inline-flex items-center gap-1" title="Aspect ratio">
+                      <Crop size={12} strokeWidth={2} />
+                      {image.aspectRatio ?? "N/A"}
+                    </span>
+                  </div>
+                  <p className="text-xs text-[var(--muted)]">
+                    #{generationNumber} · {formatRelativeTime(image.createdAt)}
+                  </p>
+
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => vote(image.id, 1)}
+                      disabled={votingId !== null}
+                      className={`min-h-[32px] min-w-[32px] flex items-center justify-center rounded-[var(--radius-sm)] transition-colors hover:bg-[var(--divider)] disabled:opacity-50 ${
+                        myVote === 1 ? "text-[var(--accent)]" : "text-[var(--muted)]"
+                      }`}
+                      aria-label="Upvote"
+                      aria-pressed={myVote === 1}
+                    >
+                      <ThumbsUp size={14} />
+                    </button>
+                    <span className="text-xs min-w-[1.5rem] text-center tabular-nums" title="Score">
+                      {image.voteScore ?? 0}
+                    </span>
+                    <button
+                      onClick={() => vote(image.id, -1)}
+                      disabled={votingId !== null}
+                      className={`min-h-[32px] min-w-[32px] flex items-center justify-center rounded-[var(--radius-sm)] transition-colors hover:bg-[var(--divider)] disabled:opacity-50 ${
+                        myVote === -1 ? "text-[var(--accent)]" : "text-[var(--muted)]"
+                      }`}
+                      aria-label="Downvote"
+                      aria-pressed={myVote === -1}
+                    >
+                      <ThumbsDown size={14} />
+                    </button>
+                  </div>
+
+                  {isAdmin && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <button
+                        onClick={() => updatePin(image.isPinned ? null : image.id, image.id)}
+                        disabled={pinningId !== null}
+                        className="min-h-[32px] px-2 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+                      >
+                        {isBusy ? (
+                          <Loader2 size={12} className="animate-spin" />
+                        ) : image.isPinned ? (
+                          <PinOff size={12} />
+                        ) : (
+                          <Pin size={12} />
+                        )}
+                        {image.isPinned ? "Unpin" : "Pin as canonical"}
+                      </button>
+                      <button
+                        onClick={() => takeDown(image.id)}
+                        disabled={takingDownId !== null}
+                        className="min-h-[32px] px-2 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs text-red-500 hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+                      >
+                        {takingDownId === image.id ? (
+                          <Loader2 size={12} className="animate-spin" />
+                        ) : (
+                          <EyeOff size={12} />
+                        )}
+                        Take down
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -7,6 +7,7 @@
  * - Tables (GitHub Flavored Markdown)
  * - Links, emphasis, inline code
  * - Blockquotes
+ * - Scripture citations linked to their verse pages, with hover previews
  * - HTML sanitization to prevent XSS attacks
  */
 
@@ -18,12 +19,59 @@ import rehypeHighlight from "rehype-highlight";
 import rehypeSanitize from "rehype-sanitize";
 import { ReactNode } from "react";
 import type { Components } from "react-markdown";
+import type { Element, ElementContent, Root } from "hast";
+import { findScriptureCitations } from "@/lib/scripture-citations";
+import { ScriptureLink } from "./scripture-link";
 
 type MarkdownRendererProps = {
   content: string;
   className?: string;
 };
 
+// Elements whose text is never scanned for citations
+const CITATION_SKIP_TAGS = new Set(["a", "code", "pre"]);
+
+function linkCitationsIn(parent: Root | Element): void {
+  const children: ElementContent[] = [];
+  for (const child of parent.children as ElementContent[]) {
+    if (child.type === "element") {
+      if (!CITATION_SKIP_TAGS.has(child.tagName)) linkCitationsIn(child);
+      children.push(child);
+      continue;
+    }
+    if (child.type !== "text") {
+      children.push(child);
+      continue;
+    }
+
+    let cursor = 0;
+    for (const citation of findScriptureCitations(child.value)) {
+      if (citation.start > cursor) {
+        children.push({ type: "text", value: child.value.slice(cursor, citation.start) });
+      }
+      children.push({
+        type: "element",
+        tagName: "a",
+        properties: { href: citation.href, dataScriptureRef: citation.reference },
+        children: [{ type: "text", value: citation.text }],
+      });
+      cursor = citation.end;
+    }
+    children.push(
+      cursor === 0 ? child : { type: "text", value: child.value.slice(cursor) }
+    );
+  }
+  parent.children = children;
+}
+
+/**
+ * Rehype plugin that wraps scripture citations in links to their verse pages.
+ * Runs after sanitization, so the generated attributes are never stripped.
+ */
+function rehypeScriptureLinks() {
+  return (tree: Root) => linkCitationsIn(tree);
+}
+
 /**
  * Custom components for markdown elements to ensure proper styling
  */
@@ -90,17 +138,34 @@ const markdownComponents: Partial<Components> = {
     </blockquote>
   ),
 
-  // Links
-  a: ({ href, children }: { href?: string; children?: ReactNode }) => (
-    <a
-      href={href}
-      target="_blank"
-      rel="noopener noreferrer"
-      className="text-[var(--accent)] hover:text-[var(--accent-hover)] underline transition-colors"
-    >
-      {children}
-    </a>
-  ),
+  // Links (scripture citations open in-app with a preview)
+  a: ({
+    href,
+    children,
+    "data-scripture-ref": scriptureRef,
+  }: {
+    href?: string;
+    children?: ReactNode;
+    "data-scripture-ref"?: string;
+  }) => {
+    if (href && scriptureRef) {
+      return (
+        <ScriptureLink href={href} reference={scriptureRef}>
+          {children}
+        </ScriptureLink>
+      );
+    }
+    return (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-[var(--accent)] hover:text-[var(--accent-hover)] underline transition-colors"
+      >
+        {children}
+      </a>
+    );
+  },
 
   // Tables (GitHub Flavored Markdown)
   table: ({ children }: { children?: ReactNode }) => (
@@ -154,7 +219,7 @@ export function MarkdownRenderer({ content, className = "" }: MarkdownRendererPr
     <div className={`markdown-content ${className}`}>
       <ReactMarkdown
         remarkPlugins={[remarkGfm]}
-        rehypePlugins={[rehypeHighlight, rehypeSanitize]}
+        rehypePlugins={[rehypeHighlight, rehypeSanitize, rehypeScriptureLinks]}
         components={markdownComponents}
       >
         {content}
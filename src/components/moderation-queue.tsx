@@ -0,0 +1,220 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Check, EyeOff, Loader2, RefreshCw } from "lucide-react";
+import { useSession } from "@/context/session-context";
+import { getShortModelName, formatRelativeTime } from "@/lib/image-metadata";
+import { verseIdToPath } from "../../convex/verseIds";
+
+interface QueuedImage {
+  id: string;
+  verseId: string;
+  reference?: string;
+  imageUrl?: string;
+  model: string;
+  createdAt: number;
+  nostrEventId?: string;
+  nostrScheduled: boolean;
+}
+
+type ModerationDecision = "approve" | "hide";
+
+/**
+ * Admin review queue: pending images, oldest first, each with approve and
+ * take-down actions. Non-admin sessions see an access notice.
+ */
+export function ModerationQueue() {
+  const { tier, isLoading: sessionLoading } = useSession();
+  const [images, setImages] = useState<QueuedImage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const isAdmin = tier === "admin";
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/moderation");
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to load moderation queue");
+        return;
+      }
+      setImages(data?.images ?? []);
+    } catch {
+      setError("Failed to load moderation queue");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) loadQueue();
+  }, [isAdmin, loadQueue]);
+
+  const moderate = async (imageId: string, decision: ModerationDecision) => {
+    setBusyId(imageId);
+    setError(null);
+
+    // Read CSRF token from cookie
+    const csrfToken = document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1];
+
+    try {
+      const response = await fetch("/api/moderation", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken || "",
+        },
+        body: JSON.stringify({ imageId, decision }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error || "Failed to update image");
+        return;
+      }
+      // Either decision takes the image out of the pending queue
+      setImages((queue) => queue.filter((image) => image.id !== imageId));
+    } catch {
+      setError("Failed to update image");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (sessionLoading) {
+    return (
+      <div className="flex justify-center py-16 text-[var(--muted)]">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <p className="py-16 text-center text-sm text-[var(--muted)]">
+        Admin access required.
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Moderation</h1>
+          <p className="text-xs text-[var(--muted)]">
+            {images.length} image{images.length === 1 ? "" : "s"} awaiting review
+          </p>
+        </div>
+        <Link
+          href="/admin/themes"
+          className="ml-auto mr-3 text-sm text-[var(--accent)] hover:underline"
+        >
+          Chapter themes
+        </Link>
+        <Link
+          href="/admin/registry"
+          className="mr-2 text-sm text-[var(--accent)] hover:underline"
+        >
+          Registry
+        </Link>
+        <Link
+          href="/admin/prompts"
+          className="mr-2 text-sm text-[var(--accent)] hover:underline"
+        >
+          Prompts
+        </Link>
+        <Link
+          href="/admin/gift-codes"
+          className="mr-2 text-sm text-[var(--accent)] hover:underline"
+        >
+          Gift codes
+        </Link>
+        <button
+          onClick={loadQueue}
+          disabled={isLoading}
+          className="min-h-[44px] min-w-[44px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] transition-colors disabled:opacity-50"
+          aria-label="Refresh queue"
+          title="Refresh"
+        >
+          <RefreshCw size={18} strokeWidth={1.5} className={isLoading ? "animate-spin" : ""} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {!isLoading && images.length === 0 && !error && (
+        <p className="text-sm text-[var(--muted)] text-center py-8">The queue is empty</p>
+      )}
+
+      <ul className="space-y-3">
+        {images.map((image) => {
+          const isBusy = busyId === image.id;
+          return (
+            <li
+              key={image.id}
+              className="flex gap-4 p-3 rounded-[var(--radius-md)] border border-[var(--divider)]"
+            >
+              <div className="flex-shrink-0 w-32 h-32 rounded-[var(--radius-sm)] overflow-hidden bg-[var(--surface)]">
+                {image.imageUrl && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={image.imageUrl}
+                    alt={image.reference ?? image.verseId}
+                    loading="lazy"
+                    className="w-full h-full object-cover"
+                  />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <Link
+                  href={verseIdToPath(image.verseId)}
+                  className="text-sm font-medium hover:text-[var(--accent)] transition-colors"
+                >
+                  {image.reference ?? image.verseId}
+                </Link>
+                <p className="text-xs text-[var(--muted)]">
+                  {getShortModelName(image.model)} · {formatRelativeTime(image.createdAt)}
+                </p>
+                <p className="text-xs text-[var(--muted)]">
+                  {image.nostrEventId
+                    ? "Posted to Nostr"
+                    : image.nostrScheduled
+                      ? "Posts to Nostr when approved"
+                      : "Not posted to Nostr"}
+                </p>
+
+                <div className="flex gap-2 pt-2">
+                  <button
+                    onClick={() => moderate(image.id, "approve")}
+                    disabled={busyId !== null}
+                    className="min-h-[36px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs bg-[var(--surface)] hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+                  >
+                    {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => moderate(image.id, "hide")}
+                    disabled={busyId !== null}
+                    className="min-h-[36px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs text-red-500 hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+                  >
+                    <EyeOff size={12} />
+                    Take down
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Check, Columns2, Rows3, ChevronDown } from "lucide-react";
+import { usePreferences, ParallelLayout } from "@/context/preferences-context";
+import {
+  TRANSLATIONS,
+  TRANSLATION_GROUPS,
+  LANGUAGE_TAGS,
+  MAX_PARALLEL_TRANSLATIONS,
+  Translation,
+} from "@/lib/translations";
+
+interface Verse {
+  number: number;
+  text: string;
+}
+
+export interface TranslationVerses {
+  translation: Translation;
+  /** Empty when the translation doesn't cover this passage (e.g. Cherokee OT) */
+  verses: Verse[];
+}
+
+const LAYOUT_OPTIONS: Array<{ value: ParallelLayout; label: string; icon: typeof Columns2 }> = [
+  { value: "columns", label: "Side by side", icon: Columns2 },
+  { value: "interleaved", label: "Interleaved", icon: Rows3 },
+];
+
+/**
+ * Picker for up to MAX_PARALLEL_TRANSLATIONS extra translations plus layout.
+ */
+export function ParallelTranslationSelector() {
+  const { translation, parallelTranslations, setParallelTranslations, parallelLayout, setParallelLayout } =
+    usePreferences();
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const isFull = parallelTranslations.length >= MAX_PARALLEL_TRANSLATIONS;
+
+  const toggle = (key: Translation) => {
+    if (parallelTranslations.includes(key)) {
+      setParallelTranslations(parallelTranslations.filter((t) => t !== key));
+    } else if (!isFull) {
+      setParallelTranslations([...parallelTranslations, key]);
+    }
+  };
+
+  const summary = parallelTranslations.length > 0
+    ? [translation, ...parallelTranslations].map((t) => TRANSLATIONS[t].code).join(" · ")
+    : "Compare translations";
+
+  return (
+    <div ref={dropdownRef} className="relative inline-block">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 min-h-[44px] px-2 text-sm text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)]"
+        aria-expanded={isOpen}
+        aria-haspopup="listbox"
+      >
+        <Columns2 size={16} className="opacity-60" />
+        <span>{summary}</span>
+        <ChevronDown
+          size={14}
+          className={`transition-transform duration-[var(--motion-fast)] ${isOpen ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-1/2 -translate-x-1/2 top-full mt-1 w-[calc(100vw-2rem)] sm:w-72 max-h-[60vh] sm:max-h-96 overflow-y-auto rounded-lg bg-[var(--background)] border border-[var(--divider)] shadow-lg z-50 text-left">
+          {/* Layout toggle */}
+          <div className="flex gap-1 p-2 border-b border-[var(--divider)]">
+            {LAYOUT_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setParallelLayout(value)}
+                className={`flex-1 flex items-center justify-center gap-1.5 min-h-[36px] rounded-[var(--radius-md)] text-xs transition-colors duration-[var(--motion-fast)] ${
+                  parallelLayout === value
+                    ? "bg-[var(--surface)] text-[var(--foreground)]"
+                    : "text-[var(--muted)] hover:text-[var(--foreground)]"
+                }`}
+                aria-pressed={parallelLayout === value}
+              >
+                <Icon size={14} />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <p className="px-3 py-2 text-xs text-[var(--muted)]">
+            Show up to {MAX_PARALLEL_TRANSLATIONS} more alongside {TRANSLATIONS[translation].code}
+          </p>
+
+          <div role="listbox" aria-multiselectable="true" aria-label="Parallel translations">
+            {Object.entries(TRANSLATION_GROUPS).map(([groupName, translations]) => (
+              <div key={groupName}>
+                <div className="px-3 py-2 text-xs font-medium text-[var(--muted)] uppercase tracking-wider bg-[var(--surface)] sticky top-0">
+                  {groupName}
+                </div>
+                {translations
+                  .filter((key) => key !== translation)
+                  .map((key) => {
+                    const info = TRANSLATIONS[key];
+                    const isSelected = parallelTranslations.includes(key);
+                    const isDisabled = !isSelected && isFull;
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => toggle(key)}
+                        disabled={isDisabled}
+                        className={`w-full flex items-center justify-between px-3 py-2.5 text-left hover:bg-[var(--surface)] transition-colors duration-[var(--motion-fast)] disabled:opacity-40 disabled:hover:bg-transparent ${
+                          isSelected ? "bg-[var(--surface)]" : ""
+                        }`}
+                        role="option"
+                        aria-selected={isSelected}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <span className="text-sm font-medium">{info.code}</span>
+                          <p className="text-xs text-[var(--muted)] truncate">{info.name}</p>
+                        </div>
+                        {isSelected && (
+                          <Check size={16} className="text-[var(--accent)] flex-shrink-0 ml-2" />
+                        )}
+                      </button>
+                    );
+                  })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TranslationLabel({ translation }: { translation: Translation }) {
+  return (
+    <span
+      className="text-xs font-medium uppercase tracking-wider text-[var(--muted)]"
+      title={TRANSLATIONS[translation].name}
+    >
+      {TRANSLATIONS[translation].code}
+    </span>
+  );
+}
+
+/**
+ * Verses from several translations, as columns or interleaved per verse.
+ * The first entry is the primary translation.
+ */
+export function ParallelText({ versions }: { versions: TranslationVerses[] }) {
+  const { parallelLayout } = usePreferences();
+  const [primary] = versions;
+  const verseNumbers = primary.verses.map((v) => v.number);
+
+  if (parallelLayout === "interleaved") {
+    return (
+      <div className="space-y-6">
+        {verseNumbers.map((number) => (
+          <div key={number} className="space-y-2">
+            <sup className="text-xs text-[var(--muted)]">{number}</sup>
+            {versions.map(({ translation, verses }) => {
+              const verse = verses.find((v) => v.number === number);
+              return (
+                <div key={translation} className="flex gap-3 items-baseline">
+                  <span className="w-14 flex-shrink-0">
+                    <TranslationLabel translation={translation} />
+                  </span>
+                  <p
+                    lang={LANGUAGE_TAGS[TRANSLATIONS[translation].language]}
+                    className={verse ? "text-[var(--foreground)]" : "text-sm text-[var(--muted)] italic"}
+                  >
+                    {verse?.text ?? "Not available"}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const gridCols = versions.length === 3 ? "sm:grid-cols-3" : "sm:grid-cols-2";
+
+  return (
+    <div className={`grid grid-cols-1 ${gridCols} gap-6 sm:gap-8`}>
+      {versions.map(({ translation, verses }) => (
+        <section key={translation} lang={LANGUAGE_TAGS[TRANSLATIONS[translation].language]}>
+          <header className="mb-3 pb-2 border-b border-[var(--divider)]">
+            <TranslationLabel translation={translation} />
+          </header>
+          {verses.length > 0 ? (
+            <p className="text-pretty">
+              {verses.map((verse) => (
+                <span key={verse.number} className="text-[var(--foreground)]">
+                  {verses.length > 1 && (
+                    <sup className="text-xs text-[var(--muted)] mr-1">{verse.number}</sup>
+                  )}
+                  {verse.text}{" "}
+                </span>
+              ))}
+            </p>
+          ) : (
+            <p className="text-sm text-[var(--muted)] italic">Not available in this translation</p>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
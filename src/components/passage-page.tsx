@@ -0,0 +1,173 @@
+import { redirect } from "next/navigation";
+import { HeroImage } from "@/components/hero-image";
+import { ScriptureDetails } from "@/components/scripture-details";
+import { ScriptureReader } from "@/components/scripture-reader";
+import { Header } from "@/components/header";
+import { BookMenu } from "@/components/book-menu";
+import { LayoutWrapper } from "@/components/layout-wrapper";
+import { ChatContextSetter } from "@/components/chat-context-setter";
+import { VerseStrip } from "@/components/verse-strip";
+import { Footer } from "@/components/footer";
+import { getChapter } from "@/lib/bible-api";
+import {
+  getTranslationFromCookies,
+  getParallelTranslationsFromCookies,
+} from "@/lib/get-translation";
+import {
+  PassageLocation,
+  getPassageNavigationUrls,
+  getPassageVerseRange,
+  getPreviousVerse,
+  getNextVerse,
+  formatPassageReference,
+  formatReference,
+  isSingleVerse,
+} from "@/lib/navigation";
+
+interface PassagePageProps {
+  passage: PassageLocation;
+}
+
+/**
+ * Server-rendered page body for a single verse or a verse range.
+ * Rendered by the /[book]/[chapter]/[verse] route.
+ */
+export async function PassagePage({ passage }: PassagePageProps) {
+  const { book: bookData, chapter } = passage;
+  const singleVerse = isSingleVerse(passage);
+
+  // Get user's translation preference from cookie
+  const translation = await getTranslationFromCookies();
+
+  const parallelTranslations = await getParallelTranslationsFromCookies(translation);
+
+  // Fetch the chapter once per translation; passage verses and same-chapter context come from it
+  const [chapterData, ...parallelChapters] = await Promise.all([
+    getChapter(bookData.slug, chapter, translation),
+    ...parallelTranslations.map((t) => getChapter(bookData.slug, chapter, t)),
+  ]);
+  const toPassageVerses = (data: typeof chapterData) =>
+    (data?.verses ?? [])
+      .filter((v) => v.verse >= passage.startVerse && v.verse <= passage.endVerse)
+      .map((v) => ({ number: v.verse, text: v.text }));
+
+  const verses = toPassageVerses(chapterData);
+  if (verses.length === 0) {
+    redirect("/genesis/1/1");
+  }
+
+  // Missing chapters (e.g. Cherokee has no Old Testament) render as "not available"
+  const parallel = parallelTranslations.map((t, index) => ({
+    translation: t,
+    verses: toPassageVerses(parallelChapters[index]),
+  }));
+  const passageText = verses.map((v) => v.text).join(" ");
+  const verseRange = getPassageVerseRange(passage);
+
+  // Calculate navigation URLs (steps by passage length)
+  const { prevUrl, nextUrl } = getPassageNavigationUrls(passage);
+  const totalVerses = bookData.chapters[chapter - 1];
+
+  // Verses just outside the passage give the image prompt narrative context
+  const prevLocation = getPreviousVerse({ book: bookData, chapter, verse: passage.startVerse });
+  const nextLocation = getNextVerse({ book: bookData, chapter, verse: passage.endVerse });
+
+  // Only use same-chapter neighbors for relevant narrative context
+  const prevVerseData = prevLocation && prevLocation.chapter === chapter
+    ? chapterData?.verses.find((v) => v.verse === prevLocation.verse)
+    : undefined;
+  const nextVerseData = nextLocation && nextLocation.chapter === chapter
+    ? chapterData?.verses.find((v) => v.verse === nextLocation.verse)
+    : undefined;
+
+  const prevVerse = prevVerseData && prevLocation
+    ? { number: prevLocation.verse, text: prevVerseData.text, reference: formatReference(prevLocation) }
+    : undefined;
+  const nextVerse = nextVerseData && nextLocation
+    ? { number: nextLocation.verse, text: nextVerseData.text, reference: formatReference(nextLocation) }
+    : undefined;
+
+  const currentReference = formatPassageReference(passage);
+  const caption = singleVerse ? passageText : currentReference;
+
+  // Build chat context for sidebar (every verse in the passage)
+  const chatContext = {
+    book: bookData.name,
+    chapter,
+    verseRange,
+    heroCaption: caption,
+    verses,
+    prevVerse,
+    nextVerse,
+  };
+
+  return (
+    <LayoutWrapper>
+      {/* Set chat context for sidebar */}
+      <ChatContextSetter context={chatContext} />
+
+      {/* Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="flex-1 flex flex-col">
+        {/* Hero Image - one image for the whole passage */}
+        <HeroImage
+          verseText={passageText}
+          caption={caption}
+          overlayText={singleVerse ? passageText : currentReference}
+          prevUrl={prevUrl}
+          nextUrl={nextUrl}
+          prevVerse={prevVerse}
+          nextVerse={nextVerse}
+          currentReference={currentReference}
+          navUnit={singleVerse ? "verse" : "passage"}
+        />
+
+        {/* Verse Strip Navigator - hidden on mobile (navigation in bottom sheet) */}
+        <div className="hidden sm:block border-b border-[var(--divider)]">
+          <VerseStrip
+            book={bookData.slug}
+            chapter={chapter}
+            currentVerse={passage.startVerse}
+            currentEndVerse={passage.endVerse}
+            totalVerses={totalVerses}
+          />
+        </div>
+
+        {/* Scripture Reader */}
+        <div className="flex-1 py-8">
+          <ScriptureReader
+            book={bookData.name}
+            chapter={chapter}
+            verses={verses}
+            totalVerses={totalVerses}
+            prevUrl={prevUrl}
+            nextUrl={nextUrl}
+            translation={translation}
+            parallel={parallel}
+          />
+        </div>
+
+        {/* Scripture Details */}
+        <div className="max-w-2xl mx-auto w-full mb-8">
+          <ScriptureDetails
+            book={bookData.name}
+            chapter={chapter}
+            verseRange={verseRange}
+            verseText={passageText}
+            chapterVerseCount={totalVerses}
+            testament={bookData.testament}
+            reference={currentReference}
+          />
+        </div>
+      </main>
+
+      {/* Footer */}
+      <Footer />
+
+      {/* Book Menu */}
+      <BookMenu />
+    </LayoutWrapper>
+  );
+}
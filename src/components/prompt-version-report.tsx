@@ -0,0 +1,169 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useSession } from "@/context/session-context";
+
+interface VersionStats {
+  version: string;
+  images: number;
+  regenerated: number;
+  regenerateRate: number;
+  upvotes: number;
+  downvotes: number;
+  feedback: number;
+}
+
+interface PromptReport {
+  days: number;
+  truncated: boolean;
+  versions: VersionStats[];
+  currentVersion: string;
+  experiment: { candidateVersion: string; candidatePercent: number } | null;
+  templates: { version: string; description: string }[];
+}
+
+const DAY_OPTIONS = [7, 30, 90];
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Admin report comparing image prompt versions. A lower regenerate rate and
+ * a better vote balance suggest a version produces images readers keep.
+ */
+export function PromptVersionReport() {
+  const { tier, isLoading: sessionLoading } = useSession();
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<PromptReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = tier === "admin";
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/prompt-report?${new URLSearchParams({ days: String(days) })}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to load report");
+        return;
+      }
+      setReport(data);
+    } catch {
+      setError("Failed to load report");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    if (isAdmin) loadReport();
+  }, [isAdmin, loadReport]);
+
+  if (sessionLoading) {
+    return (
+      <div className="flex justify-center py-16 text-[var(--muted)]">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <p className="py-16 text-center text-sm text-[var(--muted)]">
+        Admin access required.
+      </p>
+    );
+  }
+
+  const descriptions = new Map(report?.templates.map((template) => [template.version, template.description]));
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Prompt versions</h1>
+          <p className="text-xs text-[var(--muted)]">
+            {report
+              ? report.experiment
+                ? `${report.experiment.candidatePercent}% of generations use ${report.experiment.candidateVersion}; the rest use ${report.currentVersion}`
+                : `All generations use ${report.currentVersion}`
+              : "Regenerate rate, votes and feedback per version"}
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="ml-auto min-h-[36px] px-2 rounded-[var(--radius-sm)] bg-[var(--surface)] text-sm"
+          aria-label="Period"
+        >
+          {DAY_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              Last {option} days
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={loadReport}
+          disabled={isLoading}
+          className="min-h-[44px] min-w-[44px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] transition-colors disabled:opacity-50"
+          aria-label="Refresh report"
+          title="Refresh"
+        >
+          <RefreshCw size={18} strokeWidth={1.5} className={isLoading ? "animate-spin" : ""} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {report && report.versions.length === 0 && (
+        <p className="py-8 text-center text-sm text-[var(--muted)]">
+          No images in the last {report.days} days.
+        </p>
+      )}
+
+      {report && report.versions.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-[var(--muted)] border-b border-[var(--divider)]">
+              <th className="py-2 font-medium">Version</th>
+              <th className="py-2 font-medium text-right">Images</th>
+              <th className="py-2 font-medium text-right">Regenerated</th>
+              <th className="py-2 font-medium text-right">Votes</th>
+              <th className="py-2 font-medium text-right">Feedback</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.versions.map((stats) => (
+              <tr key={stats.version} className="border-b border-[var(--divider)] align-top">
+                <td className="py-2">
+                  <div className="font-medium">{stats.version}</div>
+                  {descriptions.get(stats.version) && (
+                    <div className="text-xs text-[var(--muted)]">{descriptions.get(stats.version)}</div>
+                  )}
+                </td>
+                <td className="py-2 text-right">{stats.images}</td>
+                <td className="py-2 text-right">{formatPercent(stats.regenerateRate)}</td>
+                <td className="py-2 text-right">
+                  +{stats.upvotes} / −{stats.downvotes}
+                </td>
+                <td className="py-2 text-right">{stats.feedback}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {report?.truncated && (
+        <p className="text-xs text-[var(--muted)]">Only the newest 2000 images are counted.</p>
+      )}
+      <p className="text-xs text-[var(--muted)]">
+        An image counts as regenerated when another image of the same verse was made within an hour of it.
+      </p>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { usePreferences } from "@/context/preferences-context";
 import { useNavigation } from "@/context/navigation-context";
 import { useConvexEnabled } from "@/components/convex-client-provider";
 import { api } from "../../convex/_generated/api";
+import { createVerseId } from "../../convex/verseIds";
 import { TranslationSelector } from "./translation-selector";
 
 interface ScriptureDetailsProps {
@@ -48,6 +49,13 @@ interface PromptInputs {
   generationNumber?: number;
   prevVerse?: VerseContext;
   nextVerse?: VerseContext;
+  registryEntries?: {
+    id: string;
+    kind: "character" | "location";
+    name: string;
+    description: string;
+  }[];
+  refineInstruction?: string;
 }
 
 interface ConvexImageData {
@@ -140,7 +148,6 @@ function ScriptureDetailsBase({
   const wordCount = countWords(verseText);
   const charCount = verseText.trim().length;
   const verseCount = getVerseCount(verseRange);
-  const currentVerseNumber = parseInt(verseRange.split("-")[0], 10) || 1;
   const readingTimeSeconds = wordCount ? Math.round((wordCount / WORDS_PER_MINUTE) * 60) : 0;
   const readingTimeLabel = readingTimeSeconds
     ? formatDuration(readingTimeSeconds)
@@ -155,7 +162,7 @@ function ScriptureDetailsBase({
     ? `${chapterVerseCount} verse${chapterVerseCount === 1 ? "" : "s"}`
     : "-";
   const versePositionLabel = chapterVerseCount
-    ? `${currentVerseNumber} of ${chapterVerseCount}`
+    ? `${verseRange} of ${chapterVerseCount}`
     : "-";
 
   // Image data - use currently displayed image (synced from HeroImage via context)
@@ -190,6 +197,8 @@ function ScriptureDetailsBase({
     ? `${displayedImage.imageWidth} × ${displayedImage.imageHeight}`
     : "-";
   const aspectRatioLabel = displayedImage?.aspectRatio || "-";
+  const registryNames = displayedImage?.promptInputs?.registryEntries?.map((entry) => entry.name);
+  const refineInstruction = displayedImage?.promptInputs?.refineInstruction;
   const fileSizeLabel = displayedImage?.imageSizeBytes
     ? formatFileSize(displayedImage.imageSizeBytes)
     : "-";
@@ -360,6 +369,12 @@ function ScriptureDetailsBase({
                 <DetailRow label="Gen Time" value={genTimeLabel} />
                 <DetailRow label="Cost" value={costLabel} />
                 <DetailRow label="Created" value={displayedImageLabel} />
+                {refineInstruction && (
+                  <DetailRow label="Refined" value={`“${refineInstruction}”`} />
+                )}
+                {registryNames && registryNames.length > 0 && (
+                  <DetailRow label="Registry" value={registryNames.join(", ")} />
+                )}
                 {imageAttribution?.title && (
                   <DetailRow label="Title" value={imageAttribution.title} />
                 )}
@@ -394,13 +409,6 @@ function DetailRow({ label, value }: { label: string; value: string }) {
 
 const WORDS_PER_MINUTE = 200;
 
-function createVerseId(reference: string): string {
-  return reference
-    .toLowerCase()
-    .replace(/\s+/g, "-")
-    .replace(/:/g, "-");
-}
-
 function countWords(text: string): number {
   const cleaned = text.trim();
   if (!cleaned) return 0;
@@ -0,0 +1,113 @@
+"use client";
+
+import { ReactNode, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { usePreferences } from "@/context/preferences-context";
+
+interface PassagePreview {
+  translation: string;
+  verses: Array<{ chapter: number; verse: number; text: string }>;
+  truncated: boolean;
+}
+
+// Wait for the pointer to settle before fetching a preview
+const HOVER_DELAY_MS = 250;
+
+// Shared across links so repeated citations only fetch once per translation
+const previewCache = new Map<string, Promise<PassagePreview | null>>();
+
+function fetchPreview(reference: string, translation: string): Promise<PassagePreview | null> {
+  const key = `${translation}:${reference}`;
+  let cached = previewCache.get(key);
+  if (!cached) {
+    const params = new URLSearchParams({ ref: reference, translation });
+    cached = fetch(`/api/passage?${params}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .catch(() => null);
+    // Failed lookups may succeed later; only keep successful previews
+    cached.then((preview) => {
+      if (!preview) previewCache.delete(key);
+    });
+    previewCache.set(key, cached);
+  }
+  return cached;
+}
+
+/**
+ * Link to a scripture citation's page with a hover preview of the verse text
+ * in the reader's current translation.
+ */
+export function ScriptureLink({
+  href,
+  reference,
+  children,
+}: {
+  href: string;
+  reference: string;
+  children?: ReactNode;
+}) {
+  const { translation } = usePreferences();
+  const [isOpen, setIsOpen] = useState(false);
+  const [preview, setPreview] = useState<PassagePreview | null | undefined>(undefined);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  const show = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      setIsOpen(true);
+      fetchPreview(reference, translation).then(setPreview);
+    }, HOVER_DELAY_MS);
+  };
+
+  const hide = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setIsOpen(false);
+  };
+
+  return (
+    <span className="relative" onMouseEnter={show} onMouseLeave={hide}>
+      <Link
+        href={href}
+        onFocus={show}
+        onBlur={hide}
+        className="text-[var(--accent)] hover:text-[var(--accent-hover)] underline decoration-dotted underline-offset-2 transition-colors"
+      >
+        {children}
+      </Link>
+
+      {isOpen && (
+        <span
+          role="tooltip"
+          className="absolute left-0 top-full z-50 mt-1 block w-72 max-w-[80vw] p-3 rounded-[var(--radius-md)] border border-[var(--divider)] bg-[var(--background)] shadow-lg text-left text-sm not-italic font-normal text-[var(--foreground)]"
+        >
+          <span className="block mb-1 text-xs font-medium text-[var(--muted)]">
+            {reference}
+            {preview ? ` · ${preview.translation}` : ""}
+          </span>
+          {preview === undefined ? (
+            <Loader2 size={14} className="animate-spin text-[var(--muted)]" />
+          ) : preview === null ? (
+            <span className="block text-xs text-[var(--muted)]">Preview unavailable</span>
+          ) : (
+            <span className="block max-h-48 overflow-y-auto leading-relaxed">
+              {preview.verses.map((verse) => (
+                <span key={`${verse.chapter}:${verse.verse}`}>
+                  <sup className="text-[var(--muted)] mr-0.5">{verse.verse}</sup>
+                  {verse.text}{" "}
+                </span>
+              ))}
+              {preview.truncated && <span className="text-[var(--muted)]">…</span>}
+            </span>
+          )}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -2,6 +2,12 @@
 
 import Link from "next/link";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Translation } from "@/lib/translations";
+import {
+  ParallelText,
+  ParallelTranslationSelector,
+  TranslationVerses,
+} from "./parallel-translations";
 
 interface Verse {
   number: number;
@@ -11,25 +17,36 @@ interface Verse {
 interface ScriptureReaderProps {
   book: string;
   chapter: number;
-  verse: Verse;
-  verseNumber: number;
+  verses: Verse[];
   totalVerses: number;
   prevUrl?: string | null;
   nextUrl?: string | null;
+  /** Translation of `verses`; labels the first column in parallel view */
+  translation: Translation;
+  /** Extra translations of the same verses for parallel view */
+  parallel?: TranslationVerses[];
 }
 
 export function ScriptureReader({
   book = "Genesis",
   chapter = 1,
-  verse,
-  verseNumber,
+  verses,
   totalVerses,
   prevUrl,
   nextUrl,
+  translation,
+  parallel = [],
 }: ScriptureReaderProps) {
+  const firstVerse = verses[0]?.number ?? 1;
+  const lastVerse = verses[verses.length - 1]?.number ?? firstVerse;
+  const isPassage = verses.length > 1;
+  const navUnit = isPassage ? "passage" : "verse";
+  const positionLabel = isPassage
+    ? `${firstVerse}–${lastVerse} of ${totalVerses}`
+    : `${firstVerse} of ${totalVerses}`;
 
   return (
-    <article className="px-4 md:px-6 py-6 max-w-2xl mx-auto">
+    <article className={`px-4 md:px-6 py-6 mx-auto ${parallel.length > 0 ? "max-w-5xl" : "max-w-2xl"}`}>
       {/* Mobile Navigation - Top (above verse content for easy access) */}
       <nav className="flex sm:hidden items-center mb-6 pb-4 border-b border-[var(--divider)]">
         <div className="flex-1 flex justify-start">
@@ -37,7 +54,7 @@ export function ScriptureReader({
             <Link
               href={prevUrl}
               className="flex items-center gap-2 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)] min-h-[44px] px-3 -ml-3"
-              aria-label="Previous verse"
+              aria-label={`Previous ${navUnit}`}
             >
               <ChevronLeft size={20} strokeWidth={1.5} />
               <span className="text-sm">Previous</span>
@@ -46,7 +63,7 @@ export function ScriptureReader({
         </div>
 
         <span className="text-[var(--muted)] text-sm">
-          {verseNumber} of {totalVerses}
+          {positionLabel}
         </span>
 
         <div className="flex-1 flex justify-end">
@@ -54,7 +71,7 @@ export function ScriptureReader({
             <Link
               href={nextUrl}
               className="flex items-center gap-2 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)] min-h-[44px] px-3 -mr-3"
-              aria-label="Next verse"
+              aria-label={`Next ${navUnit}`}
             >
               <span className="text-sm">Next</span>
               <ChevronRight size={20} strokeWidth={1.5} />
@@ -69,16 +86,37 @@ export function ScriptureReader({
           {book} {chapter}
         </p>
         <h1 className="text-4xl md:text-5xl font-light tracking-tight">
-          Verse {verseNumber}
+          {isPassage ? `Verses ${firstVerse}–${lastVerse}` : `Verse ${firstVerse}`}
         </h1>
+        <div className="mt-2">
+          <ParallelTranslationSelector />
+        </div>
       </header>
 
-      {/* Scripture Text - Desktop only (mobile shows overlaid text above) */}
-      <div className="hidden sm:block leading-relaxed text-lg md:text-xl">
-        <p className="text-pretty text-center">
-          <span className="text-[var(--foreground)]">{verse.text}</span>
-        </p>
-      </div>
+      {parallel.length > 0 ? (
+        /* Parallel Text - all breakpoints (the mobile overlay only shows the primary translation) */
+        <div className="leading-relaxed text-base md:text-lg">
+          <ParallelText versions={[{ translation, verses }, ...parallel]} />
+        </div>
+      ) : (
+        /* Scripture Text - Desktop only (mobile shows overlaid text above) */
+        <div className="hidden sm:block leading-relaxed text-lg md:text-xl">
+          {isPassage ? (
+            <p className="text-pretty">
+              {verses.map((verse) => (
+                <span key={verse.number} className="text-[var(--foreground)]">
+                  <sup className="text-xs text-[var(--muted)] mr-1">{verse.number}</sup>
+                  {verse.text}{" "}
+                </span>
+              ))}
+            </p>
+          ) : (
+            <p className="text-pretty text-center">
+              <span className="text-[var(--foreground)]">{verses[0]?.text}</span>
+            </p>
+          )}
+        </div>
+      )}
 
       {/* Verse Navigation - Desktop only (mobile has top nav) */}
       <nav className="hidden sm:flex items-center mt-12 pt-6 border-t border-[var(--divider)]">
@@ -87,7 +125,7 @@ export function ScriptureReader({
             <Link
               href={prevUrl}
               className="flex items-center gap-2 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)] min-h-[44px] px-3 -ml-3"
-              aria-label="Previous verse"
+              aria-label={`Previous ${navUnit}`}
             >
               <ChevronLeft size={20} strokeWidth={1.5} />
               <span className="text-sm">Previous</span>
@@ -96,7 +134,7 @@ export function ScriptureReader({
         </div>
 
         <span className="text-[var(--muted)] text-sm">
-          {verseNumber} of {totalVerses}
+          {positionLabel}
         </span>
 
         <div className="flex-1 flex justify-end">
@@ -104,7 +142,7 @@ export function ScriptureReader({
             <Link
               href={nextUrl}
               className="flex items-center gap-2 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)] min-h-[44px] px-3 -mr-3"
-              aria-label="Next verse"
+              aria-label={`Next ${navUnit}`}
             >
               <span className="text-sm">Next</span>
               <ChevronRight size={20} strokeWidth={1.5} />
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useRef, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Search, Loader2, X, ArrowRight } from "lucide-react";
+import { usePreferences } from "@/context/preferences-context";
+import {
+  parseReference,
+  formatReferenceRange,
+  referenceRangeToUrl,
+} from "@/lib/reference-parser";
+
+interface SearchResultItem {
+  reference: string;
+  text: string;
+  url: string;
+}
+
+// Wait for typing to pause before hitting /api/search
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+export function ScriptureSearch() {
+  const { translation } = usePreferences();
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResultItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isPartial, setIsPartial] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  // "Jn 3:16" style input jumps straight to the passage instead of searching
+  const referenceTarget = useMemo(() => {
+    const ranges = parseReference(query);
+    if (!ranges) return null;
+    return { label: formatReferenceRange(ranges[0]), url: referenceRangeToUrl(ranges[0]) };
+  }, [query]);
+
+  // Focus the input when the panel opens
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  // Debounced search; aborts stale requests as the query changes
+  useEffect(() => {
+    const trimmed = query.trim();
+    const controller = new AbortController();
+
+    const timer = setTimeout(() => {
+      if (trimmed.length < MIN_QUERY_LENGTH || parseReference(trimmed)) {
+        setResults([]);
+        setTotal(0);
+        setIsPartial(false);
+        setError(null);
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const params = new URLSearchParams({ q: trimmed, translation });
+      fetch(`/api/search?${params}`, { signal: controller.signal })
+        .then(async (res) => {
+          const data = await res.json();
+          if (!res.ok) {
+            setResults([]);
+            setTotal(0);
+            setIsPartial(false);
+            setError(data.error || "Search failed");
+            return;
+          }
+          setResults(data.results);
+          setTotal(data.total);
+          setIsPartial(Boolean(data.partial));
+          setError(null);
+        })
+        .catch((err) => {
+          if (err instanceof DOMException && err.name === "AbortError") return;
+          console.error("Search failed:", err);
+          setError("Search failed");
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsLoading(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, translation]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery("");
+  };
+
+  return (
+    <div ref={containerRef} className="sm:relative">
+      <button
+        className="min-h-[44px] min-w-[44px] flex items-center justify-center text-[var(--muted)] hover:text-[var(--foreground)] transition-colors duration-[var(--motion-fast)]"
+        aria-label="Search or go to a reference"
+        aria-expanded={isOpen}
+        title="Search"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <Search size={20} strokeWidth={1.5} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 sm:left-auto top-full sm:mt-1 sm:w-96 max-h-[70vh] overflow-y-auto bg-[var(--background)] border-b sm:border border-[var(--divider)] sm:rounded-lg shadow-lg z-50">
+          {/* Search Input */}
+          <div className="p-3 border-b border-[var(--divider)] sticky top-0 bg-[var(--background)]">
+            <div className="relative">
+              <Search
+                size={16}
+                className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--muted)]"
+              />
+              <input
+                ref={inputRef}
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") close();
+                  if (e.key === "Enter" && referenceTarget) {
+                    router.push(referenceTarget.url);
+                    close();
+                  }
+                }}
+                placeholder='Go to "Jn 3:16" or search "love one another"'
+                maxLength={200}
+                className="w-full min-h-[44px] pl-9 pr-10 py-2 bg-[var(--surface)] border border-[var(--divider)] rounded-[var(--radius-md)] text-base sm:text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:border-transparent transition-shadow duration-[var(--motion-fast)]"
+                aria-label="Search scripture"
+              />
+              {isLoading ? (
+                <Loader2
+                  size={16}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-[var(--muted)] animate-spin"
+                />
+              ) : query && (
+                <button
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-[var(--muted)] hover:text-[var(--foreground)]"
+                  aria-label="Clear search"
+                  onClick={() => setQuery("")}
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Go to reference */}
+          {referenceTarget && (
+            <Link
+              href={referenceTarget.url}
+              onClick={close}
+              className="flex items-center justify-between px-4 py-3 text-sm font-medium text-[var(--foreground)] hover:bg-[var(--surface)] transition-colors duration-[var(--motion-fast)]"
+            >
+              <span>Go to {referenceTarget.label}</span>
+              <ArrowRight size={16} className="text-[var(--muted)]" />
+            </Link>
+          )}
+
+          {/* Results */}
+          {referenceTarget ? null : error ? (
+            <p className="px-4 py-3 text-sm text-[var(--muted)]">{error}</p>
+          ) : results.length > 0 ? (
+            <>
+              <ul role="list">
+                {results.map((result) => (
+                  <li key={result.url}>
+                    <Link
+                      href={result.url}
+                      onClick={close}
+                      className="block px-4 py-3 hover:bg-[var(--surface)] transition-colors duration-[var(--motion-fast)]"
+                    >
+                      <span className="block text-sm font-medium text-[var(--foreground)]">
+                        {result.reference}
+                      </span>
+                      <span className="block text-sm text-[var(--muted)] line-clamp-2">
+                        {result.text}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+              {total > results.length && (
+                <p className="px-4 py-2 text-xs text-[var(--muted)] border-t border-[var(--divider)]">
+                  Showing top {results.length} of {total} matches
+                </p>
+              )}
+              {isPartial && (
+                <p className="px-4 py-2 text-xs text-[var(--muted)] border-t border-[var(--divider)]">
+                  Some chapters could not be searched; results may be incomplete
+                </p>
+              )}
+            </>
+          ) : (
+            query.trim().length >= MIN_QUERY_LENGTH && !isLoading && (
+              <p className="px-4 py-3 text-sm text-[var(--muted)]">
+                {isPartial
+                  ? "No verses found, but some chapters could not be searched"
+                  : "No verses found"}
+              </p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from "react";
 import { ChevronDown, Check, BookOpen } from "lucide-react";
 import { usePreferences } from "@/context/preferences-context";
-import { TRANSLATIONS, TRANSLATION_GROUPS, Translation } from "@/lib/bible-api";
+import { TRANSLATIONS, TRANSLATION_GROUPS, Translation } from "@/lib/translations";
 
 interface TranslationSelectorProps {
   variant?: "compact" | "full";
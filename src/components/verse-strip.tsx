@@ -9,16 +9,18 @@ interface VerseStripProps {
   book: string;
   chapter: number;
   currentVerse: number;
+  // Last verse of the current passage (defaults to currentVerse)
+  currentEndVerse?: number;
   totalVerses: number;
 }
 
 interface VerseStripBaseProps extends VerseStripProps {
-  imageStatus: Array<{ verse: number; imageCount: number }> | null | undefined;
+  imageStatus: Array<{ verse: number; imageCount: number; pinned?: boolean }> | null | undefined;
 }
 
-// Calculate width for stacked dots container
-function getDotsWidth(count: number): string {
-  const dots = Math.max(1, Math.min(count, 3));
+// Calculate width for stacked dots container (a pinned verse shows one dot)
+function getDotsWidth(count: number, pinned: boolean): string {
+  const dots = pinned ? 1 : Math.max(1, Math.min(count, 3));
   return `${8 + (dots - 1) * 6}px`; // base 8px + 6px per additional dot
 }
 
@@ -47,26 +49,29 @@ function VerseStripBase({
   book,
   chapter,
   currentVerse,
+  currentEndVerse,
   totalVerses,
   imageStatus,
 }: VerseStripBaseProps) {
+  const lastCurrentVerse = currentEndVerse ?? currentVerse;
 
-  // Create a Map of verses to image counts for O(1) lookup
-  const imageCountMap = new Map(
-    imageStatus?.map((v) => [v.verse, v.imageCount]) ?? []
+  // Create a Map of verses to image status for O(1) lookup
+  const imageStatusMap = new Map(
+    imageStatus?.map((v) => [v.verse, v]) ?? []
   );
 
   // Generate array of all verses in chapter with their image counts
   const verses = Array.from({ length: totalVerses }, (_, i) => ({
     verse: i + 1,
-    imageCount: imageCountMap.get(i + 1) ?? 0,
+    imageCount: imageStatusMap.get(i + 1)?.imageCount ?? 0,
+    pinned: imageStatusMap.get(i + 1)?.pinned ?? false,
   }));
 
   return (
     <div className="overflow-x-auto scrollbar-hide">
       <div className="flex gap-1 p-2">
         {verses.map((v) => {
-          const isCurrent = v.verse === currentVerse;
+          const isCurrent = v.verse >= currentVerse && v.verse <= lastCurrentVerse;
           return (
             <Link
               key={v.verse}
@@ -79,12 +84,21 @@ function VerseStripBase({
               aria-current={isCurrent ? "page" : undefined}
             >
               <span className="text-sm font-medium">{v.verse}</span>
-              {/* Stacked dots indicator for image count */}
+              {/* Stacked dots indicator for image count; a ringed dot marks a pinned canonical image */}
               <div
                 className="relative h-2 mt-0.5"
-                style={{ width: getDotsWidth(v.imageCount) }}
+                style={{ width: getDotsWidth(v.imageCount, v.pinned) }}
+                title={v.pinned ? "Pinned image" : undefined}
               >
-                {v.imageCount > 0 ? (
+                {v.pinned ? (
+                  <span
+                    className={`absolute w-2 h-2 rounded-full ring-1 ${
+                      isCurrent
+                        ? "bg-[var(--accent-text)] ring-[var(--accent-text)]/60"
+                        : "bg-[var(--accent)] ring-[var(--foreground)]/60"
+                    }`}
+                  />
+                ) : v.imageCount > 0 ? (
                   Array.from({ length: Math.min(v.imageCount, 3) }).map((_, i) => (
                     <span
                       key={i}
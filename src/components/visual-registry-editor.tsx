@@ -0,0 +1,294 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useSession } from "@/context/session-context";
+import { formatRelativeTime } from "@/lib/image-metadata";
+import {
+  formatRegistryScopes,
+  RegistryEntryKind,
+  RegistryScope,
+  MAX_REGISTRY_DESCRIPTION_LENGTH,
+  MAX_REGISTRY_NAME_LENGTH,
+} from "@/lib/visual-registry";
+
+interface StoredEntry {
+  id: string;
+  kind: RegistryEntryKind;
+  name: string;
+  aliases: string[];
+  description: string;
+  scopes: RegistryScope[];
+  updatedAt: number;
+}
+
+interface EntryForm {
+  kind: RegistryEntryKind;
+  name: string;
+  aliases: string;
+  description: string;
+  scopes: string;
+}
+
+const EMPTY_FORM: EntryForm = {
+  kind: "character",
+  name: "",
+  aliases: "",
+  description: "",
+  scopes: "",
+};
+
+function toForm(entry: StoredEntry): EntryForm {
+  return {
+    kind: entry.kind,
+    name: entry.name,
+    aliases: entry.aliases.join(", "),
+    description: entry.description,
+    scopes: formatRegistryScopes(entry.scopes),
+  };
+}
+
+function getCsrfToken(): string {
+  return (
+    document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1] ?? ""
+  );
+}
+
+/**
+ * Admin editor for the visual registry of recurring characters and places.
+ * Image generation injects an entry's description whenever the scene plan
+ * mentions its name or an alias within the entry's scopes.
+ */
+export function VisualRegistryEditor() {
+  const { tier, isLoading: sessionLoading } = useSession();
+  const [entries, setEntries] = useState<StoredEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState<"load" | "save" | "delete" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = tier === "admin";
+  const selected = entries.find((entry) => entry.id === selectedId);
+
+  const loadEntries = useCallback(async () => {
+    setBusy("load");
+    setError(null);
+    try {
+      const response = await fetch("/api/visual-registry");
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to load registry");
+        return;
+      }
+      setEntries(data?.entries ?? []);
+    } catch {
+      setError("Failed to load registry");
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) loadEntries();
+  }, [isAdmin, loadEntries]);
+
+  const select = (entry: StoredEntry | null) => {
+    setSelectedId(entry?.id ?? null);
+    setForm(entry ? toForm(entry) : EMPTY_FORM);
+    setError(null);
+  };
+
+  const save = async () => {
+    setBusy("save");
+    setError(null);
+    try {
+      const response = await fetch("/api/visual-registry", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", "x-csrf-token": getCsrfToken() },
+        body: JSON.stringify({
+          id: selectedId ?? undefined,
+          kind: form.kind,
+          name: form.name,
+          aliases: form.aliases
+            .split(",")
+            .map((alias) => alias.trim())
+            .filter(Boolean),
+          description: form.description,
+          scopes: form.scopes,
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.message || data?.error || "Failed to save entry");
+        return;
+      }
+      setSelectedId(data.id);
+      await loadEntries();
+    } catch {
+      setError("Failed to save entry");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async () => {
+    if (!selectedId) return;
+    setBusy("delete");
+    setError(null);
+    try {
+      const response = await fetch(`/api/visual-registry?${new URLSearchParams({ id: selectedId })}`, {
+        method: "DELETE",
+        headers: { "x-csrf-token": getCsrfToken() },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error || "Failed to remove entry");
+        return;
+      }
+      select(null);
+      await loadEntries();
+    } catch {
+      setError("Failed to remove entry");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (sessionLoading) {
+    return (
+      <div className="flex justify-center py-16 text-[var(--muted)]">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <p className="py-16 text-center text-sm text-[var(--muted)]">
+        Admin access required.
+      </p>
+    );
+  }
+
+  const isComplete = form.name.trim() !== "" && form.description.trim() !== "";
+  const inputClass =
+    "w-full p-2 rounded-[var(--radius-sm)] border border-[var(--divider)] bg-[var(--background)] text-sm";
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 space-y-4">
+      <div>
+        <h1 className="text-xl font-semibold">Visual registry</h1>
+        <p className="text-xs text-[var(--muted)]">
+          {entries.length} recurring {entries.length === 1 ? "character or place" : "characters and places"}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => select(null)}
+          className={`min-h-[32px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-full)] text-xs transition-colors ${
+            selectedId === null ? "bg-[var(--divider)]" : "bg-[var(--surface)] hover:bg-[var(--divider)]"
+          }`}
+        >
+          <Plus size={12} />
+          New entry
+        </button>
+        {entries.map((entry) => (
+          <button
+            key={entry.id}
+            onClick={() => select(entry)}
+            className={`min-h-[32px] px-3 rounded-[var(--radius-full)] text-xs transition-colors ${
+              entry.id === selectedId ? "bg-[var(--divider)]" : "bg-[var(--surface)] hover:bg-[var(--divider)]"
+            }`}
+          >
+            {entry.name}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-[var(--muted)]">
+        {selected
+          ? `Updated ${formatRelativeTime(selected.updatedAt)}`
+          : "New entries apply from the next image generated in their scopes."}
+      </p>
+
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <select
+            value={form.kind}
+            onChange={(e) => setForm((current) => ({ ...current, kind: e.target.value as RegistryEntryKind }))}
+            className="w-32 min-h-[36px] px-2 rounded-[var(--radius-sm)] bg-[var(--surface)] text-sm"
+            aria-label="Kind"
+          >
+            <option value="character">Character</option>
+            <option value="location">Location</option>
+          </select>
+          <input
+            value={form.name}
+            onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+            maxLength={MAX_REGISTRY_NAME_LENGTH}
+            placeholder="Name, e.g. Moses"
+            className={`flex-1 ${inputClass}`}
+            aria-label="Name"
+          />
+        </div>
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-[var(--muted)]">Aliases (comma separated)</span>
+          <input
+            value={form.aliases}
+            onChange={(e) => setForm((current) => ({ ...current, aliases: e.target.value }))}
+            placeholder="the prophet, son of Amram"
+            className={inputClass}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-[var(--muted)]">Canonical description</span>
+          <textarea
+            value={form.description}
+            onChange={(e) => setForm((current) => ({ ...current, description: e.target.value }))}
+            maxLength={MAX_REGISTRY_DESCRIPTION_LENGTH}
+            rows={3}
+            className={inputClass}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-[var(--muted)]">
+            Scopes (books or chapter ranges; empty applies everywhere)
+          </span>
+          <input
+            value={form.scopes}
+            onChange={(e) => setForm((current) => ({ ...current, scopes: e.target.value }))}
+            placeholder="Exodus; Numbers 1-20; Deuteronomy 34"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={save}
+          disabled={busy !== null || !isComplete}
+          className="min-h-[36px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs bg-[var(--accent)] text-[var(--accent-text)] hover:bg-[var(--accent-hover)] transition-colors disabled:opacity-50"
+        >
+          {busy === "save" ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+          Save
+        </button>
+        {selected && (
+          <button
+            onClick={remove}
+            disabled={busy !== null}
+            className="min-h-[36px] px-3 inline-flex items-center gap-1 rounded-[var(--radius-sm)] text-xs text-red-500 hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={12} />
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
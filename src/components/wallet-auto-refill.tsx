@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useSession } from "@/context/session-context";
+import { WALLET_CONNECTED_STORAGE_KEY } from "@/components/wallet-connect-settings";
+
+// Read CSRF token from cookie
+function getCsrfToken(): string {
+  return (
+    document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1] ?? ""
+  );
+}
+
+/**
+ * Tops up credits from the connected Nostr Wallet Connect wallet when they
+ * drop below its auto-refill threshold. Renders nothing. The server
+ * re-checks the threshold and enforces a cooldown, so a stale threshold or
+ * several open tabs can't buy twice.
+ */
+export function WalletAutoRefill() {
+  const { tier, credits, isLoading, isBuyModalOpen, updateCredits } = useSession();
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const isRefillingRef = useRef(false);
+
+  // Load the threshold; settings change in the buy modal, so reload when it closes
+  useEffect(() => {
+    if (isLoading || isBuyModalOpen || tier === "admin") return;
+    if (localStorage.getItem(WALLET_CONNECTED_STORAGE_KEY) !== "true") return;
+
+    let cancelled = false;
+    fetch("/api/wallet")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (cancelled) return;
+        if (!data?.wallet) localStorage.removeItem(WALLET_CONNECTED_STORAGE_KEY);
+        setThreshold(data?.wallet?.autoRefillThreshold ?? null);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading, isBuyModalOpen, tier]);
+
+  useEffect(() => {
+    if (threshold === null || credits >= threshold || isRefillingRef.current) return;
+    // The wallet may have been disconnected since the threshold was loaded
+    if (localStorage.getItem(WALLET_CONNECTED_STORAGE_KEY) !== "true") return;
+
+    isRefillingRef.current = true;
+    fetch("/api/wallet/refill", {
+      method: "POST",
+      headers: { "x-csrf-token": getCsrfToken() },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.refilled && typeof data.newBalance === "number") {
+          updateCredits(data.newBalance);
+        }
+      })
+      .catch(() => {})
+      .finally(() => {
+        isRefillingRef.current = false;
+      });
+  }, [credits, threshold, updateCredits]);
+
+  return null;
+}
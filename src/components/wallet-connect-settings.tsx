@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown, Link2, Loader2 } from "lucide-react";
+// Wallet budgets share the custom top-up bounds (see convex/walletConnect.ts)
+import {
+  bundleCredits,
+  CREDIT_BUNDLES,
+  DEFAULT_BUNDLE_ID,
+  MAX_CUSTOM_USD,
+  MIN_CUSTOM_USD,
+} from "../../convex/creditBundles";
+
+export interface WalletConnection {
+  walletPubkey: string;
+  relays: string[];
+  budgetUsd: number;
+  autoRefillThreshold?: number;
+  autoRefillBundleId?: string;
+  lastPaidAt?: number;
+  lastError?: string;
+}
+
+// Set while a wallet is connected, so pages only ask about auto-refill when there is one
+export const WALLET_CONNECTED_STORAGE_KEY = "visibible_wallet_connected";
+
+const DEFAULT_BUDGET_USD = "10";
+const DEFAULT_REFILL_THRESHOLD = "50";
+
+// Read CSRF token from cookie
+function getCsrfToken(): string {
+  return (
+    document.cookie
+      .split("; ")
+      .find((row) => row.startsWith("visibible_csrf="))
+      ?.split("=")[1] ?? ""
+  );
+}
+
+interface WalletConnectSettingsProps {
+  wallet: WalletConnection | null;
+  onChange: (wallet: WalletConnection | null) => void;
+}
+
+/**
+ * Collapsible Nostr Wallet Connect section of the buy credits modal. Connects
+ * a wallet from its NWC URI and edits the per-top-up budget and auto-refill.
+ * The URI is sent once and never shown again; the server keeps it encrypted.
+ */
+export function WalletConnectSettings({ wallet, onChange }: WalletConnectSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [connectionUri, setConnectionUri] = useState("");
+  const [budgetUsd, setBudgetUsd] = useState(DEFAULT_BUDGET_USD);
+  const [autoRefill, setAutoRefill] = useState(false);
+  const [refillThreshold, setRefillThreshold] = useState(DEFAULT_REFILL_THRESHOLD);
+  const [refillBundleId, setRefillBundleId] = useState(DEFAULT_BUNDLE_ID);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start the form from the connected wallet's settings
+  useEffect(() => {
+    if (!wallet) return;
+    setBudgetUsd(String(wallet.budgetUsd));
+    setAutoRefill(wallet.autoRefillThreshold !== undefined);
+    setRefillThreshold(String(wallet.autoRefillThreshold ?? DEFAULT_REFILL_THRESHOLD));
+    setRefillBundleId(wallet.autoRefillBundleId ?? DEFAULT_BUNDLE_ID);
+  }, [wallet]);
+
+  const saveWallet = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/wallet", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": getCsrfToken(),
+        },
+        body: JSON.stringify({
+          ...(connectionUri.trim() && { connectionUri: connectionUri.trim() }),
+          budgetUsd: Number(budgetUsd),
+          ...(autoRefill && {
+            autoRefillThreshold: Number(refillThreshold),
+            autoRefillBundleId: refillBundleId,
+          }),
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Failed to save wallet");
+        return;
+      }
+      setConnectionUri("");
+      localStorage.setItem(WALLET_CONNECTED_STORAGE_KEY, "true");
+      onChange(data.wallet);
+    } catch {
+      setError("Failed to save wallet");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const disconnectWallet = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/wallet", {
+        method: "DELETE",
+        headers: { "x-csrf-token": getCsrfToken() },
+      });
+      if (!response.ok) {
+        setError("Failed to disconnect wallet");
+        return;
+      }
+      localStorage.removeItem(WALLET_CONNECTED_STORAGE_KEY);
+      onChange(null);
+    } catch {
+      setError("Failed to disconnect wallet");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName =
+    "px-3 py-2 bg-[var(--surface)] border border-[var(--divider)] rounded-[var(--radius-md)] text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]";
+
+  return (
+    <div className="pt-4 border-t border-[var(--divider)]">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-center gap-2 w-full py-2 text-sm text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+        aria-expanded={isOpen}
+      >
+        <Link2 size={14} />
+        <span>{wallet ? "Wallet connected" : "Connect a Wallet (NWC)"}</span>
+        <ChevronDown size={14} className={`transition-transform ${isOpen ? "rotate-180" : ""}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          {wallet ? (
+            <p className="text-xs text-[var(--muted)] text-center">
+              Wallet {wallet.walletPubkey.slice(0, 8)}…{wallet.walletPubkey.slice(-4)} pays top-ups within your budget.
+              {wallet.lastError && (
+                <span className="block text-[var(--error)] mt-1">Last payment failed: {wallet.lastError}</span>
+              )}
+            </p>
+          ) : (
+            <input
+              type="password"
+              value={connectionUri}
+              onChange={(e) => setConnectionUri(e.target.value)}
+              placeholder="nostr+walletconnect://…"
+              className={`${inputClassName} w-full`}
+              autoComplete="off"
+              aria-label="Wallet connection URI"
+              disabled={isSaving}
+            />
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+            <span className="flex-1">Max per top-up</span>
+            <span>$</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={MIN_CUSTOM_USD}
+              max={MAX_CUSTOM_USD}
+              step={1}
+              value={budgetUsd}
+              onChange={(e) => setBudgetUsd(e.target.value)}
+              className={`${inputClassName} w-20`}
+              aria-label="Budget per top-up in USD"
+              disabled={isSaving}
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+            <input
+              type="checkbox"
+              checked={autoRefill}
+              onChange={(e) => setAutoRefill(e.target.checked)}
+              disabled={isSaving}
+            />
+            <span>Auto-refill when credits drop low</span>
+          </label>
+
+          {autoRefill && (
+            <div className="flex items-center gap-2 text-sm text-[var(--muted)]">
+              <span>Below</span>
+              <input
+                type="number"
+                inputMode="numeric"
+                min={1}
+                step={1}
+                value={refillThreshold}
+                onChange={(e) => setRefillThreshold(e.target.value)}
+                className={`${inputClassName} w-20`}
+                aria-label="Auto-refill threshold in credits"
+                disabled={isSaving}
+              />
+              <span>credits, buy</span>
+              <select
+                value={refillBundleId}
+                onChange={(e) => setRefillBundleId(e.target.value)}
+                className={`${inputClassName} flex-1`}
+                aria-label="Auto-refill bundle"
+                disabled={isSaving}
+              >
+                {CREDIT_BUNDLES.map((bundle) => (
+                  <option key={bundle.id} value={bundle.id}>
+                    {bundleCredits(bundle).toLocaleString()} (${bundle.amountUsd})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-[var(--error)]">{error}</p>}
+
+          <button
+            onClick={saveWallet}
+            disabled={isSaving || (!wallet && !connectionUri.trim())}
+            className="w-full py-2 bg-[var(--surface)] text-[var(--foreground)] rounded-[var(--radius-md)] font-medium hover:bg-[var(--divider)] transition-colors disabled:opacity-50"
+          >
+            {isSaving ? (
+              <Loader2 size={18} className="animate-spin mx-auto" />
+            ) : wallet ? (
+              "Save Wallet Settings"
+            ) : (
+              "Connect Wallet"
+            )}
+          </button>
+
+          {wallet && (
+            <button
+              onClick={disconnectWallet}
+              disabled={isSaving}
+              className="w-full py-2 text-sm text-[var(--muted)] hover:text-[var(--foreground)] transition-colors disabled:opacity-50"
+            >
+              Disconnect wallet
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
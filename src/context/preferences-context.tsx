@@ -2,7 +2,13 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useRouter } from "next/navigation";
-import { Translation, DEFAULT_TRANSLATION, TRANSLATIONS } from "@/lib/bible-api";
+import {
+  Translation,
+  DEFAULT_TRANSLATION,
+  TRANSLATIONS,
+  isTranslation,
+  normalizeParallelTranslations,
+} from "@/lib/translations";
 import {
   DEFAULT_IMAGE_MODEL,
   DEFAULT_ASPECT_RATIO,
@@ -13,6 +19,11 @@ import {
   isValidResolution,
 } from "@/lib/image-models";
 import { DEFAULT_CHAT_MODEL } from "@/lib/chat-models";
+import {
+  DEFAULT_STYLE_PROFILE,
+  StyleProfileId,
+  isValidStyleProfile,
+} from "@/lib/style-profiles";
 
 interface PreferencesContextType {
   translation: Translation;
@@ -24,23 +35,39 @@ interface PreferencesContextType {
   setImageAspectRatio: (ratio: ImageAspectRatio) => void;
   imageResolution: ImageResolution;
   setImageResolution: (resolution: ImageResolution) => void;
+  imageStyle: StyleProfileId;
+  setImageStyle: (style: StyleProfileId) => void;
+  // When set, the hero image only shows images generated in imageStyle
+  filterImagesByStyle: boolean;
+  setFilterImagesByStyle: (enabled: boolean) => void;
   chatModel: string;
   setChatModel: (model: string) => void;
+  parallelTranslations: Translation[];
+  setParallelTranslations: (translations: Translation[]) => void;
+  parallelLayout: ParallelLayout;
+  setParallelLayout: (layout: ParallelLayout) => void;
 }
 
+export type ParallelLayout = "columns" | "interleaved";
+
 const PreferencesContext = createContext<PreferencesContextType | null>(null);
 
 const STORAGE_KEY = "visibible-preferences";
 const COOKIE_NAME = "visibible-translation";
 const IMAGE_MODEL_COOKIE = "visibible-image-model";
 const CHAT_MODEL_COOKIE = "visibible-chat-model";
+const PARALLEL_COOKIE = "visibible-parallel-translations";
 
 export function PreferencesProvider({ children }: { children: ReactNode }) {
   const [translation, setTranslationState] = useState<Translation>(DEFAULT_TRANSLATION);
   const [imageModel, setImageModelState] = useState<string>(DEFAULT_IMAGE_MODEL);
   const [imageAspectRatio, setImageAspectRatioState] = useState<ImageAspectRatio>(DEFAULT_ASPECT_RATIO);
   const [imageResolution, setImageResolutionState] = useState<ImageResolution>(DEFAULT_RESOLUTION);
+  const [imageStyle, setImageStyleState] = useState<StyleProfileId>(DEFAULT_STYLE_PROFILE);
+  const [filterImagesByStyle, setFilterImagesByStyleState] = useState(false);
   const [chatModel, setChatModelState] = useState<string>(DEFAULT_CHAT_MODEL);
+  const [parallelTranslations, setParallelTranslationsState] = useState<Translation[]>([]);
+  const [parallelLayout, setParallelLayoutState] = useState<ParallelLayout>("columns");
   const [isHydrated, setIsHydrated] = useState(false);
   const router = useRouter();
 
@@ -68,10 +95,25 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
           if (prefs.imageResolution && isValidResolution(prefs.imageResolution)) {
             setImageResolutionState(prefs.imageResolution);
           }
+          // Load image style preference
+          if (prefs.imageStyle && isValidStyleProfile(prefs.imageStyle)) {
+            setImageStyleState(prefs.imageStyle);
+          }
+          if (typeof prefs.filterImagesByStyle === "boolean") {
+            setFilterImagesByStyleState(prefs.filterImagesByStyle);
+          }
           // Load chat model preference
           if (prefs.chatModel) {
             setChatModelState(prefs.chatModel);
           }
+          // Load parallel translations (primary is excluded when exposed below)
+          if (Array.isArray(prefs.parallelTranslations)) {
+            setParallelTranslationsState(prefs.parallelTranslations.filter(isTranslation));
+          }
+          // Load parallel layout preference
+          if (prefs.parallelLayout === "columns" || prefs.parallelLayout === "interleaved") {
+            setParallelLayoutState(prefs.parallelLayout);
+          }
           setIsHydrated(true);
         }, 0);
       } else {
@@ -93,7 +135,11 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
     imageModel: string;
     imageAspectRatio: ImageAspectRatio;
     imageResolution: ImageResolution;
+    imageStyle: StyleProfileId;
+    filterImagesByStyle: boolean;
     chatModel: string;
+    parallelTranslations: Translation[];
+    parallelLayout: ParallelLayout;
   }) => {
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
@@ -105,7 +151,7 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
   // Save to localStorage and cookie when translation changes, then refresh page
   const setTranslation = (newTranslation: Translation) => {
     setTranslationState(newTranslation);
-    savePreferences({ translation: newTranslation, imageModel, imageAspectRatio, imageResolution, chatModel });
+    savePreferences({ translation: newTranslation, imageModel, imageAspectRatio, imageResolution, imageStyle, filterImagesByStyle, chatModel, parallelTranslations, parallelLayout });
     // Set cookie for server-side reading (expires in 1 year)
     document.cookie = `${COOKIE_NAME}=${newTranslation}; path=/; max-age=31536000; SameSite=Lax`;
     // Refresh the page to get new translation from server
@@ -115,7 +161,7 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
   // Save image model preference
   const setImageModel = (newModel: string) => {
     setImageModelState(newModel);
-    savePreferences({ translation, imageModel: newModel, imageAspectRatio, imageResolution, chatModel });
+    savePreferences({ translation, imageModel: newModel, imageAspectRatio, imageResolution, imageStyle, filterImagesByStyle, chatModel, parallelTranslations, parallelLayout });
     // Set cookie for server-side reading (expires in 1 year)
     document.cookie = `${IMAGE_MODEL_COOKIE}=${encodeURIComponent(newModel)}; path=/; max-age=31536000; SameSite=Lax`;
     // Refresh to regenerate image with new model
@@ -125,23 +171,53 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
   // Save image aspect ratio preference (no refresh needed - takes effect on next generation)
   const setImageAspectRatio = (newRatio: ImageAspectRatio) => {
     setImageAspectRatioState(newRatio);
-    savePreferences({ translation, imageModel, imageAspectRatio: newRatio, imageResolution, chatModel });
+    savePreferences({ translation, imageModel, imageAspectRatio: newRatio, imageResolution, imageStyle, filterImagesByStyle, chatModel, parallelTranslations, parallelLayout });
   };
 
   // Save image resolution preference (no refresh needed - takes effect on next generation)
   const setImageResolution = (newResolution: ImageResolution) => {
     setImageResolutionState(newResolution);
-    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution: newResolution, chatModel });
+    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution: newResolution, imageStyle, filterImagesByStyle, chatModel, parallelTranslations, parallelLayout });
+  };
+
+  // Save image style preference (no refresh needed - takes effect on next generation)
+  const setImageStyle = (newStyle: StyleProfileId) => {
+    setImageStyleState(newStyle);
+    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution, imageStyle: newStyle, filterImagesByStyle, chatModel, parallelTranslations, parallelLayout });
+  };
+
+  // Save style filter preference (no refresh needed - the image query re-runs)
+  const setFilterImagesByStyle = (enabled: boolean) => {
+    setFilterImagesByStyleState(enabled);
+    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution, imageStyle, filterImagesByStyle: enabled, chatModel, parallelTranslations, parallelLayout });
   };
 
   // Save chat model preference (no refresh needed - takes effect on next message)
   const setChatModel = (newModel: string) => {
     setChatModelState(newModel);
-    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution, chatModel: newModel });
+    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution, imageStyle, filterImagesByStyle, chatModel: newModel, parallelTranslations, parallelLayout });
     // Set cookie for server-side reading (expires in 1 year)
     document.cookie = `${CHAT_MODEL_COOKIE}=${encodeURIComponent(newModel)}; path=/; max-age=31536000; SameSite=Lax`;
   };
 
+  // Save parallel translations; server renders the extra columns, so refresh
+  const setParallelTranslations = (newTranslations: Translation[]) => {
+    const normalized = normalizeParallelTranslations(newTranslations, translation);
+    setParallelTranslationsState(normalized);
+    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution, imageStyle, filterImagesByStyle, chatModel, parallelTranslations: normalized, parallelLayout });
+    // Set cookie for server-side reading (expires in 1 year)
+    document.cookie = `${PARALLEL_COOKIE}=${encodeURIComponent(normalized.join(","))}; path=/; max-age=31536000; SameSite=Lax`;
+    router.refresh();
+  };
+
+  // Save parallel layout preference (no refresh needed - purely presentational)
+  const setParallelLayout = (newLayout: ParallelLayout) => {
+    setParallelLayoutState(newLayout);
+    savePreferences({ translation, imageModel, imageAspectRatio, imageResolution, imageStyle, filterImagesByStyle, chatModel, parallelTranslations, parallelLayout: newLayout });
+  };
+
+  const currentTranslation = isHydrated ? translation : DEFAULT_TRANSLATION;
+
   return (
     <PreferencesContext.Provider
       value={{
@@ -154,8 +230,18 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
         setImageAspectRatio,
         imageResolution: isHydrated ? imageResolution : DEFAULT_RESOLUTION,
         setImageResolution,
+        imageStyle: isHydrated ? imageStyle : DEFAULT_STYLE_PROFILE,
+        setImageStyle,
+        filterImagesByStyle: isHydrated ? filterImagesByStyle : false,
+        setFilterImagesByStyle,
         chatModel: isHydrated ? chatModel : DEFAULT_CHAT_MODEL,
         setChatModel,
+        parallelTranslations: isHydrated
+          ? normalizeParallelTranslations(parallelTranslations, currentTranslation)
+          : [],
+        setParallelTranslations,
+        parallelLayout: isHydrated ? parallelLayout : "columns",
+        setParallelLayout,
       }}
     >
       {children}
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for chapter theme validation, chapter lookup and draft prompts.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildChapterThemeDraftPrompt,
+  chapterForReference,
+  normalizeChapterTheme,
+  MAX_THEME_FIELD_LENGTH,
+} from "../chapter-themes";
+
+const theme = {
+  setting: "Creation of the cosmos",
+  palette: "deep cosmic blues, radiant golds",
+  elements: "primordial void, divine light rays",
+  style: "classical religious art, Baroque lighting",
+};
+
+describe("normalizeChapterTheme", () => {
+  it("should accept a complete theme and drop extra keys", () => {
+    expect(normalizeChapterTheme({ ...theme, extra: "ignored" })).toEqual(theme);
+  });
+
+  it("should trim and collapse whitespace", () => {
+    const result = normalizeChapterTheme({ ...theme, setting: "  Garden \n of  Eden " });
+    expect(result?.setting).toBe("Garden of Eden");
+  });
+
+  it("should cut long fields", () => {
+    const result = normalizeChapterTheme({ ...theme, style: "a".repeat(900) });
+    expect(result?.style).toHaveLength(MAX_THEME_FIELD_LENGTH);
+  });
+
+  it("should reject missing, empty or non-string fields", () => {
+    expect(normalizeChapterTheme({ ...theme, palette: undefined })).toBeNull();
+    expect(normalizeChapterTheme({ ...theme, elements: "   " })).toBeNull();
+    expect(normalizeChapterTheme({ ...theme, style: 42 })).toBeNull();
+    expect(normalizeChapterTheme(null)).toBeNull();
+    expect(normalizeChapterTheme("theme")).toBeNull();
+  });
+});
+
+describe("chapterForReference", () => {
+  it("should resolve a verse to its book slug and chapter", () => {
+    expect(chapterForReference("Genesis 1:3")).toEqual({ book: "genesis", chapter: 1 });
+    expect(chapterForReference("1 John 3:16")).toEqual({ book: "1-john", chapter: 3 });
+  });
+
+  it("should resolve a passage within one chapter", () => {
+    expect(chapterForReference("John 3:16-21")).toEqual({ book: "john", chapter: 3 });
+  });
+
+  it("should return null for references spanning chapters or unparseable input", () => {
+    expect(chapterForReference("John 3:16-4:2")).toBeNull();
+    expect(chapterForReference("Scripture")).toBeNull();
+  });
+});
+
+describe("buildChapterThemeDraftPrompt", () => {
+  it("should include the reference, the JSON keys and numbered verses", () => {
+    const prompt = buildChapterThemeDraftPrompt("Genesis 1", [
+      { verse: 1, text: "In the beginning God created the heaven and the earth." },
+      { verse: 2, text: "And the earth was without form, and void." },
+    ]);
+    expect(prompt).toContain("Genesis 1");
+    expect(prompt).toContain("setting");
+    expect(prompt).toContain("palette");
+    expect(prompt).toContain("1 In the beginning");
+    expect(prompt).toContain("2 And the earth");
+  });
+
+  it("should truncate very long chapters", () => {
+    const verses = Array.from({ length: 200 }, (_, i) => ({
+      verse: i + 1,
+      text: "word ".repeat(40),
+    }));
+    const prompt = buildChapterThemeDraftPrompt("Psalms 119", verses);
+    expect(prompt.length).toBeLessThan(13000);
+    expect(prompt.endsWith("…")).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for chat scripture tool result limits.
+ */
+
+import { describe, it, expect } from "vitest";
+import { capToolVerses, MAX_TOOL_RESULT_CHARS } from "../chat-tools";
+
+describe("capToolVerses", () => {
+  const verses = [
+    { verse: 1, text: " In the beginning " },
+    { verse: 2, text: "was the Word" },
+    { verse: 3, text: "and the Word was with God" },
+  ];
+
+  it("should keep every verse within the budget", () => {
+    const result = capToolVerses(verses);
+    expect(result.truncated).toBe(false);
+    expect(result.verses).toHaveLength(3);
+    expect(result.verses[0].text).toBe("In the beginning");
+  });
+
+  it("should stop at the first verse that exceeds the budget", () => {
+    const result = capToolVerses(verses, 30);
+    expect(result.truncated).toBe(true);
+    expect(result.verses.map((v) => v.verse)).toEqual([1, 2]);
+  });
+
+  it("should default to the shared result limit", () => {
+    const long = Array.from({ length: 100 }, (_, i) => ({ verse: i + 1, text: "x".repeat(100) }));
+    const result = capToolVerses(long);
+    expect(result.verses).toHaveLength(MAX_TOOL_RESULT_CHARS / 100);
+    expect(result.truncated).toBe(true);
+  });
+});
@@ -12,6 +12,8 @@ import {
   PREMIUM_MULTIPLIER,
   DEFAULT_ESTIMATED_TOKENS,
   SCENE_PLANNER_ESTIMATED_TOKENS,
+  CHAT_TOOL_RESULT_TOKENS,
+  estimateChatToolPromptTokens,
 } from "../chat-models";
 import {
   computeCreditsCost,
@@ -99,6 +101,40 @@ describe("computeChatCreditsCost", () => {
     // Smaller token estimate should result in lower cost
     expect(smallResult).toBeLessThanOrEqual(normalResult!);
   });
+
+  it("should bill extra prompt tokens at the prompt rate only", () => {
+    // $10/million prompt, $0 completion: 500 + 1500 prompt tokens = 0.02 USD
+    // With premium: 0.025 USD -> 3 credits
+    const pricing = { prompt: "10", completion: "0.000001" };
+    expect(computeChatCreditsCost(pricing, 1000, 1500)).toBe(3);
+  });
+
+  it("should reserve more when tool results are included", () => {
+    const pricing = { prompt: "5", completion: "15" };
+    const withoutTools = computeChatCreditsCost(pricing, DEFAULT_ESTIMATED_TOKENS);
+    const withTools = computeChatCreditsCost(
+      pricing,
+      DEFAULT_ESTIMATED_TOKENS,
+      estimateChatToolPromptTokens(3)
+    );
+    expect(withTools).toBeGreaterThan(withoutTools!);
+  });
+});
+
+describe("estimateChatToolPromptTokens", () => {
+  it("should add nothing when no tools can be called", () => {
+    expect(estimateChatToolPromptTokens(0)).toBe(0);
+  });
+
+  it("should re-send the prompt and all earlier results on every step", () => {
+    // Step 2: 1000 + 1 result, step 3: 1000 + 2 results, step 4: 1000 + 3 results
+    expect(estimateChatToolPromptTokens(3, 1000, CHAT_TOOL_RESULT_TOKENS)).toBe(3000 + 6000);
+  });
+
+  it("should grow with the history sent on each step", () => {
+    expect(estimateChatToolPromptTokens(3, 4000, 1000)).toBe(12000 + 6000);
+    expect(estimateChatToolPromptTokens(1, 4000, 1000)).toBe(4000 + 1000);
+  });
 });
 
 describe("computeActualChatCreditsCost", () => {
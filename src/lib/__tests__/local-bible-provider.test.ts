@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the offline Bible text provider.
+ * Tests USFM parsing, JSON chapter files, and reference lookups.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { BOOK_BY_SLUG } from "@/data/bible-structure";
+import { parseUsfm, createLocalBibleProvider } from "../local-bible-provider";
+import {
+  resolveBibleTextProviderId,
+  setBibleTextProvider,
+} from "../bible-text-provider";
+import { getChapter, getVerse } from "../bible-api";
+
+const SAMPLE_USFM = `\\id JHN World English Bible
+\\h John
+\\c 3
+\\p
+\\v 16 For God so loved the world,\\f + \\fr 3:16 \\ft footnote text\\f* that he gave
+\\q1 his \\w only|strong="G3439"\\w* born Son,
+\\v 17 \\wj For God didn't send his Son into the world to judge the world,\\wj*
+\\c 4
+\\v 1 Therefore when the Lord knew
+`;
+
+describe("parseUsfm", () => {
+  it("should split chapters and verses", () => {
+    const parsed = parseUsfm(SAMPLE_USFM);
+    expect(Array.from(parsed.keys())).toEqual([3, 4]);
+    expect(Array.from(parsed.get(3)!.keys())).toEqual([16, 17]);
+  });
+
+  it("should join continuation lines and strip markup", () => {
+    const parsed = parseUsfm(SAMPLE_USFM);
+    expect(parsed.get(3)!.get(16)).toBe(
+      "For God so loved the world, that he gave his only born Son,"
+    );
+    expect(parsed.get(3)!.get(17)).toBe(
+      "For God didn't send his Son into the world to judge the world,"
+    );
+  });
+
+  it("should ignore text before the first chapter", () => {
+    const parsed = parseUsfm("\\id GEN\n\\v 1 orphan\n\\c 1\n\\v 1 In the beginning");
+    expect(parsed.get(1)!.get(1)).toBe("In the beginning");
+    expect(parsed.size).toBe(1);
+  });
+});
+
+describe("createLocalBibleProvider", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "visibible-bible-"));
+    await mkdir(path.join(dataDir, "web", "GEN"), { recursive: true });
+    await writeFile(
+      path.join(dataDir, "web", "GEN", "1.json"),
+      JSON.stringify({
+        translation_id: "web",
+        translation_name: "World English Bible",
+        verses: [
+          { verse: 1, text: "In the beginning, God created the heavens and the earth.\n" },
+          { verse: 2, text: "The earth was formless and empty." },
+        ],
+      })
+    );
+    await writeFile(path.join(dataDir, "web", "JHN.usfm"), SAMPLE_USFM);
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    setBibleTextProvider(null);
+  });
+
+  it("should read chapter JSON files", async () => {
+    const provider = createLocalBibleProvider(dataDir);
+    const chapter = await provider.fetchChapter(BOOK_BY_SLUG.genesis, 1, "web");
+
+    expect(chapter).not.toBeNull();
+    expect(chapter!.bookId).toBe("GEN");
+    expect(chapter!.translationName).toBe("World English Bible");
+    expect(chapter!.verses[0].text).toBe(
+      "In the beginning, God created the heavens and the earth."
+    );
+  });
+
+  it("should fall back to USFM books", async () => {
+    const provider = createLocalBibleProvider(dataDir);
+    const chapter = await provider.fetchChapter(BOOK_BY_SLUG.john, 3, "web");
+
+    expect(chapter!.verses.map((v) => v.verse)).toEqual([16, 17]);
+    expect(chapter!.bookName).toBe("John");
+    expect(chapter!.translationId).toBe("web");
+  });
+
+  it("should return null for missing files", async () => {
+    const provider = createLocalBibleProvider(dataDir);
+    expect(await provider.fetchChapter(BOOK_BY_SLUG.genesis, 2, "web")).toBeNull();
+    expect(await provider.fetchChapter(BOOK_BY_SLUG.genesis, 1, "kjv")).toBeNull();
+  });
+
+  it("should resolve references to verse ranges", async () => {
+    const provider = createLocalBibleProvider(dataDir);
+    const verses = await provider.fetchReference("John 3:16-17", "web");
+    expect(verses!.map((v) => v.verse)).toEqual([16, 17]);
+
+    const single = await provider.fetchReference("genesis 1:2", "web");
+    expect(single!.map((v) => v.text)).toEqual(["The earth was formless and empty."]);
+
+    expect(await provider.fetchReference("Nowhere 1:1", "web")).toBeNull();
+  });
+
+  it("should back getVerse and getChapter when installed", async () => {
+    setBibleTextProvider(createLocalBibleProvider(dataDir));
+
+    const verse = await getVerse("john", 3, 17, "web");
+    expect(verse?.text).toContain("For God didn't send his Son");
+
+    const chapter = await getChapter("genesis", 1, "web");
+    expect(chapter?.verses).toHaveLength(2);
+  });
+});
+
+describe("resolveBibleTextProviderId", () => {
+  it("should default to bible-api", () => {
+    expect(resolveBibleTextProviderId(undefined)).toBe("bible-api");
+    expect(resolveBibleTextProviderId("")).toBe("bible-api");
+  });
+
+  it("should accept known providers case-insensitively", () => {
+    expect(resolveBibleTextProviderId("LOCAL")).toBe("local");
+    expect(resolveBibleTextProviderId("bible-api")).toBe("bible-api");
+  });
+
+  it("should fall back for unknown providers", () => {
+    expect(resolveBibleTextProviderId("esv-api")).toBe("bible-api");
+  });
+});
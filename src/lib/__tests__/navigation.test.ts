@@ -0,0 +1,108 @@
+/**
+ * Unit tests for passage navigation helpers.
+ * Tests passage URL parsing, prev/next stepping, chapter links, and reference formatting.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parsePassageUrl,
+  passageToUrl,
+  getPassageNavigationUrls,
+  formatPassageReference,
+  getChapterNavigationUrls,
+  PassageLocation,
+} from "../navigation";
+import { BOOK_BY_SLUG } from "@/data/bible-structure";
+
+function passage(book: string, chapter: string, verses?: string): PassageLocation {
+  const parsed = parsePassageUrl(book, chapter, verses);
+  if (!parsed) throw new Error(`Invalid passage: ${book} ${chapter} ${verses}`);
+  return parsed;
+}
+
+describe("parsePassageUrl", () => {
+  it("should parse single verses and ranges", () => {
+    expect(passage("john", "3", "16")).toMatchObject({ chapter: 3, startVerse: 16, endVerse: 16 });
+    expect(passage("john", "3", "16-21")).toMatchObject({ startVerse: 16, endVerse: 21 });
+  });
+
+  it("should treat a missing verse segment as the whole chapter", () => {
+    expect(passage("psalms", "23")).toMatchObject({ startVerse: 1, endVerse: 6 });
+  });
+
+  it("should reject reversed, out-of-range, and malformed ranges", () => {
+    expect(parsePassageUrl("john", "3", "21-16")).toBeNull();
+    expect(parsePassageUrl("john", "3", "16-99")).toBeNull();
+    expect(parsePassageUrl("john", "3", "0")).toBeNull();
+    expect(parsePassageUrl("john", "3", "16-")).toBeNull();
+    expect(parsePassageUrl("john", "99", "1")).toBeNull();
+    expect(parsePassageUrl("nowhere", "1", "1")).toBeNull();
+  });
+
+  it("should reject malformed escapes instead of throwing", () => {
+    expect(parsePassageUrl("john", "3", "%25")).toBeNull();
+    expect(parsePassageUrl("john", "3", "%E0")).toBeNull();
+    expect(parsePassageUrl("john", "3", "16%2D21")).toMatchObject({ startVerse: 16, endVerse: 21 });
+  });
+});
+
+describe("passageToUrl", () => {
+  it("should always include the verse range", () => {
+    expect(passageToUrl(passage("psalms", "23"))).toBe("/psalms/23/1-6");
+    expect(passageToUrl(passage("john", "3", "16-21"))).toBe("/john/3/16-21");
+    expect(passageToUrl(passage("john", "3", "16"))).toBe("/john/3/16");
+  });
+});
+
+describe("getPassageNavigationUrls", () => {
+  it("should step by passage length within a chapter", () => {
+    expect(getPassageNavigationUrls(passage("john", "3", "16-21"))).toEqual({
+      prevUrl: "/john/3/10-15",
+      nextUrl: "/john/3/22-27",
+    });
+  });
+
+  it("should clamp ranges at chapter boundaries", () => {
+    // John 3 has 36 verses
+    expect(getPassageNavigationUrls(passage("john", "3", "30-35")).nextUrl).toBe("/john/3/36");
+    expect(getPassageNavigationUrls(passage("john", "3", "3-5")).prevUrl).toBe("/john/3/1-2");
+  });
+
+  it("should continue into the adjacent chapter", () => {
+    const { prevUrl, nextUrl } = getPassageNavigationUrls(passage("john", "3", "34-36"));
+    expect(nextUrl).toBe("/john/4/1-3");
+    expect(prevUrl).toBe("/john/3/31-33");
+    expect(getPassageNavigationUrls(passage("john", "4", "1-3")).prevUrl).toBe("/john/3/34-36");
+  });
+
+  it("should step whole chapters by chapter", () => {
+    expect(getPassageNavigationUrls(passage("psalms", "23"))).toEqual({
+      prevUrl: "/psalms/22/1-31",
+      nextUrl: "/psalms/24/1-10",
+    });
+  });
+
+  it("should stop at the ends of the Bible", () => {
+    expect(getPassageNavigationUrls(passage("genesis", "1")).prevUrl).toBeNull();
+    expect(getPassageNavigationUrls(passage("revelation", "22", "20-21")).nextUrl).toBeNull();
+  });
+});
+
+describe("getChapterNavigationUrls", () => {
+  it("should link chapter reading pages across books", () => {
+    expect(getChapterNavigationUrls(BOOK_BY_SLUG.genesis, 50)).toEqual({
+      prevUrl: "/genesis/49",
+      nextUrl: "/exodus/1",
+    });
+    expect(getChapterNavigationUrls(BOOK_BY_SLUG.genesis, 1).prevUrl).toBeNull();
+    expect(getChapterNavigationUrls(BOOK_BY_SLUG.revelation, 22).nextUrl).toBeNull();
+  });
+});
+
+describe("formatPassageReference", () => {
+  it("should format verses, ranges, and chapters", () => {
+    expect(formatPassageReference(passage("john", "3", "16"))).toBe("John 3:16");
+    expect(formatPassageReference(passage("john", "3", "16-21"))).toBe("John 3:16-21");
+    expect(formatPassageReference(passage("psalms", "23"))).toBe("Psalms 23");
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for versioned prompt templates and candidate assignment.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  assignPromptTemplate,
+  getPromptExperiment,
+  CURRENT_PROMPT_VERSION,
+  PROMPT_TEMPLATES,
+  ImagePromptInputs,
+} from "../prompt-templates";
+import { STYLE_PROFILES } from "../style-profiles";
+
+const baseInputs: ImagePromptInputs = {
+  reference: "Exodus 14:21",
+  verseText: "And Moses stretched out his hand over the sea",
+  aspectRatio: "16:9",
+  styleProfile: STYLE_PROFILES.classical,
+  chapterTheme: null,
+  generationNumber: null,
+  prevVerse: null,
+  nextVerse: null,
+  scenePlan: null,
+  registryEntries: [],
+};
+
+describe("getPromptExperiment", () => {
+  it("should return null without a candidate", () => {
+    expect(getPromptExperiment({})).toBeNull();
+  });
+
+  it("should return null for the current version or a zero share", () => {
+    expect(
+      getPromptExperiment({ PROMPT_CANDIDATE_VERSION: CURRENT_PROMPT_VERSION, PROMPT_CANDIDATE_PERCENT: "50" })
+    ).toBeNull();
+    expect(
+      getPromptExperiment({ PROMPT_CANDIDATE_VERSION: "2026-10-19", PROMPT_CANDIDATE_PERCENT: "0" })
+    ).toBeNull();
+  });
+
+  it("should return null for an unknown version", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      getPromptExperiment({ PROMPT_CANDIDATE_VERSION: "1999-01-01", PROMPT_CANDIDATE_PERCENT: "50" })
+    ).toBeNull();
+    warn.mockRestore();
+  });
+
+  it("should cap the share at 100", () => {
+    expect(
+      getPromptExperiment({ PROMPT_CANDIDATE_VERSION: "2026-10-19", PROMPT_CANDIDATE_PERCENT: "150" })
+    ).toEqual({ candidateVersion: "2026-10-19", candidatePercent: 100 });
+  });
+});
+
+describe("assignPromptTemplate", () => {
+  const experiment = { candidateVersion: "2026-10-19", candidatePercent: 20 };
+
+  it("should use the current version without an experiment", () => {
+    expect(assignPromptTemplate(null, 0).version).toBe(CURRENT_PROMPT_VERSION);
+  });
+
+  it("should assign rolls below the share to the candidate", () => {
+    expect(assignPromptTemplate(experiment, 0.1).version).toBe("2026-10-19");
+    expect(assignPromptTemplate(experiment, 0.2).version).toBe(CURRENT_PROMPT_VERSION);
+    expect(assignPromptTemplate(experiment, 0.99).version).toBe(CURRENT_PROMPT_VERSION);
+  });
+});
+
+describe("PROMPT_TEMPLATES", () => {
+  it("should key every template by its version", () => {
+    for (const [version, template] of Object.entries(PROMPT_TEMPLATES)) {
+      expect(template.version).toBe(version);
+    }
+  });
+
+  it("should build every prompt with priority rules, style and aspect ratio", () => {
+    for (const template of Object.values(PROMPT_TEMPLATES)) {
+      const prompt = template.buildImagePrompt(baseInputs);
+      expect(prompt.startsWith("PRIORITY RULES")).toBe(true);
+      expect(prompt).toContain(`STYLE PROFILE: ${STYLE_PROFILES.classical.label}`);
+      expect(prompt).toContain("16:9 aspect ratio");
+      expect(prompt).not.toContain("CHAPTER THEME:");
+    }
+  });
+
+  it("should include the chapter theme, scene plan and generation note when given", () => {
+    const prompt = PROMPT_TEMPLATES[CURRENT_PROMPT_VERSION].buildImagePrompt({
+      ...baseInputs,
+      chapterTheme: { setting: "Red Sea shore", palette: "deep blues", elements: "walls of water", style: "epic" },
+      scenePlan: { primarySubject: "Moses", action: "stretching out his staff", setting: "sea shore" },
+      generationNumber: 2,
+    });
+    expect(prompt).toContain("CHAPTER THEME:\n  Setting: Red Sea shore");
+    expect(prompt).toContain("Primary subject: Moses");
+    expect(prompt).toContain("This is the 2nd generation");
+  });
+
+  it("should put the candidate's storyboard context after the style profile", () => {
+    const inputs = { ...baseInputs, prevVerse: { number: 20, text: "And it came between the camp" } };
+    const current = PROMPT_TEMPLATES[CURRENT_PROMPT_VERSION].buildImagePrompt(inputs);
+    const candidate = PROMPT_TEMPLATES["2026-10-19"].buildImagePrompt(inputs);
+    expect(current.indexOf("NARRATIVE CONTEXT")).toBeLessThan(current.indexOf("STYLE PROFILE"));
+    expect(candidate.indexOf("NARRATIVE CONTEXT")).toBeGreaterThan(candidate.indexOf("STYLE PROFILE"));
+  });
+
+  it("should build a refinement prompt without the style profile", () => {
+    const prompt = PROMPT_TEMPLATES[CURRENT_PROMPT_VERSION].buildImagePrompt({
+      ...baseInputs,
+      refineInstruction: "make it night",
+    });
+    expect(prompt).toContain("The attached image illustrates Exodus 14:21");
+    expect(prompt).toContain("make it night");
+    expect(prompt).not.toContain("STYLE PROFILE");
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the free-form reference parser.
+ * Tests book resolution, range grammar, validation, and verseId round trips.
+ */
+
+import { describe, it, expect } from "vitest";
+import { createVerseId, verseIdToPath } from "../../../convex/verseIds";
+import {
+  resolveBookName,
+  parseReference,
+  expandReferenceRanges,
+  formatReferenceRange,
+  referenceRangeToUrl,
+  verseIdForReference,
+  conversationVerseId,
+} from "../reference-parser";
+import { parsePassageUrl, formatPassageReference, passageToUrl } from "../navigation";
+
+function labels(input: string): string[] | null {
+  return parseReference(input)?.map(formatReferenceRange) ?? null;
+}
+
+describe("resolveBookName", () => {
+  it("should resolve abbreviations and full names", () => {
+    expect(resolveBookName("Jn")?.slug).toBe("john");
+    expect(resolveBookName("Gen.")?.slug).toBe("genesis");
+    expect(resolveBookName("Ps")?.slug).toBe("psalms");
+    expect(resolveBookName("Song of Songs")?.slug).toBe("song-of-solomon");
+    expect(resolveBookName("Phlm")?.slug).toBe("philemon");
+  });
+
+  it("should resolve ordinal prefixes", () => {
+    expect(resolveBookName("1 Cor")?.slug).toBe("1-corinthians");
+    expect(resolveBookName("1Cor")?.slug).toBe("1-corinthians");
+    expect(resolveBookName("II Kings")?.slug).toBe("2-kings");
+    expect(resolveBookName("First John")?.slug).toBe("1-john");
+    expect(resolveBookName("3rd Jn")?.slug).toBe("3-john");
+  });
+
+  it("should resolve unique prefixes and reject ambiguous ones", () => {
+    expect(resolveBookName("Habak")?.slug).toBe("habakkuk");
+    expect(resolveBookName("Jo")).toBeNull();
+    expect(resolveBookName("Hezekiah")).toBeNull();
+  });
+
+  it("should not resolve unnumbered names to numbered books", () => {
+    expect(resolveBookName("John")?.slug).toBe("john");
+    expect(resolveBookName("Sam")).toBeNull();
+  });
+});
+
+describe("parseReference", () => {
+  it("should parse single verses and ranges", () => {
+    expect(labels("Jn 3:16")).toEqual(["John 3:16"]);
+    expect(labels("1 Cor 13:4-7")).toEqual(["1 Corinthians 13:4-7"]);
+    expect(labels("john 3.16–18")).toEqual(["John 3:16-18"]);
+  });
+
+  it("should parse chapter-only references and chapter ranges", () => {
+    expect(labels("Ps 23")).toEqual(["Psalms 23"]);
+    expect(labels("Ps 23-24")).toEqual(["Psalms 23-24"]);
+  });
+
+  it("should parse ranges across chapters", () => {
+    expect(labels("John 3:16-4:2")).toEqual(["John 3:16-4:2"]);
+  });
+
+  it("should parse comma and semicolon lists", () => {
+    expect(labels("John 3:16, 18, 4:1-3")).toEqual(["John 3:16", "John 3:18", "John 4:1-3"]);
+    expect(labels("John 3:16; 4:1; Rom 5:8")).toEqual(["John 3:16", "John 4:1", "Romans 5:8"]);
+  });
+
+  it("should treat numbers in single-chapter books as verses", () => {
+    expect(labels("Jude 3")).toEqual(["Jude 1:3"]);
+    expect(labels("Obad 1-4")).toEqual(["Obadiah 1:1-4"]);
+    expect(labels("Jude 1:3")).toEqual(["Jude 1:3"]);
+  });
+
+  it("should reject references outside BIBLE_BOOKS", () => {
+    expect(parseReference("John 22:1")).toBeNull();
+    expect(parseReference("John 3:37")).toBeNull();
+    expect(parseReference("John 3:18-16")).toBeNull();
+    expect(parseReference("Hezekiah 1:1")).toBeNull();
+    expect(parseReference("John")).toBeNull();
+    expect(parseReference("3:16")).toBeNull();
+    expect(parseReference("")).toBeNull();
+  });
+});
+
+describe("expandReferenceRanges", () => {
+  it("should list every verse across chapter boundaries", () => {
+    const locations = expandReferenceRanges(parseReference("John 3:35-4:2")!);
+    expect(locations.map((l) => `${l.chapter}:${l.verse}`)).toEqual(["3:35", "3:36", "4:1", "4:2"]);
+  });
+});
+
+describe("referenceRangeToUrl", () => {
+  it("should link to passage pages", () => {
+    const [range] = parseReference("Ps 23")!;
+    expect(referenceRangeToUrl(range)).toBe("/psalms/23");
+    expect(referenceRangeToUrl(parseReference("Jn 3:16-21")![0])).toBe("/john/3/16-21");
+    expect(referenceRangeToUrl(parseReference("Jn 3:16-4:2")![0])).toBe("/john/3/16");
+  });
+});
+
+describe("verseIds", () => {
+  it("should round trip page references to page paths", () => {
+    const passages = [
+      parsePassageUrl("genesis", "1", "1")!,
+      parsePassageUrl("1-john", "3", "16")!,
+      parsePassageUrl("song-of-solomon", "2", "1-4")!,
+    ];
+    for (const passage of passages) {
+      const verseId = createVerseId(formatPassageReference(passage));
+      expect(verseIdToPath(verseId)).toBe(passageToUrl(passage));
+    }
+  });
+
+  it("should link whole-chapter ids to the passage page, not the chapter reader", () => {
+    expect(verseIdToPath(createVerseId("Psalms 23"))).toBe("/psalms/23/1-6");
+    expect(verseIdToPath(createVerseId("1 John 3"))).toBe("/1-john/3/1-24");
+  });
+
+  it("should give equivalent spellings the page's verseId", () => {
+    expect(verseIdForReference("Psalms 23:1-6")).toBe("psalms-23");
+    expect(verseIdForReference("Jn 3:16")).toBe("john-3-16");
+    expect(verseIdForReference("1 John 3:16")).toBe(createVerseId("1 John 3:16"));
+  });
+
+  it("should reject malformed verseIds", () => {
+    expect(() => verseIdToPath("john")).toThrow("Invalid verseId");
+  });
+});
+
+describe("conversationVerseId", () => {
+  it("should file chats under the canonical verseId of their location", () => {
+    expect(conversationVerseId({ book: "John", chapter: 3, verseRange: "16" })).toBe("john-3-16");
+    expect(conversationVerseId({ book: "Psalms", chapter: 23, verseRange: "1-6" })).toBe("psalms-23");
+  });
+
+  it("should fall back to the general bucket without a full location", () => {
+    expect(conversationVerseId()).toBe("general");
+    expect(conversationVerseId({ book: "John", chapter: 3 })).toBe("general");
+  });
+});
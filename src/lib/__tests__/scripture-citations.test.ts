@@ -0,0 +1,39 @@
+/**
+ * Unit tests for detecting scripture citations in prose.
+ */
+
+import { describe, it, expect } from "vitest";
+import { findScriptureCitations } from "../scripture-citations";
+
+function references(text: string): string[] {
+  return findScriptureCitations(text).map((c) => c.reference);
+}
+
+describe("findScriptureCitations", () => {
+  it("should find verse citations with their offsets and URLs", () => {
+    const text = "Paul writes in Romans 8:28 that all things work together.";
+    const [citation] = findScriptureCitations(text);
+    expect(citation.text).toBe("Romans 8:28");
+    expect(text.slice(citation.start, citation.end)).toBe("Romans 8:28");
+    expect(citation.href).toBe("/romans/8/28");
+  });
+
+  it("should handle ranges, abbreviations and numbered books", () => {
+    expect(references("See 1 Cor 13:4-7 and Jn 3:16.")).toEqual([
+      "1 Corinthians 13:4-7",
+      "John 3:16",
+    ]);
+    expect(references("Compare Song of Solomon 2:1.")).toEqual(["Song of Solomon 2:1"]);
+  });
+
+  it("should link whole chapters only by full book name", () => {
+    expect(references("Read Psalm 23 and Acts 2.")).toEqual(["Psalms 23", "Acts 2"]);
+    expect(references("I Am 5 years old and Is 3 ok?")).toEqual([]);
+  });
+
+  it("should leave unresolvable references as plain text", () => {
+    expect(references("Romans 17:1 does not exist")).toEqual([]);
+    expect(references("Chapter 3:16 of the novel")).toEqual([]);
+    expect(references("romans 8:28 in lowercase")).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for full-text scripture search.
+ * Tests query parsing, verse scoring, and provider-backed searches.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { BOOK_BY_SLUG, BibleBook } from "@/data/bible-structure";
+import type { BibleTextProvider, ChapterData } from "../bible-text-provider";
+import { setBibleTextProvider } from "../bible-text-provider";
+import {
+  parseSearchQuery,
+  scoreVerse,
+  searchScripture,
+  findBookForSearch,
+  SearchQueryError,
+} from "../scripture-search";
+
+const TEXT: Record<string, Record<number, string[]>> = {
+  ROM: {
+    3: ["Being justified freely by his grace through the redemption."],
+    5: [
+      "Therefore being justified by faith, we have peace with God.",
+      "Through whom we have access by faith into this grace.",
+    ],
+  },
+  "1JN": {
+    4: [
+      "Beloved, let us love one another: for love is of God.",
+      "He that loveth not knoweth not God; for God is love.",
+    ],
+  },
+};
+
+function createFakeProvider(bulkReads: boolean): BibleTextProvider {
+  return {
+    id: "local",
+    bulkReads,
+    async fetchChapter(book: BibleBook, chapter: number): Promise<ChapterData | null> {
+      const verses = TEXT[book.id]?.[chapter] ?? [];
+      return {
+        bookId: book.id,
+        bookName: book.name,
+        chapter,
+        verses: verses.map((text, index) => ({
+          bookId: book.id,
+          bookName: book.name,
+          chapter,
+          verse: index + 1,
+          text,
+        })),
+        translationId: "kjv",
+        translationName: "King James Version",
+      };
+    },
+    async fetchReference() {
+      return null;
+    },
+  };
+}
+
+describe("parseSearchQuery", () => {
+  it("should split words, phrases, and book filters", () => {
+    const parsed = parseSearchQuery('book:romans Grace "peace with God"');
+    expect(parsed.terms).toEqual(["grace"]);
+    expect(parsed.phrases).toEqual(["peace with god"]);
+    expect(parsed.books).toEqual([BOOK_BY_SLUG.romans]);
+  });
+
+  it("should accept quoted and compact book names", () => {
+    expect(parseSearchQuery('book:"1 John" love').books).toEqual([BOOK_BY_SLUG["1-john"]]);
+    expect(parseSearchQuery("book:1john love").books).toEqual([BOOK_BY_SLUG["1-john"]]);
+    expect(parseSearchQuery("book:ROM love").books).toEqual([BOOK_BY_SLUG.romans]);
+  });
+
+  it("should collect unknown books", () => {
+    expect(parseSearchQuery("book:hezekiah love").unknownBooks).toEqual(["hezekiah"]);
+  });
+
+  it("should treat one-word phrases as terms", () => {
+    const parsed = parseSearchQuery('"grace"');
+    expect(parsed.terms).toEqual(["grace"]);
+    expect(parsed.phrases).toEqual([]);
+  });
+});
+
+describe("findBookForSearch", () => {
+  it("should match slugs, names, and ids", () => {
+    expect(findBookForSearch("song-of-solomon")?.id).toBe("SNG");
+    expect(findBookForSearch("Song of Solomon")?.id).toBe("SNG");
+    expect(findBookForSearch("")).toBeNull();
+  });
+});
+
+describe("scoreVerse", () => {
+  it("should require every term on word boundaries", () => {
+    const query = parseSearchQuery("love god");
+    expect(scoreVerse("God is love.", query)).toBeGreaterThan(0);
+    expect(scoreVerse("He that loveth not", query)).toBe(0);
+  });
+
+  it("should rank phrase and repeated matches higher", () => {
+    const query = parseSearchQuery("love");
+    const once = scoreVerse("for love is of God", query);
+    const twice = scoreVerse("for love is of love", query);
+    expect(twice).toBeGreaterThan(once);
+  });
+});
+
+describe("searchScripture", () => {
+  afterEach(() => {
+    setBibleTextProvider(null);
+  });
+
+  it("should return ranked verse links within a book", async () => {
+    setBibleTextProvider(createFakeProvider(false));
+    const { results, total } = await searchScripture("book:romans grace", "kjv");
+
+    expect(total).toBe(2);
+    expect(results.map((r) => r.reference)).toEqual(["Romans 3:1", "Romans 5:2"]);
+    expect(results[0].url).toBe("/romans/3/1");
+  });
+
+  it("should match phrases", async () => {
+    setBibleTextProvider(createFakeProvider(true));
+    const { results } = await searchScripture('"love one another"', "kjv");
+    expect(results.map((r) => r.reference)).toEqual(["1 John 4:1"]);
+  });
+
+  it("should require a book filter for rate-limited providers", async () => {
+    setBibleTextProvider(createFakeProvider(false));
+    await expect(searchScripture("grace", "kjv")).rejects.toThrow(SearchQueryError);
+  });
+
+  it("should reject empty queries and unknown books", async () => {
+    setBibleTextProvider(createFakeProvider(true));
+    await expect(searchScripture("book:romans", "kjv")).rejects.toThrow("Enter a word");
+    await expect(searchScripture("book:nowhere grace", "kjv")).rejects.toThrow("Unknown book");
+  });
+
+  it("should report chapters the provider could not read", async () => {
+    const provider = createFakeProvider(false);
+    setBibleTextProvider({
+      ...provider,
+      async fetchChapter(book, chapter, translation) {
+        if (book.id === "ROM" && chapter === 3) return null;
+        return provider.fetchChapter(book, chapter, translation);
+      },
+    });
+
+    // "web" keeps the kjv chapters cached by earlier tests out of the way
+    const { results, total, missingChapters } = await searchScripture("book:romans grace", "web");
+    expect(missingChapters).toEqual(["Romans 3"]);
+    expect(total).toBe(1);
+    expect(results.map((r) => r.reference)).toEqual(["Romans 5:2"]);
+  });
+
+  it("should report no missing chapters for a complete search", async () => {
+    setBibleTextProvider(createFakeProvider(false));
+    const { missingChapters } = await searchScripture("book:romans grace", "kjv");
+    expect(missingChapters).toEqual([]);
+  });
+
+  it("should clamp the result limit", async () => {
+    setBibleTextProvider(createFakeProvider(true));
+    const { results, total } = await searchScripture("god", "kjv", 1);
+    expect(total).toBe(3);
+    expect(results).toHaveLength(1);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for the image style profile catalog.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  STYLE_PROFILES,
+  DEFAULT_STYLE_PROFILE,
+  isValidStyleProfile,
+} from "../style-profiles";
+
+describe("STYLE_PROFILES", () => {
+  it("should key every profile by its own id", () => {
+    for (const [key, profile] of Object.entries(STYLE_PROFILES)) {
+      expect(profile.id).toBe(key);
+    }
+  });
+
+  it("should keep every style full-bleed", () => {
+    for (const profile of Object.values(STYLE_PROFILES)) {
+      expect(profile.negative).toContain("fill the entire canvas edge-to-edge");
+    }
+  });
+
+  it("should include the default profile", () => {
+    expect(STYLE_PROFILES[DEFAULT_STYLE_PROFILE]).toBeDefined();
+  });
+});
+
+describe("isValidStyleProfile", () => {
+  it("should accept catalog ids", () => {
+    expect(isValidStyleProfile("classical")).toBe(true);
+    expect(isValidStyleProfile("stained-glass")).toBe(true);
+  });
+
+  it("should reject unknown ids and prototype keys", () => {
+    expect(isValidStyleProfile("photoreal")).toBe(false);
+    expect(isValidStyleProfile("toString")).toBe(false);
+  });
+});
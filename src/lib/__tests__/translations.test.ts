@@ -0,0 +1,100 @@
+/**
+ * Unit tests for translation preferences.
+ * Tests translation key checks, parallel translation normalization, and the
+ * parallel translation cookie.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  isTranslation,
+  normalizeParallelTranslations,
+  MAX_PARALLEL_TRANSLATIONS,
+} from "../translations";
+
+const mockCookies = new Map<string, string>();
+
+vi.mock("next/headers", () => ({
+  cookies: vi.fn(async () => ({
+    get: (name: string) => {
+      const value = mockCookies.get(name);
+      return value === undefined ? undefined : { name, value };
+    },
+  })),
+}));
+
+import { getParallelTranslationsFromCookies, getTranslationFromCookies } from "../get-translation";
+
+describe("isTranslation", () => {
+  it("should accept translation keys", () => {
+    expect(isTranslation("kjv")).toBe(true);
+    expect(isTranslation("clementine")).toBe(true);
+  });
+
+  it("should reject unknown values and prototype keys", () => {
+    expect(isTranslation("KJV")).toBe(false);
+    expect(isTranslation("niv")).toBe(false);
+    expect(isTranslation("toString")).toBe(false);
+    expect(isTranslation("__proto__")).toBe(false);
+    expect(isTranslation(undefined)).toBe(false);
+    expect(isTranslation(1)).toBe(false);
+  });
+});
+
+describe("normalizeParallelTranslations", () => {
+  it("should keep valid translations in order", () => {
+    expect(normalizeParallelTranslations(["kjv", "asv"], "web")).toEqual(["kjv", "asv"]);
+  });
+
+  it("should drop the primary translation, duplicates and invalid entries", () => {
+    expect(normalizeParallelTranslations(["web", "kjv", "kjv", "niv", 42, "asv"], "web")).toEqual([
+      "kjv",
+      "asv",
+    ]);
+  });
+
+  it("should cap the list at MAX_PARALLEL_TRANSLATIONS", () => {
+    const result = normalizeParallelTranslations(["kjv", "asv", "bbe", "ylt"], "web");
+    expect(result).toHaveLength(MAX_PARALLEL_TRANSLATIONS);
+    expect(result).toEqual(["kjv", "asv"]);
+  });
+
+  it("should count only kept translations toward the cap", () => {
+    expect(normalizeParallelTranslations(["web", "niv", "kjv", "kjv", "asv"], "web")).toEqual([
+      "kjv",
+      "asv",
+    ]);
+  });
+});
+
+describe("getParallelTranslationsFromCookies", () => {
+  beforeEach(() => {
+    mockCookies.clear();
+  });
+
+  it("should return no parallel translations without the cookie", async () => {
+    expect(await getParallelTranslationsFromCookies("web")).toEqual([]);
+  });
+
+  it("should parse an encoded comma-separated list", async () => {
+    mockCookies.set("visibible-parallel-translations", encodeURIComponent("kjv,asv"));
+    expect(await getParallelTranslationsFromCookies("web")).toEqual(["kjv", "asv"]);
+  });
+
+  it("should drop the primary translation and tampered entries", async () => {
+    mockCookies.set("visibible-parallel-translations", "kjv,<script>,web,bbe,ylt");
+    expect(await getParallelTranslationsFromCookies("kjv")).toEqual(["web", "bbe"]);
+  });
+
+  it("should ignore a cookie with malformed escapes", async () => {
+    mockCookies.set("visibible-parallel-translations", "kjv%E0");
+    expect(await getParallelTranslationsFromCookies("web")).toEqual([]);
+  });
+
+  it("should follow the primary translation from its own cookie", async () => {
+    mockCookies.set("visibible-translation", "asv");
+    mockCookies.set("visibible-parallel-translations", "asv,kjv");
+    const primary = await getTranslationFromCookies();
+    expect(primary).toBe("asv");
+    expect(await getParallelTranslationsFromCookies(primary)).toEqual(["kjv"]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for visual registry matching, prompt blocks and scope parsing.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  formatRegistryBlock,
+  formatRegistryScopes,
+  matchRegistryEntries,
+  parseRegistryScopes,
+  toRegistryPromptEntry,
+  MAX_PROMPT_REGISTRY_ENTRIES,
+  VisualRegistryEntry,
+} from "../visual-registry";
+
+function entry(name: string, aliases: string[] = []): VisualRegistryEntry {
+  return {
+    id: name.toLowerCase(),
+    kind: "character",
+    name,
+    aliases,
+    description: `${name} as always`,
+  };
+}
+
+const moses = entry("Moses", ["the prophet"]);
+const aaron = entry("Aaron");
+const sinai = { ...entry("Mount Sinai", ["Horeb"]), kind: "location" as const };
+
+describe("matchRegistryEntries", () => {
+  it("should match names and aliases case-insensitively", () => {
+    const result = matchRegistryEntries([moses, aaron, sinai], {
+      primarySubject: "MOSES raising his staff",
+      secondaryElements: "smoke over horeb",
+    });
+    expect(result.map((e) => e.id)).toEqual(["moses", "mount sinai"]);
+  });
+
+  it("should list primary subject matches before secondary ones", () => {
+    const result = matchRegistryEntries([moses, aaron], {
+      primarySubject: "Aaron holding the rod",
+      secondaryElements: "Moses watching",
+    });
+    expect(result.map((e) => e.id)).toEqual(["aaron", "moses"]);
+  });
+
+  it("should only match whole words", () => {
+    const result = matchRegistryEntries([entry("Eve")], {
+      primarySubject: "Evening light over the garden",
+    });
+    expect(result).toEqual([]);
+  });
+
+  it("should cap the number of entries", () => {
+    const many = ["Peter", "James", "John", "Andrew", "Philip", "Thomas"].map((name) => entry(name));
+    const result = matchRegistryEntries(many, {
+      primarySubject: "Peter, James, John, Andrew, Philip and Thomas at the table",
+    });
+    expect(result).toHaveLength(MAX_PROMPT_REGISTRY_ENTRIES);
+  });
+});
+
+describe("formatRegistryBlock", () => {
+  it("should list each entry with its kind and description", () => {
+    const block = formatRegistryBlock([moses, sinai].map(toRegistryPromptEntry));
+    expect(block.startsWith("\n\nRECURRING CHARACTERS AND PLACES")).toBe(true);
+    expect(block).toContain("- Moses (character): Moses as always");
+    expect(block).toContain("- Mount Sinai (location):");
+  });
+
+  it("should be empty without entries", () => {
+    expect(formatRegistryBlock([])).toBe("");
+  });
+});
+
+describe("parseRegistryScopes", () => {
+  it("should parse books, single chapters and ranges", () => {
+    expect(parseRegistryScopes("Exodus; Numbers 1-20\n1 Samuel 16")).toEqual([
+      { book: "exodus" },
+      { book: "numbers", chapterStart: 1, chapterEnd: 20 },
+      { book: "1-samuel", chapterStart: 16, chapterEnd: 16 },
+    ]);
+  });
+
+  it("should accept an empty list", () => {
+    expect(parseRegistryScopes("  ")).toEqual([]);
+  });
+
+  it("should reject unknown books and out-of-range chapters", () => {
+    expect(parseRegistryScopes("Hezekiah 3")).toBeNull();
+    expect(parseRegistryScopes("Genesis 51")).toBeNull();
+    expect(parseRegistryScopes("Genesis 5-2")).toBeNull();
+  });
+
+  it("should round-trip through formatRegistryScopes", () => {
+    const text = "Exodus; Numbers 1-20; 1 Samuel 16";
+    expect(formatRegistryScopes(parseRegistryScopes(text)!)).toBe(text);
+  });
+});
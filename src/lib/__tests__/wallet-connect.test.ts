@@ -0,0 +1,29 @@
+/**
+ * Unit tests for picking user-facing messages out of Convex wallet errors.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getWalletErrorMessage } from "../wallet-connect";
+
+describe("getWalletErrorMessage", () => {
+  it("should extract a user-facing message from a wrapped Convex error", () => {
+    const error = new Error(
+      "[Request ID: abc123] Server Error\nUncaught Error: Top-up of $25 is over your $10 wallet budget\n    at handler (../convex/walletConnectActions.ts:180:11)"
+    );
+    expect(getWalletErrorMessage(error)).toBe("Top-up of $25 is over your $10 wallet budget");
+  });
+
+  it("should ask to reconnect a wallet whose secret can't be decrypted", () => {
+    const error = new Error(
+      "[Request ID: def456] Server Error\nUncaught Error: Your wallet connection can't be used anymore. Disconnect and reconnect your wallet.\n    at handler (../convex/walletConnectActions.ts:190:13)"
+    );
+    expect(getWalletErrorMessage(error)).toBe(
+      "Your wallet connection can't be used anymore. Disconnect and reconnect your wallet."
+    );
+  });
+
+  it("should return null for internal errors", () => {
+    expect(getWalletErrorMessage(new Error("Unauthorized: Invalid server secret"))).toBeNull();
+    expect(getWalletErrorMessage("Wallet payment failed")).toBeNull();
+  });
+});
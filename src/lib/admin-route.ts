@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { validateSessionWithIp } from "@/lib/session";
+import { validateOrigin, invalidOriginResponse } from "@/lib/origin";
+import { validateCsrfToken, CSRF_COOKIE_NAME } from "@/lib/csrf";
+
+/**
+ * Request checks and responses shared by the admin API routes. The admin
+ * tier itself is enforced in Convex, which throws "Admin session required".
+ */
+
+/**
+ * 403 for a Convex call rejected with "Admin session required".
+ */
+export function adminRequiredResponse(): NextResponse {
+  return NextResponse.json(
+    { error: "Admin access required" },
+    { status: 403 }
+  );
+}
+
+/**
+ * Origin, CSRF and session checks for a write handler. Returns the session
+ * id, or the response to send when a check fails.
+ */
+export async function validateWriteRequest(
+  request: Request
+): Promise<{ sid: string } | { response: NextResponse }> {
+  if (!validateOrigin(request)) {
+    return { response: invalidOriginResponse() as NextResponse };
+  }
+
+  const cookieStore = await cookies();
+  const csrfCookie = cookieStore.get(CSRF_COOKIE_NAME)?.value;
+  if (!validateCsrfToken(request, csrfCookie)) {
+    return {
+      response: NextResponse.json(
+        { error: "Invalid request", message: "CSRF validation failed" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const sessionValidation = await validateSessionWithIp(request);
+  if (!sessionValidation.sid || !sessionValidation.valid) {
+    return {
+      response: NextResponse.json(
+        { error: "Session required" },
+        { status: 401 }
+      ),
+    };
+  }
+  return { sid: sessionValidation.sid };
+}
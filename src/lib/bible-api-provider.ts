@@ -0,0 +1,110 @@
+import type { BibleBook } from "@/data/bible-structure";
+import type { Translation } from "./translations";
+import type { BibleTextProvider, ChapterData, VerseData } from "./bible-text-provider";
+
+const BIBLE_API_BASE_URL = "https://bible-api.com";
+
+interface BibleApiVerse {
+  book_id: string;
+  book_name: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+interface BibleApiResponse {
+  reference: string;
+  verses: BibleApiVerse[];
+  text: string;
+  translation_id: string;
+  translation_name: string;
+  translation_note: string;
+}
+
+function toVerseData(v: BibleApiVerse): VerseData {
+  return {
+    bookId: v.book_id,
+    bookName: v.book_name,
+    chapter: v.chapter,
+    verse: v.verse,
+    text: v.text.trim(),
+  };
+}
+
+/**
+ * Bible text provider backed by bible-api.com.
+ */
+export function createBibleApiProvider(): BibleTextProvider {
+  return {
+    id: "bible-api",
+    bulkReads: false,
+
+    async fetchChapter(
+      book: BibleBook,
+      chapter: number,
+      translation: Translation
+    ): Promise<ChapterData | null> {
+      try {
+        // Use the data endpoint for full chapter
+        const url = `${BIBLE_API_BASE_URL}/data/${translation}/${book.id}/${chapter}`;
+
+        const response = await fetch(url, {
+          next: {
+            revalidate: 86400 * 30, // 30 days - Bible text is immutable
+            tags: [`bible-${book.id}-${chapter}-${translation}`],
+          },
+        });
+
+        if (!response.ok) {
+          console.error(`Bible API error: ${response.status}`);
+          return null;
+        }
+
+        const data = (await response.json()) as {
+          verses: BibleApiVerse[];
+          translation_id: string;
+          translation_name: string;
+        };
+
+        return {
+          bookId: book.id,
+          bookName: book.name,
+          chapter,
+          verses: data.verses.map(toVerseData),
+          translationId: data.translation_id,
+          translationName: data.translation_name,
+        };
+      } catch (error) {
+        console.error("Failed to fetch chapter:", error);
+        return null;
+      }
+    },
+
+    async fetchReference(
+      reference: string,
+      translation: Translation
+    ): Promise<VerseData[] | null> {
+      try {
+        const url = `${BIBLE_API_BASE_URL}/${encodeURIComponent(reference)}?translation=${translation}`;
+
+        const response = await fetch(url, {
+          next: {
+            revalidate: 86400 * 30,
+          },
+        });
+
+        if (!response.ok) {
+          console.error(`Bible API error: ${response.status}`);
+          return null;
+        }
+
+        const data = (await response.json()) as BibleApiResponse;
+
+        return data.verses.map(toVerseData);
+      } catch (error) {
+        console.error("Failed to fetch verse:", error);
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import type { BibleBook } from "@/data/bible-structure";
+import type { Translation } from "./translations";
+import { createBibleApiProvider } from "./bible-api-provider";
+import { createLocalBibleProvider } from "./local-bible-provider";
+
+export interface VerseData {
+  bookId: string;
+  bookName: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+export interface ChapterData {
+  bookId: string;
+  bookName: string;
+  chapter: number;
+  verses: VerseData[];
+  translationId: string;
+  translationName: string;
+}
+
+/**
+ * Source of scripture text.
+ * Implementations return null when the text is unavailable so callers can
+ * fall back gracefully (the page redirects, chat omits context, etc.).
+ */
+export interface BibleTextProvider {
+  /** Identifier used in logs and the BIBLE_TEXT_PROVIDER env var */
+  readonly id: BibleTextProviderId;
+  /**
+   * True when reading every chapter is cheap (local files). Remote providers
+   * are rate limited, so whole-Bible scans (e.g. search) must be scoped.
+   */
+  readonly bulkReads: boolean;
+  /** Fetch every verse of a chapter */
+  fetchChapter(
+    book: BibleBook,
+    chapter: number,
+    translation: Translation
+  ): Promise<ChapterData | null>;
+  /** Fetch verse(s) for a free-form reference like "John 3:16" */
+  fetchReference(
+    reference: string,
+    translation: Translation
+  ): Promise<VerseData[] | null>;
+}
+
+export type BibleTextProviderId = "bible-api" | "local";
+
+export const DEFAULT_BIBLE_TEXT_PROVIDER: BibleTextProviderId = "bible-api";
+
+// Default location of bundled scripture files, relative to the project root
+export const DEFAULT_BIBLE_DATA_DIR = "data/bible";
+
+let cachedProvider: BibleTextProvider | null = null;
+
+/**
+ * Resolve the provider id from BIBLE_TEXT_PROVIDER.
+ * Unknown values fall back to the default with a warning.
+ */
+export function resolveBibleTextProviderId(
+  value: string | undefined = process.env.BIBLE_TEXT_PROVIDER
+): BibleTextProviderId {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return DEFAULT_BIBLE_TEXT_PROVIDER;
+  if (normalized === "bible-api" || normalized === "local") {
+    return normalized;
+  }
+  console.warn(
+    `[Bible] Unknown BIBLE_TEXT_PROVIDER "${value}", using ${DEFAULT_BIBLE_TEXT_PROVIDER}`
+  );
+  return DEFAULT_BIBLE_TEXT_PROVIDER;
+}
+
+/**
+ * Get the configured Bible text provider (memoized per process).
+ */
+export function getBibleTextProvider(): BibleTextProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const id = resolveBibleTextProviderId();
+  cachedProvider =
+    id === "local"
+      ? createLocalBibleProvider(process.env.BIBLE_DATA_DIR || DEFAULT_BIBLE_DATA_DIR)
+      : createBibleApiProvider();
+
+  return cachedProvider;
+}
+
+/**
+ * Override the active provider. Pass null to re-read env config.
+ * Intended for tests and offline tooling.
+ */
+export function setBibleTextProvider(provider: BibleTextProvider | null): void {
+  cachedProvider = provider;
+}
@@ -65,18 +65,8 @@ export async function getBtcPrice(): Promise<number> {
   }
 }
 
-/**
- * Convert USD amount to satoshis.
- * @param usd - Amount in USD
- * @param btcPrice - Current BTC/USD price
- * @returns Amount in satoshis (rounded to nearest sat)
- */
-export function usdToSats(usd: number, btcPrice: number): number {
-  // 1 BTC = 100,000,000 sats
-  const btcAmount = usd / btcPrice;
-  const sats = Math.round(btcAmount * 100_000_000);
-  return sats;
-}
+// Shared with Convex, which checks invoice amounts against it
+export { usdToSats } from "../../convex/creditBundles";
 
 /**
  * Format satoshis as a human-readable string.
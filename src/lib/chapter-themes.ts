@@ -0,0 +1,145 @@
+import { DEFAULT_CHAT_MODEL } from "./chat-models";
+import { parseReference } from "./reference-parser";
+
+/**
+ * Per-chapter visual themes: the setting, palette, elements and style every
+ * image in a chapter shares. Themes live in Convex (`chapterThemes`), are
+ * edited by admins, and can be drafted from the chapter text by an LLM.
+ */
+
+export interface ChapterTheme {
+  setting: string;
+  palette: string;
+  elements: string;
+  style: string;
+}
+
+export const CHAPTER_THEME_FIELDS = ["setting", "palette", "elements", "style"] as const;
+export const MAX_THEME_FIELD_LENGTH = 500;
+
+// Drafting reads the whole chapter; keep long chapters (Psalm 119) bounded
+const MAX_DRAFT_CHAPTER_CHARS = 12000;
+const THEME_DRAFT_TIMEOUT_MS = 20000;
+
+// Prompt (up to ~3000 tokens of chapter text) plus the JSON answer, for audit estimates
+export const THEME_DRAFT_ESTIMATED_TOKENS = 3500;
+
+export function getThemeDraftModel(): string {
+  return process.env.OPENROUTER_THEME_DRAFT_MODEL || DEFAULT_CHAT_MODEL;
+}
+
+/**
+ * Validate a theme from untrusted input. Every field must be a non-empty
+ * string; values are trimmed and cut to MAX_THEME_FIELD_LENGTH.
+ */
+export function normalizeChapterTheme(value: unknown): ChapterTheme | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+
+  const theme: Partial<ChapterTheme> = {};
+  for (const field of CHAPTER_THEME_FIELDS) {
+    const raw = data[field];
+    if (typeof raw !== "string") return null;
+    const trimmed = raw.replace(/\s+/g, " ").trim().slice(0, MAX_THEME_FIELD_LENGTH);
+    if (!trimmed) return null;
+    theme[field] = trimmed;
+  }
+  return theme as ChapterTheme;
+}
+
+/**
+ * Book slug and chapter for a single-chapter reference ("Genesis 1:3",
+ * "John 3:16-21"), or null when it can't be tied to one chapter.
+ */
+export function chapterForReference(
+  reference: string
+): { book: string; chapter: number } | null {
+  const ranges = parseReference(reference);
+  if (ranges?.length !== 1) return null;
+  const { start, end } = ranges[0];
+  if (start.book.id !== end.book.id || start.chapter !== end.chapter) return null;
+  return { book: start.book.slug, chapter: start.chapter };
+}
+
+/**
+ * Prompt asking an LLM to draft a theme for a chapter.
+ */
+export function buildChapterThemeDraftPrompt(
+  reference: string,
+  verses: Array<{ verse: number; text: string }>
+): string {
+  let chapterText = verses.map((v) => `${v.verse} ${v.text}`).join("\n");
+  if (chapterText.length > MAX_DRAFT_CHAPTER_CHARS) {
+    chapterText = `${chapterText.slice(0, MAX_DRAFT_CHAPTER_CHARS)}\n…`;
+  }
+
+  return `You are an art director planning illustrations for every verse of ${reference}. Return ONLY valid JSON.
+
+Describe one visual theme that all images of this chapter should share.
+
+Rules:
+- Biblical-era setting, no modern artifacts.
+- Do not mention text, lettering or captions.
+- Short comma-separated phrases, not sentences.
+
+Return JSON with keys:
+setting (where and when the chapter takes place),
+palette (dominant colors),
+elements (recurring visual elements),
+style (artistic direction and lighting)
+
+Chapter:
+${chapterText}`;
+}
+
+/**
+ * Ask an LLM for a theme draft. Returns null if the model fails or its
+ * answer isn't a complete theme.
+ */
+export async function draftChapterTheme(
+  openRouterApiKey: string,
+  reference: string,
+  verses: Array<{ verse: number; text: string }>
+): Promise<{ theme: ChapterTheme; model: string } | null> {
+  const model = getThemeDraftModel();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), THEME_DRAFT_TIMEOUT_MS);
+
+  try {
+    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${openRouterApiKey}`,
+        "Content-Type": "application/json",
+        "HTTP-Referer": process.env.OPENROUTER_REFERRER || "http://localhost:3000",
+        "X-Title": process.env.OPENROUTER_TITLE || "visibible",
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: buildChapterThemeDraftPrompt(reference, verses) }],
+        temperature: 0.4,
+        max_tokens: 400,
+      }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      console.warn(`[Chapter Themes] Draft failed: status=${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") return null;
+
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end <= start) return null;
+    const theme = normalizeChapterTheme(JSON.parse(content.slice(start, end + 1)));
+    return theme ? { theme, model } : null;
+  } catch (error) {
+    console.warn("[Chapter Themes] Draft error:", error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
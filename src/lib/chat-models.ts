@@ -19,6 +19,9 @@ export const MIN_CHAT_CREDITS = 1; // Minimum credits to charge per chat
 // Scene planner uses smaller context: ~200 prompt tokens + 220 max completion + overhead
 export const SCENE_PLANNER_ESTIMATED_TOKENS = 450;
 
+// One scripture tool result fed back to the model: MAX_TOOL_RESULT_CHARS (~1000 tokens)
+export const CHAT_TOOL_RESULT_TOKENS = 1000;
+
 /**
  * Determine if a model is free based on:
  * 1. Model ID ends with ":free" suffix
@@ -193,11 +196,13 @@ export function formatCost(cost: number | null): string {
  *
  * @param pricing - Model pricing from OpenRouter (prompt and completion per million tokens)
  * @param estimatedTokens - Estimated total tokens (prompt + completion), defaults to 2000
+ * @param extraPromptTokens - Additional prompt-only tokens, e.g. tool results fed back to the model
  * @returns Credits required, or null if model has no valid pricing
  */
 export function computeChatCreditsCost(
   pricing: { prompt?: string; completion?: string } | undefined,
-  estimatedTokens: number = DEFAULT_ESTIMATED_TOKENS
+  estimatedTokens: number = DEFAULT_ESTIMATED_TOKENS,
+  extraPromptTokens: number = 0
 ): number | null {
   if (!pricing?.prompt || !pricing?.completion) return null;
 
@@ -212,8 +217,9 @@ export function computeChatCreditsCost(
   }
 
   // Estimate cost: assume half prompt, half completion tokens
-  const promptTokens = Math.floor(estimatedTokens / 2);
-  const completionTokens = estimatedTokens - promptTokens;
+  const basePromptTokens = Math.floor(estimatedTokens / 2);
+  const promptTokens = basePromptTokens + extraPromptTokens;
+  const completionTokens = estimatedTokens - basePromptTokens;
 
   const perMillion = 1_000_000;
   const promptCost = (promptRate * promptTokens) / perMillion;
@@ -225,6 +231,28 @@ export function computeChatCreditsCost(
   return Math.max(MIN_CHAT_CREDITS, Math.ceil(effectiveUsd / CREDIT_USD));
 }
 
+/**
+ * Estimate the extra prompt tokens a chat message uses when the model calls tools.
+ * Every step re-sends the system prompt and history plus all earlier tool results,
+ * so after N tool calls the model has been prompted N more times, the last time
+ * with N results attached.
+ *
+ * @param maxToolCalls - Tool round trips allowed before the final answer
+ * @param basePromptTokens - Estimated system prompt + history tokens, re-sent on each step
+ * @param toolResultTokens - Estimated tokens per tool result
+ * @returns Prompt tokens on top of the first step, for `extraPromptTokens`
+ */
+export function estimateChatToolPromptTokens(
+  maxToolCalls: number,
+  basePromptTokens: number = Math.floor(DEFAULT_ESTIMATED_TOKENS / 2),
+  toolResultTokens: number = CHAT_TOOL_RESULT_TOKENS
+): number {
+  // Steps 2..N+1 re-send the base prompt with 1..N results: N * base + (1 + ... + N) * result
+  const resendTokens = maxToolCalls * basePromptTokens;
+  const resultTokens = (toolResultTokens * maxToolCalls * (maxToolCalls + 1)) / 2;
+  return resendTokens + resultTokens;
+}
+
 /**
  * Calculate the actual credit cost after streaming completes based on real token usage.
  * Used for logging/comparison with estimated cost.
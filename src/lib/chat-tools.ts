@@ -0,0 +1,154 @@
+/**
+ * Scripture lookup tools the chat model can call while answering.
+ * Tools run server-side in /api/chat; results stream to the client as tool
+ * parts and are rendered as collapsible cards.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import { getChapter, getVerseByReference } from "./bible-api";
+import { resolveBookName } from "./reference-parser";
+import {
+  DEFAULT_TRANSLATION,
+  TRANSLATIONS,
+  type Translation,
+} from "./translations";
+
+// Round trips the model may spend on tools before it must answer
+export const MAX_CHAT_TOOL_CALLS = 3;
+
+// Scripture text returned per tool call (~1000 tokens). This bounds
+// CHAT_TOOL_RESULT_TOKENS in chat-models, which the reservation charges per step.
+export const MAX_TOOL_RESULT_CHARS = 4000;
+
+const MAX_COMPARED_TRANSLATIONS = 3;
+
+export interface ToolVerse {
+  verse: number;
+  text: string;
+}
+
+/**
+ * Keep whole verses until the character budget runs out.
+ * The budget is shared across every verse in a single tool result.
+ */
+export function capToolVerses(
+  verses: ToolVerse[],
+  maxChars: number = MAX_TOOL_RESULT_CHARS
+): { verses: ToolVerse[]; truncated: boolean } {
+  const kept: ToolVerse[] = [];
+  let used = 0;
+  for (const verse of verses) {
+    const text = verse.text.trim();
+    if (used + text.length > maxChars) {
+      return { verses: kept, truncated: true };
+    }
+    kept.push({ verse: verse.verse, text });
+    used += text.length;
+  }
+  return { verses: kept, truncated: false };
+}
+
+const translationIdSchema = z.enum(
+  Object.keys(TRANSLATIONS) as [Translation, ...Translation[]]
+);
+
+const translationSchema = translationIdSchema
+  .optional()
+  .describe(
+    `Translation id. One of: ${Object.keys(TRANSLATIONS).join(", ")}. Defaults to ${DEFAULT_TRANSLATION}.`
+  );
+
+async function lookupVerses(reference: string, translation: Translation) {
+  const verses = await getVerseByReference(reference, translation);
+  if (!verses || verses.length === 0) return null;
+  return {
+    book: verses[0].bookName,
+    chapter: verses[0].chapter,
+    ...capToolVerses(verses.map((v) => ({ verse: v.verse, text: v.text }))),
+  };
+}
+
+/**
+ * Tools passed to streamText in /api/chat.
+ */
+export const chatTools = {
+  lookupPassage: tool({
+    description:
+      "Fetch the exact text of a Bible verse or range, e.g. \"John 3:16\" or \"1 Cor 13:4-7\". Use this instead of quoting from memory.",
+    inputSchema: z.object({
+      reference: z.string().min(1).max(100).describe("Bible reference to look up"),
+      translation: translationSchema,
+    }),
+    execute: async ({ reference, translation }) => {
+      const translationId = translation ?? DEFAULT_TRANSLATION;
+      const result = await lookupVerses(reference, translationId);
+      if (!result) {
+        return { reference, error: "Passage not found" };
+      }
+      return {
+        reference,
+        translation: TRANSLATIONS[translationId].code,
+        ...result,
+      };
+    },
+  }),
+
+  compareTranslations: tool({
+    description:
+      "Show the same verse or short range side by side in several translations.",
+    inputSchema: z.object({
+      reference: z.string().min(1).max(100).describe("Bible reference to compare"),
+      translations: z
+        .array(translationIdSchema)
+        .min(2)
+        .max(MAX_COMPARED_TRANSLATIONS)
+        .describe(`Translation ids, e.g. ["web", "kjv", "ylt"]`),
+    }),
+    execute: async ({ reference, translations }) => {
+      // Split the budget so comparing never returns more than one lookup
+      const perTranslationChars = Math.floor(MAX_TOOL_RESULT_CHARS / translations.length);
+      const results = await Promise.all(
+        translations.map(async (translationId) => {
+          const verses = await getVerseByReference(reference, translationId);
+          if (!verses || verses.length === 0) {
+            return { translation: TRANSLATIONS[translationId].code, error: "Passage not found" };
+          }
+          return {
+            translation: TRANSLATIONS[translationId].code,
+            ...capToolVerses(
+              verses.map((v) => ({ verse: v.verse, text: v.text })),
+              perTranslationChars
+            ),
+          };
+        })
+      );
+      return { reference, results };
+    },
+  }),
+
+  listChapterVerses: tool({
+    description:
+      "List the verses of a whole chapter with their text, e.g. to survey its structure or find a verse number.",
+    inputSchema: z.object({
+      book: z.string().min(1).max(50).describe("Book name, e.g. \"Genesis\" or \"1 John\""),
+      chapter: z.number().int().min(1).max(150),
+      translation: translationSchema,
+    }),
+    execute: async ({ book, chapter, translation }) => {
+      const translationId = translation ?? DEFAULT_TRANSLATION;
+      const resolved = resolveBookName(book);
+      const chapterData = resolved ? await getChapter(resolved.slug, chapter, translationId) : null;
+      if (!chapterData) {
+        return { book, chapter, error: "Chapter not found" };
+      }
+      return {
+        book: chapterData.bookName,
+        chapter,
+        translation: TRANSLATIONS[translationId].code,
+        verseCount: chapterData.verses.length,
+        ...capToolVerses(chapterData.verses.map((v) => ({ verse: v.verse, text: v.text }))),
+      };
+    },
+  }),
+};
@@ -0,0 +1,61 @@
+import { ConvexHttpClient } from "convex/browser";
+import { getConvexServerSecret } from "@/lib/convex-client";
+import { getBtcPrice, usdToSats } from "@/lib/btc-price";
+import { api } from "../../convex/_generated/api";
+import { CreditPurchase, CUSTOM_BUNDLE_ID } from "../../convex/creditBundles";
+import { PaymentProvider } from "../../convex/paymentProviders";
+
+export interface CreditInvoice {
+  invoiceId: string;
+  bolt11: string;
+  amountUsd: number;
+  amountSats: number;
+  expiresAt: number;
+  bundleId: string;
+  credits: number;
+}
+
+/**
+ * Create a Lightning invoice for a credit purchase with the payment provider
+ * and store it in Convex. Used by the buy flow and by wallet auto-refill.
+ */
+export async function createCreditInvoice(
+  convex: ConvexHttpClient,
+  paymentProvider: PaymentProvider,
+  sid: string,
+  purchase: CreditPurchase
+): Promise<CreditInvoice> {
+  // Get current BTC price and calculate sats
+  const btcPrice = await getBtcPrice();
+  const amountSats = usdToSats(purchase.amountUsd, btcPrice);
+
+  // Generate invoiceId before the provider call so we can include it in memo for linking
+  const invoiceId = crypto.randomUUID();
+  const memo = `Visibible: ${invoiceId}`;
+
+  // Create the Lightning invoice with the configured provider
+  const providerInvoice = await paymentProvider.createInvoice(amountSats, memo);
+
+  // Store in Convex with the provider's invoice data
+  const invoice = await convex.mutation(api.invoices.createInvoice, {
+    invoiceId,
+    sid,
+    serverSecret: getConvexServerSecret(),
+    bundleId: purchase.bundleId,
+    customUsd: purchase.bundleId === CUSTOM_BUNDLE_ID ? purchase.amountUsd : undefined,
+    amountSats,
+    btcPriceUsd: btcPrice,
+    bolt11: providerInvoice.bolt11,
+    paymentHash: providerInvoice.paymentHash,
+  });
+
+  return {
+    invoiceId: invoice.invoiceId,
+    bolt11: invoice.bolt11,
+    amountUsd: invoice.amountUsd,
+    amountSats: invoice.amountSats,
+    expiresAt: invoice.expiresAt,
+    bundleId: invoice.bundleId,
+    credits: invoice.credits,
+  };
+}
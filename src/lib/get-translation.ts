@@ -1,7 +1,13 @@
 import { cookies } from "next/headers";
-import { Translation, DEFAULT_TRANSLATION, TRANSLATIONS } from "./bible-api";
+import {
+  Translation,
+  DEFAULT_TRANSLATION,
+  TRANSLATIONS,
+  normalizeParallelTranslations,
+} from "./translations";
 
 const COOKIE_NAME = "visibible-translation";
+const PARALLEL_COOKIE_NAME = "visibible-parallel-translations";
 
 /**
  * Get the user's translation preference from cookies (server-side)
@@ -17,3 +23,24 @@ export async function getTranslationFromCookies(): Promise<Translation> {
 
   return DEFAULT_TRANSLATION;
 }
+
+/**
+ * Get the translations shown in parallel with the primary one (server-side).
+ * The cookie holds a comma-separated list; invalid entries are dropped.
+ */
+export async function getParallelTranslationsFromCookies(
+  primary: Translation
+): Promise<Translation[]> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(PARALLEL_COOKIE_NAME)?.value;
+  if (!value) return [];
+
+  // A hand-edited cookie with a bad escape shouldn't break the page
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    return [];
+  }
+  return normalizeParallelTranslations(decoded.split(","), primary);
+}
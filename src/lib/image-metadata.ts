@@ -0,0 +1,60 @@
+/**
+ * Display helpers for stored image metadata (model, timing, dimensions, cost).
+ */
+
+/**
+ * Extract a short display name from a model ID.
+ * "google/gemini-2.5-flash-image" -> "Gemini 2.5 Flash"
+ */
+export function getShortModelName(modelId: string): string {
+  const parts = modelId.split("/");
+  const name = parts[parts.length - 1] || modelId;
+  return name
+    .replace(/-image$/i, "")
+    .replace(/-/g, " ")
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .trim();
+}
+
+/**
+ * Format duration in milliseconds to human-readable string.
+ */
+export function formatDuration(ms?: number): string {
+  if (!ms) return "N/A";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+/**
+ * Format timestamp to relative time string.
+ */
+export function formatRelativeTime(timestamp?: number): string {
+  if (!timestamp) return "Unknown";
+  const diff = Date.now() - timestamp;
+  const minutes = Math.floor(diff / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+}
+
+/**
+ * Format image dimensions to display string.
+ */
+export function getDimensionLabel(width?: number, height?: number): string {
+  if (!width || !height) return "Unknown";
+  return `${width} x ${height}`;
+}
+
+/**
+ * Format an image's generation cost for display.
+ * Prefers credits charged; falls back to provider cost in USD.
+ */
+export function formatImageCost(creditsCost?: number, costUsd?: number): string {
+  if (typeof creditsCost === "number") {
+    return `${creditsCost} credit${creditsCost === 1 ? "" : "s"}`;
+  }
+  if (typeof costUsd === "number") return `$${costUsd.toFixed(3)}`;
+  return "N/A";
+}
@@ -7,6 +7,7 @@ export interface ImageModel {
   };
   creditsCost?: number | null; // null = unpriced, number = credits required
   etaSeconds?: number; // estimated generation time
+  acceptsImageInput?: boolean; // can refine an existing image (image-to-image)
 }
 
 // Credit pricing constants
@@ -170,6 +171,7 @@ interface OpenRouterModel {
   id: string;
   name: string;
   architecture?: {
+    input_modalities?: string[];
     output_modalities?: string[];
   };
   pricing?: {
@@ -188,6 +190,7 @@ function getDefaultImageModels(): ImageModel[] {
       id: DEFAULT_IMAGE_MODEL,
       name: "Gemini 2.5 Flash (Default)",
       provider: "Google",
+      acceptsImageInput: true,
     },
   ];
 }
@@ -247,6 +250,7 @@ export async function fetchImageModels(openRouterApiKey: string): Promise<ImageM
         // Actual charge will be based on real OpenRouter usage after generation
         creditsCost: computeConservativeEstimate(model.pricing?.image),
         etaSeconds: DEFAULT_ETA_SECONDS, // Will be overridden by modelStats
+        acceptsImageInput: model.architecture?.input_modalities?.includes("image") ?? false,
       }))
       .sort((a: ImageModel, b: ImageModel) => {
         const providerCompare = a.provider.localeCompare(b.provider);
@@ -0,0 +1,155 @@
+/**
+ * Credit quote for one image generation: the image model plus the optional
+ * scene planner. Shared by /api/generate-image and chapter batch quotes so
+ * both price and reserve a verse the same way.
+ */
+
+import {
+  DEFAULT_IMAGE_MODEL,
+  fetchImageModels,
+  computeCreditsCost,
+  computeAdjustedCreditsCost,
+  computeConservativeEstimate,
+  CREDIT_USD,
+  ImageResolution,
+} from "./image-models";
+import {
+  DEFAULT_CHAT_MODEL,
+  SCENE_PLANNER_ESTIMATED_TOKENS,
+  computeChatCreditsCost,
+  getChatModelPricing,
+  isModelFree,
+} from "./chat-models";
+
+const DEFAULT_SCENE_PLANNER_MODEL = DEFAULT_CHAT_MODEL;
+
+export interface ImageGenerationQuote {
+  modelId: string;
+  enableScenePlanner: boolean;
+  scenePlannerModel: string;
+  // API-based estimate for the image, used as the fallback charge
+  imageCreditsCost: number;
+  // Conservative image estimate covering OpenRouter's underreported pricing
+  reservationImageCredits: number;
+  scenePlannerCreditsCost: number;
+  scenePlannerCostUsd: number;
+  // What we expect to charge
+  estimatedCreditsCost: number;
+  estimatedTotalCostUsd: number;
+  // What is reserved up front
+  reservationCreditsCost: number;
+  reservationCostUsd: number;
+}
+
+export type ImageQuoteResult =
+  | { ok: true; quote: ImageGenerationQuote }
+  | { ok: false; error: string; message: string };
+
+/**
+ * Price one generation for a model and resolution.
+ * SECURITY: Unknown and unpriced models are rejected to prevent cost abuse.
+ */
+export async function quoteImageGeneration(
+  openRouterApiKey: string,
+  options: {
+    requestedModelId: string | null;
+    resolution: ImageResolution;
+    // Refinement sends the parent image: the model must accept image input,
+    // and the instruction replaces the scene planner
+    refine?: boolean;
+  }
+): Promise<ImageQuoteResult> {
+  const { requestedModelId, resolution, refine = false } = options;
+  const result = await fetchImageModels(openRouterApiKey);
+
+  let modelId = DEFAULT_IMAGE_MODEL;
+  let modelPricing: string | undefined;
+  let acceptsImageInput = false;
+  if (requestedModelId && requestedModelId !== DEFAULT_IMAGE_MODEL) {
+    const foundModel = result.models.find(
+      (model) => model.id === requestedModelId
+    );
+    if (!foundModel) {
+      return {
+        ok: false,
+        error: "Model not available",
+        message: `The model "${requestedModelId}" is not available. Please select a different model.`,
+      };
+    }
+    modelId = requestedModelId;
+    modelPricing = foundModel.pricing?.imageOutput;
+    acceptsImageInput = foundModel.acceptsImageInput === true;
+  } else {
+    // Use default model, but still validate it exists and has pricing
+    const foundModel = result.models.find((model) => model.id === modelId);
+    modelPricing = foundModel?.pricing?.imageOutput;
+    acceptsImageInput = foundModel?.acceptsImageInput === true;
+  }
+
+  if (refine && !acceptsImageInput) {
+    return {
+      ok: false,
+      error: "Model cannot refine images",
+      message: `The model "${modelId}" does not accept image input. Please select a different model to refine images.`,
+    };
+  }
+
+  const baseImageCreditsCost = computeCreditsCost(modelPricing);
+  if (baseImageCreditsCost === null) {
+    return {
+      ok: false,
+      error: "Model pricing unavailable",
+      message: `The model "${modelId}" cannot be priced. Please select a different model.`,
+    };
+  }
+
+  // Apply resolution multiplier only if model supports it
+  // This prevents charging users extra for resolution settings that are ignored
+  const imageCreditsCost = computeAdjustedCreditsCost(baseImageCreditsCost, resolution, modelId);
+
+  // Compute conservative estimate for reservation (accounts for OpenRouter API pricing discrepancy)
+  // The OpenRouter models API often underreports actual costs for multimodal image models
+  const baseReservationCredits = computeConservativeEstimate(modelPricing);
+  const reservationImageCredits = computeAdjustedCreditsCost(baseReservationCredits, resolution, modelId);
+
+  const enableScenePlanner = !refine && process.env.ENABLE_SCENE_PLANNER !== "false";
+  const scenePlannerModel =
+    process.env.OPENROUTER_SCENE_PLANNER_MODEL || DEFAULT_SCENE_PLANNER_MODEL;
+
+  // Calculate scene planner cost if enabled and not using a free model
+  let scenePlannerCreditsCost = 0;
+  let scenePlannerCostUsd = 0;
+  if (enableScenePlanner) {
+    const scenePlannerPricing = await getChatModelPricing(
+      scenePlannerModel,
+      openRouterApiKey
+    );
+    if (
+      scenePlannerPricing &&
+      !isModelFree({ id: scenePlannerModel, pricing: scenePlannerPricing })
+    ) {
+      scenePlannerCreditsCost =
+        computeChatCreditsCost(scenePlannerPricing, SCENE_PLANNER_ESTIMATED_TOKENS) ?? 0;
+      scenePlannerCostUsd = scenePlannerCreditsCost * CREDIT_USD;
+    }
+  }
+
+  const reservationCreditsCost = reservationImageCredits + scenePlannerCreditsCost;
+
+  return {
+    ok: true,
+    quote: {
+      modelId,
+      enableScenePlanner,
+      scenePlannerModel,
+      imageCreditsCost,
+      reservationImageCredits,
+      scenePlannerCreditsCost,
+      scenePlannerCostUsd,
+      estimatedCreditsCost: imageCreditsCost + scenePlannerCreditsCost,
+      estimatedTotalCostUsd: imageCreditsCost * CREDIT_USD + scenePlannerCostUsd,
+      reservationCreditsCost,
+      reservationCostUsd: reservationCreditsCost * CREDIT_USD,
+    },
+  };
+}
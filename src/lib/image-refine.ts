@@ -0,0 +1,30 @@
+/**
+ * Image-to-image refinement: the user picks an existing verse image and
+ * describes one change ("make it night", "remove the modern boat"). The
+ * generate-image route sends the stored image with this directive to a model
+ * that accepts image input and saves the result linked to its parent.
+ */
+
+export const MAX_REFINE_INSTRUCTION_LENGTH = 300;
+
+/**
+ * Clean a user instruction before it goes into a prompt: control characters
+ * and common prompt injection words are removed, whitespace is collapsed and
+ * the result is cut to MAX_REFINE_INSTRUCTION_LENGTH. May return "".
+ */
+export function sanitizeRefineInstruction(text: string): string {
+  return text
+    .replace(/[\x00-\x1F\x7F]/g, " ")
+    .replace(/\b(ignore|disregard|forget|override|system|prompt|instruction)/gi, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_REFINE_INSTRUCTION_LENGTH);
+}
+
+/**
+ * Prompt block asking for one change to the attached image, in the same
+ * shape as the scene plan block.
+ */
+export function formatRefineDirective(instruction: string): string {
+  return `\n\nREFINEMENT (apply only this change to the attached image):\n${instruction}\n\nKeep everything else from the attached image: composition, characters, setting, lighting and style.`;
+}
@@ -0,0 +1,200 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { BibleBook } from "@/data/bible-structure";
+import { TRANSLATIONS, Translation } from "./translations";
+import type { BibleTextProvider, ChapterData, VerseData } from "./bible-text-provider";
+import { parseReference, expandReferenceRanges } from "./reference-parser";
+
+/**
+ * Bible text provider that reads bundled files from disk.
+ *
+ * Layout under the data directory (book ids are the uppercase ids from
+ * BIBLE_BOOKS, e.g. "GEN", "1SA"):
+ *
+ *   {dataDir}/{translation}/{BOOK_ID}/{chapter}.json  - one chapter, JSON
+ *   {dataDir}/{translation}/{BOOK_ID}.usfm            - whole book, USFM
+ *
+ * Chapter JSON uses the same shape as the bible-api.com data endpoint, so a
+ * mirror can be produced by saving those responses as-is. When both formats
+ * exist, JSON wins.
+ */
+
+interface LocalChapterFile {
+  translation_id?: string;
+  translation_name?: string;
+  verses: Array<{ verse: number; text: string; chapter?: number }>;
+}
+
+// Parsed USFM books keyed by "{translation}-{BOOK_ID}" (null = file missing)
+const usfmCache = new Map<string, Map<number, Map<number, string>> | null>();
+
+/**
+ * Parse USFM text into chapter -> verse -> text.
+ * Keeps verse text only: footnotes and cross references are dropped, word-level
+ * markup (\w word|strong="..."\w*) is reduced to the word itself.
+ */
+export function parseUsfm(source: string): Map<number, Map<number, string>> {
+  const chapters = new Map<number, Map<number, string>>();
+  let currentChapter: Map<number, string> | null = null;
+  let currentVerse: number | null = null;
+
+  const appendText = (text: string) => {
+    if (!currentChapter || currentVerse === null) return;
+    const cleaned = cleanUsfmText(text);
+    if (!cleaned) return;
+    const existing = currentChapter.get(currentVerse);
+    currentChapter.set(currentVerse, existing ? `${existing} ${cleaned}` : cleaned);
+  };
+
+  // Split on markers that start a new structural unit while keeping inline text
+  const tokens = source.replace(/\r\n?/g, "\n").split(/(?=\\(?:c|v)\s)/);
+
+  for (const token of tokens) {
+    const chapterMatch = token.match(/^\\c\s+(\d+)/);
+    if (chapterMatch) {
+      const chapterNum = parseInt(chapterMatch[1], 10);
+      currentChapter = new Map();
+      chapters.set(chapterNum, currentChapter);
+      currentVerse = null;
+      continue;
+    }
+
+    const verseMatch = token.match(/^\\v\s+(\d+)(?:-\d+)?\s*([\s\S]*)$/);
+    if (verseMatch) {
+      currentVerse = parseInt(verseMatch[1], 10);
+      appendText(verseMatch[2]);
+      continue;
+    }
+
+    appendText(token);
+  }
+
+  return chapters;
+}
+
+function cleanUsfmText(text: string): string {
+  return text
+    // Drop footnotes, cross references and their contents
+    .replace(/\\(f|fe|x)\s[\s\S]*?\\\1\*/g, "")
+    // Keep the word, drop attributes: \w grace|strong="G5485"\w*
+    .replace(/\\\+?w\s([^|\\]*)(?:\|[^\\]*)?\\\+?w\*/g, "$1")
+    // Drop remaining paragraph/character markers (\p, \q1, \wj, \wj*, ...)
+    .replace(/\\\+?[a-z]+\d*\*?/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+export function createLocalBibleProvider(dataDir: string): BibleTextProvider {
+  const rootDir = path.resolve(process.cwd(), dataDir);
+
+  async function loadUsfmBook(
+    book: BibleBook,
+    translation: Translation
+  ): Promise<Map<number, Map<number, string>> | null> {
+    const cacheKey = `${translation}-${book.id}`;
+    if (usfmCache.has(cacheKey)) return usfmCache.get(cacheKey) ?? null;
+
+    const source = await readOptionalFile(path.join(rootDir, translation, `${book.id}.usfm`));
+    const parsed = source ? parseUsfm(source) : null;
+    usfmCache.set(cacheKey, parsed);
+    return parsed;
+  }
+
+  async function fetchChapter(
+    book: BibleBook,
+    chapter: number,
+    translation: Translation
+  ): Promise<ChapterData | null> {
+    try {
+      const jsonSource = await readOptionalFile(
+        path.join(rootDir, translation, book.id, `${chapter}.json`)
+      );
+
+      if (jsonSource) {
+        const data = JSON.parse(jsonSource) as LocalChapterFile;
+        return {
+          bookId: book.id,
+          bookName: book.name,
+          chapter,
+          verses: data.verses.map((v) => ({
+            bookId: book.id,
+            bookName: book.name,
+            chapter,
+            verse: v.verse,
+            text: v.text.trim(),
+          })),
+          translationId: data.translation_id ?? translation,
+          translationName: data.translation_name ?? TRANSLATIONS[translation].name,
+        };
+      }
+
+      const usfmBook = await loadUsfmBook(book, translation);
+      const usfmChapter = usfmBook?.get(chapter);
+      if (!usfmChapter) {
+        console.error(
+          `Local Bible text not found: ${translation}/${book.id} chapter ${chapter}`
+        );
+        return null;
+      }
+
+      return {
+        bookId: book.id,
+        bookName: book.name,
+        chapter,
+        verses: Array.from(usfmChapter.entries())
+          .sort((a, b) => a[0] - b[0])
+          .map(([verse, text]) => ({
+            bookId: book.id,
+            bookName: book.name,
+            chapter,
+            verse,
+            text,
+          })),
+        translationId: translation,
+        translationName: TRANSLATIONS[translation].name,
+      };
+    } catch (error) {
+      console.error("Failed to read local chapter:", error);
+      return null;
+    }
+  }
+
+  return {
+    id: "local",
+    bulkReads: true,
+
+    fetchChapter,
+
+    async fetchReference(
+      reference: string,
+      translation: Translation
+    ): Promise<VerseData[] | null> {
+      const ranges = parseReference(reference);
+      if (!ranges) return null;
+
+      const verses: VerseData[] = [];
+      const chapters = new Map<string, ChapterData | null>();
+      for (const location of expandReferenceRanges(ranges)) {
+        const key = `${location.book.id}-${location.chapter}`;
+        if (!chapters.has(key)) {
+          chapters.set(key, await fetchChapter(location.book, location.chapter, translation));
+        }
+        const chapterData = chapters.get(key);
+        if (!chapterData) return null;
+        const verse = chapterData.verses.find((v) => v.verse === location.verse);
+        if (verse) verses.push(verse);
+      }
+
+      return verses;
+    },
+  };
+}
@@ -114,3 +114,224 @@ export function getNavigationUrls(location: VerseLocation): {
 export function formatReference(location: VerseLocation): string {
   return `${location.book.name} ${location.chapter}:${location.verse}`;
 }
+
+/**
+ * A contiguous run of verses within one chapter (e.g. John 3:16-21).
+ * A single verse is a passage where startVerse === endVerse.
+ */
+export interface PassageLocation {
+  book: BibleBook;
+  chapter: number;
+  startVerse: number;
+  endVerse: number;
+}
+
+/**
+ * Parse URL parameters into a passage location.
+ * Accepts "16" (single verse), "16-21" (range), or no verse segment (whole
+ * chapter, used to validate chapter reading URLs).
+ */
+export function parsePassageUrl(
+  bookSlug: string,
+  chapter: string,
+  verseSegment?: string
+): PassageLocation | null {
+  const book = BOOK_BY_SLUG[bookSlug.toLowerCase()];
+  if (!book) return null;
+
+  const chapterNum = parseInt(chapter, 10);
+  if (isNaN(chapterNum)) return null;
+  if (chapterNum < 1 || chapterNum > book.chapters.length) return null;
+
+  const versesInChapter = book.chapters[chapterNum - 1];
+
+  if (verseSegment === undefined) {
+    return { book, chapter: chapterNum, startVerse: 1, endVerse: versesInChapter };
+  }
+
+  // Malformed escapes (e.g. "%E0") are a bad URL, not a server error
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(verseSegment);
+  } catch {
+    return null;
+  }
+  const match = decoded.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+
+  const startVerse = parseInt(match[1], 10);
+  const endVerse = match[2] ? parseInt(match[2], 10) : startVerse;
+
+  if (startVerse < 1 || endVerse < startVerse) return null;
+  if (endVerse > versesInChapter) return null;
+
+  return { book, chapter: chapterNum, startVerse, endVerse };
+}
+
+/**
+ * Check whether a passage covers exactly one verse
+ */
+export function isSingleVerse(passage: PassageLocation): boolean {
+  return passage.startVerse === passage.endVerse;
+}
+
+/**
+ * Check whether a passage covers its entire chapter
+ */
+export function isWholeChapter(passage: PassageLocation): boolean {
+  return (
+    passage.startVerse === 1 &&
+    passage.endVerse === passage.book.chapters[passage.chapter - 1]
+  );
+}
+
+/**
+ * Number of verses in a passage
+ */
+export function getPassageLength(passage: PassageLocation): number {
+  return passage.endVerse - passage.startVerse + 1;
+}
+
+/**
+ * Verse range label for a passage ("16" or "16-21")
+ */
+export function getPassageVerseRange(passage: PassageLocation): string {
+  return isSingleVerse(passage)
+    ? String(passage.startVerse)
+    : `${passage.startVerse}-${passage.endVerse}`;
+}
+
+/**
+ * Convert a passage location to a URL path.
+ * Always includes the verse range; /psalms/23 is the chapter reading page.
+ */
+export function passageToUrl(passage: PassageLocation): string {
+  return `/${passage.book.slug}/${passage.chapter}/${getPassageVerseRange(passage)}`;
+}
+
+/**
+ * URL of the chapter reading page
+ */
+export function chapterToUrl(book: BibleBook, chapter: number): string {
+  return `/${book.slug}/${chapter}`;
+}
+
+/**
+ * Get previous/next chapter reading URLs, crossing book boundaries
+ */
+export function getChapterNavigationUrls(book: BibleBook, chapter: number): {
+  prevUrl: string | null;
+  nextUrl: string | null;
+} {
+  const prev = getPreviousVerse({ book, chapter, verse: 1 });
+  const next = getNextVerse({ book, chapter, verse: book.chapters[chapter - 1] });
+
+  return {
+    prevUrl: prev ? chapterToUrl(prev.book, prev.chapter) : null,
+    nextUrl: next ? chapterToUrl(next.book, next.chapter) : null,
+  };
+}
+
+/**
+ * Get the next passage of the same length, crossing chapter and book boundaries.
+ * Whole-chapter passages step to the next whole chapter; ranges are clamped at
+ * the end of a chapter rather than spilling into the next one.
+ */
+export function getNextPassage(current: PassageLocation): PassageLocation | null {
+  if (isSingleVerse(current)) {
+    const next = getNextVerse(toVerseLocation(current));
+    return next ? fromVerseLocation(next) : null;
+  }
+
+  const length = getPassageLength(current);
+  const lastVerse: VerseLocation = {
+    book: current.book,
+    chapter: current.chapter,
+    verse: current.endVerse,
+  };
+  const start = getNextVerse(lastVerse);
+  if (!start) return null;
+
+  return buildPassageFrom(start, isWholeChapter(current) ? null : length);
+}
+
+/**
+ * Get the previous passage of the same length, crossing chapter and book boundaries.
+ */
+export function getPreviousPassage(current: PassageLocation): PassageLocation | null {
+  if (isSingleVerse(current)) {
+    const prev = getPreviousVerse(toVerseLocation(current));
+    return prev ? fromVerseLocation(prev) : null;
+  }
+
+  const prevEnd = getPreviousVerse(toVerseLocation(current));
+  if (!prevEnd) return null;
+
+  if (isWholeChapter(current)) {
+    return {
+      book: prevEnd.book,
+      chapter: prevEnd.chapter,
+      startVerse: 1,
+      endVerse: prevEnd.verse,
+    };
+  }
+
+  const length = getPassageLength(current);
+  return {
+    book: prevEnd.book,
+    chapter: prevEnd.chapter,
+    startVerse: Math.max(1, prevEnd.verse - length + 1),
+    endVerse: prevEnd.verse,
+  };
+}
+
+/**
+ * Get navigation URLs for a passage location
+ */
+export function getPassageNavigationUrls(passage: PassageLocation): {
+  prevUrl: string | null;
+  nextUrl: string | null;
+} {
+  const prev = getPreviousPassage(passage);
+  const next = getNextPassage(passage);
+
+  return {
+    prevUrl: prev ? passageToUrl(prev) : null,
+    nextUrl: next ? passageToUrl(next) : null,
+  };
+}
+
+/**
+ * Format a passage reference for display ("John 3:16-21", "Psalms 23")
+ */
+export function formatPassageReference(passage: PassageLocation): string {
+  if (isWholeChapter(passage) && !isSingleVerse(passage)) {
+    return `${passage.book.name} ${passage.chapter}`;
+  }
+  return `${passage.book.name} ${passage.chapter}:${getPassageVerseRange(passage)}`;
+}
+
+function toVerseLocation(passage: PassageLocation): VerseLocation {
+  return { book: passage.book, chapter: passage.chapter, verse: passage.startVerse };
+}
+
+function fromVerseLocation(location: VerseLocation): PassageLocation {
+  return {
+    book: location.book,
+    chapter: location.chapter,
+    startVerse: location.verse,
+    endVerse: location.verse,
+  };
+}
+
+function buildPassageFrom(start: VerseLocation, length: number | null): PassageLocation {
+  const versesInChapter = start.book.chapters[start.chapter - 1];
+  return {
+    book: start.book,
+    chapter: start.chapter,
+    startVerse: start.verse,
+    endVerse: length === null
+      ? versesInChapter
+      : Math.min(versesInChapter, start.verse + length - 1),
+  };
+}
@@ -0,0 +1,275 @@
+import type { ChapterTheme } from "./chapter-themes";
+import type { StyleProfile } from "./style-profiles";
+import { formatRegistryBlock, RegistryPromptEntry } from "./visual-registry";
+import { formatRefineDirective } from "./image-refine";
+
+/**
+ * Versioned image prompt templates. Each saved image records the version it
+ * was built with (`promptVersion`), so a change to the prompt wording ships
+ * as a new template rather than an edit to an existing one.
+ *
+ * A candidate version can be tried on a share of generations with
+ * PROMPT_CANDIDATE_VERSION and PROMPT_CANDIDATE_PERCENT; the admin prompt
+ * report compares versions by regenerate rate, votes and feedback.
+ */
+
+export type ScenePlan = {
+  primarySubject: string;
+  action: string;
+  setting: string;
+  secondaryElements?: string;
+  mood?: string;
+  timeOfDay?: string;
+  composition?: string;
+};
+
+export type VerseContext = { number: number; text: string; reference?: string };
+
+export interface PromptTemplateInputs {
+  reference: string;
+  verseText: string;
+  aspectRatio: string;
+  styleProfile: StyleProfile;
+  chapterTheme: ChapterTheme | null;
+  generationNumber: number | null;
+  prevVerse: VerseContext | null;
+  nextVerse: VerseContext | null;
+}
+
+export interface ImagePromptInputs extends PromptTemplateInputs {
+  scenePlan: ScenePlan | null;
+  registryEntries: RegistryPromptEntry[];
+  // Set when refining an existing image, which is attached to the request
+  refineInstruction?: string;
+}
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  buildScenePlannerPrompt(inputs: PromptTemplateInputs): string;
+  buildImagePrompt(inputs: ImagePromptInputs): string;
+}
+
+export interface PromptExperiment {
+  candidateVersion: string;
+  // Share of generations, 0-100, that use the candidate
+  candidatePercent: number;
+}
+
+const PRIORITY_RULES = `PRIORITY RULES (must follow):
+  1) ABSOLUTE: ZERO text of any kind. No letters, words, numbers, punctuation, symbols, runes, glyphs, sigils, logos, watermarks, captions, subtitles, labels, signage, banners, or inscriptions. Do not render the verse text or any readable/unreadable text-like marks. If a surface would normally contain writing (scrolls, tablets, signs), leave it blank or use abstract texture.
+  2) FULL-BLEED IMMERSIVE SCENE: edge-to-edge cinematic composition. No borders, frames, mattes, canvas edges, stretcher bars, wall-hung paintings, posters, prints, photographs, gallery/museum settings, mockups, or letterboxing. Do not depict the scene as artwork on a wall or in a frame; the image itself is the scene. No white wall or studio backdrop. Do not leave blank margins. Avoid solid white or empty backgrounds; fill negative space with atmospheric darkness, clouds, or textured sky/land. The viewer is IN the scene.
+  3) SINGLE SCENE ONLY: no split panels, diptychs, triptychs, insets, collages, or multiple scenes in one frame.`;
+
+const GLOBAL_NEGATIVES = `GLOBAL NEGATIVES:
+  - No modern artifacts or technology (vehicles, screens, guns, electrical lighting, contemporary architecture, modern clothing).
+  - No anachronistic materials (plastic, neon, LEDs).
+  - No distorted anatomy (extra limbs/fingers, malformed hands/feet, warped faces).`;
+
+/**
+ * Get ordinal suffix for a number (1st, 2nd, 3rd, 4th, etc.)
+ */
+function getOrdinalSuffix(n: number): string {
+  const j = n % 10;
+  const k = n % 100;
+  if (j === 1 && k !== 11) return "st";
+  if (j === 2 && k !== 12) return "nd";
+  if (j === 3 && k !== 13) return "rd";
+  return "th";
+}
+
+function aspectRatioInstruction(aspectRatio: string): string {
+  const aspectRatioLabel = aspectRatio === "21:9" ? "ULTRA-WIDE CINEMATIC" :
+    aspectRatio === "3:2" ? "CLASSIC WIDE" : "WIDESCREEN";
+  return `Generate the image in ${aspectRatioLabel} LANDSCAPE format with a ${aspectRatio} aspect ratio (wide, not square).`;
+}
+
+// Generation diversity for non-first images
+function generationNote(generationNumber: number | null): string {
+  if (!generationNumber || generationNumber <= 1) return "";
+  return `\n\nNOTE: This is the ${generationNumber}${getOrdinalSuffix(generationNumber)} generation of this image. Create a fresh, diverse interpretation while maintaining the core biblical scene.`;
+}
+
+// Storyboard context for visual continuity
+function narrativeContext(inputs: PromptTemplateInputs): string {
+  const { prevVerse, nextVerse, verseText } = inputs;
+  if (!prevVerse && !nextVerse) return "";
+  let context = "\n\nNARRATIVE CONTEXT (for visual continuity - this is a storyboard):";
+  if (prevVerse) {
+    context += `\n- Previous scene (v${prevVerse.number}): "${prevVerse.text}"`;
+  }
+  context += `\n- CURRENT SCENE (the verse to illustrate): "${verseText}"`;
+  if (nextVerse) {
+    context += `\n- Next scene (v${nextVerse.number}): "${nextVerse.text}"`;
+  }
+  context += "\n\nThis is part of a visual storyboard through Scripture. Maintain visual consistency with the flow of the narrative while focusing on THIS verse's moment.";
+  return context;
+}
+
+export function formatScenePlan(scenePlan: ScenePlan): string {
+  const lines = [
+    "SCENE PLAN (supporting; do not override priority rules):",
+    `Primary subject: ${scenePlan.primarySubject}`,
+    `Action: ${scenePlan.action}`,
+    `Setting: ${scenePlan.setting}`,
+  ];
+  if (scenePlan.secondaryElements) {
+    lines.push(`Secondary elements: ${scenePlan.secondaryElements}`);
+  }
+  if (scenePlan.mood) lines.push(`Mood: ${scenePlan.mood}`);
+  if (scenePlan.timeOfDay) lines.push(`Time of day: ${scenePlan.timeOfDay}`);
+  if (scenePlan.composition) lines.push(`Composition: ${scenePlan.composition}`);
+  return `\n\n${lines.join("\n")}`;
+}
+
+function chapterThemeSection(chapterTheme: ChapterTheme | null): string {
+  if (!chapterTheme) return "";
+  return `\n\n  CHAPTER THEME:
+  Setting: ${chapterTheme.setting}
+  Visual elements: ${chapterTheme.elements}
+  Color palette: ${chapterTheme.palette}
+  Style: ${chapterTheme.style}`;
+}
+
+function styleProfileSection(styleProfile: StyleProfile): string {
+  return `STYLE PROFILE: ${styleProfile.label}
+  Rendering: ${styleProfile.rendering}
+  ${styleProfile.palette ? `Palette: ${styleProfile.palette}` : ""}
+  ${styleProfile.lighting ? `Lighting: ${styleProfile.lighting}` : ""}
+  ${styleProfile.materials ? `Materials/Texture: ${styleProfile.materials}` : ""}
+  ${styleProfile.composition ? `Composition: ${styleProfile.composition}` : ""}
+
+  STYLE NEGATIVES:
+  ${styleProfile.negative}`;
+}
+
+// The parent image already carries the scene, theme and style
+function buildRefinePrompt(inputs: ImagePromptInputs, instruction: string): string {
+  return `${PRIORITY_RULES}
+
+  SCENE:
+  The attached image illustrates ${inputs.reference}: "${inputs.verseText}"${formatRefineDirective(instruction)}
+
+  ${GLOBAL_NEGATIVES}
+
+  ${aspectRatioInstruction(inputs.aspectRatio)}`;
+}
+
+function buildScenePlannerPrompt(inputs: PromptTemplateInputs): string {
+  const { reference, verseText, prevVerse, nextVerse, chapterTheme, styleProfile } = inputs;
+  return `You are a scene planner for biblical illustrations. Return ONLY valid JSON.
+
+  Rules:
+  - Single scene only (no collage, no split panels).
+  - Biblical-era setting, no modern artifacts.
+  - Do not include any text or written elements.
+  - Keep it visually depictable, concise, and grounded in the verse.
+  - Use short phrases (no full sentences).
+
+  Return JSON with keys:
+  primarySubject, action, setting, secondaryElements, mood, timeOfDay, composition
+
+  Inputs:
+  Reference: ${reference}
+  Verse: "${verseText}"
+  ${prevVerse ? `Previous: "${prevVerse.text}"` : ""}
+  ${nextVerse ? `Next: "${nextVerse.text}"` : ""}
+  ${chapterTheme ? `Theme setting: ${chapterTheme.setting}` : "Theme setting: none"}
+  ${chapterTheme ? `Theme elements: ${chapterTheme.elements}` : "Theme elements: none"}
+  Style profile: ${styleProfile.label} (${styleProfile.rendering})`;
+}
+
+const TEMPLATE_2026_01_07: PromptTemplate = {
+  version: "2026-01-07",
+  description: "Priority rules, scene with plan and storyboard context, theme, style profile",
+  buildScenePlannerPrompt,
+  buildImagePrompt(inputs) {
+    if (inputs.refineInstruction) {
+      return buildRefinePrompt(inputs, inputs.refineInstruction);
+    }
+    const scenePlanBlock = inputs.scenePlan
+      ? formatScenePlan(inputs.scenePlan) + formatRegistryBlock(inputs.registryEntries)
+      : "";
+
+    return `${PRIORITY_RULES}
+
+  SCENE:
+  Render a single, cohesive biblical-era scene for ${inputs.reference}: "${inputs.verseText}"${scenePlanBlock}${narrativeContext(inputs)}${generationNote(inputs.generationNumber)}${chapterThemeSection(inputs.chapterTheme)}
+
+  ${styleProfileSection(inputs.styleProfile)}
+
+  ${GLOBAL_NEGATIVES}
+
+  ${aspectRatioInstruction(inputs.aspectRatio)}`;
+  },
+};
+
+const TEMPLATE_2026_10_19: PromptTemplate = {
+  version: "2026-10-19",
+  description: "Focal subject line from the scene plan; storyboard context after the style profile",
+  buildScenePlannerPrompt,
+  buildImagePrompt(inputs) {
+    if (inputs.refineInstruction) {
+      return buildRefinePrompt(inputs, inputs.refineInstruction);
+    }
+    const scenePlanBlock = inputs.scenePlan
+      ? formatScenePlan(inputs.scenePlan) + formatRegistryBlock(inputs.registryEntries)
+      : "";
+    const focus = inputs.scenePlan
+      ? `\n\nFOCUS: ${inputs.scenePlan.primarySubject} is the clear focal point, large enough to read at a glance; everything else supports it.`
+      : "";
+
+    return `${PRIORITY_RULES}
+
+  SCENE:
+  Render a single, cohesive biblical-era scene for ${inputs.reference}: "${inputs.verseText}"${scenePlanBlock}${focus}${generationNote(inputs.generationNumber)}${chapterThemeSection(inputs.chapterTheme)}
+
+  ${styleProfileSection(inputs.styleProfile)}${narrativeContext(inputs)}
+
+  ${GLOBAL_NEGATIVES}
+
+  ${aspectRatioInstruction(inputs.aspectRatio)}`;
+  },
+};
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  [TEMPLATE_2026_01_07.version]: TEMPLATE_2026_01_07,
+  [TEMPLATE_2026_10_19.version]: TEMPLATE_2026_10_19,
+};
+
+// Version every generation uses unless it's assigned to a candidate
+export const CURRENT_PROMPT_VERSION = TEMPLATE_2026_01_07.version;
+
+/**
+ * Read the candidate experiment from PROMPT_CANDIDATE_VERSION and
+ * PROMPT_CANDIDATE_PERCENT. Returns null when unset, when the version isn't
+ * a known template or is the current one, or when the share is not above 0.
+ */
+export function getPromptExperiment(
+  env: Record<string, string | undefined> = process.env
+): PromptExperiment | null {
+  const candidateVersion = env.PROMPT_CANDIDATE_VERSION?.trim();
+  if (!candidateVersion || candidateVersion === CURRENT_PROMPT_VERSION) return null;
+  if (!PROMPT_TEMPLATES[candidateVersion]) {
+    console.warn(`[Prompt templates] Unknown PROMPT_CANDIDATE_VERSION: ${candidateVersion}`);
+    return null;
+  }
+  const percent = Number.parseFloat(env.PROMPT_CANDIDATE_PERCENT ?? "");
+  if (!Number.isFinite(percent) || percent <= 0) return null;
+  return { candidateVersion, candidatePercent: Math.min(percent, 100) };
+}
+
+/**
+ * Pick the template for one generation. `roll` is a number in [0, 1), e.g.
+ * Math.random(); rolls below the candidate share get the candidate.
+ */
+export function assignPromptTemplate(
+  experiment: PromptExperiment | null,
+  roll: number
+): PromptTemplate {
+  if (experiment && roll * 100 < experiment.candidatePercent) {
+    const candidate = PROMPT_TEMPLATES[experiment.candidateVersion];
+    if (candidate) return candidate;
+  }
+  return PROMPT_TEMPLATES[CURRENT_PROMPT_VERSION];
+}
@@ -0,0 +1,375 @@
+import { BIBLE_BOOKS, BOOK_BY_SLUG, BibleBook } from "@/data/bible-structure";
+import { createVerseId } from "../../convex/verseIds";
+import {
+  VerseLocation,
+  PassageLocation,
+  formatPassageReference,
+  passageToUrl,
+  chapterToUrl,
+  verseToUrl,
+  isWholeChapter,
+  isSingleVerse,
+} from "./navigation";
+
+/**
+ * Local parser for free-form scripture references.
+ *
+ * Understands:
+ *   "Jn 3:16", "John 3.16"         - abbreviations, ":" or "." separators
+ *   "1 Cor 13:4-7", "I Cor 13:4–7"  - ordinal prefixes (1, I, 1st, First), en dashes
+ *   "Ps 23", "Ps 23-24"            - whole chapters and chapter ranges
+ *   "John 3:16, 18, 4:1"           - comma lists (bare numbers stay in the last chapter)
+ *   "John 3:16-4:2"                - ranges across chapters
+ *   "John 3:16; Rom 5:8; 6:23"     - semicolon lists (the book carries over)
+ *   "Jude 3"                       - verses of single-chapter books
+ *
+ * Every reference is checked against BIBLE_BOOKS; anything out of range makes
+ * the whole parse fail (null) rather than silently clamping.
+ */
+
+export interface ReferenceRange {
+  start: VerseLocation;
+  end: VerseLocation;
+}
+
+// Common abbreviations, keyed by lowercase name with spaces and periods removed
+const BOOK_ALIASES: Record<string, string> = {
+  ge: "genesis", gen: "genesis", gn: "genesis",
+  ex: "exodus", exo: "exodus", exod: "exodus",
+  le: "leviticus", lev: "leviticus", lv: "leviticus",
+  nu: "numbers", num: "numbers", nm: "numbers", nb: "numbers",
+  de: "deuteronomy", deut: "deuteronomy", dt: "deuteronomy",
+  jos: "joshua", josh: "joshua", jsh: "joshua",
+  jdg: "judges", jdgs: "judges", jg: "judges", judg: "judges",
+  ru: "ruth", rth: "ruth",
+  ezr: "ezra",
+  ne: "nehemiah", neh: "nehemiah",
+  es: "esther", est: "esther", esth: "esther",
+  jb: "job",
+  ps: "psalms", psa: "psalms", psalm: "psalms", pss: "psalms", psm: "psalms", pslm: "psalms",
+  pr: "proverbs", prov: "proverbs", prv: "proverbs",
+  ec: "ecclesiastes", ecc: "ecclesiastes", eccl: "ecclesiastes", eccles: "ecclesiastes", qoh: "ecclesiastes",
+  song: "song-of-solomon", sos: "song-of-solomon", songofsongs: "song-of-solomon", cant: "song-of-solomon", canticles: "song-of-solomon",
+  is: "isaiah", isa: "isaiah",
+  je: "jeremiah", jer: "jeremiah", jr: "jeremiah",
+  la: "lamentations", lam: "lamentations",
+  eze: "ezekiel", ezek: "ezekiel", ezk: "ezekiel",
+  da: "daniel", dan: "daniel", dn: "daniel",
+  ho: "hosea", hos: "hosea",
+  joe: "joel", jl: "joel",
+  am: "amos",
+  ob: "obadiah", obad: "obadiah",
+  jon: "jonah", jnh: "jonah",
+  mc: "micah", mic: "micah",
+  na: "nahum", nah: "nahum",
+  hab: "habakkuk", hb: "habakkuk",
+  zep: "zephaniah", zeph: "zephaniah", zp: "zephaniah",
+  hag: "haggai", hg: "haggai",
+  zc: "zechariah", zec: "zechariah", zech: "zechariah",
+  mal: "malachi", ml: "malachi",
+  mat: "matthew", matt: "matthew", mt: "matthew",
+  mar: "mark", mk: "mark", mrk: "mark",
+  lk: "luke", luk: "luke",
+  jhn: "john", jn: "john", joh: "john",
+  ac: "acts", act: "acts",
+  rm: "romans", ro: "romans", rom: "romans",
+  ga: "galatians", gal: "galatians",
+  eph: "ephesians", ephes: "ephesians",
+  phil: "philippians", php: "philippians",
+  col: "colossians",
+  ti: "titus", tit: "titus",
+  philem: "philemon", phlm: "philemon", phm: "philemon",
+  heb: "hebrews",
+  jas: "james", jm: "james",
+  jd: "jude",
+  re: "revelation", rev: "revelation", rv: "revelation", apoc: "revelation", revelations: "revelation",
+};
+
+// Abbreviations for numbered books; the ordinal is supplied separately ("1 Cor" -> "1-corinthians")
+const NUMBERED_BOOK_ALIASES: Record<string, string> = {
+  s: "samuel", sa: "samuel", sam: "samuel", sm: "samuel",
+  k: "kings", kgs: "kings", ki: "kings", kin: "kings",
+  ch: "chronicles", chr: "chronicles", chron: "chronicles",
+  co: "corinthians", cor: "corinthians",
+  th: "thessalonians", thes: "thessalonians", thess: "thessalonians",
+  ti: "timothy", tim: "timothy", tm: "timothy",
+  p: "peter", pe: "peter", pet: "peter", pt: "peter",
+  j: "john", jn: "john", jhn: "john", jo: "john", joh: "john",
+};
+
+const ORDINALS: Record<string, number> = {
+  "1": 1, i: 1, "1st": 1, first: 1,
+  "2": 2, ii: 2, "2nd": 2, second: 2,
+  "3": 3, iii: 3, "3rd": 3, third: 3,
+};
+
+// Roman numerals and words need a separator ("I Cor"), digits don't ("1Cor")
+const ORDINAL_PATTERN = /^(?:([123])(?:st|nd|rd)?\s*\.?\s*|(iii|ii|i|first|second|third)[\s.]+)(.+)$/i;
+
+function compactName(value: string): string {
+  return value.toLowerCase().replace(/[\s.\-_]+/g, "");
+}
+
+/**
+ * Resolve a book name or abbreviation ("Jn", "1 Cor", "I Samuel", "Song") to a book.
+ * Unknown or ambiguous names return null.
+ */
+export function resolveBookName(name: string): BibleBook | null {
+  const trimmed = name.trim();
+  if (!trimmed) return null;
+
+  const full = compactName(trimmed);
+
+  // Exact slug, name, or id ("1-john", "1 John", "1JN")
+  const exact = BIBLE_BOOKS.find(
+    (book) =>
+      compactName(book.slug) === full ||
+      compactName(book.name) === full ||
+      book.id.toLowerCase() === full
+  );
+  if (exact) return exact;
+
+  const ordinalMatch = trimmed.match(ORDINAL_PATTERN);
+  if (ordinalMatch) {
+    const ordinal = ORDINALS[(ordinalMatch[1] ?? ordinalMatch[2]).toLowerCase()];
+    const base = compactName(ordinalMatch[3]);
+    const aliased = NUMBERED_BOOK_ALIASES[base];
+    const candidates = BIBLE_BOOKS.filter((book) => book.slug.startsWith(`${ordinal}-`));
+
+    if (aliased) {
+      const book = BOOK_BY_SLUG[`${ordinal}-${aliased}`];
+      if (book) return book;
+    }
+    const exactNumbered = candidates.find(
+      (book) => compactName(book.slug.slice(2)) === base
+    );
+    if (exactNumbered) return exactNumbered;
+
+    return uniquePrefixMatch(candidates, base, (book) => compactName(book.slug.slice(2)));
+  }
+
+  const aliased = BOOK_ALIASES[full];
+  if (aliased) return BOOK_BY_SLUG[aliased] ?? null;
+
+  // Unnumbered books only: "John" must not resolve to "1 John"
+  const unnumbered = BIBLE_BOOKS.filter((book) => !/^\d/.test(book.slug));
+  return uniquePrefixMatch(unnumbered, full, (book) => compactName(book.name));
+}
+
+function uniquePrefixMatch(
+  books: BibleBook[],
+  prefix: string,
+  keyOf: (book: BibleBook) => string
+): BibleBook | null {
+  if (prefix.length < 2) return null;
+  const matches = books.filter((book) => keyOf(book).startsWith(prefix));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+function versesIn(book: BibleBook, chapter: number): number | null {
+  return book.chapters[chapter - 1] ?? null;
+}
+
+function makeRange(
+  book: BibleBook,
+  startChapter: number,
+  startVerse: number | null,
+  endChapter: number,
+  endVerse: number | null
+): ReferenceRange | null {
+  const startCount = versesIn(book, startChapter);
+  const endCount = versesIn(book, endChapter);
+  if (startCount === null || endCount === null) return null;
+
+  const start = { book, chapter: startChapter, verse: startVerse ?? 1 };
+  const end = { book, chapter: endChapter, verse: endVerse ?? endCount };
+
+  if (start.verse < 1 || start.verse > startCount) return null;
+  if (end.verse < 1 || end.verse > endCount) return null;
+  if (end.chapter < start.chapter) return null;
+  if (end.chapter === start.chapter && end.verse < start.verse) return null;
+
+  return { start, end };
+}
+
+// "3", "3:16", "3:16-18", "3:16-4:2", "23-24"
+const ITEM_PATTERN = /^(\d+)(?:[:.](\d+))?(?:-(\d+)(?:[:.](\d+))?)?$/;
+
+/**
+ * Parse the numeric part of one book's reference ("3:16-18, 20, 4:1").
+ */
+function parseItems(book: BibleBook, text: string): ReferenceRange[] | null {
+  const singleChapter = book.chapters.length === 1;
+  const ranges: ReferenceRange[] = [];
+  // Chapter that bare numbers refer to once a chapter:verse item has been seen
+  let verseChapter: number | null = singleChapter ? 1 : null;
+
+  for (const rawItem of text.split(",")) {
+    const item = rawItem.replace(/\s+/g, "");
+    const match = item.match(ITEM_PATTERN);
+    if (!match) return null;
+
+    const [, a, b, c, d] = match;
+    const first = parseInt(a, 10);
+    const second = b ? parseInt(b, 10) : null;
+    const third = c ? parseInt(c, 10) : null;
+    const fourth = d ? parseInt(d, 10) : null;
+    let range: ReferenceRange | null;
+
+    if (second !== null) {
+      // chapter:verse, optionally "-verse" or "-chapter:verse"
+      verseChapter = first;
+      range = fourth !== null
+        ? makeRange(book, first, second, third!, fourth)
+        : makeRange(book, first, second, first, third ?? second);
+    } else if (verseChapter !== null) {
+      // Bare verse numbers after "3:16," (or in a single-chapter book)
+      if (fourth !== null) {
+        range = makeRange(book, verseChapter, first, third!, fourth);
+        verseChapter = third;
+      } else {
+        range = makeRange(book, verseChapter, first, verseChapter, third ?? first);
+      }
+    } else if (fourth !== null) {
+      // "3-4:2": whole chapter 3 through 4:2
+      verseChapter = third;
+      range = makeRange(book, first, null, third!, fourth);
+    } else {
+      // Whole chapter or chapter range
+      range = makeRange(book, first, null, third ?? first, null);
+    }
+
+    if (!range) return null;
+    ranges.push(range);
+  }
+
+  return ranges;
+}
+
+/**
+ * Parse a free-form reference into validated verse ranges.
+ * Returns null when any part fails to parse or falls outside BIBLE_BOOKS.
+ */
+export function parseReference(input: string): ReferenceRange[] | null {
+  const normalized = input
+    .replace(/[–—]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!normalized || normalized.length > 200) return null;
+
+  const ranges: ReferenceRange[] = [];
+  let currentBook: BibleBook | null = null;
+
+  for (const rawGroup of normalized.split(";")) {
+    const group = rawGroup.trim();
+    if (!group) continue;
+
+    // Book name is everything before the first chapter number. A leading
+    // ordinal digit belongs to the name ("1 Cor 13"), so the chapter number
+    // is the last digit run preceded by a letter, period, or space.
+    const match = group.match(/^(.*?[a-z.])\s*(\d[\d\s:.,-]*)$/i);
+    let numbers: string;
+    if (match) {
+      const book = resolveBookName(match[1]);
+      if (!book) return null;
+      currentBook = book;
+      numbers = match[2];
+    } else if (currentBook && /^\d[\d\s:.,-]*$/.test(group)) {
+      numbers = group;
+    } else {
+      return null;
+    }
+
+    const parsed = parseItems(currentBook, numbers.replace(/[,\s]+$/, ""));
+    if (!parsed) return null;
+    ranges.push(...parsed);
+  }
+
+  return ranges.length > 0 ? ranges : null;
+}
+
+/**
+ * Expand ranges into every verse location they cover, in order.
+ */
+export function expandReferenceRanges(ranges: ReferenceRange[]): VerseLocation[] {
+  const locations: VerseLocation[] = [];
+  for (const { start, end } of ranges) {
+    for (let chapter = start.chapter; chapter <= end.chapter; chapter++) {
+      const first = chapter === start.chapter ? start.verse : 1;
+      const last = chapter === end.chapter ? end.verse : start.book.chapters[chapter - 1];
+      for (let verse = first; verse <= last; verse++) {
+        locations.push({ book: start.book, chapter, verse });
+      }
+    }
+  }
+  return locations;
+}
+
+/**
+ * Convert a range to a passage when it stays inside one chapter.
+ */
+export function referenceRangeToPassage(range: ReferenceRange): PassageLocation | null {
+  if (range.start.chapter !== range.end.chapter) return null;
+  return {
+    book: range.start.book,
+    chapter: range.start.chapter,
+    startVerse: range.start.verse,
+    endVerse: range.end.verse,
+  };
+}
+
+/**
+ * Page URL for a range. Whole chapters open the chapter reading page; ranges
+ * that cross chapters open at their first verse.
+ */
+export function referenceRangeToUrl(range: ReferenceRange): string {
+  const passage = referenceRangeToPassage(range);
+  if (!passage) return verseToUrl(range.start);
+  if (isWholeChapter(passage) && !isSingleVerse(passage)) {
+    return chapterToUrl(passage.book, passage.chapter);
+  }
+  return passageToUrl(passage);
+}
+
+/**
+ * Display label for a range ("John 3:16-21", "Psalms 23", "John 3:16-4:2").
+ */
+export function formatReferenceRange(range: ReferenceRange): string {
+  const passage = referenceRangeToPassage(range);
+  if (passage) return formatPassageReference(passage);
+
+  const { start, end } = range;
+  const startsAtChapter = start.verse === 1;
+  const endsAtChapter = end.verse === start.book.chapters[end.chapter - 1];
+  if (startsAtChapter && endsAtChapter) {
+    return `${start.book.name} ${start.chapter}-${end.chapter}`;
+  }
+  return `${start.book.name} ${start.chapter}:${start.verse}-${end.chapter}:${end.verse}`;
+}
+
+/**
+ * Canonical verseId for a reference. Parses first so equivalent spellings
+ * ("Ps 23", "Psalms 23:1-6") share the id of the page's own reference.
+ */
+export function verseIdForReference(reference: string): string {
+  const ranges = parseReference(reference);
+  if (ranges?.length === 1) {
+    return createVerseId(formatReferenceRange(ranges[0]));
+  }
+  return createVerseId(reference);
+}
+
+/**
+ * verseId that chat conversations are filed under. Chats opened without a
+ * full verse location share the "general" bucket.
+ */
+export function conversationVerseId(location?: {
+  book?: string;
+  chapter?: number;
+  verseRange?: string;
+}): string {
+  if (!location?.book || !location.chapter || !location.verseRange) {
+    return "general";
+  }
+  return verseIdForReference(`${location.book} ${location.chapter}:${location.verseRange}`);
+}
@@ -0,0 +1,82 @@
+import {
+  parseReference,
+  resolveBookName,
+  formatReferenceRange,
+  referenceRangeToUrl,
+} from "./reference-parser";
+
+/**
+ * Detection of scripture citations inside prose, e.g. chat answers.
+ *
+ * Prose is noisier than the search box, so detection is stricter than
+ * parseReference alone:
+ *   - the book name must be capitalized ("Romans 8:28", not "romans 8:28")
+ *   - chapter-only citations need the full book name ("Psalm 23", "Acts 2"),
+ *     so words like "Am 5" or "Is 3" are never linked
+ *   - every candidate must resolve against BIBLE_BOOKS through parseReference
+ */
+
+export interface ScriptureCitation {
+  start: number; // Offset of the citation in the source text
+  end: number; // Offset just past the citation
+  text: string; // Citation as written
+  reference: string; // Canonical label ("Romans 8:28")
+  href: string; // Page URL ("/romans/8/28")
+}
+
+// Optional ordinal, book word (or "Song of ..."), chapter, optional :verse and range
+const CITATION_PATTERN =
+  /\b(?:([123]|I{1,3})\s?)?(Song of (?:Solomon|Songs)|[A-Z][a-z]+\.?) (\d{1,3})(?::(\d{1,3})(?:[-–](\d{1,3})(?::(\d{1,3}))?)?)?(?![\w:])/g;
+
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[\s.]+/g, "");
+}
+
+function toCitation(
+  raw: string,
+  ordinal: string | undefined,
+  name: string,
+  verse: string | undefined
+): Pick<ScriptureCitation, "text" | "reference" | "href"> | null {
+  const bookName = ordinal ? `${ordinal} ${name}` : name;
+  const book = resolveBookName(bookName);
+  if (!book) return null;
+
+  if (verse === undefined) {
+    const written = compact(bookName);
+    const isFullName = written === compact(book.name) || written === "psalm";
+    if (!isFullName) return null;
+  }
+
+  const ranges = parseReference(raw);
+  if (ranges?.length !== 1) return null;
+
+  return {
+    text: raw,
+    reference: formatReferenceRange(ranges[0]),
+    href: referenceRangeToUrl(ranges[0]),
+  };
+}
+
+/**
+ * Find every resolvable scripture citation in a block of text, in order.
+ */
+export function findScriptureCitations(text: string): ScriptureCitation[] {
+  const citations: ScriptureCitation[] = [];
+  const pattern = new RegExp(CITATION_PATTERN);
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const [raw, ordinal, name, , verse] = match;
+    const start = match.index;
+    const citation = toCitation(raw, ordinal, name, verse);
+    if (citation) {
+      citations.push({ start, end: start + raw.length, ...citation });
+    } else {
+      // "See 1 Cor 13:4" first matches "See 1"; retry from the next word
+      pattern.lastIndex = start + 1;
+    }
+  }
+
+  return citations;
+}
@@ -0,0 +1,251 @@
+import { BIBLE_BOOKS, BibleBook } from "@/data/bible-structure";
+import { getChapter } from "./bible-api";
+import { getBibleTextProvider } from "./bible-text-provider";
+import { DEFAULT_TRANSLATION, Translation } from "./translations";
+
+/**
+ * Full-text scripture search.
+ *
+ * Query syntax:
+ *   grace faith          - verses containing every word
+ *   "love one another"   - exact phrase (word boundaries, case-insensitive)
+ *   book:romans grace    - restrict to a book (slug, name, or id; repeatable)
+ *   book:"1 john" love   - quoted book names
+ *
+ * Chapters are read through getChapter, so text comes from the configured
+ * BibleTextProvider and shares its chapter cache.
+ */
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Chapters fetched in parallel while scanning a book
+const CHAPTER_FETCH_CONCURRENCY = 8;
+
+// Phrase matches outrank scattered word matches
+const PHRASE_WEIGHT = 3;
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  books: BibleBook[];
+  /** book: filters that matched no book */
+  unknownBooks: string[];
+}
+
+export interface SearchResult {
+  book: string;
+  bookSlug: string;
+  chapter: number;
+  verse: number;
+  reference: string;
+  text: string;
+  url: string;
+  score: number;
+}
+
+export interface SearchResponse {
+  query: ParsedSearchQuery;
+  results: SearchResult[];
+  /** Total matches before the limit was applied */
+  total: number;
+  /** Chapters that could not be read (e.g. "Romans 4"); non-empty means results are partial */
+  missingChapters: string[];
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+/**
+ * Lowercase, drop apostrophes, and collapse punctuation to single spaces.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/['‘’]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function compact(value: string): string {
+  return normalizeSearchText(value).replace(/ /g, "");
+}
+
+/**
+ * Resolve a book: filter value against BIBLE_BOOKS slugs, names, and ids.
+ * "1-john", "1 John", "1john" and "1JN" all match 1 John.
+ */
+export function findBookForSearch(value: string): BibleBook | null {
+  const key = compact(value);
+  if (!key) return null;
+  return (
+    BIBLE_BOOKS.find(
+      (book) =>
+        compact(book.slug) === key ||
+        compact(book.name) === key ||
+        book.id.toLowerCase() === key
+    ) ?? null
+  );
+}
+
+/**
+ * Split a raw query into words, phrases, and book filters.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], books: [], unknownBooks: [] };
+  const tokenPattern = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+
+  for (const match of query.matchAll(tokenPattern)) {
+    const field = (match[1] ?? match[3])?.toLowerCase();
+    const fieldValue = match[2] ?? match[4];
+
+    if (field === "book" && fieldValue !== undefined) {
+      const book = findBookForSearch(fieldValue);
+      if (book) {
+        if (!parsed.books.includes(book)) parsed.books.push(book);
+      } else if (fieldValue.trim()) {
+        parsed.unknownBooks.push(fieldValue.trim());
+      }
+      continue;
+    }
+
+    if (match[5] !== undefined) {
+      const phrase = normalizeSearchText(match[5]);
+      if (!phrase) continue;
+      // A one-word phrase is just a term
+      if (phrase.includes(" ")) {
+        parsed.phrases.push(phrase);
+      } else {
+        parsed.terms.push(phrase);
+      }
+      continue;
+    }
+
+    // Plain words, including unknown "field:value" pairs
+    for (const word of normalizeSearchText(match[0]).split(" ")) {
+      if (word) parsed.terms.push(word);
+    }
+  }
+
+  parsed.terms = Array.from(new Set(parsed.terms));
+  parsed.phrases = Array.from(new Set(parsed.phrases));
+  return parsed;
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length - 1);
+  }
+  return count;
+}
+
+/**
+ * Score a verse against a parsed query. Returns 0 unless every term and
+ * phrase matches. Longer verses are damped so focused matches rank first.
+ */
+export function scoreVerse(text: string, query: ParsedSearchQuery): number {
+  const normalized = normalizeSearchText(text);
+  if (!normalized) return 0;
+
+  // Pad so word-boundary checks are plain substring checks
+  const padded = ` ${normalized} `;
+  let hits = 0;
+
+  for (const term of query.terms) {
+    const count = countOccurrences(padded, ` ${term} `);
+    if (count === 0) return 0;
+    hits += count;
+  }
+
+  for (const phrase of query.phrases) {
+    const count = countOccurrences(padded, ` ${phrase} `);
+    if (count === 0) return 0;
+    hits += count * PHRASE_WEIGHT;
+  }
+
+  const wordCount = normalized.split(" ").length;
+  return hits / Math.sqrt(wordCount);
+}
+
+/**
+ * Search the Bible text in one translation.
+ * Throws SearchQueryError for queries that can't be run (empty, unknown book,
+ * or an unscoped search against a rate-limited provider).
+ */
+export async function searchScripture(
+  rawQuery: string,
+  translation: Translation = DEFAULT_TRANSLATION,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): Promise<SearchResponse> {
+  if (rawQuery.length > MAX_SEARCH_QUERY_LENGTH) {
+    throw new SearchQueryError(`Query must be ${MAX_SEARCH_QUERY_LENGTH} characters or fewer`);
+  }
+
+  const query = parseSearchQuery(rawQuery);
+  if (query.unknownBooks.length > 0) {
+    throw new SearchQueryError(`Unknown book: ${query.unknownBooks[0]}`);
+  }
+  if (query.terms.length === 0 && query.phrases.length === 0) {
+    throw new SearchQueryError("Enter a word or phrase to search for");
+  }
+  if (query.books.length === 0 && !getBibleTextProvider().bulkReads) {
+    throw new SearchQueryError(
+      'Add a book filter to search, e.g. book:romans grace'
+    );
+  }
+
+  const books = query.books.length > 0 ? query.books : BIBLE_BOOKS;
+  const matches: SearchResult[] = [];
+  const missingChapters: string[] = [];
+
+  for (const book of books) {
+    const chapterNumbers = book.chapters.map((_, index) => index + 1);
+
+    for (let i = 0; i < chapterNumbers.length; i += CHAPTER_FETCH_CONCURRENCY) {
+      const batch = chapterNumbers.slice(i, i + CHAPTER_FETCH_CONCURRENCY);
+      const chapters = await Promise.all(
+        batch.map((chapter) => getChapter(book.slug, chapter, translation))
+      );
+
+      for (const [index, chapterData] of chapters.entries()) {
+        if (!chapterData) {
+          missingChapters.push(`${book.name} ${batch[index]}`);
+          continue;
+        }
+        for (const verse of chapterData.verses) {
+          const score = scoreVerse(verse.text, query);
+          if (score === 0) continue;
+          matches.push({
+            book: book.name,
+            bookSlug: book.slug,
+            chapter: chapterData.chapter,
+            verse: verse.verse,
+            reference: `${book.name} ${chapterData.chapter}:${verse.verse}`,
+            text: verse.text,
+            url: `/${book.slug}/${chapterData.chapter}/${verse.verse}`,
+            score,
+          });
+        }
+      }
+    }
+  }
+
+  // Stable sort keeps canonical order among equal scores
+  matches.sort((a, b) => b.score - a.score);
+  const clampedLimit = Math.min(Math.max(1, Math.floor(limit)), MAX_SEARCH_LIMIT);
+
+  return {
+    query,
+    results: matches.slice(0, clampedLimit),
+    total: matches.length,
+    missingChapters,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Style profiles for image generation.
+ * Each profile is injected into the image prompt as a STYLE PROFILE block
+ * and recorded on saved images as promptInputs.styleProfileId.
+ */
+
+export type StyleProfileId =
+  | "classical"
+  | "stained-glass"
+  | "woodcut"
+  | "icon"
+  | "watercolor"
+  | "ink-sketch";
+
+export interface StyleProfile {
+  id: StyleProfileId;
+  label: string;
+  description: string; // short blurb for the style picker
+  rendering: string;
+  palette?: string;
+  lighting?: string;
+  materials?: string;
+  composition?: string;
+  negative: string;
+}
+
+// Every style fills the frame; none should come back as a framed artwork or photo
+const FULL_BLEED_NEGATIVE =
+  "Never render as a painting on a wall, gallery piece, or framed artwork—fill the entire canvas edge-to-edge.";
+
+export const STYLE_PROFILES: Record<StyleProfileId, StyleProfile> = {
+  classical: {
+    id: "classical",
+    label: "Classical Painterly",
+    description: "Epic, cinematic oil painting",
+    rendering:
+      "Stylized, painterly, biblical-era, mysterious, expansive; epic scale and reverent tone.",
+    palette: "Mature, grounded color; rich but restrained contrast.",
+    lighting: "Luminous, dramatic lighting.",
+    materials: "Gritty, raw texture; avoid polished digital smoothness.",
+    composition: "Cinematic, immersive viewpoint; heroic but grounded.",
+    negative:
+      `Avoid photorealism or a photographic look. Avoid childish/cartoonish styling. ${FULL_BLEED_NEGATIVE}`,
+  },
+  "stained-glass": {
+    id: "stained-glass",
+    label: "Stained Glass",
+    description: "Cathedral window of leaded glass",
+    rendering:
+      "Medieval cathedral stained glass; figures and landscape built from flat pieces of colored glass joined by dark lead lines.",
+    palette: "Jewel tones—deep cobalt, ruby, emerald, amber—with glowing highlights.",
+    lighting: "Light transmitted through the glass, as if backlit by the sun.",
+    materials: "Visible glass texture, bubbles and painted grisaille detail on the panes.",
+    composition: "Symmetrical, iconic arrangement; decorative border elements allowed within the glass.",
+    negative:
+      `Avoid photorealism, soft gradients, and 3D rendering. Do not show the surrounding church wall or window frame. ${FULL_BLEED_NEGATIVE}`,
+  },
+  woodcut: {
+    id: "woodcut",
+    label: "Woodcut Engraving",
+    description: "Bold black-and-white print, Dürer style",
+    rendering:
+      "Renaissance woodcut or engraving in the manner of Dürer and Doré; bold carved lines and cross-hatching.",
+    palette: "Black ink on warm off-white paper; no color, or at most one muted hand-tinted accent.",
+    lighting: "Strong chiaroscuro expressed through line density.",
+    materials: "Carved-block texture, ink spread, and slight paper grain.",
+    composition: "Dense, storytelling composition with clear silhouettes.",
+    negative:
+      `Avoid full color, photorealism, and smooth digital shading. ${FULL_BLEED_NEGATIVE}`,
+  },
+  icon: {
+    id: "icon",
+    label: "Icon Painting",
+    description: "Byzantine gold-leaf icon",
+    rendering:
+      "Byzantine and Orthodox icon painting; stylized, frontal figures with elongated proportions and solemn expressions.",
+    palette: "Gold leaf backgrounds, deep reds, ultramarine and earth pigments.",
+    lighting: "Flat, otherworldly light; halos in burnished gold, no cast shadows.",
+    materials: "Egg tempera on gessoed wood; fine craquelure and gilded surfaces.",
+    composition: "Hieratic scale and reverse perspective; central figures dominate.",
+    negative:
+      `Avoid naturalistic perspective, photorealism, and modern dress. ${FULL_BLEED_NEGATIVE}`,
+  },
+  watercolor: {
+    id: "watercolor",
+    label: "Watercolor",
+    description: "Soft washes on textured paper",
+    rendering:
+      "Loose, expressive watercolor illustration; atmospheric washes with selective crisp detail.",
+    palette: "Transparent, luminous color; soft earth tones with sky blues.",
+    lighting: "Diffuse natural light; white of the paper used for highlights.",
+    materials: "Cold-press paper texture, pigment blooms and wet-in-wet edges.",
+    composition: "Open, airy composition with generous negative space.",
+    negative:
+      `Avoid heavy outlines, photorealism, and digital airbrush smoothness. Avoid childish/cartoonish styling. ${FULL_BLEED_NEGATIVE}`,
+  },
+  "ink-sketch": {
+    id: "ink-sketch",
+    label: "Ink Sketch",
+    description: "Quick pen-and-ink study",
+    rendering:
+      "Pen-and-ink sketchbook study; confident gestural lines, hatching, and sparse wash.",
+    palette: "Sepia or black ink on cream paper; an optional single muted wash.",
+    lighting: "Implied light through hatching density.",
+    materials: "Nib and brush marks, uneven ink flow, visible paper tooth.",
+    composition: "Focused on the primary subject; edges may fade into loose strokes.",
+    negative:
+      `Avoid full color, photorealism, and polished digital rendering. ${FULL_BLEED_NEGATIVE}`,
+  },
+};
+
+export const DEFAULT_STYLE_PROFILE: StyleProfileId = "classical";
+
+/**
+ * Check if a value is a valid StyleProfileId
+ */
+export function isValidStyleProfile(value: string): value is StyleProfileId {
+  return Object.prototype.hasOwnProperty.call(STYLE_PROFILES, value);
+}
@@ -0,0 +1,81 @@
+/**
+ * Translation catalog shared by server and client code.
+ * Kept free of server-only imports so client components can use it directly.
+ */
+
+// Supported translations (keys match bible-api.com translation ids)
+export type Translation =
+  | 'web' | 'webbe' | 'kjv' | 'asv' | 'bbe' | 'darby' | 'dra' | 'ylt'
+  | 'oeb-cw' | 'oeb-us' | 'clementine' | 'almeida' | 'cherokee' | 'cuv' | 'bkr' | 'rccv';
+
+export const TRANSLATIONS: Record<Translation, { code: string; name: string; language: string; year?: number }> = {
+  // English translations
+  web: { code: 'WEB', name: 'World English Bible', language: 'English', year: 2000 },
+  webbe: { code: 'WEBBE', name: 'World English Bible (British)', language: 'English', year: 2000 },
+  kjv: { code: 'KJV', name: 'King James Version', language: 'English', year: 1611 },
+  asv: { code: 'ASV', name: 'American Standard Version', language: 'English', year: 1901 },
+  bbe: { code: 'BBE', name: 'Bible in Basic English', language: 'English', year: 1965 },
+  darby: { code: 'DARBY', name: 'Darby Bible', language: 'English', year: 1890 },
+  dra: { code: 'DRA', name: 'Douay-Rheims American', language: 'English', year: 1899 },
+  ylt: { code: 'YLT', name: "Young's Literal Translation", language: 'English', year: 1898 },
+  'oeb-cw': { code: 'OEB-CW', name: 'Open English Bible (Commonwealth)', language: 'English' },
+  'oeb-us': { code: 'OEB-US', name: 'Open English Bible (US)', language: 'English' },
+  // Latin
+  clementine: { code: 'CLEM', name: 'Clementine Latin Vulgate', language: 'Latin', year: 1592 },
+  // Portuguese
+  almeida: { code: 'ALM', name: 'João Ferreira de Almeida', language: 'Portuguese', year: 1819 },
+  // Cherokee
+  cherokee: { code: 'CHR', name: 'Cherokee New Testament', language: 'Cherokee' },
+  // Chinese
+  cuv: { code: 'CUV', name: 'Chinese Union Version', language: 'Chinese', year: 1919 },
+  // Czech
+  bkr: { code: 'BKR', name: 'Bible Kralická', language: 'Czech', year: 1613 },
+  // Romanian
+  rccv: { code: 'RCCV', name: 'Romanian Corrected Cornilescu', language: 'Romanian' },
+};
+
+// Group translations by language for UI
+export const TRANSLATION_GROUPS = {
+  English: ['web', 'webbe', 'kjv', 'asv', 'bbe', 'darby', 'dra', 'ylt', 'oeb-cw', 'oeb-us'] as Translation[],
+  Other: ['clementine', 'almeida', 'cherokee', 'cuv', 'bkr', 'rccv'] as Translation[],
+};
+
+export const DEFAULT_TRANSLATION: Translation = 'web';
+
+// Extra translations shown next to the primary one in parallel view
+export const MAX_PARALLEL_TRANSLATIONS = 2;
+
+// BCP 47 tags for the lang attribute on non-primary text
+export const LANGUAGE_TAGS: Record<string, string> = {
+  English: 'en',
+  Latin: 'la',
+  Portuguese: 'pt',
+  Cherokee: 'chr',
+  Chinese: 'zh',
+  Czech: 'cs',
+  Romanian: 'ro',
+};
+
+/**
+ * Check that a value is an own key of TRANSLATIONS (no prototype keys).
+ */
+export function isTranslation(value: unknown): value is Translation {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRANSLATIONS, value);
+}
+
+/**
+ * Normalize a parallel translation list: valid keys only, no duplicates,
+ * never the primary translation, at most MAX_PARALLEL_TRANSLATIONS.
+ */
+export function normalizeParallelTranslations(
+  values: readonly unknown[],
+  primary: Translation
+): Translation[] {
+  const result: Translation[] = [];
+  for (const value of values) {
+    if (!isTranslation(value) || value === primary || result.includes(value)) continue;
+    result.push(value);
+    if (result.length === MAX_PARALLEL_TRANSLATIONS) break;
+  }
+  return result;
+}
@@ -0,0 +1,144 @@
+import { resolveBookName } from "./reference-parser";
+import { BOOK_BY_SLUG } from "@/data/bible-structure";
+
+/**
+ * Registry of recurring characters and places with canonical visual
+ * descriptions, so Moses looks like the same man from one verse to the next.
+ * Entries live in Convex (`visualRegistry`), are edited by admins and are
+ * scoped to the books/chapters where they apply. The generate-image route
+ * injects the entries its scene plan mentions into the prompt.
+ */
+
+export type RegistryEntryKind = "character" | "location";
+
+export interface RegistryScope {
+  book: string;
+  chapterStart?: number;
+  chapterEnd?: number;
+}
+
+export interface VisualRegistryEntry {
+  id: string;
+  kind: RegistryEntryKind;
+  name: string;
+  aliases: string[];
+  description: string;
+}
+
+// Snapshot recorded in promptInputs; descriptions can change after the image is made
+export interface RegistryPromptEntry {
+  id: string;
+  kind: RegistryEntryKind;
+  name: string;
+  description: string;
+}
+
+export const MAX_REGISTRY_NAME_LENGTH = 80;
+export const MAX_REGISTRY_DESCRIPTION_LENGTH = 600;
+export const MAX_REGISTRY_ALIASES = 10;
+export const MAX_REGISTRY_SCOPES = 20;
+
+// Keep the prompt focused; a crowded scene lists its main figures first
+export const MAX_PROMPT_REGISTRY_ENTRIES = 4;
+
+const SCOPE_PATTERN = /^(.+?)(?:\s+(\d+)(?:\s*-\s*(\d+))?)?$/;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentions(text: string, term: string): boolean {
+  const trimmed = term.trim();
+  if (!trimmed) return false;
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(trimmed)}($|[^a-z0-9])`, "i").test(text);
+}
+
+function mentionsEntry(text: string, entry: VisualRegistryEntry): boolean {
+  return [entry.name, ...entry.aliases].some((term) => mentions(text, term));
+}
+
+/**
+ * Registry entries mentioned by a scene plan's primary subject or secondary
+ * elements, primary subject matches first, capped at MAX_PROMPT_REGISTRY_ENTRIES.
+ * Names and aliases match whole words, case-insensitively.
+ */
+export function matchRegistryEntries(
+  entries: VisualRegistryEntry[],
+  scenePlan: { primarySubject: string; secondaryElements?: string }
+): VisualRegistryEntry[] {
+  const primary = entries.filter((entry) => mentionsEntry(scenePlan.primarySubject, entry));
+  const secondaryText = scenePlan.secondaryElements ?? "";
+  const secondary = entries.filter(
+    (entry) => !primary.includes(entry) && mentionsEntry(secondaryText, entry)
+  );
+  return [...primary, ...secondary].slice(0, MAX_PROMPT_REGISTRY_ENTRIES);
+}
+
+/**
+ * Prompt block describing the matched entries, in the same shape as the scene plan block.
+ */
+export function formatRegistryBlock(entries: RegistryPromptEntry[]): string {
+  if (entries.length === 0) return "";
+  const lines = [
+    "RECURRING CHARACTERS AND PLACES (keep their appearance consistent):",
+    ...entries.map((entry) => `- ${entry.name} (${entry.kind}): ${entry.description}`),
+  ];
+  return `\n\n${lines.join("\n")}`;
+}
+
+export function toRegistryPromptEntry(entry: VisualRegistryEntry): RegistryPromptEntry {
+  return {
+    id: entry.id,
+    kind: entry.kind,
+    name: entry.name,
+    description: entry.description,
+  };
+}
+
+/**
+ * Parse an editor scope list such as "Exodus; Numbers 1-20; Deuteronomy 34".
+ * Items are separated by semicolons or new lines. Returns null when a book
+ * can't be resolved or a chapter is out of range.
+ */
+export function parseRegistryScopes(text: string): RegistryScope[] | null {
+  const items = text
+    .split(/[;\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  const scopes: RegistryScope[] = [];
+  for (const item of items) {
+    const match = SCOPE_PATTERN.exec(item);
+    if (!match) return null;
+    const book = resolveBookName(match[1]);
+    if (!book) return null;
+
+    if (!match[2]) {
+      scopes.push({ book: book.slug });
+      continue;
+    }
+    const chapterStart = Number.parseInt(match[2], 10);
+    const chapterEnd = match[3] ? Number.parseInt(match[3], 10) : chapterStart;
+    if (chapterStart < 1 || chapterEnd < chapterStart || chapterEnd > book.chapters.length) {
+      return null;
+    }
+    scopes.push({ book: book.slug, chapterStart, chapterEnd });
+  }
+  return scopes.slice(0, MAX_REGISTRY_SCOPES);
+}
+
+/**
+ * Inverse of parseRegistryScopes, for showing stored scopes in the editor.
+ */
+export function formatRegistryScopes(scopes: RegistryScope[]): string {
+  return scopes
+    .map((scope) => {
+      const name = BOOK_BY_SLUG[scope.book]?.name ?? scope.book;
+      if (scope.chapterStart === undefined) return name;
+      if (scope.chapterEnd === undefined || scope.chapterEnd === scope.chapterStart) {
+        return `${name} ${scope.chapterStart}`;
+      }
+      return `${name} ${scope.chapterStart}-${scope.chapterEnd}`;
+    })
+    .join("; ");
+}
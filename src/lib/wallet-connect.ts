@@ -0,0 +1,36 @@
+/**
+ * Messages from the Convex wallet functions that are safe and useful to show
+ * the user (bad settings, unreachable wallet, failed payment). Anything else
+ * is an internal error.
+ */
+const USER_FACING_WALLET_ERRORS = [
+  "Budget must be",
+  "Auto-refill",
+  "Unknown auto-refill bundle",
+  "Invalid wallet connection URI",
+  "Wallet connection needs",
+  "Could not reach the wallet",
+  "This wallet connection isn't allowed",
+  "No wallet connected",
+  "Wallet payment failed",
+  "Your wallet connection can't be used",
+  "Top-up of",
+  "Invoice has expired",
+  "Invoice not found",
+];
+
+/**
+ * The user-facing part of a Convex wallet error, or null for internal errors.
+ * Convex wraps thrown messages in request ids and stack lines, so this
+ * returns only the rest of the line the message starts on.
+ */
+export function getWalletErrorMessage(error: unknown): string | null {
+  if (!(error instanceof Error)) return null;
+  for (const prefix of USER_FACING_WALLET_ERRORS) {
+    const start = error.message.indexOf(prefix);
+    if (start !== -1) {
+      return error.message.slice(start).split("\n")[0].trim();
+    }
+  }
+  return null;
+}
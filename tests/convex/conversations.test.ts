@@ -0,0 +1,26 @@
+/**
+ * Unit tests for saved chat conversation helpers.
+ */
+
+import { describe, it, expect } from "vitest";
+import { deriveConversationTitle } from "../../convex/conversations";
+
+describe("deriveConversationTitle", () => {
+  it("should use short first messages as-is", () => {
+    expect(deriveConversationTitle("  What does   grace mean here? ")).toBe(
+      "What does grace mean here?"
+    );
+  });
+
+  it("should cut long messages at a word boundary", () => {
+    const title = deriveConversationTitle(
+      "Why does the author compare the kingdom of heaven to a mustard seed rather than a great tree?"
+    );
+    expect(title).toBe("Why does the author compare the kingdom of heaven to a…");
+    expect(title.length).toBeLessThanOrEqual(61);
+  });
+
+  it("should fall back for empty messages", () => {
+    expect(deriveConversationTitle("   ")).toBe("New conversation");
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for the credit bundle catalog.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  bundleCredits,
+  resolveCreditPurchase,
+  usdToSats,
+  CREDIT_BUNDLES,
+  CREDITS_PER_USD,
+  CUSTOM_BUNDLE_ID,
+  DEFAULT_BUNDLE_ID,
+  MAX_CUSTOM_USD,
+  MIN_CUSTOM_USD,
+} from "../../convex/creditBundles";
+
+describe("CREDIT_BUNDLES", () => {
+  it("should include the default bundle", () => {
+    expect(CREDIT_BUNDLES.some((bundle) => bundle.id === DEFAULT_BUNDLE_ID)).toBe(true);
+  });
+
+  it("should price base credits at the base rate", () => {
+    for (const bundle of CREDIT_BUNDLES) {
+      expect(bundle.baseCredits).toBe(bundle.amountUsd * CREDITS_PER_USD);
+      expect(bundle.bonusCredits).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("should never give fewer credits per dollar for a larger bundle", () => {
+    const rates = [...CREDIT_BUNDLES]
+      .sort((a, b) => a.amountUsd - b.amountUsd)
+      .map((bundle) => bundleCredits(bundle) / bundle.amountUsd);
+    for (let i = 1; i < rates.length; i++) {
+      expect(rates[i]).toBeGreaterThanOrEqual(rates[i - 1]);
+    }
+  });
+});
+
+describe("resolveCreditPurchase", () => {
+  it("should include the bonus for a catalog bundle", () => {
+    const bundle = CREDIT_BUNDLES.find((candidate) => candidate.bonusCredits > 0)!;
+    expect(resolveCreditPurchase(bundle.id)).toEqual({
+      bundleId: bundle.id,
+      amountUsd: bundle.amountUsd,
+      credits: bundle.baseCredits + bundle.bonusCredits,
+    });
+  });
+
+  it("should ignore a custom amount for a catalog bundle", () => {
+    expect(resolveCreditPurchase(DEFAULT_BUNDLE_ID, 50)?.amountUsd).not.toBe(50);
+  });
+
+  it("should reject an unknown bundle", () => {
+    expect(resolveCreditPurchase("platinum")).toBeNull();
+  });
+
+  it("should price a custom amount at the base rate", () => {
+    expect(resolveCreditPurchase(CUSTOM_BUNDLE_ID, 7)).toEqual({
+      bundleId: CUSTOM_BUNDLE_ID,
+      amountUsd: 7,
+      credits: 7 * CREDITS_PER_USD,
+    });
+  });
+
+  it("should reject custom amounts outside the bounds or not in whole dollars", () => {
+    expect(resolveCreditPurchase(CUSTOM_BUNDLE_ID)).toBeNull();
+    expect(resolveCreditPurchase(CUSTOM_BUNDLE_ID, MIN_CUSTOM_USD - 1)).toBeNull();
+    expect(resolveCreditPurchase(CUSTOM_BUNDLE_ID, MAX_CUSTOM_USD + 1)).toBeNull();
+    expect(resolveCreditPurchase(CUSTOM_BUNDLE_ID, 2.5)).toBeNull();
+    expect(resolveCreditPurchase(CUSTOM_BUNDLE_ID, Number.NaN)).toBeNull();
+  });
+});
+
+describe("usdToSats", () => {
+  it("should convert at the BTC rate, rounded to the nearest sat", () => {
+    expect(usdToSats(3, 100_000)).toBe(3000);
+    expect(usdToSats(10, 60_000)).toBe(16_667);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for gift code generation, normalization and redemption rules.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  formatGiftCode,
+  generateGiftCode,
+  getGiftCodeRedemptionError,
+  isWellFormedGiftCode,
+  normalizeGiftCode,
+  validateGiftCodeOptions,
+  MAX_GIFT_CODE_CREDITS,
+} from "../../convex/giftCodes";
+
+const NOW = 1_700_000_000_000;
+
+describe("generateGiftCode", () => {
+  it("should generate well-formed codes without ambiguous characters", () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generateGiftCode();
+      expect(isWellFormedGiftCode(code)).toBe(true);
+      expect(code).not.toMatch(/[01ILO]/);
+    }
+  });
+
+  it("should redraw bytes that would bias the alphabet", () => {
+    let calls = 0;
+    const code = generateGiftCode((bytes) => {
+      // First draw is all biased bytes, second is all zeros
+      bytes.fill(calls++ === 0 ? 255 : 0);
+      return bytes;
+    });
+    expect(calls).toBe(2);
+    expect(code).toBe("222222222222");
+  });
+});
+
+describe("normalizeGiftCode / formatGiftCode", () => {
+  it("should accept codes typed in lowercase with spaces or dashes", () => {
+    expect(normalizeGiftCode(" abcd-efgh jkmn ")).toBe("ABCDEFGHJKMN");
+  });
+
+  it("should round-trip the display form", () => {
+    const code = generateGiftCode();
+    const formatted = formatGiftCode(code);
+    expect(formatted).toMatch(/^\w{4}-\w{4}-\w{4}$/);
+    expect(normalizeGiftCode(formatted)).toBe(code);
+  });
+
+  it("should reject codes that could not have been generated", () => {
+    expect(isWellFormedGiftCode("ABCDEFGHJKM")).toBe(false);
+    expect(isWellFormedGiftCode("ABCDEFGHJKM0")).toBe(false);
+    expect(isWellFormedGiftCode("ABCDEFGHJKMN")).toBe(true);
+  });
+});
+
+describe("validateGiftCodeOptions", () => {
+  const options = { credits: 300, maxRedemptions: 10, perSessionLimit: 1, expiresAt: NOW + 60_000 };
+
+  it("should accept sensible options", () => {
+    expect(validateGiftCodeOptions(options, NOW)).toBeNull();
+    expect(validateGiftCodeOptions({ ...options, perSessionLimit: undefined }, NOW)).toBeNull();
+  });
+
+  it("should reject out-of-range credits and redemptions", () => {
+    expect(validateGiftCodeOptions({ ...options, credits: 0 }, NOW)).toMatch(/^Credits must be/);
+    expect(validateGiftCodeOptions({ ...options, credits: MAX_GIFT_CODE_CREDITS + 1 }, NOW)).toMatch(
+      /^Credits must be/
+    );
+    expect(validateGiftCodeOptions({ ...options, maxRedemptions: 1.5 }, NOW)).toMatch(
+      /^Max redemptions must be/
+    );
+  });
+
+  it("should reject a per-session limit above the max redemptions", () => {
+    expect(validateGiftCodeOptions({ ...options, perSessionLimit: 11 }, NOW)).toMatch(
+      /^Per-session limit must be/
+    );
+  });
+
+  it("should reject an expiry in the past", () => {
+    expect(validateGiftCodeOptions({ ...options, expiresAt: NOW }, NOW)).toBe(
+      "Expiry must be in the future"
+    );
+  });
+});
+
+describe("getGiftCodeRedemptionError", () => {
+  const giftCode = { expiresAt: NOW + 60_000, maxRedemptions: 2, redemptionCount: 0, perSessionLimit: 1 };
+
+  it("should allow a first redemption", () => {
+    expect(getGiftCodeRedemptionError(giftCode, 0, NOW)).toBeNull();
+  });
+
+  it("should refuse expired and fully redeemed codes", () => {
+    expect(getGiftCodeRedemptionError(giftCode, 0, NOW + 60_000)).toBe("This gift code has expired");
+    expect(getGiftCodeRedemptionError({ ...giftCode, redemptionCount: 2 }, 0, NOW)).toBe(
+      "This gift code has been fully redeemed"
+    );
+  });
+
+  it("should enforce the per-session limit only when set", () => {
+    expect(getGiftCodeRedemptionError(giftCode, 1, NOW)).toBe(
+      "This gift code has already been redeemed in this session"
+    );
+    expect(getGiftCodeRedemptionError({ ...giftCode, perSessionLimit: undefined }, 1, NOW)).toBeNull();
+  });
+});
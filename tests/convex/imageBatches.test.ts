@@ -0,0 +1,83 @@
+/**
+ * Unit tests for chapter illustration batch helpers.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  batchChargeAmount,
+  findMissingVerses,
+  nextPendingVerse,
+  summarizeBatchVerses,
+  BatchVerse,
+} from "../../convex/imageBatches";
+
+describe("findMissingVerses", () => {
+  it("should list verses without images in order", () => {
+    expect(findMissingVerses(5, [2, 4])).toEqual([1, 3, 5]);
+  });
+
+  it("should return nothing for a fully illustrated chapter", () => {
+    expect(findMissingVerses(3, [1, 2, 3])).toEqual([]);
+  });
+
+  it("should ignore image verses outside the chapter", () => {
+    expect(findMissingVerses(2, [7])).toEqual([1, 2]);
+  });
+});
+
+describe("nextPendingVerse", () => {
+  it("should pick the first pending verse", () => {
+    const verses: BatchVerse[] = [
+      { verse: 1, status: "done" },
+      { verse: 3, status: "failed" },
+      { verse: 4, status: "pending" },
+      { verse: 5, status: "pending" },
+    ];
+    expect(nextPendingVerse(verses)).toBe(4);
+  });
+
+  it("should wait while a verse is generating", () => {
+    const verses: BatchVerse[] = [
+      { verse: 1, status: "generating" },
+      { verse: 2, status: "pending" },
+    ];
+    expect(nextPendingVerse(verses)).toBeNull();
+  });
+
+  it("should return null when no verse is left", () => {
+    expect(nextPendingVerse([{ verse: 1, status: "done" }])).toBeNull();
+  });
+});
+
+describe("summarizeBatchVerses", () => {
+  it("should count verses by status", () => {
+    const verses: BatchVerse[] = [
+      { verse: 1, status: "done" },
+      { verse: 2, status: "done" },
+      { verse: 3, status: "failed" },
+      { verse: 4, status: "generating" },
+      { verse: 5, status: "pending" },
+    ];
+    expect(summarizeBatchVerses(verses)).toEqual({
+      pending: 1,
+      generating: 1,
+      done: 2,
+      failed: 1,
+      total: 5,
+    });
+  });
+});
+
+describe("batchChargeAmount", () => {
+  it("should charge what finished verses cost", () => {
+    expect(batchChargeAmount(100, 35)).toBe(35);
+  });
+
+  it("should never charge more than was reserved", () => {
+    expect(batchChargeAmount(100, 140)).toBe(100);
+  });
+
+  it("should charge nothing when every verse failed", () => {
+    expect(batchChargeAmount(100, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for async image job status transitions.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  canAdvanceImageJob,
+  isImageJobInFlight,
+  isTerminalImageJobStatus,
+  STALE_IMAGE_JOB_MS,
+} from "../../convex/imageJobs";
+
+const NOW = 1_700_000_000_000;
+
+describe("canAdvanceImageJob", () => {
+  it("should allow moving forward through the stages", () => {
+    expect(canAdvanceImageJob("queued", "planning")).toBe(true);
+    expect(canAdvanceImageJob("planning", "rendering")).toBe(true);
+    expect(canAdvanceImageJob("rendering", "saving")).toBe(true);
+    expect(canAdvanceImageJob("saving", "done")).toBe(true);
+  });
+
+  it("should allow skipping stages", () => {
+    expect(canAdvanceImageJob("queued", "rendering")).toBe(true);
+  });
+
+  it("should reject going backwards or repeating a stage", () => {
+    expect(canAdvanceImageJob("rendering", "planning")).toBe(false);
+    expect(canAdvanceImageJob("saving", "saving")).toBe(false);
+  });
+
+  it("should allow failing from any active stage", () => {
+    expect(canAdvanceImageJob("queued", "failed")).toBe(true);
+    expect(canAdvanceImageJob("saving", "failed")).toBe(true);
+  });
+
+  it("should never leave a terminal state", () => {
+    expect(canAdvanceImageJob("done", "failed")).toBe(false);
+    expect(canAdvanceImageJob("failed", "done")).toBe(false);
+    expect(canAdvanceImageJob("failed", "failed")).toBe(false);
+  });
+});
+
+describe("isTerminalImageJobStatus", () => {
+  it("should treat only done and failed as terminal", () => {
+    expect(isTerminalImageJobStatus("done")).toBe(true);
+    expect(isTerminalImageJobStatus("failed")).toBe(true);
+    expect(isTerminalImageJobStatus("rendering")).toBe(false);
+  });
+});
+
+describe("isImageJobInFlight", () => {
+  it("should treat an active job with recent progress as in flight", () => {
+    expect(isImageJobInFlight({ status: "rendering", updatedAt: NOW - 60_000 }, NOW)).toBe(true);
+  });
+
+  it("should stop once the job finishes or times out", () => {
+    expect(isImageJobInFlight({ status: "done", updatedAt: NOW }, NOW)).toBe(false);
+    expect(isImageJobInFlight({ status: "failed", updatedAt: NOW }, NOW)).toBe(false);
+    expect(
+      isImageJobInFlight({ status: "saving", updatedAt: NOW - STALE_IMAGE_JOB_MS }, NOW)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for image vote tallying and ranking.
+ */
+
+import { describe, it, expect } from "vitest";
+import { rankImagesByVotes } from "../../convex/imageVotes";
+
+const images = [
+  { id: "newest", createdAt: 300 },
+  { id: "middle", createdAt: 200 },
+  { id: "oldest", createdAt: 100 },
+];
+
+describe("rankImagesByVotes", () => {
+  it("should rank images by score", () => {
+    const ranking = rankImagesByVotes(images, [
+      { imageId: "oldest", value: 1 },
+      { imageId: "oldest", value: 1 },
+      { imageId: "middle", value: 1 },
+      { imageId: "newest", value: -1 },
+    ]);
+
+    expect(ranking.map((r) => r.imageId)).toEqual(["oldest", "middle", "newest"]);
+    expect(ranking[0]).toEqual({ imageId: "oldest", score: 2, upvotes: 2, downvotes: 0 });
+    expect(ranking[2]).toEqual({ imageId: "newest", score: -1, upvotes: 0, downvotes: 1 });
+  });
+
+  it("should break ties in favor of newer images", () => {
+    const ranking = rankImagesByVotes(images, [
+      { imageId: "oldest", value: 1 },
+      { imageId: "middle", value: 1 },
+    ]);
+
+    expect(ranking.map((r) => r.imageId)).toEqual(["middle", "oldest", "newest"]);
+  });
+
+  it("should include unvoted images and ignore votes for unknown images", () => {
+    const ranking = rankImagesByVotes(images, [{ imageId: "deleted", value: 1 }]);
+
+    expect(ranking.map((r) => r.imageId)).toEqual(["newest", "middle", "oldest"]);
+    expect(ranking.every((r) => r.score === 0)).toBe(true);
+  });
+});
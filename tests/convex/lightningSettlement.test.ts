@@ -0,0 +1,120 @@
+/**
+ * Tests for the Lightning settlement sweep, driven by the in-memory fake payment provider.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  planInvoiceSettlements,
+  settlementCandidates,
+} from "../../convex/lightningSettlement";
+import { createFakePaymentProvider, SETTLEMENT_GRACE_MS } from "../../convex/paymentProviders";
+
+const NOW = 1_700_000_000_000;
+
+async function createInvoices(count: number) {
+  const provider = createFakePaymentProvider({ now: () => NOW - 60_000 });
+  const hashes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    hashes.push((await provider.createInvoice(1000, `Visibible: inv-${i}`)).paymentHash);
+  }
+  return { provider, hashes };
+}
+
+describe("settlementCandidates", () => {
+  it("should skip invoices without a hash or past the grace period", () => {
+    expect(
+      settlementCandidates(
+        [
+          { invoiceId: "open", paymentHash: "aa", expiresAt: NOW + 60_000 },
+          { invoiceId: "in-grace", paymentHash: "bb", expiresAt: NOW - 1000 },
+          { invoiceId: "old", paymentHash: "cc", expiresAt: NOW - SETTLEMENT_GRACE_MS - 1 },
+          { invoiceId: "no-hash", expiresAt: NOW + 60_000 },
+        ],
+        NOW
+      )
+    ).toEqual(["aa", "bb"]);
+  });
+});
+
+describe("planInvoiceSettlements", () => {
+  it("should confirm settled invoices and expire canceled ones", async () => {
+    const { provider, hashes } = await createInvoices(3);
+    provider.settle(hashes[0], NOW - 30_000);
+    provider.cancel(hashes[2]);
+    const invoices = hashes.map((paymentHash, i) => ({
+      invoiceId: `inv-${i}`,
+      paymentHash,
+      expiresAt: NOW + 60_000,
+    }));
+
+    const events = await provider.pollSettlements(settlementCandidates(invoices, NOW));
+    expect(planInvoiceSettlements(invoices, events, NOW)).toEqual([
+      { invoiceId: "inv-0", action: "confirm", paymentHash: hashes[0], settledAt: NOW - 30_000 },
+      { invoiceId: "inv-2", action: "expire" },
+    ]);
+  });
+
+  it("should confirm an invoice that settled before expiry during the grace period", async () => {
+    const { provider, hashes } = await createInvoices(2);
+    provider.settle(hashes[0], NOW - 2000);
+    const invoices = hashes.map((paymentHash, i) => ({
+      invoiceId: `inv-${i}`,
+      paymentHash,
+      expiresAt: NOW - 1000,
+    }));
+
+    const events = await provider.pollSettlements(settlementCandidates(invoices, NOW));
+    expect(
+      planInvoiceSettlements(invoices, events, NOW).map((decision) => [decision.invoiceId, decision.action])
+    ).toEqual([
+      ["inv-0", "confirm"],
+      ["inv-1", "expire"],
+    ]);
+  });
+
+  it("should expire invoices past the grace period or without a hash once expired", () => {
+    expect(
+      planInvoiceSettlements(
+        [
+          { invoiceId: "old", paymentHash: "aa", expiresAt: NOW - SETTLEMENT_GRACE_MS - 1 },
+          { invoiceId: "no-hash", expiresAt: NOW - 1 },
+          { invoiceId: "no-hash-open", expiresAt: NOW + 60_000 },
+        ],
+        [{ paymentHash: "aa", state: "settled" }],
+        NOW
+      )
+    ).toEqual([
+      { invoiceId: "old", action: "expire" },
+      { invoiceId: "no-hash", action: "expire" },
+    ]);
+  });
+
+  it("should leave invoices without an event for the next sweep", () => {
+    expect(
+      planInvoiceSettlements(
+        [
+          { invoiceId: "unreachable", paymentHash: "aa", expiresAt: NOW - 1000 },
+          { invoiceId: "paid", paymentHash: "BB", expiresAt: NOW + 60_000 },
+        ],
+        [{ paymentHash: "bb", state: "settled" }],
+        NOW
+      )
+    ).toEqual([{ invoiceId: "paid", action: "confirm", paymentHash: "BB", settledAt: undefined }]);
+  });
+
+  it("should confirm only one invoice per settled payment hash", () => {
+    expect(
+      planInvoiceSettlements(
+        [
+          { invoiceId: "first", paymentHash: "aa", expiresAt: NOW + 60_000 },
+          { invoiceId: "copy", paymentHash: "AA", expiresAt: NOW + 60_000 },
+        ],
+        [{ paymentHash: "aa", state: "settled" }],
+        NOW
+      )
+    ).toEqual([
+      { invoiceId: "first", action: "confirm", paymentHash: "aa", settledAt: undefined },
+      { invoiceId: "copy", action: "expire" },
+    ]);
+  });
+});
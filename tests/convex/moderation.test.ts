@@ -0,0 +1,44 @@
+/**
+ * Unit tests for image moderation status helpers.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  isImageVisible,
+  canPublishImage,
+  getModerationStatusForDecision,
+} from "../../convex/moderation";
+
+describe("isImageVisible", () => {
+  it("should show pending and approved images", () => {
+    expect(isImageVisible({ moderationStatus: "pending" })).toBe(true);
+    expect(isImageVisible({ moderationStatus: "approved" })).toBe(true);
+  });
+
+  it("should treat images saved before moderation as approved", () => {
+    expect(isImageVisible({})).toBe(true);
+  });
+
+  it("should hide taken-down images", () => {
+    expect(isImageVisible({ moderationStatus: "hidden" })).toBe(false);
+  });
+});
+
+describe("canPublishImage", () => {
+  it("should post approved images and images saved before moderation", () => {
+    expect(canPublishImage({ moderationStatus: "approved" })).toBe(true);
+    expect(canPublishImage({})).toBe(true);
+  });
+
+  it("should hold pending images and never post taken-down ones", () => {
+    expect(canPublishImage({ moderationStatus: "pending" })).toBe(false);
+    expect(canPublishImage({ moderationStatus: "hidden" })).toBe(false);
+  });
+});
+
+describe("getModerationStatusForDecision", () => {
+  it("should map admin decisions to statuses", () => {
+    expect(getModerationStatusForDecision("approve")).toBe("approved");
+    expect(getModerationStatusForDecision("hide")).toBe("hidden");
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests for the payment providers, run against a local fake LND / LNbits REST server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  getPaymentProvider,
+  createLndProvider,
+  createLnbitsProvider,
+  createFakePaymentProvider,
+  base64ToHex,
+  hexToBase64,
+  INVOICE_EXPIRY_SECONDS,
+} from "../../convex/paymentProviders";
+
+const MACAROON = "fake-invoice-macaroon";
+const LNBITS_KEY = "fake-lnbits-key";
+const NOW = 1_700_000_000_000;
+
+const hash = (char: string) => char.repeat(64);
+
+// Invoices known to the fake LND, by hex payment hash
+const lndInvoices: Record<string, { state: string; settle_date: string }> = {
+  [hash("a")]: { state: "SETTLED", settle_date: String((NOW - 60_000) / 1000) },
+  [hash("b")]: { state: "ACCEPTED", settle_date: "0" },
+  [hash("c")]: { state: "CANCELED", settle_date: "0" },
+};
+
+// Payments known to the fake LNbits wallet
+const lnbitsPayments: Record<
+  string,
+  { paid: boolean; details: { status: string; time?: number | string; paid_at?: string } }
+> = {
+  [hash("a")]: { paid: true, details: { status: "success", time: (NOW - 60_000) / 1000 } },
+  [hash("b")]: { paid: false, details: { status: "pending" } },
+  [hash("c")]: { paid: false, details: { status: "failed" } },
+  [hash("d")]: {
+    paid: true,
+    details: {
+      status: "success",
+      time: new Date(NOW - 120_000).toISOString(),
+      paid_at: new Date(NOW - 30_000).toISOString(),
+    },
+  },
+  [hash("e")]: { paid: true, details: { status: "success" } },
+};
+
+let server: Server;
+let baseUrl: string;
+let lastCreateBody: Record<string, unknown> | null = null;
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return JSON.parse(body);
+}
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const json = (status: number, body: unknown) =>
+      res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+
+    // Fake LND REST
+    if (url.pathname.startsWith("/v1/")) {
+      if (req.headers["grpc-metadata-macaroon"] !== MACAROON) return json(401, { message: "bad macaroon" });
+      if (req.method === "POST" && url.pathname === "/v1/invoices") {
+        lastCreateBody = await readBody(req);
+        return json(200, { r_hash: hexToBase64(hash("d")), payment_request: "lnbc1fakelnd" });
+      }
+      const rHash = url.searchParams.get("r_hash");
+      const hexHash = rHash ? base64ToHex(rHash) : url.pathname.replace("/v1/invoice/", "");
+      const invoice = lndInvoices[hexHash];
+      return invoice ? json(200, invoice) : json(404, { message: "unable to locate invoice" });
+    }
+
+    // Fake LNbits
+    if (req.headers["x-api-key"] !== LNBITS_KEY) return json(401, { detail: "Invalid key" });
+    if (req.method === "POST" && url.pathname === "/api/v1/payments") {
+      lastCreateBody = await readBody(req);
+      return json(201, { payment_hash: hash("E"), payment_request: "lnbc1fakelnbits" });
+    }
+    const payment = lnbitsPayments[url.pathname.replace("/api/v1/payments/", "")];
+    return payment ? json(200, payment) : json(404, { detail: "Payment does not exist." });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("getPaymentProvider", () => {
+  it("should default to LND and need its host and macaroon", () => {
+    expect(getPaymentProvider({ LND_HOST: "node.example" })).toBeNull();
+    expect(getPaymentProvider({ LND_INVOICE_MACAROON: MACAROON })).toBeNull();
+    expect(getPaymentProvider({ LND_HOST: "node.example", LND_INVOICE_MACAROON: MACAROON })?.name).toBe("lnd");
+  });
+
+  it("should pick LNbits when configured", () => {
+    expect(getPaymentProvider({ PAYMENT_PROVIDER: "lnbits", LNBITS_URL: baseUrl })).toBeNull();
+    expect(
+      getPaymentProvider({ PAYMENT_PROVIDER: "lnbits", LNBITS_URL: baseUrl, LNBITS_INVOICE_KEY: LNBITS_KEY })?.name
+    ).toBe("lnbits");
+  });
+
+  it("should refuse the fake provider in production and unknown providers", () => {
+    expect(getPaymentProvider({ PAYMENT_PROVIDER: "fake" })?.name).toBe("fake");
+    expect(getPaymentProvider({ PAYMENT_PROVIDER: "fake", NODE_ENV: "production" })).toBeNull();
+    expect(getPaymentProvider({ PAYMENT_PROVIDER: "btcpay" })).toBeNull();
+  });
+});
+
+describe("createLndProvider", () => {
+  const lnd = () => createLndProvider({ baseUrl, macaroon: MACAROON });
+
+  it("should create invoices and store the payment hash as hex", async () => {
+    await expect(lnd().createInvoice(1500, "Visibible: inv-1")).resolves.toEqual({
+      paymentHash: hash("d"),
+      bolt11: "lnbc1fakelnd",
+    });
+    expect(lastCreateBody).toEqual({
+      value: "1500",
+      memo: "Visibible: inv-1",
+      expiry: String(INVOICE_EXPIRY_SECONDS),
+    });
+  });
+
+  it("should map LND invoice states", async () => {
+    await expect(lnd().lookupInvoice(hash("A"))).resolves.toEqual({
+      state: "settled",
+      settledAt: NOW - 60_000,
+    });
+    await expect(lnd().lookupInvoice(hash("b"))).resolves.toEqual({ state: "open" });
+    await expect(lnd().lookupInvoice(hash("c"))).resolves.toEqual({ state: "canceled" });
+  });
+
+  it("should throw for unknown invoices and a rejected macaroon", async () => {
+    await expect(lnd().lookupInvoice(hash("f"))).rejects.toThrow("404");
+    await expect(
+      createLndProvider({ baseUrl, macaroon: "wrong" }).lookupInvoice(hash("a"))
+    ).rejects.toThrow("401");
+  });
+
+  it("should leave unreachable invoices out of settlement events", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const events = await lnd().pollSettlements([hash("a"), hash("f"), hash("c")]);
+    expect(events.map((event) => [event.paymentHash, event.state])).toEqual([
+      [hash("a"), "settled"],
+      [hash("c"), "canceled"],
+    ]);
+    warn.mockRestore();
+  });
+});
+
+describe("createLnbitsProvider", () => {
+  const lnbits = () => createLnbitsProvider({ baseUrl, apiKey: LNBITS_KEY });
+
+  it("should create incoming payments", async () => {
+    await expect(lnbits().createInvoice(1500, "Visibible: inv-2")).resolves.toEqual({
+      paymentHash: hash("e"),
+      bolt11: "lnbc1fakelnbits",
+    });
+    expect(lastCreateBody).toEqual({
+      out: false,
+      amount: 1500,
+      memo: "Visibible: inv-2",
+      expiry: INVOICE_EXPIRY_SECONDS,
+    });
+  });
+
+  it("should map LNbits payment status", async () => {
+    await expect(lnbits().lookupInvoice(hash("a"))).resolves.toEqual({
+      state: "settled",
+      settledAt: NOW - 60_000,
+    });
+    await expect(lnbits().lookupInvoice(hash("b"))).resolves.toEqual({ state: "open" });
+    await expect(lnbits().lookupInvoice(hash("c"))).resolves.toEqual({ state: "canceled" });
+    await expect(
+      createLnbitsProvider({ baseUrl, apiKey: "wrong" }).lookupInvoice(hash("a"))
+    ).rejects.toThrow("401");
+  });
+
+  it("should prefer the LNbits paid time and accept ISO timestamps", async () => {
+    await expect(lnbits().lookupInvoice(hash("d"))).resolves.toEqual({
+      state: "settled",
+      settledAt: NOW - 30_000,
+    });
+    await expect(lnbits().lookupInvoice(hash("e"))).resolves.toEqual({ state: "settled" });
+  });
+});
+
+describe("createFakePaymentProvider", () => {
+  it("should settle and cancel invoices on demand", async () => {
+    const fake = createFakePaymentProvider({ now: () => NOW });
+    const first = await fake.createInvoice(1000, "memo");
+    const second = await fake.createInvoice(1000, "memo");
+    expect(first.paymentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.paymentHash).not.toBe(second.paymentHash);
+
+    await expect(fake.lookupInvoice(first.paymentHash)).resolves.toEqual({ state: "open" });
+    fake.settle(first.paymentHash);
+    fake.cancel(second.paymentHash);
+    await expect(fake.pollSettlements([first.paymentHash, second.paymentHash])).resolves.toEqual([
+      { paymentHash: first.paymentHash, state: "settled", settledAt: NOW },
+      { paymentHash: second.paymentHash, state: "canceled" },
+    ]);
+  });
+
+  it("should auto-settle from the creation time in the hash, across instances", async () => {
+    let now = NOW;
+    const creator = createFakePaymentProvider({ settleAfterMs: 5000, now: () => now });
+    const { paymentHash } = await creator.createInvoice(1000, "memo");
+
+    const elsewhere = createFakePaymentProvider({ settleAfterMs: 5000, now: () => now });
+    await expect(elsewhere.lookupInvoice(paymentHash)).resolves.toEqual({ state: "open" });
+    now = NOW + 5000;
+    await expect(elsewhere.lookupInvoice(paymentHash)).resolves.toEqual({
+      state: "settled",
+      settledAt: NOW + 5000,
+    });
+  });
+});
+
+describe("hash encoding", () => {
+  it("should round-trip between hex and base64", () => {
+    const hex = "5a6f6f626172" + "00ff".repeat(13);
+    expect(base64ToHex(hexToBase64(hex))).toBe(hex);
+    expect(hexToBase64("5a6f6f626172")).toBe("Wm9vYmFy");
+  });
+});
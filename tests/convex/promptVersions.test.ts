@@ -0,0 +1,66 @@
+/**
+ * Unit tests for the prompt version report.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  summarizePromptVersions,
+  REGENERATE_WINDOW_MS,
+  UNVERSIONED,
+} from "../../convex/promptVersions";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("summarizePromptVersions", () => {
+  it("should count images per version, newest version first", () => {
+    const stats = summarizePromptVersions(
+      [
+        { id: "a", verseId: "genesis-1-1", promptVersion: "2026-01-07", createdAt: 0 },
+        { id: "b", verseId: "genesis-1-2", promptVersion: "2026-10-19", createdAt: 0 },
+        { id: "c", verseId: "genesis-1-3", createdAt: 0 },
+      ],
+      [],
+      []
+    );
+    expect(stats.map((entry) => [entry.version, entry.images])).toEqual([
+      ["2026-10-19", 1],
+      ["2026-01-07", 1],
+      [UNVERSIONED, 1],
+    ]);
+  });
+
+  it("should count an image as regenerated when the next image of its verse follows within the window", () => {
+    const stats = summarizePromptVersions(
+      [
+        { id: "a", verseId: "genesis-1-1", promptVersion: "v1", createdAt: 0 },
+        { id: "b", verseId: "genesis-1-1", promptVersion: "v1", createdAt: 10 * HOUR },
+        { id: "c", verseId: "genesis-1-1", promptVersion: "v1", createdAt: 10 * HOUR + REGENERATE_WINDOW_MS },
+        { id: "d", verseId: "genesis-1-2", promptVersion: "v1", createdAt: 10 * HOUR + 1 },
+      ],
+      [],
+      []
+    );
+    expect(stats[0].regenerated).toBe(1);
+    expect(stats[0].regenerateRate).toBe(0.25);
+  });
+
+  it("should tally votes and feedback for the images' versions", () => {
+    const stats = summarizePromptVersions(
+      [
+        { id: "a", verseId: "genesis-1-1", promptVersion: "v2", createdAt: 0 },
+        { id: "b", verseId: "genesis-1-2", promptVersion: "v1", createdAt: 0 },
+      ],
+      [
+        { imageId: "a", value: 1 },
+        { imageId: "a", value: 1 },
+        { imageId: "b", value: -1 },
+        { imageId: "gone", value: 1 },
+      ],
+      ["b", "b", "gone"]
+    );
+    expect(stats).toMatchObject([
+      { version: "v2", upvotes: 2, downvotes: 0, feedback: 0 },
+      { version: "v1", upvotes: 0, downvotes: 1, feedback: 2 },
+    ]);
+  });
+});
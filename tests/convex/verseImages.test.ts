@@ -0,0 +1,57 @@
+/**
+ * Unit tests for verse image pinning rules.
+ */
+
+import { describe, it, expect } from "vitest";
+import { chooseCanonicalImage, canPinImage } from "../../convex/verseImages";
+import { isAdminSession } from "../../convex/lib/auth";
+
+const image = (id: string, createdAt: number, moderationStatus?: string) => ({
+  id,
+  verseId: "john-3-16",
+  createdAt,
+  moderationStatus,
+});
+
+describe("chooseCanonicalImage", () => {
+  it("should prefer the pinned image over newer images", () => {
+    const pinned = image("old", 1);
+    const newestFirst = [image("newest", 3), image("newer", 2), pinned];
+    expect(chooseCanonicalImage(pinned, newestFirst)?.id).toBe("old");
+  });
+
+  it("should fall back to the newest visible image when the pin is hidden", () => {
+    const pinned = image("pinned", 3, "hidden");
+    const newestFirst = [pinned, image("takenDown", 2, "hidden"), image("visible", 1, "approved")];
+    expect(chooseCanonicalImage(pinned, newestFirst)?.id).toBe("visible");
+  });
+
+  it("should use the newest image without a pin", () => {
+    expect(chooseCanonicalImage(null, [image("newest", 2), image("older", 1)])?.id).toBe("newest");
+  });
+
+  it("should return null when nothing is visible", () => {
+    expect(chooseCanonicalImage(image("pinned", 1, "hidden"), [])).toBeNull();
+  });
+});
+
+describe("canPinImage", () => {
+  it("should allow visible images of the same verse", () => {
+    expect(canPinImage(image("a", 1), "john-3-16")).toBe(true);
+    expect(canPinImage(image("a", 1, "pending"), "john-3-16")).toBe(true);
+  });
+
+  it("should reject missing, taken-down and other verses' images", () => {
+    expect(canPinImage(null, "john-3-16")).toBe(false);
+    expect(canPinImage(image("a", 1, "hidden"), "john-3-16")).toBe(false);
+    expect(canPinImage(image("a", 1), "john-3-17")).toBe(false);
+  });
+});
+
+describe("isAdminSession", () => {
+  it("should only let admin sessions pin", () => {
+    expect(isAdminSession({ tier: "admin" })).toBe(true);
+    expect(isAdminSession({ tier: "paid" })).toBe(false);
+    expect(isAdminSession(null)).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Unit tests for visual registry scope checks.
+ */
+
+import { describe, it, expect } from "vitest";
+import { registryEntryApplies } from "../../convex/visualRegistry";
+
+describe("registryEntryApplies", () => {
+  it("should apply everywhere without scopes", () => {
+    expect(registryEntryApplies([], "john", 3)).toBe(true);
+  });
+
+  it("should cover a whole book when chapters are omitted", () => {
+    expect(registryEntryApplies([{ book: "exodus" }], "exodus", 40)).toBe(true);
+    expect(registryEntryApplies([{ book: "exodus" }], "genesis", 1)).toBe(false);
+  });
+
+  it("should respect chapter ranges", () => {
+    const scopes = [{ book: "1-samuel", chapterStart: 16, chapterEnd: 17 }];
+    expect(registryEntryApplies(scopes, "1-samuel", 16)).toBe(true);
+    expect(registryEntryApplies(scopes, "1-samuel", 17)).toBe(true);
+    expect(registryEntryApplies(scopes, "1-samuel", 18)).toBe(false);
+  });
+
+  it("should treat a missing end as a single chapter", () => {
+    const scopes = [{ book: "deuteronomy", chapterStart: 34 }];
+    expect(registryEntryApplies(scopes, "deuteronomy", 34)).toBe(true);
+    expect(registryEntryApplies(scopes, "deuteronomy", 33)).toBe(false);
+  });
+});
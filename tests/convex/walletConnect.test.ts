@@ -0,0 +1,126 @@
+/**
+ * Tests for Nostr Wallet Connect settings, budgets, auto-refill and secret storage.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import {
+  AUTO_REFILL_COOLDOWN_MS,
+  isWithinWalletBudget,
+  shouldAutoRefill,
+  validateWalletSettings,
+} from "../../convex/walletConnect";
+import {
+  decryptWalletSecret,
+  encryptWalletSecret,
+  getWalletEncryptionKey,
+  preimageMatchesPaymentHash,
+} from "../../convex/walletConnectActions";
+
+const NOW = 1_700_000_000_000;
+
+describe("validateWalletSettings", () => {
+  it("should accept a budget alone", () => {
+    expect(validateWalletSettings({ budgetUsd: 10 })).toBeNull();
+  });
+
+  it("should reject budgets outside the top-up bounds or not whole dollars", () => {
+    expect(validateWalletSettings({ budgetUsd: 0 })).toMatch(/^Budget must be/);
+    expect(validateWalletSettings({ budgetUsd: 101 })).toMatch(/^Budget must be/);
+    expect(validateWalletSettings({ budgetUsd: 2.5 })).toMatch(/^Budget must be/);
+  });
+
+  it("should require threshold and bundle together", () => {
+    expect(validateWalletSettings({ budgetUsd: 10, autoRefillThreshold: 50 })).toBe(
+      "Auto-refill needs both a threshold and a bundle"
+    );
+    expect(validateWalletSettings({ budgetUsd: 10, autoRefillBundleId: "starter" })).toBe(
+      "Auto-refill needs both a threshold and a bundle"
+    );
+  });
+
+  it("should accept a catalog bundle within the budget", () => {
+    expect(
+      validateWalletSettings({ budgetUsd: 10, autoRefillThreshold: 50, autoRefillBundleId: "reader" })
+    ).toBeNull();
+  });
+
+  it("should reject bad thresholds, unknown bundles and bundles over budget", () => {
+    expect(
+      validateWalletSettings({ budgetUsd: 10, autoRefillThreshold: 0, autoRefillBundleId: "starter" })
+    ).toMatch(/threshold/);
+    expect(
+      validateWalletSettings({ budgetUsd: 10, autoRefillThreshold: 50, autoRefillBundleId: "custom" })
+    ).toBe("Unknown auto-refill bundle");
+    expect(
+      validateWalletSettings({ budgetUsd: 10, autoRefillThreshold: 50, autoRefillBundleId: "scholar" })
+    ).toBe("Auto-refill bundle costs more than the budget");
+  });
+});
+
+describe("isWithinWalletBudget", () => {
+  it("should allow top-ups up to and including the budget", () => {
+    expect(isWithinWalletBudget(10, 10)).toBe(true);
+    expect(isWithinWalletBudget(3, 10)).toBe(true);
+    expect(isWithinWalletBudget(25, 10)).toBe(false);
+  });
+});
+
+describe("shouldAutoRefill", () => {
+  const connection = { autoRefillThreshold: 50, autoRefillBundleId: "starter" };
+
+  it("should refill below the threshold", () => {
+    expect(shouldAutoRefill(connection, 49, NOW)).toBe(true);
+    expect(shouldAutoRefill(connection, 50, NOW)).toBe(false);
+  });
+
+  it("should not refill without auto-refill settings", () => {
+    expect(shouldAutoRefill({}, 0, NOW)).toBe(false);
+  });
+
+  it("should wait out the cooldown after a refill", () => {
+    expect(shouldAutoRefill({ ...connection, lastRefillAt: NOW - 1000 }, 0, NOW)).toBe(false);
+    expect(
+      shouldAutoRefill({ ...connection, lastRefillAt: NOW - AUTO_REFILL_COOLDOWN_MS }, 0, NOW)
+    ).toBe(true);
+  });
+});
+
+describe("wallet secret encryption", () => {
+  const key = randomBytes(32);
+
+  it("should round-trip a secret for the same session", () => {
+    const payload = encryptWalletSecret("wallet-secret", "sid-1", key);
+    expect(payload).not.toContain("wallet-secret");
+    expect(decryptWalletSecret(payload, "sid-1", key)).toBe("wallet-secret");
+  });
+
+  it("should refuse to decrypt for another session or key", () => {
+    const payload = encryptWalletSecret("wallet-secret", "sid-1", key);
+    expect(() => decryptWalletSecret(payload, "sid-2", key)).toThrow();
+    expect(() => decryptWalletSecret(payload, "sid-1", randomBytes(32))).toThrow();
+  });
+
+  it("should require a 32-byte hex key", () => {
+    expect(() => getWalletEncryptionKey({})).toThrow("Wallet Connect is not configured");
+    expect(() => getWalletEncryptionKey({ NWC_ENCRYPTION_KEY: "abc" })).toThrow(
+      "Wallet Connect is not configured"
+    );
+    expect(getWalletEncryptionKey({ NWC_ENCRYPTION_KEY: "ab".repeat(32) })).toHaveLength(32);
+  });
+});
+
+describe("preimageMatchesPaymentHash", () => {
+  const preimage = randomBytes(32).toString("hex");
+  const paymentHash = createHash("sha256").update(Buffer.from(preimage, "hex")).digest("hex");
+
+  it("should match the preimage of the payment hash", () => {
+    expect(preimageMatchesPaymentHash(preimage, paymentHash)).toBe(true);
+    expect(preimageMatchesPaymentHash(preimage, paymentHash.toUpperCase())).toBe(true);
+  });
+
+  it("should reject other or malformed preimages", () => {
+    expect(preimageMatchesPaymentHash(randomBytes(32).toString("hex"), paymentHash)).toBe(false);
+    expect(preimageMatchesPaymentHash("not-hex", paymentHash)).toBe(false);
+  });
+});